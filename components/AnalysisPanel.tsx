@@ -0,0 +1,88 @@
+import React from 'react';
+import { PlayerSlot } from '../engine/game';
+import { PlyAnalysis, Verdict } from '../engine/analysis';
+import { formatCell } from '../engine/notation';
+import { MessageKey, Translate } from '../engine/i18n';
+
+const VERDICTS: Record<Verdict, { label: MessageKey, color: string }> = {
+  BEST: { label: 'analysis.verdict.BEST', color: 'text-green-400' },
+  GOOD: { label: 'analysis.verdict.GOOD', color: 'text-gray-300' },
+  INACCURACY: { label: 'analysis.verdict.INACCURACY', color: 'text-yellow-300' },
+  MISTAKE: { label: 'analysis.verdict.MISTAKE', color: 'text-orange-400' },
+  BLUNDER: { label: 'analysis.verdict.BLUNDER', color: 'text-red-500' },
+};
+
+const DOT_COLORS: Partial<Record<Verdict, string>> = {
+  INACCURACY: '#fde047',
+  MISTAKE: '#fb923c',
+  BLUNDER: '#ef4444',
+};
+
+// Evaluation is clamped to ±GRAPH_RANGE points on the graph.
+const GRAPH_RANGE = 20;
+
+// Per-move evaluation graph (P1's point of view, above the line = P1 better)
+// plus the list of flagged moves. Clicking either jumps to that ply.
+export const AnalysisPanel = ({ t, analysis, total, isRunning, selected, onSelect, slotLabel }: {
+  t: Translate,
+  analysis: PlyAnalysis[],
+  total: number,
+  isRunning: boolean,
+  selected: number,
+  onSelect: (index: number) => void,
+  slotLabel: (slot: PlayerSlot) => string,
+}) => {
+  const width = Math.max(total, 1);
+  const y = (evaluation: number) => GRAPH_RANGE - Math.max(-GRAPH_RANGE, Math.min(GRAPH_RANGE, evaluation));
+  const points = [`0,${GRAPH_RANGE}`, ...analysis.map(a => `${a.index},${y(a.evaluation)}`)].join(' ');
+  const flagged = analysis.filter(a => a.verdict === 'MISTAKE' || a.verdict === 'BLUNDER');
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex justify-between items-center">
+        <p className="text-xs uppercase text-gray-500 font-bold">{t('analysis.title')}</p>
+        {isRunning && <span className="text-[10px] text-blue-300 animate-pulse">{analysis.length}/{total}</span>}
+      </div>
+
+      <svg viewBox={`0 0 ${width} ${GRAPH_RANGE * 2}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-900 rounded">
+        <line x1="0" y1={GRAPH_RANGE} x2={width} y2={GRAPH_RANGE} stroke="#4b5563" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+        {selected > 0 && (
+          <line x1={selected} y1="0" x2={selected} y2={GRAPH_RANGE * 2} stroke="#2563eb" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        )}
+        <polyline points={points} fill="none" stroke="#facc15" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        {analysis.map(a => DOT_COLORS[a.verdict] && (
+          <line
+            key={a.index}
+            x1={a.index} y1={y(a.evaluation)} x2={a.index} y2={y(a.evaluation) + 0.01}
+            stroke={DOT_COLORS[a.verdict]} strokeWidth="6" strokeLinecap="round" vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {analysis.map(a => (
+          <rect key={`hit-${a.index}`} x={a.index - 0.5} y="0" width="1" height={GRAPH_RANGE * 2} fill="transparent"
+            className="cursor-pointer" onClick={() => onSelect(a.index)}>
+            <title>{`${a.index}. ${formatCell(a.move)}: ${a.evaluation > 0 ? '+' : ''}${a.evaluation.toFixed(1)}`}</title>
+          </rect>
+        ))}
+      </svg>
+
+      {!isRunning && flagged.length === 0 && (
+        <p className="text-[11px] text-green-400">{t('analysis.clean')}</p>
+      )}
+      <ul className="max-h-32 overflow-y-auto text-[11px] space-y-1">
+        {flagged.map(a => (
+          <li key={a.index}>
+            <button onClick={() => onSelect(a.index)}
+              className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${a.index === selected ? 'bg-gray-700' : ''}`}>
+              <span className="font-mono text-gray-400">{a.index}. {formatCell(a.move)}</span>{' '}
+              <span className="text-gray-400">({slotLabel(a.mover)})</span>{' '}
+              <span className={`font-bold ${VERDICTS[a.verdict].color}`}>{t(VERDICTS[a.verdict].label)}</span>
+              <span className="text-gray-500"> −{a.loss.toFixed(1)}</span>
+              {a.allowsForcedExplosion && <span className="text-red-400"> · {t('analysis.allowsForced')}</span>}
+              <span className="text-green-400"> · {t('analysis.best', { cell: formatCell(a.bestMove) })}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
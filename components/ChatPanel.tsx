@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EMOTES, MAX_CHAT_LENGTH } from '../engine/protocol';
+import { Text, Translate, renderText } from '../engine/i18n';
+
+// System lines are translated when shown, so they follow a language switch.
+export type ChatLine =
+  | { from: 'me' | 'opponent', text: string }
+  | { from: 'system', text: Text };
+
+// Online chat log with quick emotes. System lines record offers and their answers.
+export const ChatPanel = ({ t, lines, disabled, onSend, onEmote }: {
+  t: Translate,
+  lines: ChatLine[],
+  disabled: boolean,
+  onSend: (text: string) => void,
+  onEmote: (emote: string) => void,
+}) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [lines.length]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      <p className="text-xs uppercase text-gray-500 font-bold">{t('chat.title')}</p>
+      <ol ref={listRef} className="max-h-32 overflow-y-auto text-[11px] space-y-0.5">
+        {lines.length === 0 && <li className="text-gray-600 italic">{t('chat.empty')}</li>}
+        {lines.map((line, i) => (
+          <li
+            key={i}
+            className={line.from === 'system' ? 'text-yellow-400/80 italic' : line.from === 'me' ? 'text-blue-300' : 'text-green-300'}
+          >
+            {line.from === 'system' ? renderText(t, line.text) : (
+              <><span className="font-bold">{t(line.from === 'me' ? 'chat.me' : 'chat.opponent')}: </span>{line.text}</>
+            )}
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-wrap gap-1">
+        {EMOTES.map(emote => (
+          <button
+            key={emote}
+            onClick={() => onEmote(emote)}
+            disabled={disabled}
+            className="bg-gray-900 hover:bg-gray-700 rounded px-1.5 py-0.5 text-sm disabled:opacity-40"
+          >
+            {emote}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          placeholder={t('chat.placeholder')}
+          value={draft}
+          maxLength={MAX_CHAT_LENGTH}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') send(); }}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+        />
+        <button
+          onClick={send}
+          disabled={disabled || !draft.trim()}
+          className="bg-blue-600 px-2 rounded text-white text-xs font-bold disabled:opacity-40"
+        >
+          {t('chat.send')}
+        </button>
+      </div>
+    </div>
+  );
+};
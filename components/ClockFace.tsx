@@ -0,0 +1,32 @@
+import React from 'react';
+import { LOW_TIME_MS, SideClock, TimeControl, isLowOnTime } from '../engine/clock';
+
+export const formatClock = (ms: number) => {
+  if (ms < LOW_TIME_MS) return (Math.floor(ms / 100) / 10).toFixed(1);
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// One side's clock inside a scoreboard card. Renders nothing for untimed sides.
+export const ClockFace = ({ side, control, isRunning }: {
+  side: SideClock,
+  control: TimeControl,
+  isRunning: boolean,
+}) => {
+  if (control.kind === 'NONE') return null;
+  const isLow = isLowOnTime(side, control);
+
+  return (
+    <div className={`mt-2 flex items-baseline justify-between font-mono rounded px-2 py-1
+      ${isRunning ? 'bg-black/40' : 'bg-black/20'}
+      ${isLow && isRunning ? 'text-red-400 animate-pulse' : isRunning ? 'text-white' : 'text-gray-400'}`}>
+      <span className="text-lg font-bold">{formatClock(side.remainingMs)}</span>
+      {control.kind === 'FISCHER' && <span className="text-[10px] text-gray-500">+{control.incrementMs / 1000}s</span>}
+      {control.kind === 'BYO_YOMI' && (
+        <span className="text-[10px] text-gray-500">
+          {side.inByoYomi ? `BY ×${side.periods + 1}` : `+${side.periods}×${control.periodMs / 1000}s`}
+        </span>
+      )}
+    </div>
+  );
+};
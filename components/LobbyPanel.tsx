@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { PlayerSlot } from '../engine/game';
+import { RULE_PRESETS, RuleSet, sameRules } from '../engine/rules';
+import { TIME_CONTROL_PRESETS, TimeControl, sameTimeControl } from '../engine/clock';
+import { TransportKind } from '../engine/transport';
+import { LobbyRoom, MAX_PASSWORD_LENGTH } from '../engine/lobbyProtocol';
+import { LobbyStatus } from '../engine/lobbyClient';
+import { MAX_NAME_LENGTH } from '../engine/protocol';
+import { MessageKey, Translate } from '../engine/i18n';
+
+const STATUS_LABELS: Record<LobbyStatus, MessageKey> = {
+  CONNECTING: 'lobby.status.CONNECTING',
+  ONLINE: 'lobby.status.ONLINE',
+  OFFLINE: 'lobby.status.OFFLINE',
+};
+
+const rulesLabel = (rules: RuleSet, t: Translate) => {
+  const preset = RULE_PRESETS.find(p => sameRules(p.rules, rules));
+  if (preset) return t(preset.label);
+  return t(rules.exactLength ? 'lobby.customRulesExact' : 'lobby.customRules', { size: rules.boardSize, length: rules.lineLength });
+};
+
+const controlLabel = (control: TimeControl, t: Translate) => {
+  const preset = TIME_CONTROL_PRESETS.find(p => sameTimeControl(p.control, control));
+  return t(preset ? preset.label : 'lobby.customTime');
+};
+
+const timeLabel = (controls: Record<PlayerSlot, TimeControl>, t: Translate) =>
+  sameTimeControl(controls.p1, controls.p2)
+    ? controlLabel(controls.p1, t)
+    : `${controlLabel(controls.p1, t)} / ${controlLabel(controls.p2, t)}`;
+
+// Online entry point: rooms waiting on the lobby server, quick-match, hosting
+// (optionally behind a password), and joining by room id when there is no lobby.
+export const LobbyPanel = ({ t, status, rooms, name, transport, onNameChange, onCreate, onQuickMatch, onJoin, onJoinById, onWatchById }: {
+  t: Translate,
+  status: LobbyStatus,
+  rooms: LobbyRoom[],
+  name: string,
+  transport: TransportKind,
+  onNameChange: (name: string) => void,
+  onCreate: (password: string | null) => void,
+  onQuickMatch: () => void,
+  onJoin: (id: string, password: string | null) => void,
+  onJoinById: (id: string) => void,
+  onWatchById: (id: string) => void,
+}) => {
+  const [hostPassword, setHostPassword] = useState('');
+  // A locked room the player picked and is typing its password for.
+  const [unlocking, setUnlocking] = useState<{ id: string, password: string } | null>(null);
+  const [roomCode, setRoomCode] = useState('');
+  const online = status === 'ONLINE';
+  const input = 'bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-gray-300">{t(STATUS_LABELS[status])}</span>
+        <span className="text-[10px] text-gray-500">{t('lobby.roomCount', { count: rooms.length })}</span>
+      </div>
+
+      <label className="flex items-center gap-2 text-[10px] text-gray-400">
+        <span className="w-16">{t('lobby.yourName')}</span>
+        <input
+          type="text"
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          placeholder={t('player.anonymous')}
+          onChange={(e) => onNameChange(e.target.value)}
+          className={`flex-1 ${input}`}
+        />
+      </label>
+
+      <button
+        onClick={onQuickMatch}
+        disabled={!online}
+        title={t('lobby.quickMatchHint')}
+        className="w-full bg-yellow-600 hover:bg-yellow-700 text-white text-xs py-2 rounded font-bold disabled:opacity-40"
+      >
+        ⚡ {t('lobby.quickMatch')}
+      </button>
+
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={hostPassword}
+          maxLength={MAX_PASSWORD_LENGTH}
+          placeholder={t('lobby.passwordOptional')}
+          onChange={(e) => setHostPassword(e.target.value)}
+          className={`flex-1 min-w-0 ${input}`}
+        />
+        <button
+          onClick={() => onCreate(hostPassword || null)}
+          className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs py-2 rounded font-bold"
+        >
+          {hostPassword && '🔒 '}{t('lobby.create')}
+        </button>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {rooms.length === 0 && (
+          <li className="text-[10px] text-gray-500 text-center py-2">
+            {t(online ? 'lobby.noRooms' : 'lobby.offlineRooms')}
+          </li>
+        )}
+        {rooms.map(room => {
+          const reachable = room.transport === transport;
+          return (
+            <li key={room.id} className="bg-gray-900/60 border border-gray-700 rounded p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-white truncate">{room.locked && '🔒 '}{room.hostName || t('player.anonymous')}</p>
+                  <p className="text-[10px] text-gray-400 truncate">{rulesLabel(room.rules, t)} · {timeLabel(room.timeControls, t)}</p>
+                </div>
+                <button
+                  onClick={() => room.locked ? setUnlocking({ id: room.id, password: '' }) : onJoin(room.id, null)}
+                  disabled={!reachable}
+                  title={reachable ? undefined : t('lobby.otherTransport', { transport: room.transport })}
+                  className="bg-blue-600 px-3 py-1 rounded text-white text-xs font-bold disabled:opacity-40"
+                >
+                  {t('lobby.join')}
+                </button>
+              </div>
+              {unlocking?.id === room.id && (
+                <div className="flex gap-1">
+                  <input
+                    type="password"
+                    autoFocus
+                    value={unlocking.password}
+                    placeholder={t('lobby.roomPassword')}
+                    onChange={(e) => setUnlocking({ id: room.id, password: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') onJoin(room.id, unlocking.password); }}
+                    className={`flex-1 min-w-0 ${input}`}
+                  />
+                  <button onClick={() => onJoin(room.id, unlocking.password)} className="bg-blue-600 px-2 rounded text-white text-xs font-bold">OK</button>
+                  <button onClick={() => setUnlocking(null)} className="px-2 text-gray-400 text-xs">✕</button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Without a lobby, rooms are still reachable by their id */}
+      <div className="flex gap-1">
+        <input
+          type="text"
+          placeholder={t('lobby.roomCode')}
+          value={roomCode}
+          onChange={(e) => setRoomCode(e.target.value)}
+          className={`w-full ${input}`}
+        />
+        <button onClick={() => onJoinById(roomCode.trim())} className="bg-blue-600 px-2 rounded text-white text-xs font-bold">{t('lobby.join')}</button>
+        <button onClick={() => onWatchById(roomCode.trim())} title={t('lobby.watchHint')} className="bg-gray-600 px-2 rounded text-white text-xs font-bold">{t('lobby.watch')}</button>
+      </div>
+    </div>
+  );
+};
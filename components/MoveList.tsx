@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { PLAYER_BLACK, PlayerSlot } from '../engine/game';
+import { GameHistory, Ply } from '../engine/history';
+import { formatCell } from '../engine/notation';
+import { Translate } from '../engine/i18n';
+
+// Short annotations for what a ply triggered besides placing the stone.
+const plyNotes = (ply: Ply, slotLabel: (slot: PlayerSlot) => string, t: Translate) => {
+  const notes: string[] = [];
+  ply.events.forEach(event => {
+    if (event.type === 'POINTS_AWARDED') notes.push(`💥 +${event.points} ${slotLabel(event.to)}`);
+    if (event.type === 'SIDES_SWAPPED') notes.push(`⇄ ${t('moves.swap')}`);
+    if (event.type === 'GAME_OVER') notes.push('🏁');
+  });
+  return notes.join(' · ');
+};
+
+// Scrollable list of every ply. Plies after the cursor (undone, still
+// redoable) are dimmed; `selected` is the ply whose position is on the board.
+export const MoveList = ({ t, history, selected, onSelect, slotLabel }: {
+  t: Translate,
+  history: GameHistory,
+  selected: number,
+  onSelect: (index: number) => void,
+  slotLabel: (slot: PlayerSlot) => string,
+}) => {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [history.plies.length]);
+
+  const rowClass = (index: number) => `
+    w-full flex items-center gap-2 px-2 py-1 rounded text-left
+    ${index === selected ? 'bg-blue-600 text-white' : 'hover:bg-gray-700'}
+    ${index > history.cursor ? 'opacity-40' : ''}
+  `;
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+      <p className="text-xs uppercase text-gray-500 font-bold mb-2">{t('moves.title')}</p>
+      <ol ref={listRef} className="max-h-40 overflow-y-auto text-[11px] font-mono space-y-0.5">
+        <li>
+          <button onClick={() => onSelect(0)} className={rowClass(0)}>{t('moves.start')}</button>
+        </li>
+        {history.plies.map((ply, i) => (
+          <li key={i}>
+            <button onClick={() => onSelect(i + 1)} className={rowClass(i + 1)}>
+              <span className="w-7 text-gray-500">{i + 1}.</span>
+              <span className={`w-3 h-3 rounded-full shrink-0 ${ply.color === PLAYER_BLACK ? 'stone-black' : 'stone-white'}`}></span>
+              <span className="w-8">{formatCell(ply.move)}</span>
+              <span className="text-yellow-400 truncate">{plyNotes(ply, slotLabel, t)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
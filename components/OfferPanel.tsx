@@ -0,0 +1,49 @@
+import React from 'react';
+import { Offer, OfferKind } from '../engine/protocol';
+import { MessageKey, Translate, text } from '../engine/i18n';
+
+export const OFFER_LABELS: Record<OfferKind, MessageKey> = {
+  DRAW: 'offer.DRAW',
+  TAKEBACK: 'offer.TAKEBACK',
+  REMATCH: 'offer.REMATCH',
+};
+
+// Online game controls: offers the opponent must accept, and resigning.
+// `theirs` is an offer waiting for our answer, `mine` one waiting for theirs.
+export const OfferPanel = ({ t, mine, theirs, canOffer, canResign, onOffer, onAnswer, onResign }: {
+  t: Translate,
+  mine: Offer | null,
+  theirs: Offer | null,
+  canOffer: Record<OfferKind, boolean>,
+  canResign: boolean,
+  onOffer: (kind: OfferKind) => void,
+  onAnswer: (accept: boolean) => void,
+  onResign: () => void,
+}) => {
+  const button = 'flex-1 bg-gray-900 border border-gray-600 py-1.5 rounded text-[11px] font-bold hover:bg-gray-700 disabled:opacity-40';
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      {theirs && (
+        <div className="bg-blue-900/40 border border-blue-700 p-2 rounded text-center space-y-2">
+          <p className="text-xs text-blue-200 font-bold">{t('offer.theirs', { offer: text(OFFER_LABELS[theirs.kind]) })}</p>
+          <div className="flex gap-2">
+            <button onClick={() => onAnswer(true)} className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs py-1 rounded font-bold">{t('offer.accept')}</button>
+            <button onClick={() => onAnswer(false)} className="flex-1 bg-red-700 hover:bg-red-800 text-white text-xs py-1 rounded font-bold">{t('offer.decline')}</button>
+          </div>
+        </div>
+      )}
+      {mine && (
+        <p className="text-[11px] text-gray-400 text-center animate-pulse">{t('offer.waiting', { offer: text(OFFER_LABELS[mine.kind]) })}</p>
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => onOffer('DRAW')} disabled={!canOffer.DRAW} className={button}>🤝 {t('offer.button.DRAW')}</button>
+        <button onClick={() => onOffer('TAKEBACK')} disabled={!canOffer.TAKEBACK} className={button}>↶ {t('offer.button.TAKEBACK')}</button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onResign} disabled={!canResign} className={`${button} text-red-300`}>🏳 {t('offer.button.resign')}</button>
+        <button onClick={() => onOffer('REMATCH')} disabled={!canOffer.REMATCH} className={button}>⟳ {t('offer.button.REMATCH')}</button>
+      </div>
+    </div>
+  );
+};
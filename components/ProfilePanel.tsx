@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { PROFILE_COLORS, Profile, ProfileStore, activeProfile } from '../engine/profiles';
+import { MAX_NAME_LENGTH } from '../engine/protocol';
+import { Translate } from '../engine/i18n';
+
+export const Avatar = ({ name, color, size = 'w-6 h-6 text-xs' }: { name: string, color: string, size?: string }) => (
+  <span
+    className={`${size} inline-flex shrink-0 items-center justify-center rounded-full font-black text-gray-900`}
+    style={{ backgroundColor: color }}
+    title={name}
+  >
+    {name.trim().charAt(0).toUpperCase() || '?'}
+  </span>
+);
+
+// The profile playing on this screen: pick one, rename it, recolor it, add or remove profiles.
+export const ProfilePanel = ({ t, store, disabled, onSelect, onAdd, onUpdate, onRemove, onShowStats }: {
+  t: Translate,
+  store: ProfileStore,
+  disabled: boolean,
+  onSelect: (id: string) => void,
+  onAdd: (name: string) => void,
+  onUpdate: (id: string, patch: Partial<Pick<Profile, 'name' | 'color'>>) => void,
+  onRemove: (id: string) => void,
+  onShowStats: () => void,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const profile = activeProfile(store);
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex items-center gap-2">
+        <Avatar name={profile.name} color={profile.color} size="w-8 h-8 text-sm" />
+        <select
+          value={profile.id}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+        >
+          {store.profiles.map(p => <option key={p.id} value={p.id}>{p.name} ({p.rating})</option>)}
+        </select>
+        <button onClick={() => setIsEditing(!isEditing)} title={t('profile.edit')} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">✎</button>
+        <button onClick={onShowStats} title={t('profile.stats')} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">📊</button>
+      </div>
+      {isEditing && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={profile.name}
+            maxLength={MAX_NAME_LENGTH}
+            disabled={disabled}
+            onChange={(e) => onUpdate(profile.id, { name: e.target.value })}
+            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+          />
+          <div className="flex gap-1">
+            {PROFILE_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => onUpdate(profile.id, { color })}
+                className={`w-5 h-5 rounded-full border-2 ${color === profile.color ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onAdd(t('profile.numberedName', { number: store.profiles.length + 1 }))}
+              disabled={disabled}
+              className="flex-1 bg-gray-900 border border-gray-600 py-1 rounded text-[11px] font-bold hover:bg-gray-700 disabled:opacity-40"
+            >
+              + {t('profile.add')}
+            </button>
+            <button
+              onClick={() => { if (confirm(t('profile.confirmRemove', { name: profile.name }))) onRemove(profile.id); }}
+              disabled={disabled || store.profiles.length < 2}
+              className="flex-1 bg-gray-900 border border-gray-600 py-1 rounded text-[11px] font-bold text-red-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              {t('profile.remove')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Puzzle, PuzzleFile, PuzzleGoal, PuzzleParseError, readPuzzle, writePuzzle } from '../engine/puzzles';
+import { Text, Translate, renderText } from '../engine/i18n';
+
+const NEXT_MARK: Record<string, string> = { '.': 'X', X: 'O', O: '.' };
+const COLOR_OPTIONS = [{ value: 'X', label: 'VOID' }, { value: 'O', label: 'LIGHT' }];
+
+const field = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white';
+
+// Turns a position into a puzzle: click cells to cycle empty → VOID → LIGHT,
+// set the goal and optionally the solution line, then check it and try it out.
+export const PuzzleEditor = ({ t, initial, onTry, onSave, onClose }: {
+  t: Translate,
+  initial: Puzzle,
+  onTry: (puzzle: Puzzle) => void,
+  onSave: (puzzle: Puzzle) => void,
+  onClose: () => void,
+}) => {
+  const [draft, setDraft] = useState<PuzzleFile>(() => writePuzzle(initial));
+  const [solution, setSolution] = useState('');
+  const [error, setError] = useState<Text | null>(null);
+
+  const update = (patch: Partial<PuzzleFile>) => {
+    setDraft({ ...draft, ...patch });
+    setError(null);
+  };
+
+  const toggle = (r: number, c: number) => update({
+    board: draft.board.map((row, i) => i !== r ? row : [...row].map((mark, j) => j === c ? NEXT_MARK[mark] : mark).join('')),
+  });
+
+  const changeGoal = (type: PuzzleGoal['type']) => update({
+    goal: type === 'GAIN' ? { type, points: 5, moves: draft.goal.moves } : { type, moves: draft.goal.moves },
+  });
+
+  // The puzzle as the pack reader would take it, or null with the problem shown.
+  const check = () => {
+    const moves = solution.trim().split(/[\s,]+/).filter(Boolean);
+    try {
+      const puzzle = readPuzzle({ ...draft, solution: moves.length > 0 ? moves : undefined });
+      setError(null);
+      return puzzle;
+    } catch (err) {
+      if (!(err instanceof PuzzleParseError)) throw err;
+      setError(err.text);
+      return null;
+    }
+  };
+
+  const size = draft.board.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div className="bg-gray-900 text-white rounded-xl border border-gray-700 w-full max-w-2xl max-h-full overflow-y-auto p-5 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-yellow-500">{t('editor.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <div
+            className="grid border-2 border-black bg-[#eecfa1] w-full md:w-1/2 self-start"
+            style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))`, aspectRatio: '1/1' }}
+          >
+            {draft.board.map((row, r) => [...row].map((mark, c) => (
+              <button key={`${r}-${c}`} onClick={() => toggle(r, c)} className="relative border-[0.5px] border-black/20">
+                {mark !== '.' && <span className={`absolute inset-0 m-auto w-[80%] h-[80%] rounded-full ${mark === 'X' ? 'stone-black' : 'stone-white'}`}></span>}
+              </button>
+            )))}
+          </div>
+
+          <div className="flex-1 space-y-2 text-xs">
+            <label className="flex items-center gap-2">
+              <span className="w-20 text-gray-400">{t('editor.id')}</span>
+              <input value={draft.id} onChange={(e) => update({ id: e.target.value })} className={`flex-1 ${field}`} />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 text-gray-400">{t('editor.name')}</span>
+              <input value={draft.title} onChange={(e) => update({ title: e.target.value })} className={`flex-1 ${field}`} />
+            </label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              placeholder={t('editor.description')}
+              rows={2}
+              className={`w-full ${field}`}
+            />
+            <div className="flex gap-2">
+              <label className="flex-1 flex items-center gap-2">
+                <span className="text-gray-400">{t('editor.toMove')}</span>
+                <select value={draft.toMove} onChange={(e) => update({ toMove: e.target.value })} className={`flex-1 ${field}`}>
+                  {COLOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </label>
+              <label className="flex-1 flex items-center gap-2">
+                <span className="text-gray-400">{t('editor.p1Color')}</span>
+                <select value={draft.p1} onChange={(e) => update({ p1: e.target.value })} className={`flex-1 ${field}`}>
+                  {COLOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="flex gap-2">
+              {(['p1', 'p2'] as const).map(slot => (
+                <label key={slot} className="flex-1 flex items-center gap-2">
+                  <span className="text-gray-400">{t('editor.score', { slot: slot.toUpperCase() })}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.scores[slot]}
+                    onChange={(e) => update({ scores: { ...draft.scores, [slot]: Number(e.target.value) } })}
+                    className={`w-14 ${field}`}
+                  />
+                </label>
+              ))}
+              <label className="flex-1 flex items-center gap-2">
+                <span className="text-gray-400">{t('editor.turn')}</span>
+                <input type="number" min={0} value={draft.turn} onChange={(e) => update({ turn: Number(e.target.value) })} className={`w-14 ${field}`} />
+              </label>
+            </div>
+            <div className="flex gap-2 items-center">
+              <select value={draft.goal.type} onChange={(e) => changeGoal(e.target.value as PuzzleGoal['type'])} className={`flex-1 ${field}`}>
+                <option value="GAIN">{t('editor.goal.GAIN')}</option>
+                <option value="SAFE">{t('editor.goal.SAFE')}</option>
+                <option value="WIN">{t('editor.goal.WIN')}</option>
+              </select>
+              {draft.goal.type === 'GAIN' && (
+                <label className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.goal.points}
+                    onChange={(e) => update({ goal: { ...draft.goal, points: Number(e.target.value) } as PuzzleGoal })}
+                    className={`w-12 ${field}`}
+                  />
+                  <span className="text-gray-400">{t('editor.stones')}</span>
+                </label>
+              )}
+              <label className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.goal.moves}
+                  onChange={(e) => update({ goal: { ...draft.goal, moves: Number(e.target.value) } })}
+                  className={`w-12 ${field}`}
+                />
+                <span className="text-gray-400">{t('editor.moves')}</span>
+              </label>
+            </div>
+            <input
+              value={solution}
+              onChange={(e) => { setSolution(e.target.value); setError(null); }}
+              placeholder={t('editor.solution')}
+              className={`w-full ${field}`}
+            />
+            <p className="text-[10px] text-gray-500">{t('editor.rulesNote')}</p>
+            {error && <p className="text-[11px] text-red-300">⚠️ {renderText(t, error)}</p>}
+            <div className="flex gap-2">
+              <button
+                onClick={() => { const puzzle = check(); if (puzzle) onTry(puzzle); }}
+                className="flex-1 bg-green-600 hover:bg-green-700 py-2 rounded font-bold"
+              >
+                {t('editor.try')}
+              </button>
+              <button
+                onClick={() => { const puzzle = check(); if (puzzle) onSave(puzzle); }}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 py-2 rounded font-bold"
+              >
+                {t('editor.save', { pack: t('puzzle.myPack') })}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
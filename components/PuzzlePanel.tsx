@@ -0,0 +1,84 @@
+import React from 'react';
+import { Puzzle, PuzzlePack, PuzzleProgress, describeGoal, puzzleKey } from '../engine/puzzles';
+import { Translate, renderText } from '../engine/i18n';
+
+// The puzzle packs: pick a puzzle, see which are solved, bring in or hand out pack files.
+export const PuzzlePanel = ({ t, packs, packLabel, removable, progress, onPlay, onImport, onExport, onRemove, onCreate, onClose }: {
+  t: Translate,
+  packs: PuzzlePack[],
+  packLabel: (pack: PuzzlePack) => string, // a pack's name as shown
+  removable: (pack: PuzzlePack) => boolean, // built-in packs stay
+  progress: Record<string, PuzzleProgress>,
+  onPlay: (pack: PuzzlePack, puzzle: Puzzle) => void,
+  onImport: (file: File) => void,
+  onExport: (pack: PuzzlePack) => void,
+  onRemove: (pack: PuzzlePack) => void,
+  onCreate: () => void,
+  onClose: () => void,
+}) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+    <div className="bg-gray-900 text-white rounded-xl border border-gray-700 w-full max-w-lg max-h-full overflow-y-auto p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-yellow-500">{t('puzzle.title')}</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      {packs.map(pack => {
+        const solved = pack.puzzles.filter(puzzle => progress[puzzleKey(pack, puzzle)]?.solvedAt).length;
+        return (
+          <div key={pack.name} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="flex-1 text-xs uppercase text-gray-500 font-bold">{packLabel(pack)} ({solved}/{pack.puzzles.length})</p>
+              <button onClick={() => onExport(pack)} title={t('puzzle.exportPack')} className="text-[10px] bg-gray-700 hover:bg-gray-600 px-2 py-0.5 rounded">{t('puzzle.export')}</button>
+              {removable(pack) && (
+                <button
+                  onClick={() => { if (confirm(t('puzzle.confirmRemove', { name: packLabel(pack) }))) onRemove(pack); }}
+                  title={t('puzzle.removePack')}
+                  className="text-[10px] text-red-300 hover:text-white px-1"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+            <ol className="space-y-1">
+              {pack.puzzles.map((puzzle, i) => {
+                const entry = progress[puzzleKey(pack, puzzle)];
+                return (
+                  <li key={puzzle.id} className="flex items-center gap-2 rounded border border-gray-700 bg-gray-800 p-2">
+                    <span className={`w-5 text-center text-xs font-bold ${entry?.solvedAt ? 'text-green-400' : 'text-gray-500'}`}>{entry?.solvedAt ? '✓' : i + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold truncate">{puzzle.title}</p>
+                      <p className="text-[10px] text-gray-400">
+                        {renderText(t, describeGoal(puzzle.goal))}{entry && ` · ${t('puzzle.attempts', { count: entry.attempts })}`}
+                      </p>
+                    </div>
+                    <button onClick={() => onPlay(pack, puzzle)} className="bg-green-600 hover:bg-green-700 px-2 py-1 rounded text-xs font-bold">{t('puzzle.solve')}</button>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <label className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700 text-center cursor-pointer">
+          {t('puzzle.import')}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+        <button onClick={onCreate} className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700">
+          ✎ {t('puzzle.createFromBoard')}
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,74 @@
+import React from 'react';
+import { MessageKey, Translate } from '../engine/i18n';
+
+// Delay between plies during playback.
+export const REPLAY_SPEEDS: { label: MessageKey, delayMs: number }[] = [
+  { label: 'replay.speed.slow', delayMs: 1500 },
+  { label: 'replay.speed.normal', delayMs: 800 },
+  { label: 'replay.speed.fast', delayMs: 300 },
+];
+
+const button = 'bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded font-bold disabled:opacity-40';
+
+// Replay controls over the game on the board: play/pause, step, speed and a
+// scrubber from the start (ply 0) to the last move played.
+export const ReplayPanel = ({ t, ply, total, isPlaying, delayMs, players, onSeek, onStep, onPlay, onPause, onSpeed, onShare, onClose }: {
+  t: Translate,
+  ply: number,
+  total: number,
+  isPlaying: boolean,
+  delayMs: number,
+  players: string | null, // who played, for a game opened from a link
+  onSeek: (ply: number) => void,
+  onStep: (delta: 1 | -1) => void,
+  onPlay: () => void,
+  onPause: () => void,
+  onSpeed: (delayMs: number) => void,
+  onShare: () => void,
+  onClose: () => void,
+}) => (
+  <div className="bg-gray-800 p-3 rounded-lg border border-blue-700 space-y-2 text-xs">
+    <div className="flex items-center justify-between">
+      <span className="uppercase text-blue-300 font-bold">▶ {t('replay.title')}</span>
+      <button onClick={onClose} aria-label={t('replay.close')} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+    {players && <p className="text-[11px] text-gray-300 truncate">{players}</p>}
+
+    <input
+      type="range"
+      min={0}
+      max={total}
+      value={ply}
+      onChange={(e) => onSeek(Number(e.target.value))}
+      aria-label={t('replay.scrubber')}
+      aria-valuetext={t('replay.position', { ply, total })}
+      className="w-full accent-blue-500"
+    />
+
+    <div className="flex items-center gap-2">
+      <button onClick={() => onSeek(0)} disabled={ply === 0} aria-label={t('replay.first')} className={button}>⏮</button>
+      <button onClick={() => onStep(-1)} disabled={ply === 0} aria-label={t('replay.back')} className={button}>◀</button>
+      {isPlaying ? (
+        <button onClick={onPause} aria-label={t('replay.pause')} className={`flex-1 ${button}`}>⏸</button>
+      ) : (
+        <button onClick={onPlay} disabled={total === 0} aria-label={t('replay.play')} className={`flex-1 ${button}`}>▶</button>
+      )}
+      <button onClick={() => onStep(1)} disabled={ply === total} aria-label={t('replay.forward')} className={button}>▶|</button>
+      <button onClick={() => onSeek(total)} disabled={ply === total} aria-label={t('replay.last')} className={button}>⏭</button>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <span className="text-gray-400 font-mono">{t('replay.position', { ply, total })}</span>
+      <select
+        value={delayMs}
+        onChange={(e) => onSpeed(Number(e.target.value))}
+        aria-label={t('replay.speed')}
+        className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+      >
+        {REPLAY_SPEEDS.map(speed => <option key={speed.delayMs} value={speed.delayMs}>{t(speed.label)}</option>)}
+      </select>
+    </div>
+
+    <button onClick={onShare} disabled={total === 0} className={`w-full ${button}`}>🔗 {t('replay.share')}</button>
+  </div>
+);
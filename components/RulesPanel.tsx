@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { RULE_LIMITS, RULE_PRESETS, RuleSet, normalizeRules, presetOf } from '../engine/rules';
+import { MessageKey, Translate } from '../engine/i18n';
+
+type NumericRule = keyof typeof RULE_LIMITS;
+
+// Number input that only commits on blur/Enter, so typing "19" does not
+// get clamped to the minimum after the first keystroke.
+const RuleField = ({ label, value, limits, disabled, onCommit }: {
+  label: string,
+  value: number,
+  limits: { min: number, max: number },
+  disabled: boolean,
+  onCommit: (value: number) => void,
+}) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => { setDraft(String(value)); }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed)) setDraft(String(value));
+    else if (parsed !== value) onCommit(parsed);
+  };
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={limits.min}
+        max={limits.max}
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+      />
+    </label>
+  );
+};
+
+const FIELDS: { key: NumericRule, label: MessageKey }[] = [
+  { key: 'boardSize', label: 'rules.field.boardSize' },
+  { key: 'lineLength', label: 'rules.field.lineLength' },
+  { key: 'swapInterval', label: 'rules.field.swapInterval' },
+  { key: 'knockoutScore', label: 'rules.field.knockoutScore' },
+  { key: 'knockoutMargin', label: 'rules.field.knockoutMargin' },
+];
+
+export const RulesPanel = ({ t, rules, disabled, onChange }: {
+  t: Translate,
+  rules: RuleSet,
+  disabled: boolean,
+  onChange: (rules: RuleSet) => void,
+}) => {
+  const update = (patch: Partial<RuleSet>) => onChange(normalizeRules({ ...rules, ...patch }));
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs uppercase text-gray-500 font-bold whitespace-nowrap">{t('rules.title')}</span>
+        <select
+          value={presetOf(rules)}
+          disabled={disabled}
+          onChange={(e) => {
+            const preset = RULE_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.rules);
+          }}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+        >
+          {RULE_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>{t(preset.label)}</option>
+          ))}
+          <option value="CUSTOM" disabled>{t('rules.custom')}</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-[10px] text-gray-400">
+        {FIELDS.map(field => (
+          <RuleField
+            key={field.key}
+            label={t(field.label)}
+            value={rules[field.key]}
+            limits={RULE_LIMITS[field.key]}
+            disabled={disabled}
+            onCommit={(value) => update({ [field.key]: value })}
+          />
+        ))}
+        <label className="flex items-center gap-2 self-end pb-1">
+          <input
+            type="checkbox"
+            checked={rules.exactLength}
+            disabled={disabled}
+            onChange={(e) => update({ exactLength: e.target.checked })}
+          />
+          <span>{t('rules.field.exactLength')}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
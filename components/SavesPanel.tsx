@@ -0,0 +1,76 @@
+import React from 'react';
+import { PLAYER_BLACK } from '../engine/game';
+import { Difficulty } from '../engine/ai';
+import { LocalMode, SAVE_SLOTS, SavedGame } from '../engine/saves';
+import { Locale, MessageKey, Translate } from '../engine/i18n';
+
+const MODE_LABELS: Record<LocalMode, MessageKey> = {
+  PVE: 'mode.PVE',
+  PVP: 'mode.PVP',
+  AIVAI: 'mode.AIVAI',
+};
+
+// The autosave slots: resume a game in progress or throw one away.
+export const SavesPanel = ({ t, locale, saves, currentSlot, difficultyLabels, onResume, onDelete, onClose }: {
+  t: Translate,
+  locale: Locale,
+  saves: SavedGame[],
+  currentSlot: number | null, // the slot the game on the board saves to
+  difficultyLabels: Record<Difficulty, string>,
+  onResume: (save: SavedGame) => void,
+  onDelete: (slot: number) => void,
+  onClose: () => void,
+}) => {
+  const slots = Array.from({ length: SAVE_SLOTS }, (_, i) => i + 1);
+  const describe = (save: SavedGame) => save.mode === 'PVE'
+    ? `${t(MODE_LABELS.PVE)} — ${difficultyLabels[save.difficulty]}`
+    : save.mode === 'AIVAI'
+      ? `${t(MODE_LABELS.AIVAI)} — ${difficultyLabels[save.watchPlayers.p1]} / ${difficultyLabels[save.watchPlayers.p2]}`
+      : t(MODE_LABELS.PVP);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div className="bg-gray-900 text-white rounded-xl border border-gray-700 w-full max-w-md p-5 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-yellow-500">{t('saves.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+        <ol className="space-y-2">
+          {slots.map(slot => {
+            const save = saves.find(s => s.slot === slot);
+            return (
+              <li key={slot} className={`flex items-center gap-2 rounded border p-2 ${slot === currentSlot ? 'border-yellow-600 bg-yellow-900/20' : 'border-gray-700 bg-gray-800'}`}>
+                <span className="w-5 text-center text-xs font-bold text-gray-500">{slot}</span>
+                {save ? (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold truncate">{describe(save)}</p>
+                      <p className="text-[10px] text-gray-400">
+                        {t('saves.summary', {
+                          turn: save.turnCount,
+                          score: `${save.scores.p1}–${save.scores.p2}`,
+                          color: save.humanColor === PLAYER_BLACK ? 'VOID' : 'LIGHT',
+                        })}
+                        {' · '}{new Date(save.savedAt).toLocaleString(locale)}
+                      </p>
+                    </div>
+                    {slot === currentSlot ? (
+                      <span className="text-[10px] text-yellow-400">{t('saves.current')}</span>
+                    ) : (
+                      <button onClick={() => onResume(save)} className="bg-green-600 hover:bg-green-700 px-2 py-1 rounded text-xs font-bold">{t('saves.resume')}</button>
+                    )}
+                    <button onClick={() => onDelete(slot)} title={t('saves.delete')} className="px-1 text-xs text-red-300 hover:text-white">✕</button>
+                  </>
+                ) : (
+                  <span className="flex-1 text-xs text-gray-500">{t('saves.empty')}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+        <p className="text-[10px] text-gray-500">{t('saves.note')}</p>
+        <button onClick={onClose} className="w-full bg-gray-700 hover:bg-gray-600 py-2 rounded text-xs font-bold">{t('saves.newGame')}</button>
+      </div>
+    </div>
+  );
+};
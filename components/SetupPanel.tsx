@@ -0,0 +1,125 @@
+import React from 'react';
+import { CellValue, EMPTY, GameMode, PLAYER_BLACK, PLAYER_WHITE, movesUntilSwap } from '../engine/game';
+import { Position, gameFromPosition, validatePosition } from '../engine/position';
+import { RuleSet } from '../engine/rules';
+import { DIFFICULTIES, Difficulty } from '../engine/ai';
+import { Translate, renderText } from '../engine/i18n';
+
+const COLOR_OPTIONS: { value: CellValue, label: string }[] = [
+  { value: PLAYER_BLACK, label: 'VOID' },
+  { value: PLAYER_WHITE, label: 'LIGHT' },
+];
+const START_MODES: GameMode[] = ['PVE', 'PVP', 'AIVAI', 'ONLINE'];
+
+const field = 'bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white';
+
+// The position editor. Stones are painted on the main board with the chosen
+// brush; this panel holds the rest of the position and starts the game from it.
+export const SetupPanel = ({ t, position, current, rules, brush, difficulty, difficultyLabels, onBrush, onChange, onDifficulty, onStart, onCancel }: {
+  t: Translate,
+  position: Position,
+  current: Position, // the position on the board, to start editing from
+  rules: RuleSet,
+  brush: CellValue,
+  difficulty: Difficulty,
+  difficultyLabels: Record<Difficulty, string>,
+  onBrush: (brush: CellValue) => void,
+  onChange: (position: Position) => void,
+  onDifficulty: (difficulty: Difficulty) => void,
+  onStart: (mode: GameMode) => void,
+  onCancel: () => void,
+}) => {
+  const update = (patch: Partial<Position>) => onChange({ ...position, ...patch });
+  const error = validatePosition(position, rules);
+  const untilSwap = movesUntilSwap(gameFromPosition(rules, position));
+  const size = rules.boardSize;
+  const brushes: { value: CellValue, label: string }[] = [...COLOR_OPTIONS, { value: EMPTY, label: t('setup.erase') }];
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-blue-700 space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="uppercase text-blue-300 font-bold">✎ {t('setup.title')}</span>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+      <p className="text-[10px] text-gray-500">{t('setup.hint')}</p>
+
+      <div className="flex bg-gray-900 rounded p-1">
+        {brushes.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onBrush(option.value)}
+            className={`flex-1 py-1 rounded font-bold ${brush === option.value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <label className="flex-1 flex flex-col gap-1">
+          <span className="text-gray-400">{t('setup.toMove')}</span>
+          <select value={position.currentPlayer} onChange={(e) => update({ currentPlayer: Number(e.target.value) as CellValue })} className={field}>
+            {COLOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="flex-1 flex flex-col gap-1">
+          <span className="text-gray-400">{t('setup.p1Color')}</span>
+          <select value={position.p1Color} onChange={(e) => update({ p1Color: Number(e.target.value) as CellValue })} className={field}>
+            {COLOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {(['p1', 'p2'] as const).map(slot => (
+          <label key={slot} className="flex-1 flex flex-col gap-1">
+            <span className="text-gray-400">{t('editor.score', { slot: slot.toUpperCase() })}</span>
+            <input
+              type="number"
+              min={0}
+              value={position.scores[slot]}
+              onChange={(e) => update({ scores: { ...position.scores, [slot]: Number(e.target.value) } })}
+              className={field}
+            />
+          </label>
+        ))}
+        <label className="flex-1 flex flex-col gap-1">
+          <span className="text-gray-400">{t('setup.turns')}</span>
+          <input type="number" min={0} value={position.turnCount} onChange={(e) => update({ turnCount: Number(e.target.value) })} className={field} />
+        </label>
+      </div>
+      <p className="text-[10px] text-blue-300">{t('setup.swapIn', { turns: Number.isFinite(untilSwap) ? t('setup.turnCount', { count: untilSwap }) : '—' })}</p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => update({ board: Array.from({ length: size }, () => Array(size).fill(EMPTY)) })}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 py-1 rounded text-[11px] font-bold"
+        >
+          {t('setup.clear')}
+        </button>
+        <button onClick={() => onChange(current)} className="flex-1 bg-gray-700 hover:bg-gray-600 py-1 rounded text-[11px] font-bold">
+          {t('setup.fromBoard')}
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] text-red-300">⚠️ {renderText(t, error)}</p>}
+
+      <select value={difficulty} onChange={(e) => onDifficulty(e.target.value as Difficulty)} className={`w-full ${field}`}>
+        {DIFFICULTIES.map(level => <option key={level} value={level}>{t('stats.aiLevel', { level: difficultyLabels[level] })}</option>)}
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        {START_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => onStart(mode)}
+            disabled={error !== null}
+            className="bg-green-600 hover:bg-green-700 py-2 rounded font-bold disabled:opacity-40"
+          >
+            ▶ {t(`mode.${mode}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">{t('setup.onlineNote')}</p>
+    </div>
+  );
+};
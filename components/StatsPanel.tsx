@@ -0,0 +1,128 @@
+import React from 'react';
+import { Difficulty, DIFFICULTIES } from '../engine/ai';
+import { Opponent, Outcome, ProfileStore, findProfile, profileStats } from '../engine/profiles';
+import { Avatar } from './ProfilePanel';
+import { Locale, MessageKey, Translate } from '../engine/i18n';
+
+const OUTCOMES: Record<Outcome, { label: MessageKey, streak: MessageKey, color: string }> = {
+  WIN: { label: 'stats.outcome.WIN', streak: 'stats.streak.WIN', color: 'text-green-400' },
+  DRAW: { label: 'stats.outcome.DRAW', streak: 'stats.streak.DRAW', color: 'text-gray-300' },
+  LOSS: { label: 'stats.outcome.LOSS', streak: 'stats.streak.LOSS', color: 'text-red-400' },
+};
+
+const MODE_LABELS: Record<string, MessageKey> = { PVP: 'stats.mode.PVP', ONLINE: 'mode.ONLINE' };
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// A profile's record: totals, streaks, rating over time, results per kind
+// of opponent and the latest games, plus the AI levels' own ratings.
+export const StatsPanel = ({ t, locale, store, profileId, difficultyLabels, onClose }: {
+  t: Translate,
+  locale: Locale,
+  store: ProfileStore,
+  profileId: string,
+  difficultyLabels: Record<Difficulty, string>,
+  onClose: () => void,
+}) => {
+  const profile = findProfile(store, profileId);
+  if (!profile) return null;
+  const stats = profileStats(store, profileId);
+  const history = stats.ratingHistory;
+  const low = Math.min(...history);
+  const high = Math.max(...history);
+  const span = Math.max(high - low, 1);
+  const points = history.map((rating, i) => `${i},${high - rating}`).join(' ');
+  const keyLabel = (key: string) => key in difficultyLabels
+    ? t('stats.aiLevel', { level: difficultyLabels[key as Difficulty] })
+    : key in MODE_LABELS ? t(MODE_LABELS[key]) : key;
+  const opponentLabel = (opponent: Opponent) =>
+    opponent.kind === 'AI' ? t('stats.aiOpponent', { level: difficultyLabels[opponent.difficulty] }) : opponent.name || t('player.anonymous');
+  const tile = 'bg-gray-800 rounded p-2 text-center';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div className="bg-gray-900 text-white rounded-xl border border-gray-700 w-full max-w-lg max-h-full overflow-y-auto p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3">
+          <Avatar name={profile.name} color={profile.color} size="w-10 h-10 text-lg" />
+          <div className="flex-1">
+            <p className="font-bold">{profile.name}</p>
+            <p className="text-xs text-yellow-400">Elo {profile.rating}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          <div className={tile}><p className="text-lg font-bold">{stats.games}</p><p className="text-[10px] text-gray-400">{t('stats.games')}</p></div>
+          <div className={tile}><p className="text-lg font-bold">{percent(stats.winRate)}</p><p className="text-[10px] text-gray-400">{t('stats.winRate')}</p></div>
+          <div className={tile}>
+            <p className={`text-lg font-bold ${stats.currentStreak ? OUTCOMES[stats.currentStreak.outcome].color : ''}`}>{stats.currentStreak?.length ?? 0}</p>
+            <p className="text-[10px] text-gray-400">{t(stats.currentStreak ? OUTCOMES[stats.currentStreak.outcome].streak : 'stats.streak.current')}</p>
+          </div>
+          <div className={tile}><p className="text-lg font-bold">{stats.bestWinStreak}</p><p className="text-[10px] text-gray-400">{t('stats.bestStreak')}</p></div>
+        </div>
+        <p className="text-xs text-center text-gray-400">
+          <span className="text-green-400">{t('stats.wins', { count: stats.wins })}</span>
+          {' · '}{t('stats.draws', { count: stats.draws })}{' · '}
+          <span className="text-red-400">{t('stats.losses', { count: stats.losses })}</span>
+        </p>
+
+        <div>
+          <p className="text-xs uppercase text-gray-500 font-bold mb-1">{t('stats.ratingHistory', { low, high })}</p>
+          <svg viewBox={`0 0 ${Math.max(history.length - 1, 1)} ${span}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-800 rounded">
+            <polyline points={points} fill="none" stroke="#facc15" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+          </svg>
+        </div>
+
+        {stats.byOpponent.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">{t('stats.opponent')}</th><th>{t('stats.column.games')}</th>
+                <th>{t('stats.column.wins')}</th><th>{t('stats.column.draws')}</th><th>{t('stats.column.losses')}</th><th>{t('stats.column.score')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.byOpponent.map(({ key, line }) => (
+                <tr key={key} className="text-center">
+                  <td className="text-left">{keyLabel(key)}</td>
+                  <td>{line.games}</td><td>{line.wins}</td><td>{line.draws}</td><td>{line.losses}</td>
+                  <td>{percent((line.wins + line.draws / 2) / line.games)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div>
+          <p className="text-xs uppercase text-gray-500 font-bold mb-1">{t('stats.aiRatings')}</p>
+          <div className="grid grid-cols-2 gap-1 text-xs">
+            {DIFFICULTIES.map(level => (
+              <p key={level} className="flex justify-between bg-gray-800 rounded px-2 py-1">
+                <span className="text-gray-400">{difficultyLabels[level]}</span><span>{store.aiRatings[level]}</span>
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs uppercase text-gray-500 font-bold mb-1">{t('stats.recent')}</p>
+          {stats.recent.length === 0 && <p className="text-xs text-gray-500">{t('stats.noGames')}</p>}
+          <ol className="space-y-1">
+            {stats.recent.map((entry, i) => {
+              const delta = entry.ratingAfter - entry.ratingBefore;
+              return (
+                <li key={i} className="flex items-center gap-2 text-xs bg-gray-800 rounded px-2 py-1">
+                  <span className={`w-10 font-bold ${OUTCOMES[entry.outcome].color}`}>{t(OUTCOMES[entry.outcome].label)}</span>
+                  <span className="flex-1 truncate">{opponentLabel(entry.opponent)}</span>
+                  <span className="text-gray-400">{entry.score}–{entry.opponentScore}</span>
+                  <span className={`w-8 text-right ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-500'}`}>{delta > 0 ? `+${delta}` : delta}</span>
+                  <span className="text-gray-500 text-[10px]">{new Date(entry.playedAt).toLocaleDateString(locale)}</span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { PlayerSlot } from '../engine/game';
+import { TIME_CONTROL_PRESETS, TimeControl, timeControlPresetOf } from '../engine/clock';
+import { Translate } from '../engine/i18n';
+
+// Time control for each side; the two may differ (handicap games).
+export const TimeControlPanel = ({ t, controls, disabled, onChange, slotLabel }: {
+  t: Translate,
+  controls: Record<PlayerSlot, TimeControl>,
+  disabled: boolean,
+  onChange: (controls: Record<PlayerSlot, TimeControl>) => void,
+  slotLabel: (slot: PlayerSlot) => string,
+}) => (
+  <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+    <span className="text-xs uppercase text-gray-500 font-bold">{t('time.title')}</span>
+    {(['p1', 'p2'] as PlayerSlot[]).map(slot => (
+      <label key={slot} className="flex items-center gap-2 text-[10px] text-gray-400">
+        <span className="w-20 truncate">{slotLabel(slot)}</span>
+        <select
+          value={timeControlPresetOf(controls[slot])}
+          disabled={disabled}
+          onChange={(e) => {
+            const preset = TIME_CONTROL_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange({ ...controls, [slot]: preset.control });
+          }}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+        >
+          {TIME_CONTROL_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>{t(preset.label)}</option>
+          ))}
+          <option value="CUSTOM" disabled>{t('rules.custom')}</option>
+        </select>
+      </label>
+    ))}
+  </div>
+);
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { PlayerSlot } from '../engine/game';
+import { RuleSet } from '../engine/rules';
+import { TimeControl } from '../engine/clock';
+import { DIFFICULTIES, Difficulty } from '../engine/ai';
+import { Profile } from '../engine/profiles';
+import {
+  Entrant, PairingSystem, Tournament, TournamentError, createEntrantId, createTournament, crosstable, findEntrant, formatPoints,
+  isFinished, roundRobinRounds, standings, swissRounds,
+} from '../engine/tournament';
+import { MessageKey, Text, Translate, renderText } from '../engine/i18n';
+
+const SYSTEM_LABELS: Record<PairingSystem, MessageKey> = { ROUND_ROBIN: 'tournament.system.ROUND_ROBIN', SWISS: 'tournament.system.SWISS' };
+
+const field = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white';
+
+// Names the event and its entrants; the rules and time controls are the ones currently chosen.
+const TournamentForm = ({ t, rules, timeControls, profiles, difficultyLabels, onCreate, onImport }: {
+  t: Translate,
+  rules: RuleSet,
+  timeControls: Record<PlayerSlot, TimeControl>,
+  profiles: Profile[],
+  difficultyLabels: Record<Difficulty, string>,
+  onCreate: (tournament: Tournament) => void,
+  onImport: (file: File) => void,
+}) => {
+  const [name, setName] = useState('');
+  const [system, setSystem] = useState<PairingSystem>('ROUND_ROBIN');
+  const [rounds, setRounds] = useState<number | null>(null); // Swiss; null = the default for the field
+  const [entrants, setEntrants] = useState<Entrant[]>([]);
+  const [guestName, setGuestName] = useState('');
+  const [error, setError] = useState<Text | null>(null);
+
+  const add = (entrant: Entrant) => {
+    setEntrants([...entrants, entrant]);
+    setError(null);
+  };
+
+  const addHuman = (value: string) => {
+    const profile = profiles.find(p => p.id === value);
+    if (profile) add({ id: createEntrantId(), kind: 'HUMAN', name: profile.name, profileId: profile.id });
+  };
+
+  const addGuest = () => {
+    if (!guestName.trim()) return;
+    add({ id: createEntrantId(), kind: 'HUMAN', name: guestName.trim(), profileId: null });
+    setGuestName('');
+  };
+
+  const addAi = (difficulty: Difficulty) => {
+    const count = entrants.filter(entrant => entrant.kind === 'AI' && entrant.difficulty === difficulty).length;
+    const label = t('tournament.aiName', { level: difficultyLabels[difficulty] });
+    add({ id: createEntrantId(), kind: 'AI', name: count > 0 ? `${label} ${count + 1}` : label, difficulty });
+  };
+
+  const roundCount = system === 'ROUND_ROBIN' ? roundRobinRounds(entrants.length) : rounds ?? swissRounds(entrants.length);
+
+  const create = () => {
+    try {
+      onCreate(createTournament({ name, system, rules, timeControls, entrants, rounds: system === 'SWISS' ? roundCount : undefined }));
+    } catch (err) {
+      if (!(err instanceof TournamentError)) throw err;
+      setError(err.text);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder={t('tournament.namePlaceholder')} className={`w-full ${field}`} />
+      <div className="flex gap-2 items-center">
+        <select value={system} onChange={(e) => setSystem(e.target.value as PairingSystem)} className={`flex-1 ${field}`}>
+          {(Object.keys(SYSTEM_LABELS) as PairingSystem[]).map(key => <option key={key} value={key}>{t(SYSTEM_LABELS[key])}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-gray-400">
+          <span>{t('tournament.rounds')}</span>
+          <input
+            type="number"
+            min={1}
+            value={roundCount}
+            disabled={system === 'ROUND_ROBIN'}
+            onChange={(e) => setRounds(Number(e.target.value))}
+            className={`w-14 ${field} disabled:opacity-50`}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <p className="uppercase text-gray-500 font-bold">{t('tournament.entrants', { count: entrants.length })}</p>
+        {entrants.map(entrant => (
+          <div key={entrant.id} className="flex items-center gap-2 rounded border border-gray-700 bg-gray-800 px-2 py-1">
+            <span className="flex-1 truncate">{entrant.kind === 'AI' ? '🤖' : '👤'} {entrant.name}</span>
+            <button onClick={() => setEntrants(entrants.filter(e => e.id !== entrant.id))} className="text-red-300 hover:text-white">✕</button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <select value="" onChange={(e) => addHuman(e.target.value)} className={`flex-1 ${field}`}>
+            <option value="">+ {t('tournament.addProfile')}</option>
+            {profiles.filter(p => !entrants.some(e => e.kind === 'HUMAN' && e.profileId === p.id)).map(p => (
+              <option key={p.id} value={p.id}>{p.name} ({p.rating})</option>
+            ))}
+          </select>
+          <select value="" onChange={(e) => { if (e.target.value) addAi(e.target.value as Difficulty); }} className={`flex-1 ${field}`}>
+            <option value="">+ {t('tournament.addAi')}</option>
+            {DIFFICULTIES.map(level => <option key={level} value={level}>{difficultyLabels[level]}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={guestName}
+            onChange={(e) => setGuestName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addGuest(); }}
+            placeholder={t('tournament.guestPlaceholder')}
+            className={`flex-1 ${field}`}
+          />
+          <button onClick={addGuest} className="bg-gray-700 hover:bg-gray-600 px-3 rounded font-bold">+</button>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-500">{t('tournament.formNote')}</p>
+      {error && <p className="text-[11px] text-red-300">⚠️ {renderText(t, error)}</p>}
+      <div className="flex gap-2">
+        <button onClick={create} className="flex-1 bg-green-600 hover:bg-green-700 py-2 rounded font-bold">{t('tournament.start')}</button>
+        <label className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded font-bold hover:bg-gray-700 text-center cursor-pointer">
+          {t('tournament.import')}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+// The tournament on this machine: a new one is set up here, a running one
+// shows its rounds (each unplayed game can be started), standings and crosstable.
+export const TournamentPanel = ({ t, tournament, rules, timeControls, profiles, difficultyLabels, onCreate, onImport, onPlay, onExport, onDiscard, onClose }: {
+  t: Translate,
+  tournament: Tournament | null,
+  rules: RuleSet,
+  timeControls: Record<PlayerSlot, TimeControl>,
+  profiles: Profile[],
+  difficultyLabels: Record<Difficulty, string>,
+  onCreate: (tournament: Tournament) => void,
+  onImport: (file: File) => void,
+  onPlay: (round: number, index: number) => void,
+  onExport: (kind: 'json' | 'csv') => void,
+  onDiscard: () => void,
+  onClose: () => void,
+}) => {
+  const nameOf = (id: string | null) => tournament && findEntrant(tournament, id)?.name;
+  const table = tournament ? standings(tournament) : [];
+  const cross = tournament ? crosstable(tournament) : {};
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div className="bg-gray-900 text-white rounded-xl border border-gray-700 w-full max-w-2xl max-h-full overflow-y-auto p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-yellow-500">🏆 {tournament ? tournament.name || t('tournament.defaultName') : t('tournament.new')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        {!tournament && (
+          <TournamentForm
+            t={t}
+            rules={rules}
+            timeControls={timeControls}
+            profiles={profiles}
+            difficultyLabels={difficultyLabels}
+            onCreate={onCreate}
+            onImport={onImport}
+          />
+        )}
+
+        {tournament && (
+          <>
+            <p className="text-xs text-gray-400">
+              {t('tournament.summary', {
+                system: t(SYSTEM_LABELS[tournament.system]),
+                count: tournament.entrants.length,
+                round: tournament.rounds.length,
+                total: tournament.totalRounds,
+              })}
+              {isFinished(tournament) && <span className="text-green-400 font-bold"> · {t('tournament.finished')}</span>}
+            </p>
+
+            <div className="space-y-2">
+              {tournament.rounds.map((round, r) => (
+                <div key={r} className="space-y-1">
+                  <p className="text-xs uppercase text-gray-500 font-bold">{t('tournament.round', { round: r + 1 })}</p>
+                  {round.map((game, i) => (
+                    <div key={i} className="flex items-center gap-2 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs">
+                      {game.p2 === null ? (
+                        <span className="flex-1 text-gray-400">{t('tournament.bye', { name: nameOf(game.p1) ?? '' })}</span>
+                      ) : (
+                        <>
+                          <span className="flex-1 truncate">
+                            <span className={game.result?.winner === 'p1' ? 'font-bold text-green-400' : ''}>{nameOf(game.p1)}</span>
+                            <span className="text-gray-500"> vs </span>
+                            <span className={game.result?.winner === 'p2' ? 'font-bold text-green-400' : ''}>{nameOf(game.p2)}</span>
+                          </span>
+                          {game.result ? (
+                            <span className="text-gray-300">
+                              {game.result.winner === null ? '½–½' : game.result.winner === 'p1' ? '1–0' : '0–1'}
+                              <span className="text-gray-500"> ({game.result.scores.p1}:{game.result.scores.p2})</span>
+                            </span>
+                          ) : (
+                            <button onClick={() => onPlay(r, i)} className="bg-green-600 hover:bg-green-700 px-2 py-0.5 rounded font-bold">▶ {t('tournament.play')}</button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-xs uppercase text-gray-500 font-bold mb-1">{t('tournament.standings')}</p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">#</th><th className="text-left font-normal">{t('tournament.csv.name')}</th>
+                    <th>{t('stats.column.games')}</th><th>{t('stats.column.wins')}</th><th>{t('stats.column.draws')}</th><th>{t('stats.column.losses')}</th>
+                    <th>{t('tournament.csv.points')}</th><th title={t('tournament.buchholzHint')}>Buchholz</th><th title={t('tournament.marginHint')}>{t('tournament.csv.margin')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.map((standing, i) => (
+                    <tr key={standing.entrant.id} className="text-center">
+                      <td className="text-left">{i + 1}</td>
+                      <td className="text-left truncate">{standing.entrant.name}</td>
+                      <td>{standing.played}</td><td>{standing.wins}</td><td>{standing.draws}</td><td>{standing.losses}</td>
+                      <td className="font-bold text-yellow-400">{formatPoints(standing.points)}</td>
+                      <td>{formatPoints(standing.buchholz)}</td>
+                      <td>{standing.margin > 0 ? `+${standing.margin}` : standing.margin}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <p className="text-xs uppercase text-gray-500 font-bold mb-1">{t('tournament.crosstable')}</p>
+              <table className="text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th></th>
+                    {table.map((standing, i) => <th key={standing.entrant.id} className="px-2 font-normal" title={standing.entrant.name}>{i + 1}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.map((row, i) => (
+                    <tr key={row.entrant.id}>
+                      <td className="pr-2 whitespace-nowrap">{i + 1}. {row.entrant.name}</td>
+                      {table.map(column => (
+                        <td key={column.entrant.id} className={`px-2 text-center border border-gray-800 ${row === column ? 'bg-gray-800' : ''}`}>
+                          {(cross[row.entrant.id][column.entrant.id] ?? []).map(result => formatPoints(result.points)).join(' ')}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={() => onExport('json')} className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700">{t('tournament.exportJson')}</button>
+              <button onClick={() => onExport('csv')} className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700">{t('tournament.exportCsv')}</button>
+              <button
+                onClick={() => { if (confirm(t('tournament.confirmDiscard', { name: tournament.name || t('tournament.defaultName') }))) onDiscard(); }}
+                className="flex-1 bg-gray-800 border border-red-900 py-2 rounded text-xs font-bold text-red-300 hover:bg-gray-700"
+              >
+                {t('tournament.discard')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import { BoardState, Cell, CellValue, EMPTY, GameState, checkLongLines, cloneBoard, inBounds } from './game';
+import { RuleSet } from './rules';
+import { searchBestMove } from './search';
+
+export type Difficulty = 'EASY' | 'MEDIUM' | 'SUPER_STRONG' | 'MASTER';
+
+export const DIFFICULTIES: Difficulty[] = ['EASY', 'MEDIUM', 'SUPER_STRONG', 'MASTER'];
+
+// Thinking time per move for the search-based level, for a hint, and per
+// position during post-game analysis.
+export const MASTER_TIME_BUDGET_MS = 1500;
+export const HINT_TIME_BUDGET_MS = 1000;
+export const ANALYSIS_TIME_BUDGET_MS = 150;
+
+// --- Helper Logic ---
+
+export const centerOf = (board: BoardState): Cell => ({
+  r: Math.floor(board.length / 2),
+  c: Math.floor(board.length / 2),
+});
+
+export const getEmptyNeighbors = (board: BoardState, distance = 2): Cell[] => {
+  const neighbors = new Set<string>();
+  const moves: Cell[] = [];
+
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board.length; c++) {
+      if (board[r][c] !== EMPTY) {
+        for (let dr = -distance; dr <= distance; dr++) {
+          for (let dc = -distance; dc <= distance; dc++) {
+            const nr = r + dr;
+            const nc = c + dc;
+            if (inBounds(board, nr, nc) && board[nr][nc] === EMPTY) {
+              const key = `${nr},${nc}`;
+              if (!neighbors.has(key)) {
+                neighbors.add(key);
+                moves.push({ r: nr, c: nc });
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  if (moves.length === 0) return [centerOf(board)];
+  return moves;
+};
+
+// --- AI Strategies ---
+
+// Level 1: Easy
+export const getEasyMove = (board: BoardState, aiPlayer: CellValue, rules: RuleSet) => {
+  const moves = getEmptyNeighbors(board, 1);
+  if (moves.length === 0) return centerOf(board);
+  const randomIdx = Math.floor(Math.random() * moves.length);
+  return moves[randomIdx];
+};
+
+// Level 2: Medium (Heuristic)
+export const getMediumMove = (board: BoardState, aiPlayer: CellValue, rules: RuleSet) => {
+    const moves = getEmptyNeighbors(board, 1);
+    let bestScore = -Infinity;
+    let bestMove = moves[0];
+
+    const evaluate = (r: number, c: number, player: CellValue, currentBoard: BoardState) => {
+        const stonesExploded = checkLongLines(currentBoard, r, c, player, rules);
+        if (stonesExploded) return -1000 * stonesExploded.length;
+
+        let score = 0;
+        const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+        for (const [dx, dy] of directions) {
+            let countAI = 0;
+            let openEndsAI = 0;
+            for(let k=1; k<rules.lineLength; k++) {
+                const nr = r + dx*k, nc = c + dy*k;
+                if(inBounds(currentBoard, nr, nc)) {
+                    if(currentBoard[nr][nc] === player) countAI++;
+                    else if(currentBoard[nr][nc] === EMPTY) { openEndsAI++; break; }
+                    else break;
+                }
+            }
+            for(let k=1; k<rules.lineLength; k++) {
+                const nr = r - dx*k, nc = c - dy*k;
+                if(inBounds(currentBoard, nr, nc)) {
+                    if(currentBoard[nr][nc] === player) countAI++;
+                    else if(currentBoard[nr][nc] === EMPTY) { openEndsAI++; break; }
+                    else break;
+                }
+            }
+            if (countAI === rules.lineLength - 2 && openEndsAI > 0) score += 50;
+            if (countAI === rules.lineLength - 3 && openEndsAI > 0) score += 10;
+        }
+        score += Math.random() * 5;
+        return score;
+    }
+
+    for(const move of moves) {
+        const tempBoard = cloneBoard(board);
+        tempBoard[move.r][move.c] = aiPlayer;
+        const score = evaluate(move.r, move.c, aiPlayer, tempBoard);
+        if(score > bestScore) {
+            bestScore = score;
+            bestMove = move;
+        }
+    }
+    return bestMove;
+};
+
+// Level 3: Super Strong (Local - Minimax Shallow)
+export const getSuperStrongMove = (board: BoardState, aiPlayer: CellValue, rules: RuleSet) => {
+    const moves = getEmptyNeighbors(board, 1);
+    const candidates = [];
+
+    for (const move of moves) {
+        const tempBoard = cloneBoard(board);
+        tempBoard[move.r][move.c] = aiPlayer;
+        const exploded = checkLongLines(tempBoard, move.r, move.c, aiPlayer, rules);
+        if (exploded) {
+            candidates.push({ move, score: -10000 * exploded.length });
+        } else {
+            candidates.push({ move, score: 0 });
+        }
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+        if (candidates[i].score < -5000) continue;
+
+        const { r, c } = candidates[i].move;
+        const tempBoard = cloneBoard(board);
+        tempBoard[r][c] = aiPlayer;
+
+        let moveScore = 0;
+
+        const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+        for (const [dx, dy] of directions) {
+            let lineCount = 1;
+            if (inBounds(tempBoard, r+dx, c+dy) && tempBoard[r+dx][c+dy] === aiPlayer) lineCount++;
+            if (inBounds(tempBoard, r-dx, c-dy) && tempBoard[r-dx][c-dy] === aiPlayer) lineCount++;
+
+            if (lineCount === rules.lineLength - 2) moveScore -= 50;
+            if (lineCount === rules.lineLength - 1) moveScore -= 200;
+            if (lineCount === 2) moveScore += 10;
+        }
+
+        let liberties = 0;
+        for(let dr=-1; dr<=1; dr++){
+            for(let dc=-1; dc<=1; dc++){
+                if(dr===0 && dc===0) continue;
+                if (inBounds(tempBoard, r+dr, c+dc) && tempBoard[r+dr][c+dc] === EMPTY) {
+                    liberties++;
+                }
+            }
+        }
+        moveScore += liberties * 5;
+        candidates[i].score += moveScore + Math.random() * 2;
+    }
+    candidates.sort((a, b) => b.score - a.score);
+    return candidates[0]?.move || centerOf(board);
+};
+
+// Level 4: Master (alpha-beta search, see search.ts)
+export const getMasterMove = (state: GameState, timeBudgetMs = MASTER_TIME_BUDGET_MS) =>
+  searchBestMove(state, { timeBudgetMs }).move;
+
+// Best move for the side to move in `state`. The time budget only applies to MASTER.
+export const getAiMove = (difficulty: Difficulty, state: GameState, timeBudgetMs = MASTER_TIME_BUDGET_MS): Cell => {
+  const { board, currentPlayer, rules } = state;
+  if (difficulty === 'EASY') return getEasyMove(board, currentPlayer, rules);
+  if (difficulty === 'MEDIUM') return getMediumMove(board, currentPlayer, rules);
+  if (difficulty === 'SUPER_STRONG') return getSuperStrongMove(board, currentPlayer, rules);
+  return getMasterMove(state, timeBudgetMs);
+};
@@ -0,0 +1,102 @@
+// Main-thread side of the AI worker. One request in flight per client;
+// starting a new request or calling cancel() abandons the previous one.
+
+import { Cell, GameState } from './game';
+import { Difficulty } from './ai';
+import { AiAnswer, AiRequest, AiResponse, answerRequest, serializePosition } from './aiProtocol';
+
+export class AiCancelledError extends Error {
+  constructor() {
+    super('AI request cancelled');
+    this.name = 'AiCancelledError';
+  }
+}
+
+export interface AiClient {
+  requestMove: (state: GameState, difficulty: Difficulty) => Promise<Cell>;
+  // Raw alpha-beta search with its score (side to move's point of view).
+  requestSearch: (state: GameState, timeBudgetMs: number, maxDepth?: number) => Promise<{ move: Cell, score: number }>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+type Pending = { id: number, resolve: (answer: AiAnswer) => void, reject: (err: Error) => void };
+type RequestBody = { type: 'MOVE', difficulty: Difficulty } | { type: 'SEARCH', timeBudgetMs: number, maxDepth?: number };
+
+export const createAiClient = (): AiClient => {
+  let worker: Worker | null = null;
+  let pending: Pending | null = null;
+  let nextId = 1;
+
+  const settle = (id: number, outcome: (p: Pending) => void) => {
+    if (!pending || pending.id !== id) return; // late answer to a cancelled request
+    const current = pending;
+    pending = null;
+    outcome(current);
+  };
+
+  const spawn = () => {
+    const created = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = (event: MessageEvent<AiResponse>) => {
+      const response = event.data;
+      settle(response.id, p => 'error' in response ? p.reject(new Error(response.error)) : p.resolve(response));
+    };
+    created.onerror = (event) => {
+      event.preventDefault();
+      if (pending) settle(pending.id, p => p.reject(new Error(event.message || 'AI worker crashed')));
+      created.terminate();
+      if (worker === created) worker = null;
+    };
+    return created;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    const current = pending;
+    pending = null;
+    current.reject(new AiCancelledError());
+    // The search is synchronous inside the worker, so the only way to stop
+    // it mid-think is to kill the worker; a fresh one is spawned on demand.
+    worker?.terminate();
+    worker = null;
+  };
+
+  const send = (state: GameState, body: RequestBody) => {
+    cancel();
+    const id = nextId++;
+    const request = { id, ...body, position: serializePosition(state) } as AiRequest;
+
+    // No worker support (headless tooling): think inline.
+    if (typeof Worker === 'undefined') {
+      return new Promise<AiAnswer>((resolve, reject) => {
+        pending = { id, resolve, reject };
+        setTimeout(() => {
+          try {
+            const answer = answerRequest(request);
+            settle(id, p => p.resolve(answer));
+          } catch (err) {
+            settle(id, p => p.reject(err as Error));
+          }
+        }, 0);
+      });
+    }
+
+    if (!worker) worker = spawn();
+    return new Promise<AiAnswer>((resolve, reject) => {
+      pending = { id, resolve, reject };
+      worker!.postMessage(request);
+    });
+  };
+
+  return {
+    requestMove: (state, difficulty) => send(state, { type: 'MOVE', difficulty }).then(answer => answer.move),
+    requestSearch: (state, timeBudgetMs, maxDepth) =>
+      send(state, { type: 'SEARCH', timeBudgetMs, maxDepth }).then(answer => ({ move: answer.move, score: answer.score ?? 0 })),
+    cancel,
+    dispose: () => {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
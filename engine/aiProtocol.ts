@@ -0,0 +1,50 @@
+// Messages between the main thread and the AI worker. Positions travel as
+// plain data (structured clone), never as live engine objects.
+
+import { BoardState, Cell, CellValue, GameState, Scores } from './game';
+import { RuleSet } from './rules';
+import { Difficulty, getAiMove } from './ai';
+import { searchBestMove } from './search';
+
+export interface SerializedPosition {
+  board: BoardState;
+  currentPlayer: CellValue; // side to move
+  p1Color: CellValue;
+  scores: Scores;
+  turnCount: number;
+  rules: RuleSet;
+}
+
+// MOVE plays at a difficulty level; SEARCH runs the alpha-beta search for a
+// fixed time and also reports its score (hints, analysis).
+export type AiRequest =
+  | { id: number, type: 'MOVE', difficulty: Difficulty, position: SerializedPosition }
+  | { id: number, type: 'SEARCH', timeBudgetMs: number, maxDepth?: number, position: SerializedPosition };
+
+export interface AiAnswer {
+  move: Cell;
+  score?: number; // SEARCH only, from the side to move's point of view
+}
+
+export type AiResponse =
+  | ({ id: number } & AiAnswer)
+  | { id: number, error: string };
+
+export const serializePosition = (state: GameState): SerializedPosition => ({
+  board: state.board,
+  currentPlayer: state.currentPlayer,
+  p1Color: state.p1Color,
+  scores: state.scores,
+  turnCount: state.turnCount,
+  rules: state.rules,
+});
+
+export const toGameState = (position: SerializedPosition): GameState => ({ ...position, result: null });
+
+// Runs a request to completion. Called inside the worker (or inline when workers are unavailable).
+export const answerRequest = (request: AiRequest): AiAnswer => {
+  const state = toGameState(request.position);
+  if (request.type === 'MOVE') return { move: getAiMove(request.difficulty, state) };
+  const { move, score } = searchBestMove(state, { timeBudgetMs: request.timeBudgetMs, maxDepth: request.maxDepth });
+  return { move, score };
+};
@@ -0,0 +1,18 @@
+// Web Worker entry: runs the AI off the main thread so hover ghosts and
+// animations keep running while the search thinks.
+
+import { AiRequest, AiResponse, answerRequest } from './aiProtocol';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AiRequest>) => void) | null,
+  postMessage: (message: AiResponse) => void,
+};
+
+scope.onmessage = (event) => {
+  const { id } = event.data;
+  try {
+    scope.postMessage({ id, ...answerRequest(event.data) });
+  } catch (err) {
+    scope.postMessage({ id, error: (err as Error).message });
+  }
+};
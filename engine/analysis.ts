@@ -0,0 +1,120 @@
+// Post-game analysis: scores every ply with the alpha-beta search and flags
+// the moves that threw points away.
+
+import { Cell, CellValue, EMPTY, GameState, PlayerSlot, applyMove, colorOfSlot, movesUntilSwap, slotOfColor } from './game';
+import { GameHistory, playedPlies, stateAt } from './history';
+import { evaluateState, explosionSize } from './search';
+
+export type Verdict = 'BEST' | 'GOOD' | 'INACCURACY' | 'MISTAKE' | 'BLUNDER';
+
+export interface PlyAnalysis {
+  index: number;        // 1-based ply number
+  mover: PlayerSlot;
+  move: Cell;
+  bestMove: Cell;
+  evaluation: number;   // position after the ply, in points, from P1's point of view
+  loss: number;         // points the mover gave up compared to bestMove
+  verdict: Verdict;
+  allowsForcedExplosion: boolean; // the opponent can now leave the mover no safe cell
+}
+
+// Searches a position: best move and its score for the side to move.
+export type PositionSearch = (state: GameState) => Promise<{ move: Cell, score: number }>;
+
+// Internal evaluation units per point, and the cap applied to won/lost positions.
+const UNITS_PER_POINT = 100;
+const EVAL_CAP = 50;
+
+const THRESHOLDS: { verdict: Verdict, loss: number }[] = [
+  { verdict: 'BLUNDER', loss: 5 },
+  { verdict: 'MISTAKE', loss: 2 },
+  { verdict: 'INACCURACY', loss: 0.8 },
+];
+
+const toPoints = (units: number) => Math.max(-EVAL_CAP, Math.min(EVAL_CAP, units / UNITS_PER_POINT));
+
+export const countSafeCells = (state: GameState, color: CellValue) => {
+  let safe = 0;
+  state.board.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell === EMPTY && !explosionSize(state.board, r, c, color, state.rules)) safe++;
+  }));
+  return safe;
+};
+
+const isForcedToExplode = (state: GameState, slot: PlayerSlot) =>
+  !state.result && slotOfColor(state, state.currentPlayer) === slot && countSafeCells(state, state.currentPlayer) === 0;
+
+// After `mover` played into `after`: can the opponent reply so that the mover
+// has no safe cell left on their next turn? Without a swap a reply removes at
+// most one of the mover's safe cells, so the brute force only runs when they
+// are already scarce (or when the reply hands the mover the other color).
+export const allowsForcedExplosion = (after: GameState, mover: PlayerSlot) => {
+  if (after.result) return false;
+  if (slotOfColor(after, after.currentPlayer) === mover) return isForcedToExplode(after, mover);
+
+  const swapsAfterReply = movesUntilSwap(after) === 1;
+  if (!swapsAfterReply && countSafeCells(after, colorOfSlot(after, mover)) > 1) return false;
+
+  for (let r = 0; r < after.board.length; r++) {
+    for (let c = 0; c < after.board.length; c++) {
+      if (after.board[r][c] !== EMPTY) continue;
+      if (isForcedToExplode(applyMove(after, { r, c }).state, mover)) return true;
+    }
+  }
+  return false;
+};
+
+// Score from P1's point of view, in points.
+const p1Evaluation = (state: GameState, searched: { score: number } | null) => {
+  if (state.result || !searched) return toPoints(evaluateState(state, 'p1'));
+  const toMove = slotOfColor(state, state.currentPlayer);
+  return toPoints(toMove === 'p1' ? searched.score : -searched.score);
+};
+
+export const analyzeGame = async (
+  history: GameHistory,
+  search: PositionSearch,
+  onProgress?: (analysis: PlyAnalysis[], total: number) => void,
+): Promise<PlyAnalysis[]> => {
+  const plies = playedPlies(history);
+  const results: PlyAnalysis[] = [];
+
+  let before = stateAt(history, 0);
+  let beforeSearch = before.result ? null : await search(before);
+
+  for (let i = 0; i < plies.length; i++) {
+    const ply = plies[i];
+    const after = ply.state;
+    const afterSearch = after.result ? null : await search(after);
+
+    const mover = slotOfColor(before, ply.color);
+    const sign = mover === 'p1' ? 1 : -1;
+    const bestForMover = sign * p1Evaluation(before, beforeSearch);
+    const playedForMover = sign * p1Evaluation(after, afterSearch);
+    const bestMove = beforeSearch?.move ?? ply.move;
+    const isBest = bestMove.r === ply.move.r && bestMove.c === ply.move.c;
+    const loss = isBest ? 0 : Math.max(0, bestForMover - playedForMover);
+    // Only the mover's fault if the best move would have avoided it.
+    const forced = !isBest && allowsForcedExplosion(after, mover)
+      && !allowsForcedExplosion(applyMove(before, bestMove).state, mover);
+
+    let verdict: Verdict = isBest ? 'BEST' : THRESHOLDS.find(t => loss >= t.loss)?.verdict ?? 'GOOD';
+    if (forced) verdict = 'BLUNDER';
+
+    results.push({
+      index: i + 1,
+      mover,
+      move: ply.move,
+      bestMove,
+      evaluation: p1Evaluation(after, afterSearch),
+      loss: Math.round(loss * 10) / 10,
+      verdict,
+      allowsForcedExplosion: forced,
+    });
+    onProgress?.([...results], plies.length);
+
+    before = after;
+    beforeSearch = afterSearch;
+  }
+  return results;
+};
@@ -0,0 +1,106 @@
+// Self-play arena: pits two AI levels against each other, headlessly, to
+// measure how they compare under a rule set.
+
+import { Cell, GameOverReason, GameResult, GameState, PlayerSlot, createGame, getGameResult, slotOfColor } from './game';
+import { DEFAULT_RULES, RuleSet } from './rules';
+import { GameHistory, createHistory, currentState, pushMove } from './history';
+import { Difficulty, MASTER_TIME_BUDGET_MS, getAiMove } from './ai';
+
+// How a game ended. MOVE_LIMIT games are adjudicated like a full board.
+export type EndCondition = GameOverReason | 'MOVE_LIMIT';
+
+export const END_CONDITIONS: EndCondition[] = ['KNOCKOUT', 'HIGHER_SCORE', 'STONE_TIEBREAK', 'DRAW', 'MOVE_LIMIT'];
+
+export interface ArenaOptions {
+  first: Difficulty;   // strategy A
+  second: Difficulty;  // strategy B
+  games: number;
+  rules?: RuleSet;
+  masterTimeBudgetMs?: number;
+  maxPlies?: number;
+}
+
+export interface ArenaGame {
+  index: number;
+  players: Record<PlayerSlot, Difficulty>;
+  aPlays: PlayerSlot;  // A's slot; P1 always opens with VOID
+  result: GameResult;
+  endCondition: EndCondition;
+  scores: { a: number, b: number };
+  plies: number;
+  history: GameHistory;
+}
+
+export interface ArenaReport {
+  first: Difficulty;
+  second: Difficulty;
+  games: ArenaGame[];
+  wins: number;        // from A's point of view
+  draws: number;
+  losses: number;
+  averageMargin: number; // A's score minus B's, per game
+  averageLength: number; // plies per game
+  endConditions: Record<EndCondition, number>;
+}
+
+const DEFAULT_MAX_PLIES = 1000;
+
+export const playSelfPlayGame = (
+  players: Record<PlayerSlot, Difficulty>,
+  rules: RuleSet = DEFAULT_RULES,
+  { masterTimeBudgetMs = MASTER_TIME_BUDGET_MS, maxPlies = DEFAULT_MAX_PLIES } = {},
+): { history: GameHistory, result: GameResult, endCondition: EndCondition } => {
+  let history = createHistory(createGame(rules));
+  let state: GameState = currentState(history);
+
+  while (!state.result && history.cursor < maxPlies) {
+    const move: Cell = getAiMove(players[slotOfColor(state, state.currentPlayer)], state, masterTimeBudgetMs);
+    history = pushMove(history, move).history;
+    state = currentState(history);
+  }
+
+  if (state.result) return { history, result: state.result, endCondition: state.result.reason };
+  return { history, result: getGameResult(state.scores, state.board, state.p1Color), endCondition: 'MOVE_LIMIT' };
+};
+
+// Plays `games` games, alternating which level opens as P1, and tallies them
+// from A's point of view. onGame is called after each game (progress output).
+export const runArena = (options: ArenaOptions, onGame?: (game: ArenaGame) => void): ArenaReport => {
+  const { first, second, games, rules = DEFAULT_RULES } = options;
+  const played: ArenaGame[] = [];
+
+  for (let i = 0; i < games; i++) {
+    const aPlays: PlayerSlot = i % 2 === 0 ? 'p1' : 'p2';
+    const players = aPlays === 'p1' ? { p1: first, p2: second } : { p1: second, p2: first };
+    const { history, result, endCondition } = playSelfPlayGame(players, rules, options);
+    const { scores } = currentState(history);
+    const game: ArenaGame = {
+      index: i + 1,
+      players,
+      aPlays,
+      result,
+      endCondition,
+      scores: aPlays === 'p1' ? { a: scores.p1, b: scores.p2 } : { a: scores.p2, b: scores.p1 },
+      plies: history.cursor,
+      history,
+    };
+    played.push(game);
+    onGame?.(game);
+  }
+
+  const endConditions = Object.fromEntries(END_CONDITIONS.map(end => [end, 0])) as Record<EndCondition, number>;
+  played.forEach(game => endConditions[game.endCondition]++);
+  const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  return {
+    first,
+    second,
+    games: played,
+    wins: played.filter(g => g.result.winner === g.aPlays).length,
+    draws: played.filter(g => !g.result.winner).length,
+    losses: played.filter(g => g.result.winner && g.result.winner !== g.aPlays).length,
+    averageMargin: average(played.map(g => g.scores.a - g.scores.b)),
+    averageLength: average(played.map(g => g.plies)),
+    endConditions,
+  };
+};
@@ -0,0 +1,159 @@
+// Game clocks. Pure functions over plain data: the caller passes `now` in
+// and stores the returned ClockState, so the module has no timers of its own
+// and a state can be sent to the other player as is.
+
+import { PlayerSlot } from './game';
+import { MessageKey } from './i18n';
+
+export type TimeControlKind = 'NONE' | 'SUDDEN_DEATH' | 'FISCHER' | 'BYO_YOMI';
+
+export interface TimeControl {
+  kind: TimeControlKind;
+  mainMs: number;      // main thinking time
+  incrementMs: number; // FISCHER: added after every move
+  periodMs: number;    // BYO_YOMI: length of one period once main time is gone
+  periods: number;     // BYO_YOMI: number of periods
+}
+
+export const NO_TIME_CONTROL: TimeControl = { kind: 'NONE', mainMs: 0, incrementMs: 0, periodMs: 0, periods: 0 };
+
+const MINUTE = 60_000;
+const SECOND = 1000;
+
+export const TIME_CONTROL_PRESETS: { id: string, label: MessageKey, control: TimeControl }[] = [
+  { id: 'NONE', label: 'clock.preset.NONE', control: NO_TIME_CONTROL },
+  { id: 'SD_5', label: 'clock.preset.SD_5', control: { ...NO_TIME_CONTROL, kind: 'SUDDEN_DEATH', mainMs: 5 * MINUTE } },
+  { id: 'SD_10', label: 'clock.preset.SD_10', control: { ...NO_TIME_CONTROL, kind: 'SUDDEN_DEATH', mainMs: 10 * MINUTE } },
+  { id: 'FISCHER_3_2', label: 'clock.preset.FISCHER_3_2', control: { ...NO_TIME_CONTROL, kind: 'FISCHER', mainMs: 3 * MINUTE, incrementMs: 2 * SECOND } },
+  { id: 'FISCHER_5_5', label: 'clock.preset.FISCHER_5_5', control: { ...NO_TIME_CONTROL, kind: 'FISCHER', mainMs: 5 * MINUTE, incrementMs: 5 * SECOND } },
+  { id: 'BYO_5_3X30', label: 'clock.preset.BYO_5_3X30', control: { ...NO_TIME_CONTROL, kind: 'BYO_YOMI', mainMs: 5 * MINUTE, periodMs: 30 * SECOND, periods: 3 } },
+  { id: 'BYO_1_5X10', label: 'clock.preset.BYO_1_5X10', control: { ...NO_TIME_CONTROL, kind: 'BYO_YOMI', mainMs: MINUTE, periodMs: 10 * SECOND, periods: 5 } },
+];
+
+const KINDS: TimeControlKind[] = ['NONE', 'SUDDEN_DEATH', 'FISCHER', 'BYO_YOMI'];
+
+const clampMs = (value: unknown, max: number) => {
+  const ms = Number(value);
+  return Number.isFinite(ms) ? Math.min(max, Math.max(0, Math.round(ms))) : 0;
+};
+
+// Coerces a peer supplied time control into a usable one.
+export const normalizeTimeControl = (control: Partial<TimeControl> | undefined): TimeControl => {
+  if (!control || !KINDS.includes(control.kind as TimeControlKind) || control.kind === 'NONE') return NO_TIME_CONTROL;
+  const normalized: TimeControl = {
+    kind: control.kind as TimeControlKind,
+    mainMs: clampMs(control.mainMs, 180 * MINUTE),
+    incrementMs: control.kind === 'FISCHER' ? clampMs(control.incrementMs, 10 * MINUTE) : 0,
+    periodMs: control.kind === 'BYO_YOMI' ? clampMs(control.periodMs, 10 * MINUTE) : 0,
+    periods: control.kind === 'BYO_YOMI' ? Math.min(20, Math.max(0, Math.round(Number(control.periods)) || 0)) : 0,
+  };
+  // A control with no time at all would flag on the first move.
+  return normalized.mainMs + normalized.periodMs * normalized.periods > 0 ? normalized : NO_TIME_CONTROL;
+};
+
+export const sameTimeControl = (a: TimeControl, b: TimeControl) =>
+  (Object.keys(NO_TIME_CONTROL) as (keyof TimeControl)[]).every(key => a[key] === b[key]);
+
+export const timeControlPresetOf = (control: TimeControl) =>
+  TIME_CONTROL_PRESETS.find(preset => sameTimeControl(preset.control, control))?.id ?? 'CUSTOM';
+
+export const isTimed = (controls: Record<PlayerSlot, TimeControl>) =>
+  controls.p1.kind !== 'NONE' || controls.p2.kind !== 'NONE';
+
+export interface SideClock {
+  remainingMs: number; // left in main time, or in the current byo-yomi period
+  periods: number;     // byo-yomi periods not yet started
+  inByoYomi: boolean;
+}
+
+export interface ClockState {
+  controls: Record<PlayerSlot, TimeControl>;
+  sides: Record<PlayerSlot, SideClock>;
+  running: PlayerSlot | null; // whose clock is ticking
+  since: number;              // when `running` last started (ms timestamp)
+}
+
+// What travels online: remaining times only, since the two machines' clocks differ.
+export type ClockSnapshot = Pick<ClockState, 'sides' | 'running'>;
+
+const createSide = (control: TimeControl): SideClock => ({
+  remainingMs: control.mainMs,
+  periods: control.periods,
+  inByoYomi: false,
+});
+
+export const createClock = (controls: Record<PlayerSlot, TimeControl>): ClockState => ({
+  controls,
+  sides: { p1: createSide(controls.p1), p2: createSide(controls.p2) },
+  running: null,
+  since: 0,
+});
+
+// Takes `elapsed` off a side, rolling into the next byo-yomi period while any are left.
+const drain = (side: SideClock, control: TimeControl, elapsed: number): SideClock => {
+  let { remainingMs, periods, inByoYomi } = side;
+  remainingMs -= elapsed;
+  if (control.kind === 'BYO_YOMI') {
+    while (remainingMs <= 0 && periods > 0) {
+      remainingMs += control.periodMs;
+      periods--;
+      inByoYomi = true;
+    }
+  }
+  return { remainingMs: Math.max(0, remainingMs), periods, inByoYomi };
+};
+
+// Both sides as of `now`, with the running side's elapsed time taken off.
+export const readClock = (clock: ClockState, now: number): Record<PlayerSlot, SideClock> => {
+  const { running } = clock;
+  if (!running || clock.controls[running].kind === 'NONE') return clock.sides;
+  return { ...clock.sides, [running]: drain(clock.sides[running], clock.controls[running], now - clock.since) };
+};
+
+// Below this a clock counts tenths, shows red and ticks.
+export const LOW_TIME_MS = 10_000;
+
+// Low on time with nothing left to fall back on (byo-yomi periods still to come don't count).
+export const isLowOnTime = (side: SideClock, control: TimeControl) =>
+  control.kind !== 'NONE' && side.remainingMs < LOW_TIME_MS && (control.kind !== 'BYO_YOMI' || side.periods === 0);
+
+// The side whose time has run out, if any.
+export const flaggedSlot = (clock: ClockState, now: number): PlayerSlot | null => {
+  const { running } = clock;
+  if (!running || clock.controls[running].kind === 'NONE') return null;
+  return readClock(clock, now)[running].remainingMs <= 0 ? running : null;
+};
+
+// `mover` finished a move: settle their time, apply the increment or reset
+// the byo-yomi period, then start `next` (null once the game is over).
+export const pressClock = (clock: ClockState, mover: PlayerSlot, next: PlayerSlot | null, now: number): ClockState => {
+  const control = clock.controls[mover];
+  let side = readClock(clock, now)[mover];
+  if (control.kind === 'FISCHER') side = { ...side, remainingMs: side.remainingMs + control.incrementMs };
+  if (control.kind === 'BYO_YOMI' && side.inByoYomi) side = { ...side, remainingMs: control.periodMs };
+  return { ...clock, sides: { ...clock.sides, [mover]: side }, running: next, since: now };
+};
+
+// Freezes both clocks (game over, paused watch).
+export const stopClock = (clock: ClockState, now: number): ClockState =>
+  clock.running ? { ...clock, sides: readClock(clock, now), running: null } : clock;
+
+export const resumeClock = (clock: ClockState, slot: PlayerSlot, now: number): ClockState =>
+  ({ ...stopClock(clock, now), running: slot, since: now });
+
+export const snapshotClock = (clock: ClockState, now: number): ClockSnapshot =>
+  ({ sides: readClock(clock, now), running: clock.running });
+
+// Applies a peer's snapshot; the running side restarts from the moment it arrived.
+export const restoreClock = (clock: ClockState, snapshot: ClockSnapshot, now: number): ClockState => {
+  const side = (slot: PlayerSlot): SideClock => {
+    const received = snapshot.sides?.[slot];
+    return {
+      remainingMs: clampMs(received?.remainingMs, Number.MAX_SAFE_INTEGER),
+      periods: Math.max(0, Math.round(Number(received?.periods)) || 0),
+      inByoYomi: Boolean(received?.inByoYomi),
+    };
+  };
+  const running = snapshot.running === 'p1' || snapshot.running === 'p2' ? snapshot.running : null;
+  return { ...clock, sides: { p1: side('p1'), p2: side('p2') }, running, since: now };
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BoardState, CellValue, EMPTY, GameState, IllegalMoveError, PLAYER_BLACK, PLAYER_WHITE,
+  applyMove, checkLongLines, createEmptyBoard, createGame, getGameResult, getKnockoutWinner, movesUntilSwap, slotOfColor,
+} from './game';
+import { DEFAULT_RULES, RuleSet } from './rules';
+
+const B = PLAYER_BLACK;
+const W = PLAYER_WHITE;
+
+// A game with `stones` already on the board; black to move unless told otherwise.
+const withStones = (stones: [number, number, CellValue][], patch: Partial<GameState> = {}, rules: RuleSet = DEFAULT_RULES): GameState => {
+  const board = createEmptyBoard(rules.boardSize);
+  stones.forEach(([r, c, color]) => { board[r][c] = color; });
+  return { ...createGame(rules), board, ...patch };
+};
+
+// `count` stones of `color` in a row along row `r`, starting at column `from`.
+const row = (r: number, from: number, count: number, color: CellValue): [number, number, CellValue][] =>
+  Array.from({ length: count }, (_, i) => [r, from + i, color]);
+
+const boardWith = (stones: [number, number, CellValue][]): BoardState => withStones(stones).board;
+
+const illegalKey = (play: () => unknown) => {
+  try {
+    play();
+  } catch (err) {
+    if (err instanceof IllegalMoveError) return err.text.key;
+    throw err;
+  }
+  return null;
+};
+
+describe('checkLongLines', () => {
+  it('ignores a line one stone short', () => {
+    const board = boardWith(row(7, 3, 4, B));
+    expect(checkLongLines(board, 7, 6, B, DEFAULT_RULES)).toBeNull();
+  });
+
+  it('returns every stone of a completed line', () => {
+    const board = boardWith(row(7, 3, 5, B));
+    const stones = checkLongLines(board, 7, 5, B, DEFAULT_RULES);
+    expect(stones).toHaveLength(5);
+    expect(stones).toEqual(expect.arrayContaining(row(7, 3, 5, B).map(([r, c]) => ({ r, c }))));
+  });
+
+  it('only counts the given color', () => {
+    const board = boardWith([...row(7, 3, 4, B), [7, 7, W]]);
+    expect(checkLongLines(board, 7, 7, W, DEFAULT_RULES)).toBeNull();
+  });
+
+  it('finds vertical and diagonal lines', () => {
+    const vertical = boardWith([0, 1, 2, 3, 4].map(i => [i, 2, W]));
+    expect(checkLongLines(vertical, 2, 2, W, DEFAULT_RULES)).toHaveLength(5);
+    const diagonal = boardWith([0, 1, 2, 3, 4].map(i => [10 - i, i, B]));
+    expect(checkLongLines(diagonal, 8, 2, B, DEFAULT_RULES)).toHaveLength(5);
+  });
+
+  it('counts a crossing stone once', () => {
+    const board = boardWith([...row(7, 3, 5, B), [5, 5, B], [6, 5, B], [8, 5, B], [9, 5, B]]);
+    expect(checkLongLines(board, 7, 5, B, DEFAULT_RULES)).toHaveLength(9);
+  });
+
+  it('explodes overlines unless the rules ask for the exact length', () => {
+    const board = boardWith(row(7, 3, 6, B));
+    expect(checkLongLines(board, 7, 8, B, DEFAULT_RULES)).toHaveLength(6);
+    expect(checkLongLines(board, 7, 8, B, { ...DEFAULT_RULES, exactLength: true })).toBeNull();
+  });
+});
+
+describe('applyMove', () => {
+  it('places the stone and passes the turn', () => {
+    const before = createGame();
+    const { state, events } = applyMove(before, { r: 7, c: 7 });
+    expect(state.board[7][7]).toBe(B);
+    expect(state.currentPlayer).toBe(W);
+    expect(state.turnCount).toBe(1);
+    expect(events).toEqual([{ type: 'STONE_PLACED', r: 7, c: 7, color: B }]);
+    expect(before.board[7][7]).toBe(EMPTY);
+  });
+
+  it('clears a completed line and gives the points to the opponent', () => {
+    const { state, events } = applyMove(withStones(row(7, 3, 4, B)), { r: 7, c: 7 });
+    for (let c = 3; c <= 7; c++) expect(state.board[7][c]).toBe(EMPTY);
+    expect(state.scores).toEqual({ p1: 0, p2: 5 });
+    expect(events.map(event => event.type)).toEqual(['STONE_PLACED', 'STONES_EXPLODED', 'POINTS_AWARDED']);
+    expect(events[2]).toEqual({ type: 'POINTS_AWARDED', to: 'p2', points: 5 });
+  });
+
+  it('ends the game by knockout once a side reaches the target with the margin', () => {
+    const rules = { ...DEFAULT_RULES, knockoutScore: 10, knockoutMargin: 5 };
+    const { state, events } = applyMove(withStones(row(7, 3, 4, B), { scores: { p1: 0, p2: 5 } }, rules), { r: 7, c: 7 });
+    expect(state.result).toEqual({ winner: 'p2', reason: 'KNOCKOUT' });
+    expect(events[events.length - 1]).toEqual({ type: 'GAME_OVER', result: state.result });
+  });
+
+  it('settles a full board by points, then by stones left', () => {
+    const rules = { ...DEFAULT_RULES, boardSize: 3 };
+    let state = createGame(rules);
+    for (let i = 0; i < 9; i++) state = applyMove(state, { r: Math.floor(i / 3), c: i % 3 }).state;
+    // Black (P1) played five stones to White's four and no line was long enough to score.
+    expect(state.result).toEqual({ winner: 'p2', reason: 'STONE_TIEBREAK', stoneDiff: 1 });
+  });
+
+  it('rejects a move on an occupied cell', () => {
+    expect(illegalKey(() => applyMove(withStones([[7, 7, W]]), { r: 7, c: 7 }))).toBe('move.occupied');
+  });
+
+  it('rejects a move off the board', () => {
+    expect(illegalKey(() => applyMove(createGame(), { r: 15, c: 0 }))).toBe('move.offBoard');
+    expect(illegalKey(() => applyMove(createGame(), { r: -1, c: 3 }))).toBe('move.offBoard');
+    expect(illegalKey(() => applyMove(createGame(), { r: 1.5, c: 3 }))).toBe('move.offBoard');
+  });
+
+  it('rejects any move once the game is over', () => {
+    const over = { ...createGame(), result: { winner: 'p1' as const, reason: 'RESIGNATION' as const } };
+    expect(illegalKey(() => applyMove(over, { r: 0, c: 0 }))).toBe('move.gameOver');
+  });
+});
+
+describe('color swap', () => {
+  const rules = { ...DEFAULT_RULES, swapInterval: 2 };
+
+  it('swaps colors every swapInterval turns', () => {
+    let state = createGame(rules);
+    expect(movesUntilSwap(state)).toBe(2);
+    state = applyMove(state, { r: 0, c: 0 }).state;
+    expect(movesUntilSwap(state)).toBe(1);
+    const { state: swapped, events } = applyMove(state, { r: 0, c: 1 });
+    expect(events).toContainEqual({ type: 'SIDES_SWAPPED', p1Color: W });
+    expect(swapped.p1Color).toBe(W);
+    // Colors keep alternating; it is the players who changed sides.
+    expect(swapped.currentPlayer).toBe(B);
+    expect(slotOfColor(swapped, B)).toBe('p2');
+    expect(movesUntilSwap(swapped)).toBe(2);
+  });
+
+  it('gives explosion points to the opponent of whoever holds the color now', () => {
+    const { state, events } = applyMove(withStones(row(7, 3, 4, B), { p1Color: W, turnCount: 2 }, rules), { r: 7, c: 7 });
+    expect(state.scores).toEqual({ p1: 5, p2: 0 });
+    expect(events).toContainEqual({ type: 'POINTS_AWARDED', to: 'p1', points: 5 });
+  });
+
+  it('never swaps with a swapInterval of 0', () => {
+    let state = createGame({ ...DEFAULT_RULES, swapInterval: 0 });
+    for (let i = 0; i < 6; i++) state = applyMove(state, { r: 0, c: i }).state;
+    expect(state.p1Color).toBe(B);
+    expect(movesUntilSwap(state)).toBe(Infinity);
+  });
+});
+
+describe('getGameResult', () => {
+  const empty = createEmptyBoard(3);
+
+  it('gives the game to the higher score', () => {
+    expect(getGameResult({ p1: 12, p2: 17 }, empty, B)).toEqual({ winner: 'p2', reason: 'HIGHER_SCORE' });
+    expect(getGameResult({ p1: 9, p2: 3 }, empty, B)).toEqual({ winner: 'p1', reason: 'HIGHER_SCORE' });
+  });
+
+  it('penalises the side with more stones left on equal points', () => {
+    const board = boardWith([[0, 0, B], [0, 1, B], [0, 2, W]]);
+    expect(getGameResult({ p1: 5, p2: 5 }, board, B)).toEqual({ winner: 'p2', reason: 'STONE_TIEBREAK', stoneDiff: 1 });
+    // Same board with P1 on white.
+    expect(getGameResult({ p1: 5, p2: 5 }, board, W)).toEqual({ winner: 'p1', reason: 'STONE_TIEBREAK', stoneDiff: 1 });
+  });
+
+  it('is a draw on equal points and equal stones', () => {
+    const board = boardWith([[0, 0, B], [0, 1, W]]);
+    expect(getGameResult({ p1: 5, p2: 5 }, board, B)).toEqual({ winner: null, reason: 'DRAW' });
+  });
+});
+
+describe('getKnockoutWinner', () => {
+  it('needs both the target and the margin', () => {
+    expect(getKnockoutWinner({ p1: 200, p2: 150 }, DEFAULT_RULES)).toBeNull();
+    expect(getKnockoutWinner({ p1: 200, p2: 100 }, DEFAULT_RULES)).toBe('p1');
+    expect(getKnockoutWinner({ p1: 40, p2: 210 }, DEFAULT_RULES)).toBe('p2');
+  });
+});
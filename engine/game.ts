@@ -0,0 +1,269 @@
+// Headless "Caro Nổ" rules engine. No React, no timers, no DOM:
+// every rule of the game lives here so PVP, PVE, ONLINE and any tooling
+// share exactly one implementation.
+
+import { DEFAULT_RULES, RuleSet } from './rules';
+import { Text, text } from './i18n';
+
+// --- Constants ---
+export const PLAYER_BLACK = 1; // Stone Color Black (VOID)
+export const PLAYER_WHITE = 2; // Stone Color White (LIGHT)
+export const EMPTY = 0;
+
+// --- Types ---
+export type CellValue = 0 | 1 | 2;
+export type BoardState = CellValue[][];
+export type PlayerSlot = 'p1' | 'p2';
+export type Cell = { r: number, c: number };
+export type Scores = { p1: number, p2: number };
+export type GameMode = 'PVP' | 'PVE' | 'ONLINE' | 'AIVAI';
+
+export type GameOverReason =
+  | 'KNOCKOUT'        // reached the score target with the required margin
+  | 'HIGHER_SCORE'    // board full, more points
+  | 'STONE_TIEBREAK'  // board full, equal points, fewer stones left on board
+  | 'DRAW'            // board full, equal points and equal stones
+  | 'TIMEOUT'         // the loser's clock ran out
+  | 'ABANDONED'       // the loser left an online game and did not come back
+  | 'RESIGNATION'     // the loser resigned
+  | 'AGREED_DRAW';    // both players agreed to a draw (winner is null)
+
+export interface GameResult {
+  winner: PlayerSlot | null; // null = draw
+  reason: GameOverReason;
+  stoneDiff?: number;        // only for STONE_TIEBREAK
+}
+
+export interface GameState {
+  rules: RuleSet;
+  board: BoardState;
+  scores: Scores;
+  currentPlayer: CellValue;
+  p1Color: CellValue;        // flips every rules.swapInterval turns
+  turnCount: number;
+  result: GameResult | null; // non-null once the game is over
+}
+
+export type GameEvent =
+  | { type: 'STONE_PLACED', r: number, c: number, color: CellValue }
+  | { type: 'STONES_EXPLODED', stones: Cell[], color: CellValue }
+  | { type: 'POINTS_AWARDED', to: PlayerSlot, points: number }
+  | { type: 'SIDES_SWAPPED', p1Color: CellValue }
+  | { type: 'GAME_OVER', result: GameResult };
+
+export interface MoveOutcome {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export class IllegalMoveError extends Error {
+  constructor(readonly text: Text) {
+    super(text.key);
+    this.name = 'IllegalMoveError';
+  }
+}
+
+// --- Board Helpers ---
+
+export const opponentOf = (color: CellValue): CellValue =>
+  color === PLAYER_BLACK ? PLAYER_WHITE : PLAYER_BLACK;
+
+export const otherSlot = (slot: PlayerSlot): PlayerSlot => slot === 'p1' ? 'p2' : 'p1';
+
+export const createEmptyBoard = (size: number): BoardState =>
+  Array(size).fill(null).map(() => Array(size).fill(EMPTY));
+
+export const cloneBoard = (board: BoardState): BoardState => board.map(row => [...row]);
+
+export const inBounds = (board: BoardState, r: number, c: number) =>
+  r >= 0 && r < board.length && c >= 0 && c < board.length;
+
+// Check for ANY line length >= rules.lineLength (or exactly that long with
+// rules.exactLength). Returns ALL stones in the exploding lines.
+export const checkLongLines = (board: BoardState, lastRow: number, lastCol: number, player: CellValue, rules: RuleSet) => {
+  const directions = [
+    [0, 1],   // Horizontal
+    [1, 0],   // Vertical
+    [1, 1],   // Diagonal \
+    [1, -1]   // Diagonal /
+  ];
+
+  let allStonesInLine: Cell[] = [];
+
+  for (const [dx, dy] of directions) {
+    let count = 1;
+    let lineCells = [{ r: lastRow, c: lastCol }];
+
+    // Check forward (positive direction)
+    let i = 1;
+    while (true) {
+      const r = lastRow + dx * i;
+      const c = lastCol + dy * i;
+      if (inBounds(board, r, c) && board[r][c] === player) {
+        count++;
+        lineCells.push({ r, c });
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    // Check backward (negative direction)
+    let j = 1;
+    while (true) {
+      const r = lastRow - dx * j;
+      const c = lastCol - dy * j;
+      if (inBounds(board, r, c) && board[r][c] === player) {
+        count++;
+        lineCells.push({ r, c });
+        j++;
+      } else {
+        break;
+      }
+    }
+
+    // If the line is long enough, add to removal list
+    if (rules.exactLength ? count === rules.lineLength : count >= rules.lineLength) {
+      allStonesInLine = [...allStonesInLine, ...lineCells];
+    }
+  }
+
+  // Remove duplicates
+  const uniqueStones = Array.from(new Set(allStonesInLine.map(s => `${s.r},${s.c}`)))
+                            .map(str => {
+                                const [r, c] = str.split(',').map(Number);
+                                return { r, c };
+                            });
+
+  return uniqueStones.length > 0 ? uniqueStones : null;
+};
+
+export const isBoardFull = (board: BoardState): boolean => {
+    for(let r=0; r<board.length; r++){
+        for(let c=0; c<board.length; c++){
+            if(board[r][c] === EMPTY) return false;
+        }
+    }
+    return true;
+};
+
+export const countStones = (board: BoardState) => {
+    let black = 0;
+    let white = 0;
+    board.forEach(row => row.forEach(cell => {
+        if (cell === PLAYER_BLACK) black++;
+        if (cell === PLAYER_WHITE) white++;
+    }));
+    return { black, white };
+};
+
+// --- Results ---
+
+export const getKnockoutWinner = (scores: Scores, rules: RuleSet): PlayerSlot | null => {
+  if (scores.p1 >= rules.knockoutScore && (scores.p1 - scores.p2) >= rules.knockoutMargin) return 'p1';
+  if (scores.p2 >= rules.knockoutScore && (scores.p2 - scores.p1) >= rules.knockoutMargin) return 'p2';
+  return null;
+};
+
+// Final result once the board is full: points first, then whoever has MORE
+// stones left on the board is penalised.
+export const getGameResult = (scores: Scores, finalBoard: BoardState, p1Color: CellValue): GameResult => {
+    if (scores.p1 > scores.p2) return { winner: 'p1', reason: 'HIGHER_SCORE' };
+    if (scores.p2 > scores.p1) return { winner: 'p2', reason: 'HIGHER_SCORE' };
+
+    const { black, white } = countStones(finalBoard);
+    const p1Stones = p1Color === PLAYER_BLACK ? black : white;
+    const p2Stones = p1Color === PLAYER_BLACK ? white : black;
+
+    if (p1Stones > p2Stones) return { winner: 'p2', reason: 'STONE_TIEBREAK', stoneDiff: p1Stones - p2Stones };
+    if (p2Stones > p1Stones) return { winner: 'p1', reason: 'STONE_TIEBREAK', stoneDiff: p2Stones - p1Stones };
+
+    return { winner: null, reason: 'DRAW' };
+};
+
+// --- State Transitions ---
+
+export const createGame = (rules: RuleSet = DEFAULT_RULES): GameState => ({
+  rules,
+  board: createEmptyBoard(rules.boardSize),
+  scores: { p1: 0, p2: 0 },
+  currentPlayer: PLAYER_BLACK,
+  p1Color: PLAYER_BLACK,
+  turnCount: 0,
+  result: null,
+});
+
+export const slotOfColor = (state: GameState, color: CellValue): PlayerSlot =>
+  color === state.p1Color ? 'p1' : 'p2';
+
+export const colorOfSlot = (state: GameState, slot: PlayerSlot): CellValue =>
+  slot === 'p1' ? state.p1Color : opponentOf(state.p1Color);
+
+// Turns left before the next color swap, Infinity when the rule set never swaps.
+export const movesUntilSwap = (state: GameState) => {
+  const { swapInterval } = state.rules;
+  return swapInterval > 0 ? swapInterval - (state.turnCount % swapInterval) : Infinity;
+};
+
+// Returns the reason the move cannot be played, null when it can.
+export const validateMove = (state: GameState, move: Cell): Text | null => {
+  if (state.result) return text('move.gameOver');
+  if (!Number.isInteger(move.r) || !Number.isInteger(move.c) || !inBounds(state.board, move.r, move.c)) {
+    return text('move.offBoard', { r: move.r, c: move.c });
+  }
+  if (state.board[move.r][move.c] !== EMPTY) return text('move.occupied', { r: move.r, c: move.c });
+  return null;
+};
+
+// Plays `move` for `state.currentPlayer`. Pure: never mutates `state`.
+export const applyMove = (state: GameState, move: Cell): MoveOutcome => {
+  const error = validateMove(state, move);
+  if (error) throw new IllegalMoveError(error);
+
+  const { r, c } = move;
+  const mover = state.currentPlayer;
+  const events: GameEvent[] = [];
+
+  const board = cloneBoard(state.board);
+  board[r][c] = mover;
+  events.push({ type: 'STONE_PLACED', r, c, color: mover });
+
+  const scores = { ...state.scores };
+  const stonesToExplode = checkLongLines(board, r, c, mover, state.rules);
+
+  if (stonesToExplode) {
+    // The OPPONENT of whoever completed the line scores the stones.
+    const receiver = otherSlot(slotOfColor(state, mover));
+    scores[receiver] += stonesToExplode.length;
+    stonesToExplode.forEach(cell => { board[cell.r][cell.c] = EMPTY; });
+    events.push({ type: 'STONES_EXPLODED', stones: stonesToExplode, color: mover });
+    events.push({ type: 'POINTS_AWARDED', to: receiver, points: stonesToExplode.length });
+  }
+
+  const turnCount = state.turnCount + 1;
+  let result: GameResult | null = null;
+
+  const knockoutWinner = getKnockoutWinner(scores, state.rules);
+  if (knockoutWinner) {
+    result = { winner: knockoutWinner, reason: 'KNOCKOUT' };
+  } else if (isBoardFull(board)) {
+    result = getGameResult(scores, board, state.p1Color);
+  }
+
+  if (result) {
+    events.push({ type: 'GAME_OVER', result });
+    return { state: { ...state, board, scores, turnCount, result }, events };
+  }
+
+  let p1Color = state.p1Color;
+  const { swapInterval } = state.rules;
+  if (swapInterval > 0 && turnCount % swapInterval === 0) {
+    p1Color = opponentOf(p1Color);
+    events.push({ type: 'SIDES_SWAPPED', p1Color });
+  }
+
+  return {
+    state: { rules: state.rules, board, scores, currentPlayer: opponentOf(mover), p1Color, turnCount, result },
+    events,
+  };
+};
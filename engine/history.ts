@@ -0,0 +1,83 @@
+import { Cell, CellValue, GameEvent, GameResult, GameState, PlayerSlot, applyMove, slotOfColor } from './game';
+
+// One played move. `state` is the position AFTER the move, so undoing an
+// explosion is just stepping back to the previous snapshot: the removed
+// stones and the awarded points come back with it.
+export interface Ply {
+  move: Cell;
+  color: CellValue;
+  events: GameEvent[];
+  state: GameState;
+}
+
+export interface GameHistory {
+  initial: GameState;
+  plies: Ply[];
+  cursor: number; // plies[0..cursor) are played, plies[cursor..] can be redone
+}
+
+export const createHistory = (initial: GameState): GameHistory => ({ initial, plies: [], cursor: 0 });
+
+// Position after the first `index` plies (0 = starting position).
+export const stateAt = (history: GameHistory, index: number): GameState =>
+  index <= 0 ? history.initial : history.plies[Math.min(index, history.plies.length) - 1].state;
+
+export const currentState = (history: GameHistory): GameState => stateAt(history, history.cursor);
+
+export const playedPlies = (history: GameHistory): Ply[] => history.plies.slice(0, history.cursor);
+
+export const canUndo = (history: GameHistory) => history.cursor > 0;
+export const canRedo = (history: GameHistory) => history.cursor < history.plies.length;
+
+// Plays a move on the current position. Any redo tail is discarded.
+export const pushMove = (history: GameHistory, move: Cell): { history: GameHistory, ply: Ply } => {
+  const before = currentState(history);
+  const { state, events } = applyMove(before, move);
+  const ply: Ply = { move, color: before.currentPlayer, events, state };
+  return {
+    history: { ...history, plies: [...playedPlies(history), ply], cursor: history.cursor + 1 },
+    ply,
+  };
+};
+
+// Ends the game on the current position without a move (flag fall, abandonment). The
+// redo tail is dropped and the result is stamped on the current snapshot.
+export const endGame = (history: GameHistory, result: GameResult): GameHistory => {
+  const ended: GameState = { ...currentState(history), result };
+  const plies = playedPlies(history);
+  if (plies.length === 0) return { ...history, initial: ended, plies };
+  const last = plies[plies.length - 1];
+  const closed: Ply = { ...last, state: ended, events: [...last.events, { type: 'GAME_OVER', result }] };
+  return { ...history, plies: [...plies.slice(0, -1), closed] };
+};
+
+export const undo = (history: GameHistory): GameHistory =>
+  canUndo(history) ? { ...history, cursor: history.cursor - 1 } : history;
+
+export const redo = (history: GameHistory): GameHistory =>
+  canRedo(history) ? { ...history, cursor: history.cursor + 1 } : history;
+
+// Undo at least one ply, then keep going until `isTarget` holds
+// (e.g. in PVE, take back the AI reply as well so the human is to move).
+export const undoUntil = (history: GameHistory, isTarget: (state: GameState) => boolean): GameHistory => {
+  let next = undo(history);
+  while (canUndo(next) && !isTarget(currentState(next))) next = undo(next);
+  return next;
+};
+
+export const hasPlayed = (history: GameHistory, slot: PlayerSlot) =>
+  playedPlies(history).some((ply, i) => slotOfColor(stateAt(history, i), ply.color) === slot);
+
+// Takes back `slot`'s last move and any reply to it, leaving `slot` to move.
+// The redo tail is dropped: an agreed takeback is not meant to be replayed.
+export const takeBack = (history: GameHistory, slot: PlayerSlot): GameHistory => {
+  const back = undoUntil(history, state => slotOfColor(state, state.currentPlayer) === slot);
+  return { ...back, plies: playedPlies(back) };
+};
+
+// Redo at least one ply, then keep going until `isTarget` holds or the redo tail runs out.
+export const redoUntil = (history: GameHistory, isTarget: (state: GameState) => boolean): GameHistory => {
+  let next = redo(history);
+  while (canRedo(next) && !currentState(next).result && !isTarget(currentState(next))) next = redo(next);
+  return next;
+};
@@ -0,0 +1,83 @@
+// Message catalogs and the translator every text on screen goes through.
+// The catalogs live in locales/, one per language, keyed by message id; vi is
+// the reference and the others must have exactly its keys. A message is a
+// string with {name} placeholders, or one string per plural category
+// (Intl.PluralRules) chosen by the `count` parameter.
+//
+// Engine code that produces text for people (move problems, parse errors,
+// puzzle goals) returns it as a Text, a key and its parameters, and the UI
+// renders it in the chosen language. Parameters can be Texts themselves.
+
+import { vi } from '../locales/vi';
+import { en } from '../locales/en';
+
+export type Locale = 'vi' | 'en';
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+
+// Each language under its own name, for the switcher.
+export const LOCALE_NAMES: Record<Locale, string> = { vi: 'Tiếng Việt', en: 'English' };
+
+const STORE_KEY = 'caro-no:locale';
+
+export type PluralMessage = { [category in Intl.LDMLPluralRule]?: string } & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof vi;
+export type Catalog = Record<MessageKey, Message>;
+
+export interface Text {
+  key: MessageKey;
+  params?: Params;
+}
+
+export type Params = Record<string, string | number | Text>;
+
+export type Translate = (key: MessageKey, params?: Params) => string;
+
+export const text = (key: MessageKey, params?: Params): Text => params ? { key, params } : { key };
+
+const isText = (value: unknown): value is Text => typeof value === 'object' && value !== null && 'key' in value;
+
+const CATALOGS: Record<Locale, Catalog> = { vi, en };
+
+const translators = new Map<Locale, Translate>();
+
+export const translator = (locale: Locale): Translate => {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+  const plurals = new Intl.PluralRules(locale);
+  const translate: Translate = (key, params = {}) => {
+    const message: Message | undefined = CATALOGS[locale][key] ?? CATALOGS.vi[key];
+    if (message === undefined) return key;
+    const template = typeof message === 'string' ? message : message[plurals.select(Number(params.count))] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return isText(value) ? translate(value.key, value.params) : String(value);
+    });
+  };
+  translators.set(locale, translate);
+  return translate;
+};
+
+export const renderText = (t: Translate, value: Text) => t(value.key, value.params);
+
+// The saved choice, else the browser's language when there is a catalog for it, else English.
+export const loadLocale = (storage: Storage = localStorage): Locale => {
+  try {
+    const saved = storage.getItem(STORE_KEY);
+    if (LOCALES.includes(saved as Locale)) return saved as Locale;
+  } catch {
+    // Storage disabled: fall through to the browser's language.
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return LOCALES.includes(browser as Locale) ? browser as Locale : 'en';
+};
+
+export const saveLocale = (locale: Locale, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(STORE_KEY, locale);
+  } catch {
+    // Storage full or disabled: the choice lasts until the tab closes.
+  }
+};
@@ -0,0 +1,149 @@
+// Browser side of the lobby (server/lobby.ts): the live room list, publishing
+// a hosted room, and asking for a way into someone else's. The socket
+// reopens on its own after an outage and republishes rooms still waiting.
+
+import { DEFAULT_LOBBY_PORT, LobbyErrorKind, LobbyFromServer, LobbyRoom, LobbySettings, LobbyToServer } from './lobbyProtocol';
+
+export type LobbyStatus = 'CONNECTING' | 'ONLINE' | 'OFFLINE';
+
+export class LobbyError extends Error {
+  constructor(message: string, readonly kind: LobbyErrorKind) {
+    super(message);
+    this.name = 'LobbyError';
+  }
+}
+
+export interface LobbyClient {
+  onRooms: (handler: (rooms: LobbyRoom[]) => void) => void;
+  onStatus: (handler: (status: LobbyStatus) => void) => void;
+  // Host: list a waiting room, then take it down once a guest sits or the host leaves.
+  openRoom: (room: string, hostName: string, settings: LobbySettings, password: string | null) => void;
+  fillRoom: (room: string) => void;
+  closeRoom: (room: string) => void;
+  // The transport room id to join.
+  join: (id: string, password: string | null) => Promise<string>;
+  // A matching room's transport id, or null when nobody is waiting and the caller should host.
+  quickMatch: (settings: LobbySettings) => Promise<string | null>;
+  dispose: () => void;
+}
+
+const REOPEN_DELAY_MS = 3000;
+
+// URL parameter beats build-time config; by default the lobby runs next to the page.
+export const readLobbyUrl = (params: URLSearchParams, env: Record<string, string | undefined> = {}, hostname = 'localhost') =>
+  params.get('lobby') || env.VITE_LOBBY_URL || `ws://${hostname || 'localhost'}:${DEFAULT_LOBBY_PORT}`;
+
+type Pending = { resolve: (room: string | null) => void, reject: (err: LobbyError) => void };
+
+export const createLobbyClient = (url: string): LobbyClient => {
+  let socket: WebSocket | null = null;
+  let disposed = false;
+  let roomsHandler: ((rooms: LobbyRoom[]) => void) | null = null;
+  let statusHandler: ((status: LobbyStatus) => void) | null = null;
+  let nextReq = 1;
+  const pending = new Map<number, Pending>();
+  // Hosted rooms still waiting for a guest, by transport room id.
+  const listed = new Map<string, Extract<LobbyToServer, { op: 'open' }>>();
+
+  const post = (message: LobbyToServer) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const failAll = (message: string) => {
+    const waiting = [...pending.values()];
+    pending.clear();
+    waiting.forEach(p => p.reject(new LobbyError(message, 'NETWORK')));
+  };
+
+  const receive = (message: LobbyFromServer) => {
+    switch (message.op) {
+      case 'rooms':
+        roomsHandler?.(message.rooms);
+        break;
+      case 'joined':
+      case 'noMatch': {
+        const request = pending.get(message.req);
+        pending.delete(message.req);
+        request?.resolve(message.op === 'joined' ? message.room : null);
+        break;
+      }
+      case 'error': {
+        const request = message.req !== undefined ? pending.get(message.req) : undefined;
+        if (request) {
+          pending.delete(message.req!);
+          request.reject(new LobbyError(message.message, message.code));
+        } else {
+          console.warn(`Lobby: ${message.message}`);
+        }
+        break;
+      }
+    }
+  };
+
+  const open = () => {
+    const created = new WebSocket(url);
+    socket = created;
+    statusHandler?.('CONNECTING');
+    created.onopen = () => {
+      statusHandler?.('ONLINE');
+      listed.forEach(message => post(message));
+    };
+    created.onmessage = (event) => {
+      try {
+        receive(JSON.parse(String(event.data)) as LobbyFromServer);
+      } catch (err) {
+        console.warn('Lobby sent an unreadable message', err);
+      }
+    };
+    created.onclose = () => {
+      if (socket !== created) return;
+      statusHandler?.('OFFLINE');
+      roomsHandler?.([]);
+      failAll(`Lost the connection to the lobby at ${url}`);
+      if (!disposed) setTimeout(() => { if (!disposed && socket === created) open(); }, REOPEN_DELAY_MS);
+    };
+  };
+
+  const request = (body: (req: number) => LobbyToServer) => new Promise<string | null>((resolve, reject) => {
+    if (socket?.readyState !== WebSocket.OPEN) {
+      reject(new LobbyError('Not connected to the lobby yet', 'NETWORK'));
+      return;
+    }
+    const req = nextReq++;
+    pending.set(req, { resolve, reject });
+    post(body(req));
+  });
+
+  open();
+
+  return {
+    onRooms: (handler) => { roomsHandler = handler; },
+    onStatus: (handler) => {
+      statusHandler = handler;
+      handler(socket?.readyState === WebSocket.OPEN ? 'ONLINE' : 'CONNECTING');
+    },
+    openRoom: (room, hostName, settings, password) => {
+      const message: LobbyToServer = { op: 'open', room, hostName, settings, password };
+      listed.set(room, message);
+      post(message);
+    },
+    fillRoom: (room) => {
+      listed.delete(room);
+      post({ op: 'filled', room });
+    },
+    closeRoom: (room) => {
+      listed.delete(room);
+      post({ op: 'close', room });
+    },
+    join: (id, password) =>
+      request(req => ({ op: 'join', req, id, password })).then(room => room ?? Promise.reject(new LobbyError('The room is gone', 'NOT_FOUND'))),
+    quickMatch: (settings) => request(req => ({ op: 'quickMatch', req, settings })),
+    dispose: () => {
+      disposed = true;
+      listed.clear();
+      failAll('Left the lobby');
+      socket?.close();
+      socket = null;
+    },
+  };
+};
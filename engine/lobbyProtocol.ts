@@ -0,0 +1,104 @@
+// Wire format between lobbyClient.ts and the lobby server (server/lobby.ts).
+// The lobby only helps players find each other: it lists waiting rooms and
+// hands out a room's transport id, after which the game runs over the
+// transport as usual and the lobby is out of the loop.
+//
+//   host                      lobby                      guest
+//   open (room, settings) --->        --->  rooms (listing)
+//                                     <---  join (id, password) / quickMatch
+//                                     --->  joined (room)
+//   filled (room)         --->        --->  rooms (listing without it)
+//
+// A listing's id is not its transport room id; the lobby only reveals that
+// to a guest who gets in, so a private room's password actually guards it.
+
+import { PlayerSlot } from './game';
+import { RuleSet, normalizeRules } from './rules';
+import { TimeControl, normalizeTimeControl } from './clock';
+import { TRANSPORT_KINDS, TransportKind } from './transport';
+import { MAX_NAME_LENGTH } from './protocol';
+
+export const DEFAULT_LOBBY_PORT = 8788;
+export const MAX_PASSWORD_LENGTH = 64;
+
+// What a room is played with. Quick-match pairs seekers with a room that has exactly these.
+export interface LobbySettings {
+  rules: RuleSet;
+  timeControls: Record<PlayerSlot, TimeControl>;
+  transport: TransportKind; // guests on another transport cannot reach the host
+}
+
+export interface LobbyRoom extends LobbySettings {
+  id: string;
+  hostName: string; // empty for an anonymous host
+  locked: boolean; // needs a password
+  openedAt: number;
+}
+
+export type LobbyErrorKind =
+  | 'NOT_FOUND'       // the room is gone (filled, closed or abandoned)
+  | 'FULL'            // another guest is on the way in
+  | 'WRONG_PASSWORD'
+  | 'INVALID'         // a message the lobby could not read
+  | 'NETWORK';        // client side: the lobby is unreachable
+
+// `req` ties an answer to the request that asked for it.
+export type LobbyToServer =
+  | { op: 'open', room: string, hostName: string, settings: LobbySettings, password: string | null }
+  | { op: 'filled', room: string }
+  | { op: 'close', room: string }
+  | { op: 'join', req: number, id: string, password: string | null }
+  | { op: 'quickMatch', req: number, settings: LobbySettings };
+
+export type LobbyFromServer =
+  | { op: 'rooms', rooms: LobbyRoom[] }
+  | { op: 'joined', req: number, room: string }
+  | { op: 'noMatch', req: number } // quick-match: nobody waiting, so the seeker hosts
+  | { op: 'error', req?: number, code: LobbyErrorKind, message: string };
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const readLobbySettings = (value: unknown): LobbySettings | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const settings = value as Partial<LobbySettings>;
+  if (!TRANSPORT_KINDS.includes(settings.transport as TransportKind) || typeof settings.rules !== 'object' || settings.rules === null) return null;
+  return {
+    rules: normalizeRules(settings.rules),
+    timeControls: { p1: normalizeTimeControl(settings.timeControls?.p1), p2: normalizeTimeControl(settings.timeControls?.p2) },
+    transport: settings.transport as TransportKind,
+  };
+};
+
+// Server side: the message, or null when it is not one the lobby understands.
+export const readLobbyMessage = (raw: string): LobbyToServer | null => {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  const isId = (value: unknown): value is string => typeof value === 'string' && ID_PATTERN.test(value);
+  const isReq = (value: unknown): value is number => Number.isInteger(value);
+  const password = (value: unknown) =>
+    typeof value === 'string' && value.length > 0 ? value.slice(0, MAX_PASSWORD_LENGTH) : null;
+  switch (message.op) {
+    case 'open': {
+      const settings = readLobbySettings(message.settings);
+      const hostName = typeof message.hostName === 'string' ? message.hostName.trim().slice(0, MAX_NAME_LENGTH) : '';
+      if (!isId(message.room) || !settings) return null;
+      return { op: 'open', room: message.room, hostName, settings, password: password(message.password) };
+    }
+    case 'filled':
+    case 'close':
+      return isId(message.room) ? { op: message.op, room: message.room } : null;
+    case 'join':
+      return isReq(message.req) && isId(message.id) ? { op: 'join', req: message.req, id: message.id, password: password(message.password) } : null;
+    case 'quickMatch': {
+      const settings = readLobbySettings(message.settings);
+      return isReq(message.req) && settings ? { op: 'quickMatch', req: message.req, settings } : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,84 @@
+// In-memory transport: rooms live in a registry shared by every transport
+// in the same JS context, and data is copied through JSON like it would be
+// on the wire. Meant for headless tests and offline runs.
+
+import { LinkEnd, Transport, TransportError, createLinkEnd } from './transport';
+
+const rooms = new Map<string, (end: LinkEnd) => void>();
+
+// Delivery is asynchronous, as on a real network.
+const later = (task: () => void) => { setTimeout(task, 0); };
+
+export const createLoopbackTransport = (): Transport => {
+  let closed = false;
+  let readyHandler: (() => void) | null = null;
+  let errorHandler: ((error: TransportError) => void) | null = null;
+  const owned = new Set<string>();
+  const ends = new Set<LinkEnd>();
+
+  // Connections this transport has to close when it goes away.
+  const track = (end: LinkEnd) => {
+    ends.add(end);
+    end.connection.onClose(() => ends.delete(end));
+  };
+
+  // Two ends wired to each other.
+  const pair = () => {
+    let a: LinkEnd;
+    let b: LinkEnd;
+    const link = (other: () => LinkEnd) => createLinkEnd(
+      data => {
+        const copy = JSON.parse(JSON.stringify(data));
+        later(() => other().emitMessage(copy));
+      },
+      () => later(() => other().emitClose()),
+    );
+    a = link(() => b);
+    b = link(() => a);
+    return [a, b] as const;
+  };
+
+  return {
+    kind: 'loopback',
+    listen: (roomId, onConnection) => {
+      if (rooms.has(roomId)) {
+        later(() => errorHandler?.(new TransportError(`Room "${roomId}" already has a host`, 'ROOM_TAKEN')));
+        return;
+      }
+      rooms.set(roomId, end => {
+        track(end);
+        onConnection(end.connection);
+      });
+      owned.add(roomId);
+      later(() => readyHandler?.());
+    },
+    connect: (roomId) => {
+      const [local, remote] = pair();
+      track(local);
+      later(() => {
+        const accept = rooms.get(roomId);
+        if (!accept) {
+          errorHandler?.(new TransportError(`Room "${roomId}" not found`, 'ROOM_NOT_FOUND'));
+          local.emitClose();
+          return;
+        }
+        accept(remote);
+        remote.emitOpen();
+        local.emitOpen();
+      });
+      return local.connection;
+    },
+    isReady: () => !closed,
+    onReady: (handler) => {
+      readyHandler = handler;
+      later(() => { if (!closed) handler(); });
+    },
+    onError: (handler) => { errorHandler = handler; },
+    close: () => {
+      closed = true;
+      owned.forEach(roomId => rooms.delete(roomId));
+      owned.clear();
+      [...ends].forEach(end => end.connection.close());
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import { Cell } from './game';
+
+// Coordinate notation: column letter (A = left) + row number (1 = top),
+// so the center of the standard 15x15 board is "H8".
+const COLUMNS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const formatCell = ({ r, c }: Cell) => `${COLUMNS[c] ?? '?'}${r + 1}`;
+
+// Inverse of formatCell. Returns null for anything that is not a coordinate.
+export const parseCell = (text: string): Cell | null => {
+  const match = /^([A-Z])(\d{1,2})$/.exec(text.trim().toUpperCase());
+  if (!match) return null;
+  return { r: Number(match[2]) - 1, c: COLUMNS.indexOf(match[1]) };
+};
@@ -0,0 +1,55 @@
+// PeerJS transport: the room id is the host's peer id on the broker, and
+// each connection is a WebRTC data channel.
+
+import Peer, { DataConnection, PeerOptions } from 'peerjs';
+import { Connection, PeerJsOptions, Transport, TransportError } from './transport';
+
+const wrapConnection = (channel: DataConnection): Connection => ({
+  send: (data) => { if (channel.open) channel.send(data); },
+  onOpen: (handler) => { channel.on('open', handler); },
+  onMessage: (handler) => { channel.on('data', handler); },
+  onClose: (handler) => { channel.on('close', handler); },
+  close: () => channel.close(),
+});
+
+export const createPeerTransport = (options: PeerJsOptions): Transport => {
+  let peer: Peer | null = null;
+  let readyHandler: (() => void) | null = null;
+  let errorHandler: ((error: TransportError) => void) | null = null;
+  const peerOptions: PeerOptions = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+
+  const start = (id?: string) => {
+    const created = id ? new Peer(id, peerOptions) : new Peer(peerOptions);
+    created.on('open', () => readyHandler?.());
+    // Lost the broker; data channels already open keep working meanwhile.
+    created.on('disconnected', () => { if (!created.destroyed) created.reconnect(); });
+    created.on('error', (err) => {
+      const kind = err.type === 'unavailable-id' ? 'ROOM_TAKEN' : err.type === 'peer-unavailable' ? 'ROOM_NOT_FOUND' : 'NETWORK';
+      errorHandler?.(new TransportError(err.message || err.type, kind));
+    });
+    peer = created;
+    return created;
+  };
+
+  return {
+    kind: 'peerjs',
+    listen: (roomId, onConnection) => {
+      start(roomId).on('connection', channel => onConnection(wrapConnection(channel)));
+    },
+    connect: (roomId) => {
+      if (!peer) start();
+      return wrapConnection(peer!.connect(roomId, { reliable: true }));
+    },
+    isReady: () => peer !== null && peer.open && !peer.disconnected,
+    onReady: (handler) => {
+      readyHandler = handler;
+      // A guest's peer gets its random id from the broker as soon as it exists.
+      if (!peer) start();
+    },
+    onError: (handler) => { errorHandler = handler; },
+    close: () => {
+      peer?.destroy();
+      peer = null;
+    },
+  };
+};
@@ -0,0 +1,122 @@
+// Starting positions other than the empty board, set up in the position
+// editor. A game keeps its start (GameHistory.initial), and saves, records
+// and the online handshake carry it so every replay begins from the same
+// position. In text (records) a position is one line:
+//
+//   X.O..../......./... X O 12-7 40
+//
+// rows top to bottom ('.' empty, 'X' VOID, 'O' LIGHT), side to move, P1's
+// color, scores P1-P2 and turns played so far.
+
+import {
+  BoardState, Cell, CellValue, EMPTY, GameState, PLAYER_BLACK, PLAYER_WHITE, Scores,
+  checkLongLines, cloneBoard, createGame, getKnockoutWinner, isBoardFull,
+} from './game';
+import { RuleSet } from './rules';
+import { formatCell } from './notation';
+import { Text, text } from './i18n';
+
+export interface Position {
+  board: BoardState;
+  currentPlayer: CellValue;
+  p1Color: CellValue;
+  scores: Scores;
+  turnCount: number;
+}
+
+const MARKS: Record<string, CellValue> = { '.': EMPTY, X: PLAYER_BLACK, O: PLAYER_WHITE };
+const markOf = (value: CellValue) => value === PLAYER_BLACK ? 'X' : value === PLAYER_WHITE ? 'O' : '.';
+const isColor = (value: unknown): value is CellValue => value === PLAYER_BLACK || value === PLAYER_WHITE;
+
+export const positionOf = (state: GameState): Position => ({
+  board: cloneBoard(state.board),
+  currentPlayer: state.currentPlayer,
+  p1Color: state.p1Color,
+  scores: { ...state.scores },
+  turnCount: state.turnCount,
+});
+
+// A new game from `start`, or from the empty board when there is none.
+export const gameFromPosition = (rules: RuleSet, start: Position | null): GameState => start ? {
+  ...createGame(rules),
+  board: cloneBoard(start.board),
+  currentPlayer: start.currentPlayer,
+  p1Color: start.p1Color,
+  scores: { ...start.scores },
+  turnCount: start.turnCount,
+} : createGame(rules);
+
+// Whether the game began anywhere but the empty board with VOID to move.
+export const isSetUp = (initial: GameState) => {
+  const empty = createGame(initial.rules);
+  return initial.currentPlayer !== empty.currentPlayer || initial.p1Color !== empty.p1Color || initial.turnCount !== 0
+    || initial.scores.p1 !== 0 || initial.scores.p2 !== 0 || initial.board.some(row => row.some(cell => cell !== EMPTY));
+};
+
+// A stone in a line long enough to explode. No game reaches such a position:
+// the line would have exploded the moment it was completed.
+export const findUnexplodedLine = (board: BoardState, rules: RuleSet): Cell | null => {
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board.length; c++) {
+      if (board[r][c] !== EMPTY && checkLongLines(board, r, c, board[r][c], rules)) return { r, c };
+    }
+  }
+  return null;
+};
+
+// Returns the reason no game can start from `position`, null when one can.
+export const validatePosition = (position: Position, rules: RuleSet): Text | null => {
+  const { board, scores, turnCount } = position;
+  if (board.length !== rules.boardSize || board.some(row => row.length !== rules.boardSize)) {
+    return text('position.size', { size: rules.boardSize });
+  }
+  if (board.some(row => row.some(cell => cell !== EMPTY && !isColor(cell)))) return text('position.badCell');
+  if (!isColor(position.currentPlayer) || !isColor(position.p1Color)) return text('position.badColor');
+  if (![scores.p1, scores.p2, turnCount].every(value => Number.isInteger(value) && value >= 0)) {
+    return text('position.badNumbers');
+  }
+  const line = findUnexplodedLine(board, rules);
+  if (line) return text('position.unexploded', { cell: formatCell(line) });
+  if (getKnockoutWinner(scores, rules)) return text('position.knockedOut');
+  if (isBoardFull(board)) return text('position.full');
+  return null;
+};
+
+// Coerces a stored or received position; null when it is not one.
+export const readPosition = (raw: unknown, rules: RuleSet): Position | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Partial<Position>;
+  if (!Array.isArray(data.board) || !data.board.every(Array.isArray)) return null;
+  const position: Position = {
+    board: data.board.map(row => [...row]),
+    currentPlayer: data.currentPlayer as CellValue,
+    p1Color: data.p1Color as CellValue,
+    scores: { p1: Number(data.scores?.p1), p2: Number(data.scores?.p2) },
+    turnCount: Number(data.turnCount),
+  };
+  return validatePosition(position, rules) ? null : position;
+};
+
+export const formatPosition = (position: Position) => [
+  position.board.map(row => row.map(markOf).join('')).join('/'),
+  markOf(position.currentPlayer),
+  markOf(position.p1Color),
+  `${position.scores.p1}-${position.scores.p2}`,
+  String(position.turnCount),
+].join(' ');
+
+// Inverse of formatPosition. Null for anything that does not read as a position;
+// whether it is playable under some rules is validatePosition's job.
+export const parsePosition = (text: string): Position | null => {
+  const match = /^([.XO/]+) ([XO]) ([XO]) (\d+)-(\d+) (\d+)$/.exec(text.trim());
+  if (!match) return null;
+  const rows = match[1].split('/');
+  if (rows.some(row => row.length !== rows.length)) return null;
+  return {
+    board: rows.map(row => [...row].map(mark => MARKS[mark])),
+    currentPlayer: MARKS[match[2]],
+    p1Color: MARKS[match[3]],
+    scores: { p1: Number(match[4]), p2: Number(match[5]) },
+    turnCount: Number(match[6]),
+  };
+};
@@ -0,0 +1,43 @@
+// Display and sound preferences kept per browser. Missing or unreadable fields fall
+// back to their defaults, so older saved preferences keep loading.
+
+const STORE_KEY = 'caro-no:preferences';
+
+export interface Preferences {
+  highContrast: boolean; // flat black and white stones with strong outlines
+  volume: number;        // 0..1
+  muted: boolean;        // no sounds and no vibration
+  showThreats: boolean;  // mark the cells that would explode a line
+}
+
+// High contrast starts on when the system asks for more contrast.
+export const defaultPreferences = (): Preferences => ({
+  highContrast: typeof matchMedia !== 'undefined' && matchMedia('(prefers-contrast: more)').matches,
+  volume: 0.6,
+  muted: false,
+  showThreats: false,
+});
+
+export const loadPreferences = (storage: Storage = localStorage): Preferences => {
+  const defaults = defaultPreferences();
+  try {
+    const raw = JSON.parse(storage.getItem(STORE_KEY) ?? '{}');
+    if (typeof raw !== 'object' || raw === null) return defaults;
+    return {
+      highContrast: typeof raw.highContrast === 'boolean' ? raw.highContrast : defaults.highContrast,
+      volume: typeof raw.volume === 'number' && raw.volume >= 0 && raw.volume <= 1 ? raw.volume : defaults.volume,
+      muted: typeof raw.muted === 'boolean' ? raw.muted : defaults.muted,
+      showThreats: typeof raw.showThreats === 'boolean' ? raw.showThreats : defaults.showThreats,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const savePreferences = (preferences: Preferences, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(STORE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage full or disabled: the preferences last until the tab closes.
+  }
+};
@@ -0,0 +1,269 @@
+// Local player profiles, their finished games and Elo ratings. Pure
+// functions over a plain ProfileStore that the app keeps in localStorage;
+// AI levels carry a rating of their own so beating MASTER counts for more
+// than beating EASY, and AI-vs-AI games move those ratings too.
+
+import { GameMode, GameOverReason, GameResult, PlayerSlot, Scores } from './game';
+import { DIFFICULTIES, Difficulty } from './ai';
+
+export const INITIAL_RATING = 1200;
+const K_FACTOR = 32;
+const MAX_RESULTS = 1000;
+const STORE_VERSION = 1;
+const STORE_KEY = 'caro-no:profiles';
+
+export const PROFILE_COLORS = ['#eab308', '#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#ec4899', '#14b8a6', '#f97316'];
+
+// Starting ratings for the AI levels, roughly their strength against each other.
+const AI_START_RATINGS: Record<Difficulty, number> = { EASY: 800, MEDIUM: 1100, SUPER_STRONG: 1400, MASTER: 1700 };
+
+export interface Profile {
+  id: string;
+  name: string;
+  color: string; // avatar color
+  rating: number;
+  createdAt: number;
+}
+
+// Who sat on one side of a finished game. A HUMAN is someone without a local
+// profile: the second player at this screen, or an online opponent with the
+// rating they reported (null = unrated, the game moves no ratings).
+export type Seat =
+  | { kind: 'PROFILE', profileId: string }
+  | { kind: 'AI', difficulty: Difficulty }
+  | { kind: 'HUMAN', name: string, rating: number | null };
+
+export type Opponent =
+  | { kind: 'PROFILE', profileId: string, name: string }
+  | { kind: 'AI', difficulty: Difficulty }
+  | { kind: 'HUMAN', name: string, rating: number | null };
+
+export type Outcome = 'WIN' | 'LOSS' | 'DRAW';
+
+// One finished game from one profile's side.
+export interface ResultEntry {
+  profileId: string;
+  playedAt: number;
+  mode: GameMode;
+  opponent: Opponent;
+  outcome: Outcome;
+  reason: GameOverReason;
+  score: number;
+  opponentScore: number;
+  plies: number;
+  ratingBefore: number;
+  ratingAfter: number;
+}
+
+export interface ProfileStore {
+  version: number;
+  profiles: Profile[];
+  activeId: string;
+  results: ResultEntry[]; // oldest first
+  aiRatings: Record<Difficulty, number>;
+}
+
+export interface FinishedGame {
+  mode: GameMode;
+  result: GameResult;
+  scores: Scores;
+  plies: number;
+  seats: Record<PlayerSlot, Seat>;
+  playedAt: number;
+}
+
+const randomId = () => Array.from({ length: 12 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+const newProfile = (name: string, color: string): Profile =>
+  ({ id: randomId(), name, color, rating: INITIAL_RATING, createdAt: Date.now() });
+
+// `firstName` names the profile a new store starts with, in the player's language.
+export const createProfileStore = (firstName: string): ProfileStore => {
+  const first = newProfile(firstName, PROFILE_COLORS[0]);
+  return { version: STORE_VERSION, profiles: [first], activeId: first.id, results: [], aiRatings: { ...AI_START_RATINGS } };
+};
+
+export const activeProfile = (store: ProfileStore) =>
+  store.profiles.find(profile => profile.id === store.activeId) ?? store.profiles[0];
+
+export const findProfile = (store: ProfileStore, id: string | null) =>
+  store.profiles.find(profile => profile.id === id) ?? null;
+
+export const addProfile = (store: ProfileStore, name: string): ProfileStore => {
+  const profile = newProfile(name, PROFILE_COLORS[store.profiles.length % PROFILE_COLORS.length]);
+  return { ...store, profiles: [...store.profiles, profile], activeId: profile.id };
+};
+
+export const updateProfile = (store: ProfileStore, id: string, patch: Partial<Pick<Profile, 'name' | 'color'>>): ProfileStore =>
+  ({ ...store, profiles: store.profiles.map(profile => profile.id === id ? { ...profile, ...patch } : profile) });
+
+// Drops the profile and its games. The last profile cannot go.
+export const removeProfile = (store: ProfileStore, id: string): ProfileStore => {
+  const profiles = store.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === 0) return store;
+  return {
+    ...store,
+    profiles,
+    activeId: store.activeId === id ? profiles[0].id : store.activeId,
+    results: store.results.filter(entry => entry.profileId !== id),
+  };
+};
+
+export const selectProfile = (store: ProfileStore, id: string): ProfileStore =>
+  findProfile(store, id) ? { ...store, activeId: id } : store;
+
+// --- Rating ---
+
+export const expectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+export const nextRating = (rating: number, opponentRating: number, score: number) =>
+  Math.round(rating + K_FACTOR * (score - expectedScore(rating, opponentRating)));
+
+const seatRating = (store: ProfileStore, seat: Seat) => {
+  switch (seat.kind) {
+    case 'PROFILE':
+      return findProfile(store, seat.profileId)?.rating ?? null;
+    case 'AI':
+      return store.aiRatings[seat.difficulty];
+    default:
+      return seat.rating;
+  }
+};
+
+// Two seats that are the same rated entity (a profile against itself, an AI level against itself).
+const sameEntity = (a: Seat, b: Seat) =>
+  (a.kind === 'PROFILE' && b.kind === 'PROFILE' && a.profileId === b.profileId)
+  || (a.kind === 'AI' && b.kind === 'AI' && a.difficulty === b.difficulty);
+
+const opponentOf = (store: ProfileStore, seat: Seat): Opponent => {
+  if (seat.kind !== 'PROFILE') return seat;
+  return { kind: 'PROFILE', profileId: seat.profileId, name: findProfile(store, seat.profileId)?.name ?? '?' };
+};
+
+// Rates a finished game and files it under every profile that played in it.
+export const recordGame = (store: ProfileStore, game: FinishedGame): ProfileStore => {
+  const slots: PlayerSlot[] = ['p1', 'p2'];
+  const ratings = { p1: seatRating(store, game.seats.p1), p2: seatRating(store, game.seats.p2) };
+  const rated = ratings.p1 !== null && ratings.p2 !== null && !sameEntity(game.seats.p1, game.seats.p2);
+  const points = (slot: PlayerSlot) => game.result.winner === null ? 0.5 : game.result.winner === slot ? 1 : 0;
+  const after = (slot: PlayerSlot) => {
+    const own = ratings[slot];
+    const other = ratings[slot === 'p1' ? 'p2' : 'p1'];
+    return rated ? nextRating(own!, other!, points(slot)) : own;
+  };
+
+  let { profiles, aiRatings, results } = store;
+  slots.forEach(slot => {
+    const seat = game.seats[slot];
+    const other = slot === 'p1' ? 'p2' : 'p1';
+    const newRating = after(slot);
+    if (seat.kind === 'AI' && rated) aiRatings = { ...aiRatings, [seat.difficulty]: newRating! };
+    if (seat.kind !== 'PROFILE' || !findProfile(store, seat.profileId)) return;
+    if (rated) profiles = profiles.map(profile => profile.id === seat.profileId ? { ...profile, rating: newRating! } : profile);
+    results = [...results, {
+      profileId: seat.profileId,
+      playedAt: game.playedAt,
+      mode: game.mode,
+      opponent: opponentOf(store, game.seats[other]),
+      outcome: points(slot) === 1 ? 'WIN' : points(slot) === 0 ? 'LOSS' : 'DRAW',
+      reason: game.result.reason,
+      score: game.scores[slot],
+      opponentScore: game.scores[other],
+      plies: game.plies,
+      ratingBefore: ratings[slot]!,
+      ratingAfter: newRating!,
+    }];
+  });
+  return { ...store, profiles, aiRatings, results: results.slice(-MAX_RESULTS) };
+};
+
+// --- Stats ---
+
+export interface StatLine {
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+export interface ProfileStats extends StatLine {
+  winRate: number; // 0..1, draws count half
+  currentStreak: { outcome: Outcome, length: number } | null;
+  bestWinStreak: number;
+  ratingHistory: number[]; // starting rating, then after every game
+  byOpponent: { key: string, line: StatLine }[]; // AI level, 'PVP' or 'ONLINE'
+  recent: ResultEntry[]; // newest first
+}
+
+const tally = (entries: ResultEntry[]): StatLine => ({
+  games: entries.length,
+  wins: entries.filter(entry => entry.outcome === 'WIN').length,
+  draws: entries.filter(entry => entry.outcome === 'DRAW').length,
+  losses: entries.filter(entry => entry.outcome === 'LOSS').length,
+});
+
+export const opponentKey = (entry: ResultEntry) =>
+  entry.opponent.kind === 'AI' ? entry.opponent.difficulty : entry.mode;
+
+export const profileStats = (store: ProfileStore, profileId: string): ProfileStats => {
+  const entries = store.results.filter(entry => entry.profileId === profileId);
+  const line = tally(entries);
+
+  let currentStreak: ProfileStats['currentStreak'] = null;
+  let bestWinStreak = 0;
+  let winRun = 0;
+  entries.forEach(entry => {
+    currentStreak = currentStreak?.outcome === entry.outcome
+      ? { outcome: entry.outcome, length: currentStreak.length + 1 }
+      : { outcome: entry.outcome, length: 1 };
+    winRun = entry.outcome === 'WIN' ? winRun + 1 : 0;
+    bestWinStreak = Math.max(bestWinStreak, winRun);
+  });
+
+  const keys = [...new Set(entries.map(opponentKey))];
+  const start = entries[0]?.ratingBefore ?? findProfile(store, profileId)?.rating ?? INITIAL_RATING;
+  return {
+    ...line,
+    winRate: line.games ? (line.wins + line.draws / 2) / line.games : 0,
+    currentStreak,
+    bestWinStreak,
+    ratingHistory: [start, ...entries.map(entry => entry.ratingAfter)],
+    byOpponent: keys.map(key => ({ key, line: tally(entries.filter(entry => opponentKey(entry) === key)) })),
+    recent: entries.slice(-20).reverse(),
+  };
+};
+
+// --- Storage ---
+
+export const saveProfiles = (store: ProfileStore, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(STORE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage full or disabled: stats just won't survive a reload.
+  }
+};
+
+export const loadProfiles = (firstName: string, storage: Storage = localStorage): ProfileStore => {
+  let raw: Partial<ProfileStore> | null;
+  try {
+    raw = JSON.parse(storage.getItem(STORE_KEY) ?? 'null');
+  } catch {
+    raw = null;
+  }
+  if (!raw || raw.version !== STORE_VERSION || !Array.isArray(raw.profiles) || raw.profiles.length === 0) return createProfileStore(firstName);
+  const profiles = raw.profiles.filter(profile => typeof profile?.id === 'string' && typeof profile.name === 'string');
+  if (profiles.length === 0) return createProfileStore(firstName);
+  const aiRatings = { ...AI_START_RATINGS };
+  DIFFICULTIES.forEach(level => {
+    const rating = raw!.aiRatings?.[level];
+    if (Number.isFinite(rating)) aiRatings[level] = rating!;
+  });
+  return {
+    version: STORE_VERSION,
+    profiles,
+    activeId: profiles.some(profile => profile.id === raw!.activeId) ? raw.activeId! : profiles[0].id,
+    results: Array.isArray(raw.results) ? raw.results : [],
+    aiRatings,
+  };
+};
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Cell, PlayerSlot, createGame } from './game';
+import { DEFAULT_RULES } from './rules';
+import { GameHistory, createHistory, currentState, pushMove } from './history';
+import { NO_TIME_CONTROL, createClock, pressClock, snapshotClock } from './clock';
+import { createLoopbackTransport } from './loopbackTransport';
+import { Connection, Transport } from './transport';
+import {
+  NetMessage, NetRole, ProtocolError, UNKNOWN_PLAYER, checkRemoteMove, createSession, hashState, rebuildHistory,
+} from './protocol';
+
+// Loopback delivers on a zero-delay timer, like a network round trip.
+const settle = async () => {
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+// One side of a connection: its session, the messages waiting to be read,
+// and its copy of the game.
+const endpoint = (role: NetRole, connection: Connection) => {
+  const session = createSession(role);
+  const inbox: unknown[] = [];
+  connection.onMessage(data => inbox.push(data));
+  const side = {
+    inbox,
+    history: createHistory(createGame()),
+    send: (message: NetMessage) => connection.send(session.wrap(message)),
+    receive: () => {
+      expect(inbox.length).toBeGreaterThan(0);
+      return session.accept(inbox.shift());
+    },
+    play: (move: Cell) => {
+      side.history = pushMove(side.history, move).history;
+      return hashState(currentState(side.history));
+    },
+  };
+  return side;
+};
+
+const transports: Transport[] = [];
+let nextRoom = 1;
+
+afterEach(() => {
+  transports.splice(0).forEach(transport => transport.close());
+});
+
+// A host and a guest linked through the loopback transport.
+const link = async () => {
+  const roomId = `protocol-test-${nextRoom++}`;
+  const hostTransport = createLoopbackTransport();
+  const guestTransport = createLoopbackTransport();
+  transports.push(hostTransport, guestTransport);
+  let hostConnection: Connection | null = null;
+  hostTransport.listen(roomId, connection => { hostConnection = connection; });
+  const guestConnection = guestTransport.connect(roomId);
+  await settle();
+  expect(hostConnection).not.toBeNull();
+  return { host: endpoint('host', hostConnection!), guest: endpoint('guest', guestConnection) };
+};
+
+// The host's answer to a guest MOVE, as the app gives it: apply it, or reject it and resync.
+const hostHandlesMove = (host: ReturnType<typeof endpoint>, message: NetMessage, guestSlot: PlayerSlot) => {
+  if (message.type !== 'MOVE') throw new Error(`expected MOVE, got ${message.type}`);
+  const problem = checkRemoteMove(host.history, message, guestSlot);
+  if (problem) {
+    host.send({ type: 'REJECT', reason: problem.key });
+    host.send(syncOf(host.history));
+  } else {
+    host.play(message);
+  }
+  return problem;
+};
+
+const syncOf = (history: GameHistory): NetMessage => ({
+  type: 'SYNC',
+  rules: DEFAULT_RULES,
+  timeControls: { p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL },
+  start: null,
+  moves: history.plies.slice(0, history.cursor).map(ply => ply.move),
+  result: currentState(history).result,
+  clock: snapshotClock(createClock({ p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL }), 0),
+});
+
+const handshake = async (host: ReturnType<typeof endpoint>, guest: ReturnType<typeof endpoint>) => {
+  guest.send({ type: 'JOIN', token: 'guesttoken1', player: { name: 'Khách', color: '#112233', rating: 1300 } });
+  await settle();
+  const join = host.receive();
+  expect(join).toMatchObject({ type: 'JOIN', token: 'guesttoken1', player: { name: 'Khách', color: '#112233', rating: 1300 } });
+
+  host.send({
+    type: 'HELLO', roomId: 'room', rules: DEFAULT_RULES, timeControls: { p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL },
+    start: null, guestSlot: 'p2', host: UNKNOWN_PLAYER,
+  });
+  await settle();
+  const hello = guest.receive();
+  expect(hello).toMatchObject({ type: 'HELLO', rules: DEFAULT_RULES, guestSlot: 'p2', start: null });
+
+  guest.send({ type: 'HELLO_ACK', guestSlot: 'p2' });
+  await settle();
+  expect(host.receive()).toMatchObject({ type: 'HELLO_ACK', guestSlot: 'p2' });
+};
+
+describe('protocol over the loopback transport', () => {
+  it('completes the handshake', async () => {
+    const { host, guest } = await link();
+    await handshake(host, guest);
+  });
+
+  it('plays moves both ways and keeps the boards equal', async () => {
+    const { host, guest } = await link();
+    await handshake(host, guest);
+
+    // Host (P1) moves with its clock; the guest checks the move and the hash.
+    let clock = createClock({ p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL });
+    const hash = host.play({ r: 7, c: 7 });
+    clock = pressClock(clock, 'p1', 'p2', 1000);
+    host.send({ type: 'MOVE', ply: 0, r: 7, c: 7, hash, clock: snapshotClock(clock, 1000) });
+    await settle();
+    const move = guest.receive();
+    if (move.type !== 'MOVE') throw new Error('expected MOVE');
+    expect(checkRemoteMove(guest.history, move, 'p1')).toBeNull();
+    expect(guest.play(move)).toBe(move.hash);
+    expect(move.clock).toEqual(snapshotClock(clock, 1000));
+
+    // The guest answers; whatever clock it sends is dropped on the host's side.
+    const guestMove = { type: 'MOVE', ply: 1, r: 7, c: 8, hash: guest.play({ r: 7, c: 8 }), clock: { sides: {}, running: 'p1' } };
+    guest.send(guestMove as unknown as NetMessage);
+    await settle();
+    const received = host.receive();
+    expect(received).not.toHaveProperty('clock');
+    expect(hostHandlesMove(host, received, 'p2')).toBeNull();
+    expect(hashState(currentState(host.history))).toBe(guestMove.hash);
+  });
+
+  it('rejects a move out of turn and resyncs the guest', async () => {
+    const { host, guest } = await link();
+    await handshake(host, guest);
+
+    // P1 (the host) is to move, but the guest plays anyway.
+    const hash = guest.play({ r: 3, c: 3 });
+    guest.send({ type: 'MOVE', ply: 0, r: 3, c: 3, hash });
+    await settle();
+    expect(hostHandlesMove(host, host.receive(), 'p2')?.key).toBe('net.outOfTurn');
+    expect(host.history.cursor).toBe(0);
+
+    await settle();
+    expect(guest.receive()).toMatchObject({ type: 'REJECT', reason: 'net.outOfTurn' });
+    const sync = guest.receive();
+    if (sync.type !== 'SYNC') throw new Error('expected SYNC');
+    guest.history = rebuildHistory(sync.moves, sync.rules, sync.start, sync.result);
+    expect(hashState(currentState(guest.history))).toBe(hashState(currentState(host.history)));
+  });
+
+  it('rejects a move for the wrong ply or an occupied cell', () => {
+    const history = pushMove(createHistory(createGame()), { r: 7, c: 7 }).history;
+    expect(checkRemoteMove(history, { ply: 0, r: 7, c: 8 }, 'p2')?.key).toBe('net.wrongPly');
+    expect(checkRemoteMove(history, { ply: 1, r: 7, c: 7 }, 'p2')?.key).toBe('move.occupied');
+    // Spectators take the host's moves for either side.
+    expect(checkRemoteMove(history, { ply: 1, r: 7, c: 8 }, null)).toBeNull();
+  });
+
+  it('resyncs a guest whose board hash no longer matches', async () => {
+    const { host, guest } = await link();
+    await handshake(host, guest);
+    host.play({ r: 7, c: 7 });
+    // The guest's board went astray: it holds a different first move.
+    guest.play({ r: 0, c: 0 });
+
+    host.send({ type: 'STATE_HASH', ply: host.history.cursor, hash: hashState(currentState(host.history)) });
+    await settle();
+    const stateHash = guest.receive();
+    if (stateHash.type !== 'STATE_HASH') throw new Error('expected STATE_HASH');
+    expect(stateHash.hash).not.toBe(hashState(currentState(guest.history)));
+    guest.send({ type: 'SYNC_REQUEST', reason: 'STATE_HASH' });
+
+    await settle();
+    expect(host.receive()).toMatchObject({ type: 'SYNC_REQUEST', reason: 'STATE_HASH' });
+    host.send(syncOf(host.history));
+
+    await settle();
+    const sync = guest.receive();
+    if (sync.type !== 'SYNC') throw new Error('expected SYNC');
+    guest.history = rebuildHistory(sync.moves, sync.rules, sync.start, sync.result);
+    expect(hashState(currentState(guest.history))).toBe(stateHash.hash);
+  });
+
+  it('refuses host-only messages from the guest', async () => {
+    const { host, guest } = await link();
+    guest.send(syncOf(createHistory(createGame())));
+    await settle();
+    expect(() => host.receive()).toThrow(ProtocolError);
+  });
+
+  it('refuses a host clock with invalid sides', async () => {
+    const { host, guest } = await link();
+    host.send({
+      type: 'MOVE', ply: 0, r: 7, c: 7, hash: '00000000',
+      clock: { sides: { p1: { remainingMs: -5, periods: 0, inByoYomi: false }, p2: { remainingMs: 1000, periods: 0, inByoYomi: false } }, running: 'p1' },
+    });
+    await settle();
+    try {
+      guest.receive();
+      throw new Error('expected a ProtocolError');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ProtocolError);
+      expect((err as ProtocolError).text.key).toBe('protocol.error.clock');
+    }
+  });
+});
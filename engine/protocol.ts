@@ -0,0 +1,370 @@
+// Online protocol between host and guest. Every message travels in an
+// envelope carrying the protocol version and a per-sender sequence number
+// (counted per connection). The host is authoritative: it settles the rules
+// and colors in the handshake, runs both clocks, publishes state hashes, and
+// answers any divergence with a full SYNC that the guest rebuilds through the
+// rules engine. Clock snapshots only travel from the host; a guest's MOVE is
+// just the cell, and the host presses the clock for it.
+// A guest that reconnects is recognised by its token and caught up with a SYNC.
+// Draws, takebacks and rematches are offered by one side and only happen once
+// the other accepts; both then apply the outcome (a rematch is the host's RESET).
+// Spectators are read-only: after WATCH they get a SYNC and then the host's
+// feed (moves, resets, hashes, room info); all they may send is SYNC_REQUEST.
+//
+//   host                         guest
+//                          <---  JOIN (token, guest's profile)
+//   HELLO (rules, colors, start position, host's profile)  --->
+//   SYNC (if resuming)     --->
+//                          <---  HELLO_ACK
+//   MOVE (+ clock) / RESET / FLAG  <-->  MOVE
+//   OFFER / OFFER_REPLY    <-->  OFFER / OFFER_REPLY
+//   RESIGN / CHAT / EMOTE  <-->  RESIGN / CHAT / EMOTE
+//   ROOM_INFO (both profiles, spectator count)  --->
+//
+//   host                         spectator
+//                          <---  WATCH
+//   SYNC, ROOM_INFO        --->
+//   MOVE / RESET / FLAG / STATE_HASH / SYNC / ROOM_INFO  --->
+//   STATE_HASH (periodic)  --->
+//                          <---  SYNC_REQUEST (hash mismatch, rejected message)
+//   SYNC (moves, clock)    --->
+
+import { Cell, GameOverReason, GameResult, GameState, IllegalMoveError, PlayerSlot, slotOfColor, validateMove } from './game';
+import { RuleSet, normalizeRules, sameRules } from './rules';
+import { GameHistory, createHistory, currentState, endGame, pushMove } from './history';
+import { ClockSnapshot, SideClock, TimeControl, normalizeTimeControl } from './clock';
+import { Position, gameFromPosition, readPosition } from './position';
+import { MessageKey, Text, text } from './i18n';
+
+export const PROTOCOL_VERSION = 6;
+
+export type NetRole = 'host' | 'guest' | 'spectator';
+
+export type OfferKind = 'DRAW' | 'TAKEBACK' | 'REMATCH';
+
+// An offer is tied to the position it was made on (ply); a move in between voids it.
+export interface Offer {
+  kind: OfferKind;
+  ply: number;
+}
+
+export const OFFER_KINDS: OfferKind[] = ['DRAW', 'TAKEBACK', 'REMATCH'];
+
+export const EMOTES = ['👍', '😂', '😮', '😭', '😡', '🤝', '💣', '🔥'];
+
+export const MAX_CHAT_LENGTH = 200;
+export const MAX_NAME_LENGTH = 40;
+
+// What a player shows the other side of its local profile.
+export interface PlayerInfo {
+  name: string;
+  color: string; // avatar color, #rrggbb
+  rating: number;
+}
+
+// An empty name shows as "anonymous" in the viewer's language.
+export const UNKNOWN_PLAYER: PlayerInfo = { name: '', color: '#9ca3af', rating: 1200 };
+
+export type NetMessage =
+  | { type: 'JOIN', token: string, player: PlayerInfo }
+  | { type: 'WATCH' }
+  | { type: 'ROOM_INFO', players: Record<PlayerSlot, PlayerInfo>, spectators: number }
+  | { type: 'HELLO', roomId: string, rules: RuleSet, timeControls: Record<PlayerSlot, TimeControl>, start: Position | null, guestSlot: PlayerSlot, host: PlayerInfo }
+  | { type: 'HELLO_ACK', guestSlot: PlayerSlot }
+  | { type: 'MOVE', ply: number, r: number, c: number, hash: string, clock?: ClockSnapshot } // ply = position the move is played on; clock only from the host
+  | { type: 'RESET', guestSlot: PlayerSlot } // new game from the same start; guestSlot changes on a rematch
+  | { type: 'FLAG', slot: PlayerSlot }
+  | { type: 'STATE_HASH', ply: number, hash: string }
+  | { type: 'SYNC_REQUEST', reason: string }
+  | { type: 'SYNC', rules: RuleSet, timeControls: Record<PlayerSlot, TimeControl>, start: Position | null, moves: Cell[], result: GameResult | null, clock: ClockSnapshot }
+  | { type: 'REJECT', reason: string }
+  | { type: 'OFFER', offer: Offer }
+  | { type: 'OFFER_REPLY', offer: Offer, accept: boolean }
+  | { type: 'RESIGN' }
+  | { type: 'CHAT', text: string }
+  | { type: 'EMOTE', emote: string };
+
+export type NetMessageType = NetMessage['type'];
+
+export type Envelope = NetMessage & { v: number, seq: number };
+
+export class ProtocolError extends Error {
+  // fatal: the session cannot continue (e.g. incompatible versions).
+  constructor(readonly text: Text, readonly fatal = false) {
+    super(text.key);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Who may send what. Everything the host sends can change the game state
+// on the guest's side; the guest can only play its own moves and ask.
+// A connection the host has not admitted yet is read as a guest.
+const SENDERS: Record<NetMessageType, NetRole[]> = {
+  JOIN: ['guest'],
+  WATCH: ['guest'],
+  ROOM_INFO: ['host'],
+  HELLO: ['host'],
+  HELLO_ACK: ['guest'],
+  MOVE: ['host', 'guest'],
+  RESET: ['host'],
+  FLAG: ['host'],
+  STATE_HASH: ['host'],
+  SYNC_REQUEST: ['guest', 'spectator'],
+  SYNC: ['host'],
+  REJECT: ['host', 'guest', 'spectator'],
+  OFFER: ['host', 'guest'],
+  OFFER_REPLY: ['host', 'guest'],
+  RESIGN: ['host', 'guest'],
+  CHAT: ['host', 'guest'],
+  EMOTE: ['host', 'guest'],
+};
+
+const ROLE_NAMES: Record<NetRole, MessageKey> = { host: 'net.role.host', guest: 'net.role.guest', spectator: 'net.role.spectator' };
+
+const REASONS: GameOverReason[] = ['KNOCKOUT', 'HIGHER_SCORE', 'STONE_TIEBREAK', 'DRAW', 'TIMEOUT', 'ABANDONED', 'RESIGNATION', 'AGREED_DRAW'];
+
+// --- Validation ---
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isSlot = (value: unknown): value is PlayerSlot => value === 'p1' || value === 'p2';
+const isCell = (value: unknown): value is Cell => isObject(value) && isIndex(value.r) && isIndex(value.c);
+
+const readRules = (value: unknown): RuleSet => {
+  if (!isObject(value)) throw new ProtocolError(text('protocol.error.noRules'));
+  const rules = normalizeRules(value as Partial<RuleSet>);
+  if (!sameRules(rules, value as unknown as RuleSet)) throw new ProtocolError(text('protocol.error.rules'));
+  return rules;
+};
+
+const readTimeControls = (value: unknown): Record<PlayerSlot, TimeControl> => {
+  if (!isObject(value)) throw new ProtocolError(text('protocol.error.noTimeControls'));
+  return { p1: normalizeTimeControl(value.p1 as Partial<TimeControl>), p2: normalizeTimeControl(value.p2 as Partial<TimeControl>) };
+};
+
+// The position the game starts from; null (or absent) is the empty board.
+const readStart = (value: unknown, rules: RuleSet): Position | null => {
+  if (value === null || value === undefined) return null;
+  const start = readPosition(value, rules);
+  if (!start) throw new ProtocolError(text('protocol.error.start'));
+  return start;
+};
+
+// Stored sessions and saves are read back with these two as well (session.ts, saves.ts).
+export const readResult = (value: unknown): GameResult | null => {
+  if (value === null || value === undefined) return null;
+  if (!isObject(value) || !(value.winner === null || isSlot(value.winner)) || !REASONS.includes(value.reason as GameOverReason)) {
+    throw new ProtocolError(text('protocol.error.result'));
+  }
+  return value as unknown as GameResult;
+};
+
+const isSideClock = (value: unknown): value is SideClock =>
+  isObject(value) && typeof value.remainingMs === 'number' && Number.isFinite(value.remainingMs) && value.remainingMs >= 0
+  && isIndex(value.periods) && typeof value.inByoYomi === 'boolean';
+
+// Named apart from clock.ts readClock, which reads a running clock's time.
+export const readClockSnapshot = (value: unknown): ClockSnapshot => {
+  if (!isObject(value) || !isObject(value.sides)) throw new ProtocolError(text('protocol.error.noClock'));
+  const { sides, running } = value;
+  if (!isSideClock(sides.p1) || !isSideClock(sides.p2) || !(running === null || isSlot(running))) {
+    throw new ProtocolError(text('protocol.error.clock'));
+  }
+  return {
+    sides: { p1: { ...sides.p1 }, p2: { ...sides.p2 } },
+    running,
+  };
+};
+
+const readText = (value: unknown) => typeof value === 'string' ? value.slice(0, MAX_CHAT_LENGTH) : '';
+
+// Names are cosmetic, so a bad one falls back rather than failing the handshake.
+const readPlayer = (value: unknown): PlayerInfo => {
+  if (!isObject(value)) return UNKNOWN_PLAYER;
+  const name = readText(value.name).trim().slice(0, MAX_NAME_LENGTH);
+  const rating = Number(value.rating);
+  return {
+    name: name || UNKNOWN_PLAYER.name,
+    color: typeof value.color === 'string' && /^#[0-9a-f]{6}$/i.test(value.color) ? value.color : UNKNOWN_PLAYER.color,
+    rating: Number.isFinite(rating) ? Math.min(4000, Math.max(0, Math.round(rating))) : UNKNOWN_PLAYER.rating,
+  };
+};
+
+const readOffer = (value: unknown): Offer => {
+  if (!isObject(value) || !OFFER_KINDS.includes(value.kind as OfferKind) || !isIndex(value.ply)) {
+    throw new ProtocolError(text('protocol.error.offer'));
+  }
+  return { kind: value.kind as OfferKind, ply: value.ply };
+};
+
+const readHeader = (data: unknown): Raw & { seq: number } => {
+  if (!isObject(data)) throw new ProtocolError(text('protocol.error.shape'));
+  if (data.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(text('protocol.error.version', { theirs: String(data.v), ours: PROTOCOL_VERSION }), true);
+  }
+  if (!Number.isInteger(data.seq) || (data.seq as number) < 1) throw new ProtocolError(text('protocol.error.noSeq'));
+  return data as Raw & { seq: number };
+};
+
+// Checks the shape of an incoming message. Game-level checks (whose turn
+// it is, whether the cell is free) need the current state and live in the app.
+export const parseEnvelope = (raw: unknown, from: NetRole): Envelope => {
+  const data = readHeader(raw);
+  const type = data.type as NetMessageType;
+  if (!(type in SENDERS)) throw new ProtocolError(text('protocol.error.type', { type: String(data.type) }));
+  if (!SENDERS[type].includes(from)) throw new ProtocolError(text('protocol.error.sender', { role: text(ROLE_NAMES[from]), type }));
+
+  const { seq } = data;
+  const v = PROTOCOL_VERSION;
+  switch (type) {
+    case 'JOIN':
+      if (typeof data.token !== 'string' || !/^[a-z0-9]{8,64}$/.test(data.token)) throw new ProtocolError(text('protocol.error.token'));
+      return { v, seq, type, token: data.token, player: readPlayer(data.player) };
+    case 'WATCH':
+      return { v, seq, type };
+    case 'ROOM_INFO': {
+      if (!isObject(data.players) || !isIndex(data.spectators)) throw new ProtocolError(text('protocol.error.roomInfo'));
+      return { v, seq, type, players: { p1: readPlayer(data.players.p1), p2: readPlayer(data.players.p2) }, spectators: data.spectators };
+    }
+    case 'HELLO': {
+      if (!isSlot(data.guestSlot)) throw new ProtocolError(text('protocol.error.noGuestSlot'));
+      const rules = readRules(data.rules);
+      return {
+        v, seq, type,
+        roomId: readText(data.roomId),
+        rules,
+        timeControls: readTimeControls(data.timeControls),
+        start: readStart(data.start, rules),
+        guestSlot: data.guestSlot,
+        host: readPlayer(data.host),
+      };
+    }
+    case 'HELLO_ACK':
+      if (!isSlot(data.guestSlot)) throw new ProtocolError(text('protocol.error.noGuestSlot'));
+      return { v, seq, type, guestSlot: data.guestSlot };
+    case 'MOVE':
+      if (!isIndex(data.ply) || !isIndex(data.r) || !isIndex(data.c) || typeof data.hash !== 'string') {
+        throw new ProtocolError(text('protocol.error.move'));
+      }
+      // Whatever clock a guest sends is dropped: the host keeps time for both sides.
+      return { v, seq, type, ply: data.ply, r: data.r, c: data.c, hash: data.hash, ...(from === 'host' ? { clock: readClockSnapshot(data.clock) } : {}) };
+    case 'RESET':
+      if (!isSlot(data.guestSlot)) throw new ProtocolError(text('protocol.error.noGuestSlot'));
+      return { v, seq, type, guestSlot: data.guestSlot };
+    case 'FLAG':
+      if (!isSlot(data.slot)) throw new ProtocolError(text('protocol.error.flag'));
+      return { v, seq, type, slot: data.slot };
+    case 'STATE_HASH':
+      if (!isIndex(data.ply) || typeof data.hash !== 'string') throw new ProtocolError(text('protocol.error.hash'));
+      return { v, seq, type, ply: data.ply, hash: data.hash };
+    case 'SYNC_REQUEST':
+    case 'REJECT':
+      return { v, seq, type, reason: readText(data.reason) };
+    case 'OFFER':
+      return { v, seq, type, offer: readOffer(data.offer) };
+    case 'OFFER_REPLY':
+      if (typeof data.accept !== 'boolean') throw new ProtocolError(text('protocol.error.noAnswer'));
+      return { v, seq, type, offer: readOffer(data.offer), accept: data.accept };
+    case 'RESIGN':
+      return { v, seq, type };
+    case 'CHAT': {
+      const body = readText(data.text).trim();
+      if (!body) throw new ProtocolError(text('protocol.error.emptyChat'));
+      return { v, seq, type, text: body };
+    }
+    case 'EMOTE':
+      if (!EMOTES.includes(data.emote as string)) throw new ProtocolError(text('protocol.error.emote'));
+      return { v, seq, type, emote: data.emote as string };
+    case 'SYNC': {
+      if (!Array.isArray(data.moves) || !data.moves.every(isCell)) throw new ProtocolError(text('protocol.error.moves'));
+      const rules = readRules(data.rules);
+      return {
+        v, seq, type,
+        rules,
+        timeControls: readTimeControls(data.timeControls),
+        start: readStart(data.start, rules),
+        moves: data.moves,
+        result: readResult(data.result),
+        clock: readClockSnapshot(data.clock),
+      };
+    }
+  }
+};
+
+// --- Session ---
+
+export interface NetSession {
+  role: NetRole;
+  wrap: (message: NetMessage) => Envelope;
+  // Parses an incoming message and checks its sequence number.
+  accept: (data: unknown) => NetMessage;
+  // Host: the connection turned out to be a spectator (after WATCH).
+  setPeerRole: (peer: NetRole) => void;
+}
+
+export const createSession = (role: NetRole): NetSession => {
+  let peer: NetRole = role === 'host' ? 'guest' : 'host';
+  let sent = 0;
+  let received = 0;
+
+  return {
+    role,
+    wrap: (message) => ({ ...message, v: PROTOCOL_VERSION, seq: ++sent }),
+    accept: (data) => {
+      // Sequence first, so a malformed message still uses up its number.
+      const { seq } = readHeader(data);
+      if (seq <= received) throw new ProtocolError(text('protocol.error.order', { seq }));
+      const missed = seq - received - 1;
+      received = seq;
+      // The connection is ordered and reliable, so a gap means state was lost.
+      if (missed > 0) throw new ProtocolError(text('protocol.error.missed', { count: missed, seq }));
+      return parseEnvelope(data, peer);
+    },
+    setPeerRole: (next) => { peer = next; },
+  };
+};
+
+// --- State ---
+
+// FNV-1a over everything that decides the rest of the game.
+export const hashState = (state: GameState): string => {
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    hash ^= value & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= (value >>> 8) & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+  };
+  state.board.forEach(row => row.forEach(mix));
+  [state.scores.p1, state.scores.p2, state.currentPlayer, state.p1Color, state.turnCount].forEach(mix);
+  mix(state.result ? REASONS.indexOf(state.result.reason) + 1 : 0);
+  mix(state.result?.winner === 'p1' ? 1 : state.result?.winner === 'p2' ? 2 : 0);
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Game-level check of a peer's MOVE against the local game: the reason it
+// cannot be played, or null. `mover` is the slot the peer plays; null for a
+// spectator, who takes the host's moves for both sides.
+export const checkRemoteMove = (history: GameHistory, move: { ply: number, r: number, c: number }, mover: PlayerSlot | null): Text | null => {
+  const state = currentState(history);
+  if (move.ply !== history.cursor) return text('net.wrongPly', { ply: move.ply + 1, current: history.cursor + 1 });
+  if (mover && !state.result && slotOfColor(state, state.currentPlayer) !== mover) return text('net.outOfTurn');
+  return validateMove(state, { r: move.r, c: move.c });
+};
+
+// Replays the host's move list from the game's start (guest side of SYNC).
+export const rebuildHistory = (moves: Cell[], rules: RuleSet, start: Position | null, result: GameResult | null): GameHistory => {
+  let history = createHistory(gameFromPosition(rules, start));
+  moves.forEach((move, i) => {
+    try {
+      history = pushMove(history, move).history;
+    } catch (err) {
+      if (err instanceof IllegalMoveError) throw new ProtocolError(text('protocol.error.syncMove', { ply: i + 1, reason: err.text }));
+      throw err;
+    }
+  });
+  if (result && !currentState(history).result) history = endGame(history, result);
+  return history;
+};
@@ -0,0 +1,352 @@
+// Tactical puzzles: a position with a goal, like "make the opponent explode
+// at least 6 stones within 3 moves". Puzzles come in packs, a JSON file:
+//
+//   {
+//     "format": "caro-no-puzzles", "version": 1, "name": "Cơ bản",
+//     "puzzles": [{
+//       "id": "ep-no-1", "title": "Ép nổ", "description": "...",
+//       "rules": { "swapInterval": 10 },            // optional, over DEFAULT_RULES
+//       "board": ["X.O....", ...],                   // one string per row: . X (VOID) O (LIGHT)
+//       "toMove": "X", "p1": "O",                    // side to move (the solver), P1's color
+//       "scores": { "p1": 20, "p2": 20 }, "turn": 40,
+//       "goal": { "type": "GAIN", "points": 6, "moves": 3 },
+//       "solution": ["E1", "C3", ...]                // optional, see below
+//     }]
+//   }
+//
+// With a solution the solver must follow its line, and the opponent answers
+// from it. Without one the AI plays the opponent and only the goal counts.
+// The board size comes from the board itself.
+
+import {
+  BoardState, Cell, CellValue, EMPTY, GameState, IllegalMoveError, PLAYER_BLACK, PLAYER_WHITE, PlayerSlot, Scores,
+  cloneBoard, createGame, slotOfColor,
+} from './game';
+import { DEFAULT_RULES, RuleSet, normalizeRules } from './rules';
+import { GameHistory, createHistory, pushMove, stateAt } from './history';
+import { formatCell, parseCell } from './notation';
+import { findUnexplodedLine } from './position';
+import { MessageKey, Text, text } from './i18n';
+
+export const PUZZLE_FORMAT = 'caro-no-puzzles';
+export const PUZZLE_VERSION = 1;
+const PROGRESS_KEY = 'caro-no:puzzle-progress';
+const PACKS_KEY = 'caro-no:puzzle-packs';
+
+// What the side to move has to achieve, counting only their own moves.
+export type PuzzleGoal =
+  | { type: 'GAIN', points: number, moves: number } // score at least `points` (the opponent's lines exploding)
+  | { type: 'SAFE', moves: number }                 // play `moves` moves without exploding a line of your own
+  | { type: 'WIN', moves: number };                 // win the game
+
+export type PuzzleStatus = 'SOLVING' | 'SOLVED' | 'FAILED';
+
+export interface Puzzle {
+  id: string;
+  title: string;
+  description: string;
+  rules: RuleSet;
+  board: BoardState;
+  toMove: CellValue;
+  p1Color: CellValue;
+  scores: Scores;
+  turnCount: number;
+  goal: PuzzleGoal;
+  solution: Cell[] | null; // solver and opponent moves, alternating from the solver's
+}
+
+// A puzzle as written in a pack file.
+export interface PuzzleFile {
+  id: string;
+  title: string;
+  description: string;
+  rules?: Partial<RuleSet>;
+  board: string[];
+  toMove: string;
+  p1: string;
+  scores: Scores;
+  turn: number;
+  goal: PuzzleGoal;
+  solution?: string[];
+}
+
+export interface PuzzlePack {
+  name: string;
+  puzzles: Puzzle[];
+}
+
+// Per puzzle, keyed by puzzleKey.
+export interface PuzzleProgress {
+  attempts: number;
+  solvedAt: number | null; // first solve
+}
+
+export class PuzzleParseError extends Error {
+  constructor(readonly text: Text) {
+    super(text.key);
+    this.name = 'PuzzleParseError';
+  }
+}
+
+const STONES: Record<string, CellValue> = { '.': EMPTY, X: PLAYER_BLACK, O: PLAYER_WHITE };
+const stoneLetter = (value: CellValue) => value === PLAYER_BLACK ? 'X' : value === PLAYER_WHITE ? 'O' : '.';
+
+const sameCell = (a: Cell, b: Cell) => a.r === b.r && a.c === b.c;
+
+export const puzzleKey = (pack: PuzzlePack, puzzle: Puzzle) => `${pack.name}/${puzzle.id}`;
+
+// The position the puzzle starts from.
+export const puzzleState = (puzzle: Puzzle): GameState => ({
+  ...createGame(puzzle.rules),
+  board: cloneBoard(puzzle.board),
+  scores: { ...puzzle.scores },
+  currentPlayer: puzzle.toMove,
+  p1Color: puzzle.p1Color,
+  turnCount: puzzle.turnCount,
+});
+
+export const solverSlot = (puzzle: Puzzle): PlayerSlot => slotOfColor(puzzleState(puzzle), puzzle.toMove);
+
+// Where a puzzle started from puzzleState stands after the played plies.
+// A solver move is judged once the opponent has answered it, since the
+// opponent's forced explosion is what most goals are about.
+export const evaluatePuzzle = (puzzle: Puzzle, history: GameHistory): PuzzleStatus => {
+  const solver = slotOfColor(history.initial, history.initial.currentPlayer);
+  const { goal } = puzzle;
+  let solverMoves = 0;
+  let gained = 0;
+  let conceded = 0;
+  for (let i = 0; i < history.cursor; i++) {
+    const ply = history.plies[i];
+    const mover = slotOfColor(stateAt(history, i), ply.color);
+    if (mover === solver) {
+      solverMoves++;
+      const expected = puzzle.solution?.[i];
+      if (puzzle.solution && (!expected || !sameCell(expected, ply.move))) return 'FAILED';
+    }
+    ply.events.forEach(event => {
+      if (event.type !== 'POINTS_AWARDED') return;
+      if (event.to === solver) gained += event.points;
+      else conceded += event.points;
+    });
+    const { result } = ply.state;
+    if (goal.type === 'GAIN' && gained >= goal.points) return 'SOLVED';
+    if (goal.type === 'SAFE' && conceded > 0) return 'FAILED';
+    if (goal.type === 'WIN' && result?.winner === solver) return 'SOLVED';
+    if (result || (solverMoves >= goal.moves && mover !== solver)) return goal.type === 'SAFE' ? 'SOLVED' : 'FAILED';
+  }
+  return 'SOLVING';
+};
+
+// The opponent's scripted answer, or null when there is none and the AI plays it.
+export const scriptedReply = (puzzle: Puzzle, history: GameHistory): Cell | null =>
+  puzzle.solution?.[history.cursor] ?? null;
+
+export const describeGoal = (goal: PuzzleGoal): Text => {
+  switch (goal.type) {
+    case 'GAIN':
+      return text('puzzle.goal.gain', { points: goal.points, count: goal.moves });
+    case 'SAFE':
+      return text('puzzle.goal.safe', { count: goal.moves });
+    case 'WIN':
+      return text('puzzle.goal.win', { count: goal.moves });
+  }
+};
+
+// --- Reading and writing packs ---
+
+const positiveInt = (value: unknown, what: MessageKey) => {
+  if (!Number.isInteger(value) || (value as number) < 1) throw new PuzzleParseError(text('puzzle.error.positiveInt', { what: text(what) }));
+  return value as number;
+};
+
+const readColor = (value: unknown, what: MessageKey) => {
+  if (value !== 'X' && value !== 'O') throw new PuzzleParseError(text('puzzle.error.color', { what: text(what) }));
+  return STONES[value];
+};
+
+const readGoal = (raw: unknown): PuzzleGoal => {
+  const goal = (raw ?? {}) as Record<string, unknown>;
+  const moves = positiveInt(goal.moves, 'puzzle.field.goalMoves');
+  switch (goal.type) {
+    case 'GAIN':
+      return { type: 'GAIN', points: positiveInt(goal.points, 'puzzle.field.goalPoints'), moves };
+    case 'SAFE':
+    case 'WIN':
+      return { type: goal.type, moves };
+    default:
+      throw new PuzzleParseError(text('puzzle.error.goalType', { type: String(goal.type) }));
+  }
+};
+
+const readBoard = (raw: unknown) => {
+  if (!Array.isArray(raw) || raw.length === 0) throw new PuzzleParseError(text('puzzle.error.noBoard'));
+  const size = raw.length;
+  return raw.map((row, r) => {
+    if (typeof row !== 'string' || row.length !== size) throw new PuzzleParseError(text('puzzle.error.rowLength', { row: r + 1, size }));
+    return [...row].map(mark => {
+      if (!(mark in STONES)) throw new PuzzleParseError(text('puzzle.error.mark', { row: r + 1, mark }));
+      return STONES[mark];
+    });
+  });
+};
+
+// Checks one puzzle and coerces it into shape. Throws PuzzleParseError.
+export const readPuzzle = (raw: unknown): Puzzle => {
+  if (typeof raw !== 'object' || raw === null) throw new PuzzleParseError(text('puzzle.error.invalid'));
+  const data = raw as Record<string, unknown>;
+  const id = typeof data.id === 'string' ? data.id.trim() : '';
+  if (!id) throw new PuzzleParseError(text('puzzle.error.noId'));
+  const fail = (reason: Text): never => { throw new PuzzleParseError(text('puzzle.error.inPuzzle', { id, reason })); };
+  try {
+    const board = readBoard(data.board);
+    const rules = normalizeRules({ ...DEFAULT_RULES, ...(data.rules as Partial<RuleSet> ?? {}), boardSize: board.length });
+    if (rules.boardSize !== board.length) fail(text('puzzle.error.boardSize', { size: board.length }));
+    const line = findUnexplodedLine(board, rules);
+    if (line) fail(text('position.unexploded', { cell: formatCell(line) }));
+    const scores = (data.scores ?? {}) as Record<string, unknown>;
+    const turnCount = data.turn ?? 0;
+    if (!Number.isInteger(turnCount) || (turnCount as number) < 0) fail(text('puzzle.error.turn'));
+    const puzzle: Puzzle = {
+      id,
+      title: typeof data.title === 'string' && data.title.trim() ? data.title.trim() : id,
+      description: typeof data.description === 'string' ? data.description : '',
+      rules,
+      board,
+      toMove: readColor(data.toMove, 'puzzle.field.toMove'),
+      p1Color: readColor(data.p1 ?? 'X', 'puzzle.field.p1Color'),
+      scores: { p1: Math.max(0, Number(scores.p1) || 0), p2: Math.max(0, Number(scores.p2) || 0) },
+      turnCount: turnCount as number,
+      goal: readGoal(data.goal),
+      solution: null,
+    };
+    if (!board.some(row => row.includes(EMPTY))) fail(text('position.full'));
+    if (data.solution !== undefined) {
+      if (!Array.isArray(data.solution) || data.solution.length === 0) fail(text('puzzle.error.solutionList'));
+      puzzle.solution = (data.solution as unknown[]).map(move => parseCell(String(move)) ?? fail(text('puzzle.error.solutionMove', { move: String(move) })));
+      const status = replaySolution(puzzle);
+      if (status !== 'SOLVED') fail(text('puzzle.error.unsolved'));
+    }
+    return puzzle;
+  } catch (err) {
+    if (err instanceof PuzzleParseError && err.text.key !== 'puzzle.error.inPuzzle') fail(err.text);
+    throw err;
+  }
+};
+
+// Plays the whole solution line and reports where it leaves the puzzle.
+export const replaySolution = (puzzle: Puzzle): PuzzleStatus => {
+  let history = createHistory(puzzleState(puzzle));
+  for (const move of puzzle.solution ?? []) {
+    if (evaluatePuzzle(puzzle, history) !== 'SOLVING') break;
+    try {
+      history = pushMove(history, move).history;
+    } catch (err) {
+      if (err instanceof IllegalMoveError) throw new PuzzleParseError(text('puzzle.error.illegalMove', { cell: formatCell(move), reason: err.text }));
+      throw err;
+    }
+  }
+  return evaluatePuzzle(puzzle, history);
+};
+
+export const readPack = (raw: unknown): PuzzlePack => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  if (data.format !== PUZZLE_FORMAT) throw new PuzzleParseError(text('puzzle.error.format'));
+  if (data.version !== PUZZLE_VERSION) throw new PuzzleParseError(text('puzzle.error.version', { version: String(data.version) }));
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) throw new PuzzleParseError(text('puzzle.error.noName'));
+  if (!Array.isArray(data.puzzles) || data.puzzles.length === 0) throw new PuzzleParseError(text('puzzle.error.empty'));
+  const puzzles = data.puzzles.map(readPuzzle);
+  const ids = new Set<string>();
+  puzzles.forEach(puzzle => {
+    if (ids.has(puzzle.id)) throw new PuzzleParseError(text('puzzle.error.duplicateId', { id: puzzle.id }));
+    ids.add(puzzle.id);
+  });
+  return { name, puzzles };
+};
+
+export const parsePack = (json: string): PuzzlePack => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new PuzzleParseError(text('file.notJson'));
+  }
+  return readPack(raw);
+};
+
+// Only the rule fields that differ from the defaults are written.
+export const writePuzzle = (puzzle: Puzzle): PuzzleFile => {
+  const rules = Object.fromEntries(
+    (Object.keys(DEFAULT_RULES) as (keyof RuleSet)[])
+      .filter(key => key !== 'boardSize' && puzzle.rules[key] !== DEFAULT_RULES[key])
+      .map(key => [key, puzzle.rules[key]]),
+  );
+  return {
+    id: puzzle.id,
+    title: puzzle.title,
+    description: puzzle.description,
+    ...(Object.keys(rules).length > 0 && { rules }),
+    board: puzzle.board.map(row => row.map(stoneLetter).join('')),
+    toMove: stoneLetter(puzzle.toMove),
+    p1: stoneLetter(puzzle.p1Color),
+    scores: puzzle.scores,
+    turn: puzzle.turnCount,
+    goal: puzzle.goal,
+    ...(puzzle.solution && { solution: puzzle.solution.map(formatCell) }),
+  };
+};
+
+export const serializePack = (pack: PuzzlePack) =>
+  JSON.stringify({ format: PUZZLE_FORMAT, version: PUZZLE_VERSION, name: pack.name, puzzles: pack.puzzles.map(writePuzzle) }, null, 2);
+
+// --- Storage ---
+
+export const loadProgress = (storage: Storage = localStorage): Record<string, PuzzleProgress> => {
+  try {
+    const raw = JSON.parse(storage.getItem(PROGRESS_KEY) ?? '{}');
+    return typeof raw === 'object' && raw !== null ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveProgress = (progress: Record<string, PuzzleProgress>, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or disabled: progress lasts until the tab closes.
+  }
+};
+
+// Counts a finished attempt; the first solve is the one remembered.
+export const recordAttempt = (progress: Record<string, PuzzleProgress>, key: string, solved: boolean, now = Date.now()) => {
+  const entry = progress[key] ?? { attempts: 0, solvedAt: null };
+  return { ...progress, [key]: { attempts: entry.attempts + 1, solvedAt: entry.solvedAt ?? (solved ? now : null) } };
+};
+
+// Packs imported or made in the editor. Ones that no longer read are dropped.
+export const loadPacks = (storage: Storage = localStorage): PuzzlePack[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(storage.getItem(PACKS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(json => {
+    try {
+      return [parsePack(String(json))];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const savePacks = (packs: PuzzlePack[], storage: Storage = localStorage) => {
+  try {
+    storage.setItem(PACKS_KEY, JSON.stringify(packs.map(serializePack)));
+  } catch {
+    // Storage full or disabled: the packs last until the tab closes.
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY, createGame } from './game';
+import { DEFAULT_RULES } from './rules';
+import { GameHistory, createHistory, currentState, pushMove } from './history';
+import { RecordParseError, exportRecord, importRecord } from './record';
+
+const PLAYERS = { p1: 'An', p2: 'Bình' };
+
+// Two moves into a game, ended (or not) by the given tags.
+const shortRecord = (result: string, termination: string | null) => [
+  '[Game "Caro No"]',
+  '[Mode "PVP"]',
+  '[P1 "An"]',
+  '[P2 "Bình"]',
+  `[Result "${result}"]`,
+  ...(termination ? [`[Termination "${termination}"]`] : []),
+  '',
+  `1. H8 2. H9 ${result}`,
+  '',
+].join('\n');
+
+// A game on the smallest board, played cell by cell until the board decides it.
+const finishedGame = (): GameHistory => {
+  let history = createHistory(createGame({ ...DEFAULT_RULES, boardSize: 7 }));
+  while (!currentState(history).result) {
+    const { board } = currentState(history);
+    const index = board.flat().indexOf(EMPTY);
+    history = pushMove(history, { r: Math.floor(index / 7), c: index % 7 }).history;
+  }
+  return history;
+};
+
+// The record with its Result tag and closing token both replaced.
+const withResult = (source: string, token: string) =>
+  source.replace(/\[Result "[^"]*"\]/, `[Result "${token}"]`).replace(/\S+\n$/, `${token}\n`);
+
+const errorKey = (source: string) => {
+  try {
+    importRecord(source);
+  } catch (err) {
+    if (err instanceof RecordParseError) return err.text.key;
+    throw err;
+  }
+  return null;
+};
+
+describe('importRecord', () => {
+  it('reads back what exportRecord wrote', () => {
+    const history = finishedGame();
+    const source = exportRecord({ mode: 'PVP', difficulty: null, players: PLAYERS, date: '2024-01-01' }, history);
+    const imported = importRecord(source);
+    expect(imported.record.players).toEqual(PLAYERS);
+    expect(currentState(imported.history)).toEqual(currentState(history));
+  });
+
+  it('rejects a termination the replay did not reach', () => {
+    const history = finishedGame();
+    const source = exportRecord({ mode: 'PVP', difficulty: null, players: PLAYERS }, history);
+    const actual = currentState(history).result!.reason;
+    const claimed = actual === 'KNOCKOUT' ? 'HIGHER_SCORE' : 'KNOCKOUT';
+    expect(errorKey(source.replace(`[Termination "${actual}"]`, `[Termination "${claimed}"]`))).toBe('record.error.terminationMismatch');
+    expect(errorKey(source.replace(`[Termination "${actual}"]`, '[Termination "BOREDOM"]'))).toBe('record.error.terminationMismatch');
+  });
+
+  it('rejects an on-board termination for an unfinished game', () => {
+    expect(errorKey(shortRecord('*', 'HIGHER_SCORE'))).toBe('record.error.terminationMismatch');
+  });
+
+  it('only accepts "*" while the game is unfinished', () => {
+    expect(errorKey(shortRecord('*', null))).toBeNull();
+    const source = exportRecord({ mode: 'PVP', difficulty: null, players: PLAYERS }, finishedGame());
+    expect(errorKey(withResult(source, '*'))).toBe('record.error.result');
+  });
+
+  it('takes a result decided off the board from the record', () => {
+    const { history } = importRecord(shortRecord('0-1', 'RESIGNATION'));
+    expect(currentState(history).result).toEqual({ winner: 'p2', reason: 'RESIGNATION' });
+    expect(currentState(importRecord(shortRecord('1/2-1/2', 'AGREED_DRAW')).history).result).toEqual({ winner: null, reason: 'AGREED_DRAW' });
+  });
+
+  it('rejects a result that contradicts the termination', () => {
+    expect(errorKey(shortRecord('1-0', 'AGREED_DRAW'))).toBe('record.error.termination');
+    expect(errorKey(shortRecord('1/2-1/2', 'RESIGNATION'))).toBe('record.error.termination');
+    expect(errorKey(shortRecord('*', 'TIMEOUT'))).toBe('record.error.noWinner');
+  });
+});
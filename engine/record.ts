@@ -0,0 +1,295 @@
+// Text game record for Caro Nổ, modelled on chess PGN:
+//
+//   [Game "Caro No"]
+//   [Mode "PVE"]
+//   [Difficulty "MEDIUM"]
+//   [P1 "BẠN"]
+//   [P2 "MÁY"]
+//   [BoardSize "15"]  ...one tag per RuleSet field...
+//   [Position "..."]  ...only for a game set up in the position editor (see position.ts)...
+//   [Result "0-1"]
+//   [Termination "HIGHER_SCORE"]
+//   [Score "12-17"]
+//
+//   1. H8 2. H9 3. I9 ... 41. L8 {explode 5 P2} ... 60. C3 {swap}
+//   0-1
+//
+// Every ply is numbered. Comments in braces annotate what a ply triggered;
+// they are optional on import but, when present, must match the replay.
+// A game decided off the board (Termination "TIMEOUT", "ABANDONED", "RESIGNATION",
+// "AGREED_DRAW") keeps its declared result as long as the moves themselves did not
+// already end it; the result must fit the termination (a winner for all but the draw).
+// Otherwise Result, Termination and Score must match the replay, and Result "*"
+// is only for a game the moves leave unfinished.
+
+import { Cell, GameMode, GameOverReason, GameResult, GameState, IllegalMoveError, PlayerSlot } from './game';
+import { DEFAULT_RULES, RuleSet, normalizeRules } from './rules';
+import { GameHistory, Ply, createHistory, currentState, endGame, playedPlies, pushMove } from './history';
+import { formatCell, parseCell } from './notation';
+import { DIFFICULTIES, Difficulty } from './ai';
+import { Position, formatPosition, gameFromPosition, isSetUp, parsePosition, positionOf, validatePosition } from './position';
+import { Text, text } from './i18n';
+
+export interface GameRecord {
+  mode: GameMode;
+  difficulty: Difficulty | null; // PVE only
+  players: { p1: string, p2: string };
+  rules: RuleSet;
+  start: Position | null; // null = the empty board
+  moves: Cell[];
+  date?: string;
+}
+
+export class RecordParseError extends Error {
+  constructor(readonly text: Text) {
+    super(text.key);
+    this.name = 'RecordParseError';
+  }
+}
+
+const RULE_TAGS: { tag: string, key: keyof RuleSet }[] = [
+  { tag: 'BoardSize', key: 'boardSize' },
+  { tag: 'LineLength', key: 'lineLength' },
+  { tag: 'ExactLength', key: 'exactLength' },
+  { tag: 'SwapInterval', key: 'swapInterval' },
+  { tag: 'KnockoutScore', key: 'knockoutScore' },
+  { tag: 'KnockoutMargin', key: 'knockoutMargin' },
+];
+
+const MODES: GameMode[] = ['PVP', 'PVE', 'ONLINE', 'AIVAI'];
+
+// Results the replay cannot reproduce; they are taken from the record.
+const OFF_BOARD_REASONS: GameOverReason[] = ['TIMEOUT', 'ABANDONED', 'RESIGNATION', 'AGREED_DRAW'];
+
+const resultToken = (result: GameResult | null) => {
+  if (!result) return '*';
+  if (!result.winner) return '1/2-1/2';
+  return result.winner === 'p1' ? '1-0' : '0-1';
+};
+
+const slotToken = (slot: PlayerSlot) => slot.toUpperCase();
+
+// Annotations a ply should carry, in a canonical order.
+export const plyAnnotations = (ply: Ply): string[] => {
+  const notes: string[] = [];
+  ply.events.forEach(event => {
+    if (event.type === 'POINTS_AWARDED') notes.push(`explode ${event.points} ${slotToken(event.to)}`);
+    if (event.type === 'SIDES_SWAPPED') notes.push('swap');
+  });
+  return notes;
+};
+
+const escapeTag = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+const unescapeTag = (value: string) => value.replace(/\\(["\\])/g, '$1');
+
+// --- Export ---
+
+export const exportRecord = (record: Omit<GameRecord, 'moves' | 'rules' | 'start'>, history: GameHistory): string => {
+  const state = currentState(history);
+  const tags: [string, string][] = [
+    ['Game', 'Caro No'],
+    ['Date', record.date ?? new Date().toISOString().slice(0, 10)],
+    ['Mode', record.mode],
+    ...(record.difficulty ? [['Difficulty', record.difficulty] as [string, string]] : []),
+    ['P1', record.players.p1],
+    ['P2', record.players.p2],
+    ...RULE_TAGS.map(({ tag, key }) => [tag, String(state.rules[key])] as [string, string]),
+    ...(isSetUp(history.initial) ? [['Position', formatPosition(positionOf(history.initial))] as [string, string]] : []),
+    ['Result', resultToken(state.result)],
+    ...(state.result ? [['Termination', state.result.reason] as [string, string]] : []),
+    ['Score', `${state.scores.p1}-${state.scores.p2}`],
+  ];
+
+  const moveText = playedPlies(history).map((ply, i) => {
+    const notes = plyAnnotations(ply).map(note => ` {${note}}`).join('');
+    return `${i + 1}. ${formatCell(ply.move)}${notes}`;
+  });
+
+  // Wrap movetext at ~80 columns like PGN.
+  const lines: string[] = [];
+  let line = '';
+  [...moveText, resultToken(state.result)].forEach(token => {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+
+  return [...tags.map(([tag, value]) => `[${tag} "${escapeTag(value)}"]`), '', ...lines, ''].join('\n');
+};
+
+// --- Import ---
+
+type ParsedRecord = GameRecord & {
+  annotations: (string[] | null)[]; // per ply, null = not annotated
+  declaredResult: string | null;
+  declaredTermination: string | null;
+  declaredScore: string | null;
+};
+
+const parseRules = (tags: Map<string, string>): RuleSet => {
+  const raw: Record<string, unknown> = { ...DEFAULT_RULES };
+  RULE_TAGS.forEach(({ tag, key }) => {
+    const value = tags.get(tag);
+    if (value === undefined) return;
+    if (key === 'exactLength') {
+      if (value !== 'true' && value !== 'false') throw new RecordParseError(text('record.error.boolean', { tag }));
+      raw[key] = value === 'true';
+    } else {
+      if (!/^\d+$/.test(value)) throw new RecordParseError(text('record.error.number', { tag, value }));
+      raw[key] = Number(value);
+    }
+  });
+  const rules = normalizeRules(raw as Partial<RuleSet>);
+  RULE_TAGS.forEach(({ tag, key }) => {
+    if (rules[key] !== raw[key]) throw new RecordParseError(text('record.error.ruleRange', { tag, value: String(raw[key]) }));
+  });
+  return rules;
+};
+
+const parseStart = (tags: Map<string, string>, rules: RuleSet): Position | null => {
+  const value = tags.get('Position');
+  if (value === undefined) return null;
+  const start = parsePosition(value);
+  if (!start) throw new RecordParseError(text('record.error.position', { value }));
+  const problem = validatePosition(start, rules);
+  if (problem) throw new RecordParseError(text('record.error.start', { reason: problem }));
+  return start;
+};
+
+export const parseRecord = (source: string): ParsedRecord => {
+  const tags = new Map<string, string>();
+  const bodyLines: string[] = [];
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith('[')) {
+      const match = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line);
+      if (!match) throw new RecordParseError(text('record.error.tag', { line: i + 1, tag: line }));
+      tags.set(match[1], unescapeTag(match[2]));
+    } else {
+      bodyLines.push(line);
+    }
+  });
+
+  if (tags.size === 0 && bodyLines.length === 0) throw new RecordParseError(text('record.error.empty'));
+
+  const mode = (tags.get('Mode') ?? 'PVP') as GameMode;
+  if (!MODES.includes(mode)) throw new RecordParseError(text('record.error.mode', { mode }));
+
+  const difficultyTag = tags.get('Difficulty');
+  if (difficultyTag !== undefined && !DIFFICULTIES.includes(difficultyTag as Difficulty)) {
+    throw new RecordParseError(text('record.error.difficulty', { difficulty: difficultyTag }));
+  }
+
+  const moves: Cell[] = [];
+  const annotations: (string[] | null)[] = [];
+  let declaredResult: string | null = null;
+
+  const tokens = bodyLines.join(' ').match(/\{[^}]*\}|[^\s{]+/g) ?? [];
+  tokens.forEach(token => {
+    if (declaredResult !== null) throw new RecordParseError(text('record.error.afterResult', { token }));
+
+    if (token.startsWith('{')) {
+      if (moves.length === 0) throw new RecordParseError(text('record.error.leadingComment', { token }));
+      const note = token.slice(1, -1).trim().replace(/\s+/g, ' ');
+      const index = moves.length - 1;
+      annotations[index] = [...(annotations[index] ?? []), note];
+      return;
+    }
+    if (/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token)) {
+      declaredResult = token;
+      return;
+    }
+    const numbered = /^(\d+)\.$/.exec(token);
+    if (numbered) {
+      if (Number(numbered[1]) !== moves.length + 1) {
+        throw new RecordParseError(text('record.error.numbering', { token, expected: moves.length + 1 }));
+      }
+      return;
+    }
+    const cell = parseCell(token);
+    if (!cell) throw new RecordParseError(text('record.error.cell', { ply: moves.length + 1, token }));
+    moves.push(cell);
+    annotations[moves.length - 1] = null;
+  });
+
+  const rules = parseRules(tags);
+  return {
+    mode,
+    difficulty: mode === 'PVE' ? (difficultyTag as Difficulty | undefined) ?? 'EASY' : null,
+    players: { p1: tags.get('P1') ?? 'P1', p2: tags.get('P2') ?? 'P2' },
+    rules,
+    start: parseStart(tags, rules),
+    moves,
+    date: tags.get('Date'),
+    annotations,
+    declaredResult: declaredResult ?? tags.get('Result') ?? null,
+    declaredTermination: tags.get('Termination') ?? null,
+    declaredScore: tags.get('Score') ?? null,
+  };
+};
+
+// Replays the moves through the rules engine. Throws on the first illegal
+// move; `initial` lets callers replay from a custom starting position.
+export const replayMoves = (moves: Cell[], initial: GameState): GameHistory => {
+  let history = createHistory(initial);
+  moves.forEach((move, i) => {
+    try {
+      history = pushMove(history, move).history;
+    } catch (err) {
+      if (!(err instanceof IllegalMoveError)) throw err;
+      throw new RecordParseError(text('record.error.illegalMove', { ply: i + 1, cell: formatCell(move), reason: err.text }));
+    }
+  });
+  return history;
+};
+
+// Parses and replays a record, cross-checking every annotation, the result
+// and the score against what the engine actually produced.
+export const importRecord = (source: string): { record: GameRecord, history: GameHistory } => {
+  const { annotations, declaredResult, declaredTermination, declaredScore, ...record } = parseRecord(source);
+  let history = replayMoves(record.moves, gameFromPosition(record.rules, record.start));
+
+  history.plies.forEach((ply, i) => {
+    const declared = annotations[i];
+    if (!declared) return;
+    const expected = plyAnnotations(ply);
+    if ([...declared].sort().join('|') !== [...expected].sort().join('|')) {
+      const actual = expected.length ? expected.map(note => `{${note}}`).join(' ') : text('record.noEvents');
+      throw new RecordParseError(text('record.error.annotation', {
+        ply: i + 1, cell: formatCell(ply.move), declared: `{${declared.join('} {')}}`, actual,
+      }));
+    }
+  });
+
+  const offBoard = OFF_BOARD_REASONS.find(reason => reason === declaredTermination);
+  if (offBoard && !currentState(history).result) {
+    const winner: PlayerSlot | null = declaredResult === '1-0' ? 'p1' : declaredResult === '0-1' ? 'p2' : null;
+    // Only an agreed draw ends without a winner, and it never has one.
+    const isDraw = offBoard === 'AGREED_DRAW';
+    if (isDraw ? winner : declaredResult === '1/2-1/2') {
+      throw new RecordParseError(text('record.error.termination', { result: declaredResult!, reason: offBoard }));
+    }
+    if (!winner && !isDraw) throw new RecordParseError(text('record.error.noWinner', { reason: offBoard }));
+    history = endGame(history, { winner, reason: offBoard });
+  }
+
+  const state = currentState(history);
+  if (declaredTermination !== null && declaredTermination !== state.result?.reason) {
+    throw new RecordParseError(text('record.error.terminationMismatch', { declared: declaredTermination, actual: state.result?.reason ?? '*' }));
+  }
+  // "*" only fits a game the moves leave unfinished.
+  if (declaredResult && declaredResult !== resultToken(state.result)) {
+    throw new RecordParseError(text('record.error.result', { declared: declaredResult, actual: resultToken(state.result) }));
+  }
+  if (declaredScore && declaredScore !== `${state.scores.p1}-${state.scores.p2}`) {
+    throw new RecordParseError(text('record.error.score', { declared: declaredScore, actual: `${state.scores.p1}-${state.scores.p2}` }));
+  }
+
+  return { record, history };
+};
@@ -0,0 +1,56 @@
+// Wire format between relayTransport.ts and the relay server. The relay
+// only routes: it never looks inside `data`, which is the game protocol's
+// envelope.
+//
+//   host                  relay                  guest
+//   listen (room)  --->
+//          <---  listening
+//                                <---  connect (room, link)
+//          <---  incoming (link)       open (link)  --->
+//   data (link)    <-------------------------->  data (link)
+//   close (link)   <-------------------------->  close (link)
+
+import { TransportErrorKind } from './transport';
+
+export type RelayToServer =
+  | { op: 'listen', room: string }
+  | { op: 'connect', room: string, link: string }
+  | { op: 'data', link: string, data: unknown }
+  | { op: 'close', link: string };
+
+export type RelayFromServer =
+  | { op: 'listening', room: string }
+  | { op: 'incoming', link: string }
+  | { op: 'open', link: string }
+  | { op: 'data', link: string, data: unknown }
+  | { op: 'close', link: string }
+  | { op: 'error', code: TransportErrorKind, message: string, link?: string };
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const createLinkId = () =>
+  Array.from({ length: 16 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+// Server side: the message, or null when it is not one the relay understands.
+export const readRelayMessage = (raw: string): RelayToServer | null => {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  const isId = (value: unknown): value is string => typeof value === 'string' && ID_PATTERN.test(value);
+  switch (message.op) {
+    case 'listen':
+      return isId(message.room) ? { op: 'listen', room: message.room } : null;
+    case 'connect':
+      return isId(message.room) && isId(message.link) ? { op: 'connect', room: message.room, link: message.link } : null;
+    case 'data':
+      return isId(message.link) ? { op: 'data', link: message.link, data: message.data } : null;
+    case 'close':
+      return isId(message.link) ? { op: 'close', link: message.link } : null;
+    default:
+      return null;
+  }
+};
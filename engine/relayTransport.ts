@@ -0,0 +1,128 @@
+// WebSocket transport through the relay server (server/relay.ts). One socket
+// per transport carries every connection, each tagged with a link id. The
+// wire format is shared with the server through relayProtocol.ts.
+
+import { Connection, LinkEnd, Transport, TransportError, createLinkEnd } from './transport';
+import { RelayFromServer, RelayToServer, createLinkId } from './relayProtocol';
+
+const REOPEN_DELAY_MS = 2000;
+
+export const createRelayTransport = (url: string): Transport => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let ready = false;
+  let listening: { roomId: string, onConnection: (connection: Connection) => void } | null = null;
+  let readyHandler: (() => void) | null = null;
+  let errorHandler: ((error: TransportError) => void) | null = null;
+  const links = new Map<string, LinkEnd>();
+
+  const post = (message: RelayToServer) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const addLink = (link: string) => {
+    const end = createLinkEnd(
+      data => post({ op: 'data', link, data }),
+      () => {
+        links.delete(link);
+        post({ op: 'close', link });
+      },
+    );
+    links.set(link, end);
+    return end;
+  };
+
+  const receive = (message: RelayFromServer) => {
+    switch (message.op) {
+      case 'listening':
+        ready = true;
+        readyHandler?.();
+        break;
+      case 'incoming': {
+        const end = addLink(message.link);
+        listening?.onConnection(end.connection);
+        end.emitOpen();
+        break;
+      }
+      case 'open':
+        links.get(message.link)?.emitOpen();
+        break;
+      case 'data':
+        links.get(message.link)?.emitMessage(message.data);
+        break;
+      case 'close': {
+        const end = links.get(message.link);
+        links.delete(message.link);
+        end?.emitClose();
+        break;
+      }
+      case 'error': {
+        // Reported before the failed link closes, so the app knows why it closed.
+        const end = message.link ? links.get(message.link) : undefined;
+        if (message.link) links.delete(message.link);
+        errorHandler?.(new TransportError(message.message, message.code));
+        end?.emitClose();
+        break;
+      }
+    }
+  };
+
+  const open = () => {
+    const created = new WebSocket(url);
+    socket = created;
+    created.onopen = () => {
+      if (listening) {
+        post({ op: 'listen', room: listening.roomId });
+      } else {
+        ready = true;
+        readyHandler?.();
+      }
+    };
+    created.onmessage = (event) => {
+      try {
+        receive(JSON.parse(String(event.data)) as RelayFromServer);
+      } catch (err) {
+        console.warn('Relay sent an unreadable message', err);
+      }
+    };
+    created.onerror = () => errorHandler?.(new TransportError(`Cannot reach the relay at ${url}`, 'NETWORK'));
+    // The relay went away: every link is gone with it. Keep trying to come back.
+    created.onclose = () => {
+      if (socket !== created) return;
+      ready = false;
+      const ends = [...links.values()];
+      links.clear();
+      ends.forEach(end => end.emitClose());
+      if (!closed) setTimeout(() => { if (!closed && socket === created) open(); }, REOPEN_DELAY_MS);
+    };
+  };
+
+  return {
+    kind: 'relay',
+    listen: (roomId, onConnection) => {
+      listening = { roomId, onConnection };
+      if (!socket) open();
+      else post({ op: 'listen', room: roomId });
+    },
+    connect: (roomId) => {
+      const link = createLinkId();
+      const end = addLink(link);
+      post({ op: 'connect', room: roomId, link });
+      return end.connection;
+    },
+    isReady: () => ready,
+    onReady: (handler) => {
+      readyHandler = handler;
+      if (!socket) open();
+    },
+    onError: (handler) => { errorHandler = handler; },
+    close: () => {
+      closed = true;
+      ready = false;
+      links.forEach(end => end.emitClose());
+      links.clear();
+      socket?.close();
+      socket = null;
+    },
+  };
+};
@@ -0,0 +1,110 @@
+// A whole game packed into a URL fragment, so a replay can be shared as a link:
+//
+//   #replay=1&rules=15.5.0.30.200.100&moves=6o6p7p...&end=RESIGNATION.p2&p1=An&p2=Binh
+//
+// rules are the RuleSet fields in the order below (exactLength as 0/1); moves
+// are two base-36 digits per ply, the cell's index r * boardSize + c; `start`
+// (a position in position.ts's notation) is only there for a game set up in the
+// editor and `end` only for a result decided off the board, which replaying the
+// moves cannot reproduce. Like a record, the link is replayed through the
+// engine on the way in, so a tampered link cannot produce an impossible game.
+
+import { Cell, GameOverReason, GameResult, IllegalMoveError, PlayerSlot } from './game';
+import { RuleSet, normalizeRules, sameRules } from './rules';
+import { GameHistory, createHistory, currentState, endGame, playedPlies, pushMove } from './history';
+import { formatPosition, gameFromPosition, isSetUp, parsePosition, positionOf, validatePosition } from './position';
+import { Text, text } from './i18n';
+
+export interface SharedGame {
+  players: Record<PlayerSlot, string>;
+  history: GameHistory;
+}
+
+export class ReplayLinkError extends Error {
+  constructor(readonly text: Text) {
+    super(text.key);
+    this.name = 'ReplayLinkError';
+  }
+}
+
+const VERSION = '1';
+
+const RULE_FIELDS: (keyof RuleSet)[] = ['boardSize', 'lineLength', 'exactLength', 'swapInterval', 'knockoutScore', 'knockoutMargin'];
+
+const OFF_BOARD_REASONS: GameOverReason[] = ['TIMEOUT', 'ABANDONED', 'RESIGNATION', 'AGREED_DRAW'];
+
+const CELL_DIGITS = 2;
+
+export const encodeReplay = (history: GameHistory, players: Record<PlayerSlot, string>): string => {
+  const { initial } = history;
+  const params = new URLSearchParams();
+  params.set('replay', VERSION);
+  params.set('rules', RULE_FIELDS.map(field => Number(initial.rules[field])).join('.'));
+  if (isSetUp(initial)) params.set('start', formatPosition(positionOf(initial)));
+  params.set('moves', playedPlies(history)
+    .map(({ move }) => (move.r * initial.rules.boardSize + move.c).toString(36).padStart(CELL_DIGITS, '0'))
+    .join(''));
+  const result = currentState(history).result;
+  if (result && OFF_BOARD_REASONS.includes(result.reason)) params.set('end', `${result.reason}.${result.winner ?? ''}`);
+  params.set('p1', players.p1);
+  params.set('p2', players.p2);
+  return params.toString();
+};
+
+const decodeRules = (value: string | null): RuleSet => {
+  const numbers = (value ?? '').split('.').map(Number);
+  if (numbers.length !== RULE_FIELDS.length || numbers.some(n => !Number.isInteger(n))) throw new ReplayLinkError(text('replay.error.rules'));
+  const given = Object.fromEntries(RULE_FIELDS.map((field, i) => [field, field === 'exactLength' ? numbers[i] === 1 : numbers[i]])) as unknown as RuleSet;
+  // normalizeRules clamps what is out of range; no link made here has such rules.
+  const rules = normalizeRules(given);
+  if (!sameRules(rules, given)) throw new ReplayLinkError(text('replay.error.rules'));
+  return rules;
+};
+
+const decodeMoves = (value: string, size: number): Cell[] => {
+  if (value.length % CELL_DIGITS !== 0 || !/^[0-9a-z]*$/.test(value)) throw new ReplayLinkError(text('replay.error.moves'));
+  const moves: Cell[] = [];
+  for (let i = 0; i < value.length; i += CELL_DIGITS) {
+    const index = parseInt(value.slice(i, i + CELL_DIGITS), 36);
+    moves.push({ r: Math.floor(index / size), c: index % size });
+  }
+  return moves;
+};
+
+const decodeEnd = (value: string | null): GameResult | null => {
+  if (value === null) return null;
+  const [reason, winner] = value.split('.');
+  if (!OFF_BOARD_REASONS.includes(reason as GameOverReason) || !['p1', 'p2', ''].includes(winner)) {
+    throw new ReplayLinkError(text('replay.error.result'));
+  }
+  if ((reason === 'AGREED_DRAW') !== (winner === '')) throw new ReplayLinkError(text('replay.error.result'));
+  return { winner: winner ? winner as PlayerSlot : null, reason: reason as GameOverReason };
+};
+
+// The game in a fragment (without the '#'). Null when the fragment is not a
+// replay link at all; throws ReplayLinkError when it is one that cannot be replayed.
+export const decodeReplay = (fragment: string): SharedGame | null => {
+  const params = new URLSearchParams(fragment);
+  const version = params.get('replay');
+  if (version === null) return null;
+  if (version !== VERSION) throw new ReplayLinkError(text('replay.error.version', { version }));
+
+  const rules = decodeRules(params.get('rules'));
+  const startText = params.get('start');
+  const start = startText === null ? null : parsePosition(startText);
+  if (startText !== null && (!start || validatePosition(start, rules))) throw new ReplayLinkError(text('replay.error.start'));
+
+  let history = createHistory(gameFromPosition(rules, start));
+  decodeMoves(params.get('moves') ?? '', rules.boardSize).forEach((move, i) => {
+    try {
+      history = pushMove(history, move).history;
+    } catch (err) {
+      if (!(err instanceof IllegalMoveError)) throw err;
+      throw new ReplayLinkError(text('replay.error.illegalMove', { ply: i + 1, reason: err.text }));
+    }
+  });
+  const end = decodeEnd(params.get('end'));
+  if (end && !currentState(history).result) history = endGame(history, end);
+
+  return { players: { p1: params.get('p1') ?? '', p2: params.get('p2') ?? '' }, history };
+};
@@ -0,0 +1,62 @@
+// Rule variants. A RuleSet is fixed for the whole game and carried inside
+// GameState, so the engine, the AI and the UI all read the same numbers.
+
+import { MessageKey } from './i18n';
+
+export interface RuleSet {
+  boardSize: number;      // board is boardSize x boardSize
+  lineLength: number;     // a line this long (or longer) explodes
+  exactLength: boolean;   // only lines of EXACTLY lineLength explode
+  swapInterval: number;   // colors swap every N turns, 0 = never
+  knockoutScore: number;  // score needed for an early win...
+  knockoutMargin: number; // ...with at least this lead
+}
+
+export type RulePresetId = 'STANDARD' | 'LONG' | 'EXACT_FIVE' | 'FAST_SWAP' | 'CUSTOM';
+
+export const DEFAULT_RULES: RuleSet = {
+  boardSize: 15,
+  lineLength: 5,
+  exactLength: false,
+  swapInterval: 30,
+  knockoutScore: 200,
+  knockoutMargin: 100,
+};
+
+export const RULE_PRESETS: { id: Exclude<RulePresetId, 'CUSTOM'>, label: MessageKey, rules: RuleSet }[] = [
+  { id: 'STANDARD', label: 'rules.preset.STANDARD', rules: DEFAULT_RULES },
+  { id: 'LONG', label: 'rules.preset.LONG', rules: { ...DEFAULT_RULES, boardSize: 19, knockoutScore: 300, knockoutMargin: 150 } },
+  { id: 'EXACT_FIVE', label: 'rules.preset.EXACT_FIVE', rules: { ...DEFAULT_RULES, exactLength: true } },
+  { id: 'FAST_SWAP', label: 'rules.preset.FAST_SWAP', rules: { ...DEFAULT_RULES, swapInterval: 10 } },
+];
+
+export const RULE_LIMITS = {
+  boardSize: { min: 7, max: 25 },
+  lineLength: { min: 3, max: 9 },
+  swapInterval: { min: 0, max: 200 },
+  knockoutScore: { min: 10, max: 2000 },
+  knockoutMargin: { min: 0, max: 2000 },
+};
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Coerces user/peer supplied values into a playable RuleSet.
+export const normalizeRules = (rules: Partial<RuleSet>): RuleSet => {
+  const boardSize = clamp(Number(rules.boardSize), RULE_LIMITS.boardSize.min, RULE_LIMITS.boardSize.max, DEFAULT_RULES.boardSize);
+  const lineLength = clamp(Number(rules.lineLength), RULE_LIMITS.lineLength.min, Math.min(RULE_LIMITS.lineLength.max, boardSize), DEFAULT_RULES.lineLength);
+  return {
+    boardSize,
+    lineLength,
+    exactLength: Boolean(rules.exactLength),
+    swapInterval: clamp(Number(rules.swapInterval), RULE_LIMITS.swapInterval.min, RULE_LIMITS.swapInterval.max, DEFAULT_RULES.swapInterval),
+    knockoutScore: clamp(Number(rules.knockoutScore), RULE_LIMITS.knockoutScore.min, RULE_LIMITS.knockoutScore.max, DEFAULT_RULES.knockoutScore),
+    knockoutMargin: clamp(Number(rules.knockoutMargin), RULE_LIMITS.knockoutMargin.min, RULE_LIMITS.knockoutMargin.max, DEFAULT_RULES.knockoutMargin),
+  };
+};
+
+export const sameRules = (a: RuleSet, b: RuleSet) =>
+  (Object.keys(DEFAULT_RULES) as (keyof RuleSet)[]).every(key => a[key] === b[key]);
+
+export const presetOf = (rules: RuleSet): RulePresetId =>
+  RULE_PRESETS.find(preset => sameRules(preset.rules, rules))?.id ?? 'CUSTOM';
@@ -0,0 +1,185 @@
+// Autosaves of local games in progress (PVE, PVP, AI vs AI). Each game
+// writes to its own slot after every move, so a closed or reloaded tab can
+// pick it up again. Online games are saved separately (session.ts).
+//
+// A save stores the moves and where they started from (to rebuild the undo
+// history through the rules engine) and the position itself. Saves carry a
+// version and are migrated step by step on load; if a later rule change means
+// the moves no longer replay to the same position, the game resumes from the
+// stored position without its history instead of being lost.
+
+import { BoardState, Cell, CellValue, EMPTY, GameMode, GameState, PLAYER_BLACK, PLAYER_WHITE, PlayerSlot, Scores, createGame } from './game';
+import { GameHistory, createHistory, currentState, pushMove } from './history';
+import { RuleSet, normalizeRules } from './rules';
+import { ClockSnapshot, TimeControl, createClock, normalizeTimeControl, snapshotClock } from './clock';
+import { DIFFICULTIES, Difficulty } from './ai';
+import { Position, gameFromPosition, isSetUp, positionOf, readPosition } from './position';
+import { readClockSnapshot } from './protocol';
+
+export const SAVE_VERSION = 2;
+export const SAVE_SLOTS = 5;
+const KEY_PREFIX = 'caro-no:save:';
+
+export type LocalMode = Exclude<GameMode, 'ONLINE'>;
+
+export interface SavedGame {
+  version: number;
+  slot: number; // 1..SAVE_SLOTS
+  savedAt: number;
+  mode: LocalMode;
+  difficulty: Difficulty;
+  watchPlayers: Record<PlayerSlot, Difficulty>;
+  p2ProfileId: string | null;
+  humanColor: CellValue; // P1's stone color when saved
+  rules: RuleSet;
+  timeControls: Record<PlayerSlot, TimeControl>;
+  clock: ClockSnapshot;
+  // The position, so the save still opens if its moves stop replaying.
+  board: BoardState;
+  scores: Scores;
+  turnCount: number;
+  currentPlayer: CellValue;
+  p1Color: CellValue;
+  // Every move including the redo tail, from `start`; the first `cursor` are played.
+  start: Position | null; // null = the empty board
+  moves: Cell[];
+  cursor: number;
+}
+
+// Upgrades a save from version N to N + 1. Add an entry whenever SavedGame changes shape.
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 games all started from the empty board.
+  1: (raw) => ({ ...raw, start: null }),
+};
+
+const isColor = (value: unknown): value is CellValue => value === PLAYER_BLACK || value === PLAYER_WHITE;
+const isCellValue = (value: unknown): value is CellValue => value === EMPTY || isColor(value);
+
+const migrate = (raw: Record<string, unknown>) => {
+  let current = raw;
+  while (typeof current.version === 'number' && current.version < SAVE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) return null;
+    current = { ...step(current), version: current.version + 1 };
+  }
+  // A save written by a newer version of the app cannot be read here.
+  return current.version === SAVE_VERSION ? current as unknown as SavedGame : null;
+};
+
+const readSave = (raw: unknown, slot: number): SavedGame | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const save = migrate(raw as Record<string, unknown>);
+  if (!save || !['PVE', 'PVP', 'AIVAI'].includes(save.mode)) return null;
+  const rules = normalizeRules(save.rules ?? {});
+  const board = save.board;
+  if (!Array.isArray(board) || board.length !== rules.boardSize
+    || !board.every(row => Array.isArray(row) && row.length === rules.boardSize && row.every(isCellValue))) return null;
+  if (!isColor(save.currentPlayer) || !isColor(save.p1Color) || !Array.isArray(save.moves)) return null;
+  const level = (value: unknown): Difficulty => DIFFICULTIES.includes(value as Difficulty) ? value as Difficulty : 'EASY';
+  const timeControls = { p1: normalizeTimeControl(save.timeControls?.p1), p2: normalizeTimeControl(save.timeControls?.p2) };
+  // A missing or unreadable clock restarts from the time controls rather than losing the game.
+  let clock: ClockSnapshot;
+  try {
+    clock = readClockSnapshot(save.clock);
+  } catch {
+    clock = snapshotClock(createClock(timeControls), 0);
+  }
+  return {
+    ...save,
+    slot,
+    rules,
+    difficulty: level(save.difficulty),
+    watchPlayers: { p1: level(save.watchPlayers?.p1), p2: level(save.watchPlayers?.p2) },
+    p2ProfileId: typeof save.p2ProfileId === 'string' ? save.p2ProfileId : null,
+    start: readPosition(save.start, rules),
+    timeControls,
+    clock,
+    scores: { p1: Number(save.scores?.p1) || 0, p2: Number(save.scores?.p2) || 0 },
+    turnCount: Number(save.turnCount) || 0,
+    cursor: Math.min(Math.max(0, Number(save.cursor) || 0), save.moves.length),
+  };
+};
+
+export const saveGame = (save: SavedGame, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(KEY_PREFIX + save.slot, JSON.stringify(save));
+  } catch {
+    // Storage full or disabled: the game just won't survive a reload.
+  }
+};
+
+export const deleteSave = (slot: number, storage: Storage = localStorage) => {
+  try {
+    storage.removeItem(KEY_PREFIX + slot);
+  } catch {
+    // Nothing to delete.
+  }
+};
+
+// Every readable save, by slot. Unreadable ones are skipped, so their slot counts as free.
+export const loadSaves = (storage: Storage = localStorage): SavedGame[] => {
+  const saves: SavedGame[] = [];
+  for (let slot = 1; slot <= SAVE_SLOTS; slot++) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(storage.getItem(KEY_PREFIX + slot) ?? 'null');
+    } catch {
+      raw = null;
+    }
+    if (raw === null) continue;
+    const save = readSave(raw, slot);
+    if (save) saves.push(save);
+  }
+  return saves;
+};
+
+// Where a new game saves: the first free slot, else the one saved longest ago.
+export const pickSlot = (saves: SavedGame[]) => {
+  for (let slot = 1; slot <= SAVE_SLOTS; slot++) {
+    if (!saves.some(save => save.slot === slot)) return slot;
+  }
+  return [...saves].sort((a, b) => a.savedAt - b.savedAt)[0].slot;
+};
+
+export const createSave = (fields: Omit<SavedGame, 'version' | 'board' | 'scores' | 'turnCount' | 'currentPlayer' | 'p1Color' | 'start' | 'moves' | 'cursor'>, history: GameHistory): SavedGame => {
+  const state = currentState(history);
+  return {
+    ...fields,
+    version: SAVE_VERSION,
+    board: state.board,
+    scores: state.scores,
+    turnCount: state.turnCount,
+    currentPlayer: state.currentPlayer,
+    p1Color: state.p1Color,
+    start: isSetUp(history.initial) ? positionOf(history.initial) : null,
+    moves: history.plies.map(ply => ply.move),
+    cursor: history.cursor,
+  };
+};
+
+const samePosition = (state: GameState, save: SavedGame) =>
+  state.turnCount === save.turnCount && state.currentPlayer === save.currentPlayer && state.p1Color === save.p1Color
+  && state.scores.p1 === save.scores.p1 && state.scores.p2 === save.scores.p2
+  && state.board.every((row, r) => row.every((cell, c) => cell === save.board[r][c]));
+
+// The game history to resume with. `exact` is false when only the stored
+// position could be restored (the undo history is gone).
+export const restoreSave = (save: SavedGame): { history: GameHistory, exact: boolean } => {
+  try {
+    let history = createHistory(gameFromPosition(save.rules, save.start));
+    save.moves.forEach(move => { history = pushMove(history, move).history; });
+    history = { ...history, cursor: save.cursor };
+    if (samePosition(currentState(history), save)) return { history, exact: true };
+  } catch {
+    // Falls through to the stored position.
+  }
+  const position: GameState = {
+    ...createGame(save.rules),
+    board: save.board,
+    scores: save.scores,
+    turnCount: save.turnCount,
+    currentPlayer: save.currentPlayer,
+    p1Color: save.p1Color,
+  };
+  return { history: createHistory(position), exact: false };
+};
@@ -0,0 +1,408 @@
+// Level 4: iterative-deepening alpha-beta (negamax) search.
+//
+// Completing a line hands the stones to the OPPONENT, so the evaluation is
+// mostly about who is stuck holding the color with the most "poisoned"
+// cells (empty cells where that color would explode) and how soon the
+// color swap hands that burden to the other player.
+
+import {
+  BoardState, Cell, CellValue, EMPTY, GameState, PlayerSlot,
+  checkLongLines, getGameResult, getKnockoutWinner, inBounds, opponentOf, otherSlot,
+} from './game';
+import { RuleSet } from './rules';
+
+export interface SearchOptions {
+  timeBudgetMs: number;
+  maxDepth?: number;
+  beamWidth?: number; // moves searched at inner nodes, best-ordered first
+  now?: () => number;
+  shouldStop?: () => boolean; // cooperative cancellation
+}
+
+export interface SearchResult {
+  move: Cell;
+  score: number;  // from the point of view of the side to move
+  depth: number;  // last fully searched depth
+  nodes: number;
+}
+
+const WIN_SCORE = 1_000_000;
+const POINT_WEIGHT = 100;
+const LATENT_WEIGHT = 12;
+const SCARCITY_WEIGHT = 600;
+const RACE_WEIGHT = 400;
+const SWAP_HORIZON = 8; // plies before a swap where color ownership starts to blur
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+class SearchAborted extends Error {}
+
+// --- Zobrist hashing ---
+
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const zobristCache = new Map<number, Uint32Array>();
+
+// Two 32-bit keys per (cell, color), indexed [(r * size + c) * 2 + color - 1] * 2 + half.
+const zobristFor = (size: number) => {
+  let table = zobristCache.get(size);
+  if (!table) {
+    const random = mulberry32(0xCA7057 + size);
+    table = new Uint32Array(size * size * 4);
+    for (let i = 0; i < table.length; i++) table[i] = random();
+    zobristCache.set(size, table);
+  }
+  return table;
+};
+
+// --- Fast lookahead helpers ---
+
+// Number of stones that would explode if `color` were placed on the empty
+// cell (r, c); 0 when the move is safe. Same rule as checkLongLines.
+export const explosionSize = (board: BoardState, r: number, c: number, color: CellValue, rules: RuleSet) => {
+  let total = 0;
+  for (const [dx, dy] of DIRECTIONS) {
+    let run = 1;
+    for (let k = 1; inBounds(board, r + dx * k, c + dy * k) && board[r + dx * k][c + dy * k] === color; k++) run++;
+    for (let k = 1; inBounds(board, r - dx * k, c - dy * k) && board[r - dx * k][c - dy * k] === color; k++) run++;
+    if (rules.exactLength ? run === rules.lineLength : run >= rules.lineLength) total += run - 1;
+  }
+  return total > 0 ? total + 1 : 0;
+};
+
+interface Undo {
+  move: Cell;
+  color: CellValue;
+  removed: Cell[];
+  scored: PlayerSlot | null;
+  swapped: boolean;
+  winner: PlayerSlot | 'DRAW' | null;
+}
+
+// Mutable mirror of GameState with make/unmake, so the search never clones boards.
+class Position {
+  board: BoardState;
+  scores: { p1: number, p2: number };
+  p1Color: CellValue;
+  currentPlayer: CellValue;
+  turnCount: number;
+  empty: number;
+  winner: PlayerSlot | 'DRAW' | null = null;
+  hashHi = 0;
+  hashLo = 0;
+  private zobrist: Uint32Array;
+
+  constructor(state: GameState, readonly rules: RuleSet) {
+    this.board = state.board.map(row => [...row]);
+    this.scores = { ...state.scores };
+    this.p1Color = state.p1Color;
+    this.currentPlayer = state.currentPlayer;
+    this.turnCount = state.turnCount;
+    this.zobrist = zobristFor(this.board.length);
+    this.empty = 0;
+    for (let r = 0; r < this.board.length; r++) {
+      for (let c = 0; c < this.board.length; c++) {
+        if (this.board[r][c] === EMPTY) this.empty++;
+        else this.toggle(r, c, this.board[r][c]);
+      }
+    }
+  }
+
+  private toggle(r: number, c: number, color: CellValue) {
+    const index = ((r * this.board.length + c) * 2 + color - 1) * 2;
+    this.hashHi ^= this.zobrist[index];
+    this.hashLo ^= this.zobrist[index + 1];
+  }
+
+  // Scores and the swap phase change the value of a position, so they are part of the key.
+  key() {
+    return `${this.hashHi}:${this.hashLo}:${this.currentPlayer}:${this.p1Color}:${this.scores.p1}:${this.scores.p2}:${this.turnCount}`;
+  }
+
+  slotOf(color: CellValue): PlayerSlot {
+    return color === this.p1Color ? 'p1' : 'p2';
+  }
+
+  movesUntilSwap() {
+    const { swapInterval } = this.rules;
+    return swapInterval > 0 ? swapInterval - (this.turnCount % swapInterval) : Infinity;
+  }
+
+  make(move: Cell): Undo {
+    const color = this.currentPlayer;
+    const undo: Undo = { move, color, removed: [], scored: null, swapped: false, winner: this.winner };
+    this.board[move.r][move.c] = color;
+    this.toggle(move.r, move.c, color);
+    this.empty--;
+
+    const exploded = checkLongLines(this.board, move.r, move.c, color, this.rules);
+    if (exploded) {
+      undo.scored = otherSlot(this.slotOf(color));
+      undo.removed = exploded;
+      this.scores[undo.scored] += exploded.length;
+      exploded.forEach(cell => {
+        this.board[cell.r][cell.c] = EMPTY;
+        this.toggle(cell.r, cell.c, color);
+      });
+      this.empty += exploded.length;
+    }
+
+    this.turnCount++;
+    const knockout = getKnockoutWinner(this.scores, this.rules);
+    if (knockout) {
+      this.winner = knockout;
+    } else if (this.empty === 0) {
+      this.winner = getGameResult(this.scores, this.board, this.p1Color).winner ?? 'DRAW';
+    } else {
+      const { swapInterval } = this.rules;
+      if (swapInterval > 0 && this.turnCount % swapInterval === 0) {
+        this.p1Color = opponentOf(this.p1Color);
+        undo.swapped = true;
+      }
+    }
+    this.currentPlayer = opponentOf(color);
+    return undo;
+  }
+
+  unmake(undo: Undo) {
+    const { move, color } = undo;
+    if (undo.swapped) this.p1Color = opponentOf(this.p1Color);
+    this.turnCount--;
+    this.currentPlayer = color;
+    this.winner = undo.winner;
+    if (undo.scored) {
+      this.scores[undo.scored] -= undo.removed.length;
+      undo.removed.forEach(cell => {
+        this.board[cell.r][cell.c] = color;
+        this.toggle(cell.r, cell.c, color);
+      });
+      this.empty -= undo.removed.length;
+    }
+    this.board[move.r][move.c] = EMPTY;
+    this.toggle(move.r, move.c, color);
+    this.empty++;
+  }
+}
+
+// --- Evaluation ---
+
+const hasNeighbor = (board: BoardState, r: number, c: number) => {
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if ((dr || dc) && inBounds(board, r + dr, c + dc) && board[r + dr][c + dc] !== EMPTY) return true;
+    }
+  }
+  return false;
+};
+
+// Progress toward the knockout condition, 0..1.
+const raceProgress = (own: number, other: number, rules: RuleSet) =>
+  Math.min(1, own / rules.knockoutScore) * (rules.knockoutMargin > 0 ? Math.min(1, Math.max(0, own - other) / rules.knockoutMargin) : 1);
+
+// Static evaluation from the point of view of `me`.
+const evaluateFor = (pos: Position, me: PlayerSlot) => {
+  const opp = otherSlot(me);
+  const { board, rules } = pos;
+  const size = board.length;
+
+  let value = (pos.scores[me] - pos.scores[opp]) * POINT_WEIGHT;
+  value += (raceProgress(pos.scores[me], pos.scores[opp], rules) - raceProgress(pos.scores[opp], pos.scores[me], rules)) * RACE_WEIGHT;
+
+  // Latent explosions per color: how many stones each color would blow up,
+  // and how many of the empty cells are poisoned for it.
+  const latent = [0, 0, 0];
+  const poisoned = [0, 0, 0];
+  const stones = [0, 0, 0];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const cell = board[r][c];
+      if (cell !== EMPTY) { stones[cell]++; continue; }
+      if (!hasNeighbor(board, r, c)) continue;
+      for (const color of [1, 2] as CellValue[]) {
+        const boom = explosionSize(board, r, c, color, rules);
+        if (boom) { latent[color] += boom; poisoned[color]++; }
+      }
+    }
+  }
+
+  // A color's burden falls on whoever holds it now, shifting to the other
+  // player as the swap approaches.
+  const untilSwap = pos.movesUntilSwap();
+  const keep = untilSwap >= SWAP_HORIZON ? 1 : untilSwap / SWAP_HORIZON;
+  const empties = Math.max(1, pos.empty);
+  for (const color of [1, 2] as CellValue[]) {
+    const burden = latent[color] * LATENT_WEIGHT + (poisoned[color] / empties) * SCARCITY_WEIGHT;
+    const holderNow = pos.slotOf(color);
+    const sign = holderNow === me ? -1 : 1;
+    value += sign * burden * keep - sign * burden * (1 - keep);
+  }
+
+  // Board-full tiebreak: more stones left is penalised.
+  const fill = 1 - pos.empty / (size * size);
+  const myColor = me === 'p1' ? pos.p1Color : opponentOf(pos.p1Color);
+  value += (stones[opponentOf(myColor)] - stones[myColor]) * 2 * fill;
+
+  return value;
+};
+
+// Static evaluation of a GameState from `slot`'s point of view (used by hints/analysis).
+export const evaluateState = (state: GameState, slot: PlayerSlot) => {
+  if (state.result) {
+    if (!state.result.winner) return 0;
+    return state.result.winner === slot ? WIN_SCORE : -WIN_SCORE;
+  }
+  return evaluateFor(new Position(state, state.rules), slot);
+};
+
+// --- Move generation ---
+
+const generateMoves = (pos: Position, tableMove: Cell | undefined, killers: Cell[]) => {
+  const { board, rules } = pos;
+  const size = board.length;
+  const color = pos.currentPlayer;
+  const opponent = opponentOf(color);
+  const moves: { move: Cell, order: number }[] = [];
+  let hasSafe = false;
+
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (board[r][c] !== EMPTY || !hasNeighbor(board, r, c)) continue;
+      const boom = explosionSize(board, r, c, color, rules);
+      if (!boom) hasSafe = true;
+      let neighbors = 0;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          if ((dr || dc) && inBounds(board, r + dr, c + dc) && board[r + dr][c + dc] !== EMPTY) neighbors++;
+        }
+      }
+      // Taking a cell the opponent cannot use anyway only relieves them.
+      const relief = explosionSize(board, r, c, opponent, rules) ? 40 : 0;
+      moves.push({ move: { r, c }, order: -1000 * boom + neighbors * 10 - relief });
+    }
+  }
+
+  // Every nearby cell explodes: look for a safe cell anywhere on the board.
+  if (!hasSafe) {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        if (board[r][c] === EMPTY && !hasNeighbor(board, r, c) && !explosionSize(board, r, c, color, rules)) {
+          moves.push({ move: { r, c }, order: 0 });
+        }
+      }
+    }
+  }
+  if (moves.length === 0) {
+    const mid = Math.floor(size / 2);
+    if (board[mid][mid] === EMPTY) moves.push({ move: { r: mid, c: mid }, order: 0 });
+    else {
+      for (let r = 0; r < size; r++) for (let c = 0; c < size; c++) if (board[r][c] === EMPTY) moves.push({ move: { r, c }, order: 0 });
+    }
+  }
+
+  const boost = (cell: Cell | undefined, amount: number) => {
+    if (!cell) return;
+    const found = moves.find(m => m.move.r === cell.r && m.move.c === cell.c);
+    if (found) found.order += amount;
+  };
+  killers.forEach(killer => boost(killer, 5_000));
+  boost(tableMove, 100_000);
+
+  moves.sort((a, b) => b.order - a.order);
+  return moves.map(m => m.move);
+};
+
+// --- Search ---
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  flag: 'EXACT' | 'LOWER' | 'UPPER';
+  move?: Cell;
+}
+
+export const searchBestMove = (state: GameState, options: SearchOptions): SearchResult => {
+  const now = options.now ?? (() => Date.now());
+  const deadline = now() + options.timeBudgetMs;
+  const maxDepth = options.maxDepth ?? 12;
+  const beamWidth = options.beamWidth ?? 12;
+  const pos = new Position(state, state.rules);
+  const table = new Map<string, TableEntry>();
+  const killers: Cell[][] = [];
+  let nodes = 0;
+  let mustFinish = true; // depth 1 always completes so there is a move to return
+
+  const checkTime = () => {
+    if ((++nodes & 255) !== 0 || mustFinish) return;
+    if (now() > deadline || options.shouldStop?.()) throw new SearchAborted();
+  };
+
+  const negamax = (depth: number, alpha: number, beta: number, ply: number): number => {
+    checkTime();
+    const me = pos.slotOf(pos.currentPlayer);
+    if (pos.winner) {
+      if (pos.winner === 'DRAW') return 0;
+      // The side that just moved may have ended the game either way.
+      return (pos.winner === me ? 1 : -1) * (WIN_SCORE - ply);
+    }
+    if (depth === 0) return evaluateFor(pos, me);
+
+    const key = pos.key();
+    const entry = table.get(key);
+    if (entry && entry.depth >= depth) {
+      if (entry.flag === 'EXACT') return entry.score;
+      if (entry.flag === 'LOWER' && entry.score >= beta) return entry.score;
+      if (entry.flag === 'UPPER' && entry.score <= alpha) return entry.score;
+    }
+
+    const moves = generateMoves(pos, entry?.move, killers[ply] ?? []).slice(0, beamWidth);
+    const alphaStart = alpha;
+    let best = -Infinity;
+    let bestMove: Cell | undefined;
+
+    for (const move of moves) {
+      const undo = pos.make(move);
+      // At a color swap the same PLAYER moves again (with the other color),
+      // so only negate when the turn actually passed to the opponent.
+      const value = pos.slotOf(pos.currentPlayer) !== me
+        ? -negamax(depth - 1, -beta, -alpha, ply + 1)
+        : negamax(depth - 1, alpha, beta, ply + 1);
+      pos.unmake(undo);
+
+      if (value > best) { best = value; bestMove = move; }
+      if (value > alpha) alpha = value;
+      if (alpha >= beta) {
+        killers[ply] = [move, ...(killers[ply] ?? []).filter(k => k.r !== move.r || k.c !== move.c)].slice(0, 2);
+        break;
+      }
+    }
+
+    table.set(key, {
+      depth,
+      score: best,
+      flag: best <= alphaStart ? 'UPPER' : best >= beta ? 'LOWER' : 'EXACT',
+      move: bestMove,
+    });
+    return best;
+  };
+
+  let result: SearchResult | null = null;
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    try {
+      const score = negamax(depth, -Infinity, Infinity, 0);
+      const move = table.get(pos.key())?.move;
+      if (move) result = { move, score, depth, nodes };
+    } catch (err) {
+      if (err instanceof SearchAborted) break;
+      throw err;
+    }
+    mustFinish = false;
+    if (result && Math.abs(result.score) >= WIN_SCORE - maxDepth) break; // forced result found
+    if (now() > deadline) break;
+  }
+
+  return result ?? { move: { r: Math.floor(state.board.length / 2), c: Math.floor(state.board.length / 2) }, score: 0, depth: 0, nodes };
+};
@@ -0,0 +1,95 @@
+// Online session persistence. The host keeps the authoritative move log in
+// localStorage so a reloaded host tab can reopen the same room and catch the
+// guest up; the guest keeps its token so the host recognises it on return.
+
+import { Cell, GameResult, PlayerSlot } from './game';
+import { RuleSet, normalizeRules } from './rules';
+import { ClockSnapshot, TimeControl, createClock, normalizeTimeControl, snapshotClock } from './clock';
+import { NetRole, readClockSnapshot, readResult } from './protocol';
+import { Position, readPosition } from './position';
+
+export interface StoredSession {
+  roomId: string;
+  role: NetRole;
+  localSlot: PlayerSlot; // swaps on every rematch
+  guestToken: string | null; // host: the guest it plays against; guest: its own token
+  rules: RuleSet;
+  timeControls: Record<PlayerSlot, TimeControl>;
+  start: Position | null; // where `moves` start from, null = the empty board
+  moves: Cell[];
+  result: GameResult | null;
+  clock: ClockSnapshot;
+  savedAt: number;
+}
+
+const KEY_PREFIX = 'caro-no:session:';
+// A session older than this is not resumed.
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const randomId = (length: number) =>
+  Array.from({ length }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+// Doubles as the host's PeerJS id, so it only uses characters PeerJS accepts.
+export const createRoomId = () => `caro-${randomId(8)}`;
+
+export const createToken = () => randomId(16);
+
+export const saveSession = (session: StoredSession, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(KEY_PREFIX + session.roomId, JSON.stringify(session));
+  } catch {
+    // Storage full or disabled: the session just won't survive a reload.
+  }
+};
+
+export const clearSession = (roomId: string, storage: Storage = localStorage) => {
+  try {
+    storage.removeItem(KEY_PREFIX + roomId);
+  } catch {
+    // Nothing to clear.
+  }
+};
+
+export const loadSession = (roomId: string, storage: Storage = localStorage): StoredSession | null => {
+  let raw: Partial<StoredSession>;
+  try {
+    raw = JSON.parse(storage.getItem(KEY_PREFIX + roomId) ?? 'null');
+  } catch {
+    return null;
+  }
+  if (!raw || raw.roomId !== roomId || (raw.role !== 'host' && raw.role !== 'guest')) return null;
+  if (typeof raw.savedAt !== 'number' || Date.now() - raw.savedAt > MAX_AGE_MS) {
+    clearSession(roomId, storage);
+    return null;
+  }
+  const timeControls = { p1: normalizeTimeControl(raw.timeControls?.p1), p2: normalizeTimeControl(raw.timeControls?.p2) };
+  const rules = normalizeRules(raw.rules ?? {});
+  // Read like a peer's SYNC. A result that fails the check drops the session;
+  // a missing or unreadable clock restarts from the time controls.
+  let result: GameResult | null;
+  try {
+    result = readResult(raw.result);
+  } catch {
+    clearSession(roomId, storage);
+    return null;
+  }
+  let clock: ClockSnapshot;
+  try {
+    clock = readClockSnapshot(raw.clock);
+  } catch {
+    clock = snapshotClock(createClock(timeControls), 0);
+  }
+  return {
+    roomId,
+    role: raw.role,
+    localSlot: raw.localSlot === 'p2' ? 'p2' : 'p1',
+    guestToken: typeof raw.guestToken === 'string' ? raw.guestToken : null,
+    rules,
+    timeControls,
+    start: readPosition(raw.start, rules),
+    moves: Array.isArray(raw.moves) ? raw.moves : [],
+    result,
+    clock,
+    savedAt: raw.savedAt,
+  };
+};
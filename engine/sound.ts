@@ -0,0 +1,157 @@
+// Game sounds, synthesized with Web Audio so nothing is downloaded and they
+// work offline. The audio context is opened on the first sound, which in
+// practice follows a click, since browsers keep audio locked until then.
+// Explosions also buzz phones that can vibrate.
+
+export type SoundCue =
+  | 'click'    // a stone placed
+  | 'clear'    // stones exploded; louder and longer the more there were
+  | 'swap'     // the players swapped colors
+  | 'lowTime'  // one tick per second while a clock is low
+  | 'gameOver';
+
+export interface SoundSettings {
+  volume: number; // 0..1
+  muted: boolean; // also silences vibration
+}
+
+export interface SoundPlayer {
+  // `stones` is how many exploded, for 'clear'.
+  play: (cue: SoundCue, stones?: number) => void;
+  configure: (settings: SoundSettings) => void;
+  dispose: () => void;
+}
+
+// Explosions stop growing past this many stones.
+const MAX_EXPLOSION = 12;
+
+type AudioContextClass = typeof AudioContext;
+
+export const createSoundPlayer = (settings: SoundSettings): SoundPlayer => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  let current = settings;
+
+  // Null where Web Audio is missing; the game then simply stays silent.
+  const open = (): { ctx: AudioContext, out: GainNode } | null => {
+    if (!context) {
+      // Older Safari only has the prefixed constructor.
+      const Context: AudioContextClass | undefined = window.AudioContext ?? (window as { webkitAudioContext?: AudioContextClass }).webkitAudioContext;
+      if (!Context) return null;
+      try {
+        context = new Context();
+      } catch {
+        return null;
+      }
+      master = context.createGain();
+      master.gain.value = current.volume;
+      master.connect(context.destination);
+    }
+    // Resuming is a no-op once the page has been interacted with.
+    if (context.state === 'suspended') context.resume().catch(() => {});
+    return { ctx: context, out: master! };
+  };
+
+  // One oscillator note: quick attack, exponential fade over `duration` seconds.
+  const tone = (ctx: AudioContext, out: AudioNode, { type, from, to, start, duration, level }: {
+    type: OscillatorType,
+    from: number, // Hz
+    to: number,   // Hz, glided to over the note
+    start: number,
+    duration: number,
+    level: number,
+  }) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(level, start + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    osc.connect(gain).connect(out);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  };
+
+  const noiseBuffer = (ctx: AudioContext) => {
+    if (!noise) {
+      noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return noise;
+  };
+
+  // Filtered noise for the blast and a falling sine for the thump under it.
+  const explosion = (ctx: AudioContext, out: AudioNode, stones: number) => {
+    const size = Math.min(Math.max(stones, 1), MAX_EXPLOSION) / MAX_EXPLOSION;
+    const start = ctx.currentTime;
+    const duration = 0.25 + 0.75 * size;
+    const level = 0.35 + 0.45 * size;
+
+    const source = ctx.createBufferSource();
+    source.buffer = noiseBuffer(ctx);
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(800 + 3200 * size, start);
+    filter.frequency.exponentialRampToValueAtTime(120, start + duration);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(level, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    source.connect(filter).connect(gain).connect(out);
+    source.start(start);
+    source.stop(start + duration + 0.02);
+
+    tone(ctx, out, { type: 'sine', from: 160, to: 40, start, duration: duration * 0.8, level });
+  };
+
+  const vibrate = (pattern: number | number[]) => {
+    if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') navigator.vibrate(pattern);
+  };
+
+  const play = (cue: SoundCue, stones = 1) => {
+    if (current.muted) return;
+    if (cue === 'clear') vibrate(Math.round(60 + 240 * Math.min(stones, MAX_EXPLOSION) / MAX_EXPLOSION));
+    if (current.volume <= 0) return;
+    const audio = open();
+    if (!audio) return;
+    const { ctx, out } = audio;
+    const now = ctx.currentTime;
+    switch (cue) {
+      case 'click':
+        tone(ctx, out, { type: 'triangle', from: 900, to: 500, start: now, duration: 0.07, level: 0.5 });
+        break;
+      case 'clear':
+        explosion(ctx, out, stones);
+        break;
+      case 'swap':
+        tone(ctx, out, { type: 'sine', from: 440, to: 880, start: now, duration: 0.18, level: 0.35 });
+        tone(ctx, out, { type: 'sine', from: 880, to: 440, start: now + 0.18, duration: 0.18, level: 0.35 });
+        break;
+      case 'lowTime':
+        tone(ctx, out, { type: 'square', from: 1200, to: 1200, start: now, duration: 0.04, level: 0.15 });
+        break;
+      case 'gameOver':
+        // A rising C major arpeggio.
+        [523, 659, 784, 1047].forEach((freq, i) =>
+          tone(ctx, out, { type: 'triangle', from: freq, to: freq, start: now + i * 0.12, duration: 0.4, level: 0.3 }));
+        break;
+    }
+  };
+
+  const configure = (settings: SoundSettings) => {
+    current = settings;
+    if (context && master) master.gain.setValueAtTime(settings.volume, context.currentTime);
+  };
+
+  const dispose = () => {
+    context?.close().catch(() => {});
+    context = null;
+    master = null;
+    noise = null;
+  };
+
+  return { play, configure, dispose };
+};
@@ -0,0 +1,35 @@
+// Cells that would set off an explosion: for each color, every empty cell
+// where its stone would complete a line checkLongLines clears, with the
+// stones lost and who would score them. Drives the board's threat overlay.
+
+import { CellValue, EMPTY, GameState, PLAYER_BLACK, PLAYER_WHITE, PlayerSlot, movesUntilSwap, opponentOf, otherSlot } from './game';
+import { explosionSize } from './search';
+
+export interface Threat {
+  r: number;
+  c: number;
+  color: CellValue;     // the stone that would explode the line
+  stones: number;       // how many would explode, the placed one included
+  receiver: PlayerSlot; // who would get the points
+}
+
+// Who plays `color` on its next move. The side to move plays now; the other
+// side plays after this turn, which may be the one that swaps colors.
+export const nextHolderOf = (state: GameState, color: CellValue): PlayerSlot => {
+  const p1Color = color === state.currentPlayer || movesUntilSwap(state) !== 1 ? state.p1Color : opponentOf(state.p1Color);
+  return color === p1Color ? 'p1' : 'p2';
+};
+
+export const findThreats = (state: GameState): Threat[] => {
+  const threats: Threat[] = [];
+  const holders = { [PLAYER_BLACK]: nextHolderOf(state, PLAYER_BLACK), [PLAYER_WHITE]: nextHolderOf(state, PLAYER_WHITE) };
+  state.board.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell !== EMPTY) return;
+    for (const color of [PLAYER_BLACK, PLAYER_WHITE] as const) {
+      const stones = explosionSize(state.board, r, c, color, state.rules);
+      // The opponent of whoever completes the line scores it.
+      if (stones) threats.push({ r, c, color, stones, receiver: otherSlot(holders[color]) });
+    }
+  }));
+  return threats;
+};
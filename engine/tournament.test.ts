@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES } from './rules';
+import { NO_TIME_CONTROL } from './clock';
+import { translator } from './i18n';
+import {
+  Entrant, Pairing, PairingSystem, Tournament, TournamentError, createTournament, isFinished, nextPairing, parseTournament,
+  recordResult, roundRobinRounds, serializeTournament, standings, tournamentCsv,
+} from './tournament';
+
+const human = (id: string, name = id): Entrant => ({ id, kind: 'HUMAN', name, profileId: null });
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => `e${i + 1}`);
+
+const start = (system: PairingSystem, count: number, rounds?: number) => createTournament({
+  name: 'Giải thử',
+  system,
+  rules: DEFAULT_RULES,
+  timeControls: { p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL },
+  entrants: ids(count).map(id => human(id)),
+  rounds,
+});
+
+// Plays every game in order: the entrant listed first wins, with varying margins.
+const playOut = (tournament: Tournament) => {
+  const order = ids(tournament.entrants.length);
+  let current = tournament;
+  for (let next = nextPairing(current); next; next = nextPairing(current)) {
+    const game = current.rounds[next.round][next.index];
+    const p1Wins = order.indexOf(game.p1) < order.indexOf(game.p2!);
+    const margin = next.round + next.index + 1;
+    current = recordResult(current, next.round, next.index, { winner: p1Wins ? 'p1' : 'p2', scores: p1Wins ? { p1: margin, p2: 0 } : { p1: 0, p2: margin } });
+  }
+  return current;
+};
+
+const pairKey = (game: Pairing) => [game.p1, game.p2].sort().join('-');
+
+const byes = (tournament: Tournament) => tournament.rounds.flat().filter(game => game.p2 === null).map(game => game.p1);
+
+// Everyone in a round appears exactly once, playing or sitting out.
+const expectEveryoneOncePerRound = (tournament: Tournament) => {
+  tournament.rounds.forEach(round => {
+    const seated = round.flatMap(game => game.p2 === null ? [game.p1] : [game.p1, game.p2]);
+    expect([...seated].sort()).toEqual(ids(tournament.entrants.length).sort());
+  });
+};
+
+describe('round robin', () => {
+  it('pairs every two entrants exactly once', () => {
+    const tournament = start('ROUND_ROBIN', 6);
+    expect(tournament.rounds).toHaveLength(roundRobinRounds(6));
+    expectEveryoneOncePerRound(tournament);
+    const games = tournament.rounds.flat().map(pairKey);
+    expect(games).toHaveLength(15);
+    expect(new Set(games).size).toBe(15);
+    expect(byes(tournament)).toEqual([]);
+  });
+
+  it('gives everyone one bye in an odd field', () => {
+    const tournament = start('ROUND_ROBIN', 5);
+    expect(tournament.rounds).toHaveLength(5);
+    expectEveryoneOncePerRound(tournament);
+    const games = tournament.rounds.flat().filter(game => game.p2 !== null).map(pairKey);
+    expect(new Set(games).size).toBe(10);
+    expect(games).toHaveLength(10);
+    expect([...byes(tournament)].sort()).toEqual(ids(5));
+  });
+
+  it('scores a bye as played and a win', () => {
+    const tournament = start('ROUND_ROBIN', 3);
+    const bye = tournament.rounds[0].find(game => game.p2 === null)!;
+    expect(bye.result).toEqual({ winner: 'p1', scores: { p1: 0, p2: 0 } });
+    expect(standings(tournament).find(standing => standing.entrant.id === bye.p1)).toMatchObject({ played: 1, wins: 1, points: 1 });
+  });
+});
+
+describe('swiss', () => {
+  it('pairs no rematches while the field allows it', () => {
+    const tournament = playOut(start('SWISS', 6, 5));
+    expect(isFinished(tournament)).toBe(true);
+    expectEveryoneOncePerRound(tournament);
+    const games = tournament.rounds.flat().map(pairKey);
+    expect(new Set(games).size).toBe(games.length);
+  });
+
+  it('gives each bye to a different entrant', () => {
+    const tournament = playOut(start('SWISS', 7, 6));
+    expect(tournament.rounds).toHaveLength(6);
+    expectEveryoneOncePerRound(tournament);
+    const given = byes(tournament);
+    expect(given).toHaveLength(6);
+    expect(new Set(given).size).toBe(6);
+    const games = tournament.rounds.flat().filter(game => game.p2 !== null).map(pairKey);
+    expect(new Set(games).size).toBe(games.length);
+  });
+
+  it('pairs the next round only once the current one is complete', () => {
+    let tournament = start('SWISS', 4);
+    expect(tournament.rounds).toHaveLength(1);
+    tournament = recordResult(tournament, 0, 0, { winner: 'p1', scores: { p1: 5, p2: 0 } });
+    expect(tournament.rounds).toHaveLength(1);
+    tournament = recordResult(tournament, 0, 1, { winner: null, scores: { p1: 5, p2: 5 } });
+    expect(tournament.rounds).toHaveLength(2);
+  });
+});
+
+describe('standings', () => {
+  // B is entered first, so only the tiebreaks can put anyone ahead of it.
+  const tournament: Tournament = {
+    ...start('ROUND_ROBIN', 2),
+    entrants: ['B', 'A', 'C', 'D', 'E'].map(id => human(id)),
+    rounds: [[
+      { p1: 'A', p2: 'C', result: { winner: 'p1', scores: { p1: 11, p2: 10 } } },
+      { p1: 'B', p2: 'D', result: { winner: 'p1', scores: { p1: 20, p2: 10 } } },
+      { p1: 'C', p2: 'E', result: { winner: 'p1', scores: { p1: 11, p2: 10 } } },
+    ]],
+  };
+
+  it('ranks by points, then Buchholz, then score margin', () => {
+    const table = standings(tournament);
+    // A, B and C all have a point. C beat E but lost to A, so A and C tie on
+    // Buchholz and A's margin decides; B's bigger margin does not outweigh its
+    // weaker opponent. D and E split on margin alone.
+    expect(table.map(standing => standing.entrant.id)).toEqual(['A', 'C', 'B', 'E', 'D']);
+    expect(table.map(standing => [standing.points, standing.buchholz, standing.margin])).toEqual([
+      [1, 1, 1], [1, 1, 0], [1, 0, 10], [0, 1, -1], [0, 1, -10],
+    ]);
+  });
+
+  it('keeps the entry order for entrants level on everything', () => {
+    expect(standings({ ...tournament, rounds: [] }).map(standing => standing.entrant.id)).toEqual(['B', 'A', 'C', 'D', 'E']);
+  });
+});
+
+describe('tournamentCsv', () => {
+  it('quotes names with commas, quotes or line breaks', () => {
+    const tournament: Tournament = {
+      ...start('ROUND_ROBIN', 2),
+      entrants: [human('e1', 'Lê, "Tí"'), human('e2', 'Hai\ndòng')],
+    };
+    const csv = tournamentCsv(tournament, translator('en'));
+    expect(csv).toContain('"Lê, ""Tí"""');
+    expect(csv).toContain('"Hai\ndòng"');
+    expect(csv.startsWith('Rank,Name,Kind,Games,Wins,Draws,Losses,Points,Buchholz,Margin,"Lê, ""Tí""","Hai\ndòng"\n')).toBe(true);
+    expect(csv).toContain('\n1,"Lê, ""Tí""",Human,0,0,0,0,0,0,0,,\n');
+  });
+});
+
+describe('readTournament', () => {
+  const errorKey = (json: string) => {
+    try {
+      parseTournament(json);
+    } catch (err) {
+      if (err instanceof TournamentError) return err.text.key;
+      throw err;
+    }
+    return null;
+  };
+
+  it('reads back a saved tournament', () => {
+    const tournament = playOut(start('SWISS', 5, 3));
+    expect(parseTournament(serializeTournament(tournament))).toEqual(tournament);
+  });
+
+  it('rejects an entrant seated twice in a round', () => {
+    const tournament = start('ROUND_ROBIN', 4);
+    const twice = { ...tournament, rounds: [[{ p1: 'e1', p2: 'e1', result: null }, ...tournament.rounds[0].slice(1)]] };
+    expect(errorKey(JSON.stringify(twice))).toBe('tournament.error.round');
+  });
+
+  it('rejects more rounds than the field can play', () => {
+    const tournament = start('SWISS', 4);
+    expect(errorKey(JSON.stringify({ ...tournament, totalRounds: 4 }))).toBe('tournament.error.totalRounds');
+    expect(errorKey(JSON.stringify({ ...tournament, totalRounds: 3 }))).toBeNull();
+  });
+});
@@ -0,0 +1,383 @@
+// Local tournaments on one shared machine: entrants (people at this screen
+// or AI levels), round-robin or Swiss pairings, results with their score
+// margins, and the standings and crosstable that follow from them. Pure
+// functions over a plain Tournament the app keeps in localStorage; the app
+// plays each pairing as an ordinary PVP, PVE or AI vs AI game.
+//
+// Standings rank by points (win 1, draw ½, bye 1), then Buchholz (the points
+// of the entrants one has played), then the score margin summed over the
+// games, then wins.
+
+import { PlayerSlot, Scores } from './game';
+import { RuleSet, normalizeRules } from './rules';
+import { TimeControl, normalizeTimeControl } from './clock';
+import { DIFFICULTIES, Difficulty } from './ai';
+import { Text, Translate, text } from './i18n';
+
+export const TOURNAMENT_FORMAT = 'caro-no-tournament';
+export const TOURNAMENT_VERSION = 1;
+const STORE_KEY = 'caro-no:tournament';
+
+export type PairingSystem = 'ROUND_ROBIN' | 'SWISS';
+
+// A HUMAN plays at this screen, as a local profile (its games then count
+// towards that profile's rating) or under a name only.
+export type Entrant =
+  | { id: string, kind: 'HUMAN', name: string, profileId: string | null }
+  | { id: string, kind: 'AI', name: string, difficulty: Difficulty };
+
+export interface PairingResult {
+  winner: PlayerSlot | null; // null = draw
+  scores: Scores;            // the points each side finished the game with
+}
+
+// One game of a round. A bye (p2 null) is scored as a win for p1 when the round is made.
+export interface Pairing {
+  p1: string;
+  p2: string | null;
+  result: PairingResult | null;
+}
+
+export interface Tournament {
+  format: typeof TOURNAMENT_FORMAT;
+  version: number;
+  name: string;
+  system: PairingSystem;
+  rules: RuleSet;
+  timeControls: Record<PlayerSlot, TimeControl>;
+  entrants: Entrant[];
+  totalRounds: number;
+  // Round robin pairs every round up front; Swiss adds a round once the last one is complete.
+  rounds: Pairing[][];
+  createdAt: number;
+}
+
+export interface Standing {
+  entrant: Entrant;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number;
+  buchholz: number;
+  margin: number; // own game points minus the opponents', over all games
+}
+
+// One entrant's games against one opponent, from the entrant's side.
+export interface CrossResult {
+  points: number; // 1, 0.5 or 0
+  margin: number;
+}
+
+export class TournamentError extends Error {
+  constructor(readonly text: Text) {
+    super(text.key);
+    this.name = 'TournamentError';
+  }
+}
+
+const randomId = () => Array.from({ length: 8 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+export const createEntrantId = randomId;
+
+const BYE_RESULT: PairingResult = { winner: 'p1', scores: { p1: 0, p2: 0 } };
+
+const pairing = (p1: string, p2: string | null): Pairing => ({ p1, p2, result: p2 === null ? BYE_RESULT : null });
+
+// Enough rounds for a Swiss event to separate a single winner.
+export const swissRounds = (entrants: number) => Math.max(1, Math.ceil(Math.log2(entrants)));
+
+export const roundRobinRounds = (entrants: number) => entrants % 2 === 0 ? entrants - 1 : entrants;
+
+// Circle method: the first entrant stays put and everyone else rotates one
+// place per round. Sides alternate so nobody plays P1 round after round.
+const roundRobin = (ids: string[]): Pairing[][] => {
+  const circle: (string | null)[] = ids.length % 2 === 0 ? [...ids] : [...ids, null];
+  const n = circle.length;
+  const rounds: Pairing[][] = [];
+  for (let round = 0; round < n - 1; round++) {
+    const games: Pairing[] = [];
+    for (let i = 0; i < n / 2; i++) {
+      let [a, b] = [circle[i], circle[n - 1 - i]];
+      if ((round + i) % 2 === 1) [a, b] = [b, a];
+      if (a === null) [a, b] = [b, a];
+      games.push(pairing(a as string, b));
+    }
+    // Byes last, so the games to play come first.
+    rounds.push(games.sort((x, y) => Number(x.p2 === null) - Number(y.p2 === null)));
+    circle.splice(1, 0, circle.pop() as string | null);
+  }
+  return rounds;
+};
+
+const playedPairings = (tournament: Tournament) => tournament.rounds.flat().filter(game => game.result !== null);
+
+const haveMet = (tournament: Tournament, a: string, b: string) =>
+  tournament.rounds.some(round => round.some(game => (game.p1 === a && game.p2 === b) || (game.p1 === b && game.p2 === a)));
+
+const p1Count = (tournament: Tournament, id: string) =>
+  tournament.rounds.flat().filter(game => game.p1 === id && game.p2 !== null).length;
+
+// Pairs `ids` (best first) top-down, each with the best-placed entrant it has
+// not met yet, backing up when that leaves someone without a partner. Null
+// when no such pairing exists.
+const pairWithoutRematches = (tournament: Tournament, ids: string[]): [string, string][] | null => {
+  if (ids.length === 0) return [];
+  const [first, ...rest] = ids;
+  for (let i = 0; i < rest.length; i++) {
+    if (haveMet(tournament, first, rest[i])) continue;
+    const others = pairWithoutRematches(tournament, rest.filter((_, j) => j !== i));
+    if (others) return [[first, rest[i]], ...others];
+  }
+  return null;
+};
+
+// The next Swiss round: the lowest-ranked entrant without a bye yet sits out
+// when the field is odd, the others play entrants on the same score where
+// they can. Rematches only happen when nothing else pairs everyone.
+const swissRound = (tournament: Tournament): Pairing[] => {
+  let ids = standings(tournament).map(standing => standing.entrant.id);
+  let bye: string | null = null;
+  if (ids.length % 2 === 1) {
+    const hadBye = new Set(tournament.rounds.flat().filter(game => game.p2 === null).map(game => game.p1));
+    bye = [...ids].reverse().find(id => !hadBye.has(id)) ?? ids[ids.length - 1];
+    ids = ids.filter(id => id !== bye);
+  }
+  const pairs = pairWithoutRematches(tournament, ids)
+    ?? ids.filter((_, i) => i % 2 === 0).map((id, i) => [id, ids[i * 2 + 1]] as [string, string]);
+  const games = pairs.map(([a, b]) => p1Count(tournament, a) <= p1Count(tournament, b) ? pairing(a, b) : pairing(b, a));
+  return bye === null ? games : [...games, pairing(bye, null)];
+};
+
+export const createTournament = ({ name, system, rules, timeControls, entrants, rounds }: {
+  name: string,
+  system: PairingSystem,
+  rules: RuleSet,
+  timeControls: Record<PlayerSlot, TimeControl>,
+  entrants: Entrant[],
+  rounds?: number, // Swiss only; defaults to swissRounds
+}): Tournament => {
+  if (entrants.length < 2) throw new TournamentError(text('tournament.error.tooFew'));
+  if (new Set(entrants.map(entrant => entrant.id)).size !== entrants.length) throw new TournamentError(text('tournament.error.duplicateId'));
+  const totalRounds = system === 'ROUND_ROBIN' ? roundRobinRounds(entrants.length) : rounds ?? swissRounds(entrants.length);
+  if (!Number.isInteger(totalRounds) || totalRounds < 1 || totalRounds >= entrants.length + (entrants.length % 2)) {
+    throw new TournamentError(text('tournament.error.rounds', { max: roundRobinRounds(entrants.length) }));
+  }
+  const tournament: Tournament = {
+    format: TOURNAMENT_FORMAT,
+    version: TOURNAMENT_VERSION,
+    name: name.trim(), // empty: shown as the default name in the viewer's language
+    system,
+    rules,
+    timeControls,
+    entrants,
+    totalRounds,
+    rounds: [],
+    createdAt: Date.now(),
+  };
+  return { ...tournament, rounds: system === 'ROUND_ROBIN' ? roundRobin(entrants.map(entrant => entrant.id)) : [swissRound(tournament)] };
+};
+
+export const findEntrant = (tournament: Tournament, id: string | null) =>
+  tournament.entrants.find(entrant => entrant.id === id) ?? null;
+
+// The first game still to be played, in round order.
+export const nextPairing = (tournament: Tournament): { round: number, index: number } | null => {
+  for (let round = 0; round < tournament.rounds.length; round++) {
+    const index = tournament.rounds[round].findIndex(game => game.result === null);
+    if (index >= 0) return { round, index };
+  }
+  return null;
+};
+
+export const isFinished = (tournament: Tournament) =>
+  tournament.rounds.length === tournament.totalRounds && nextPairing(tournament) === null;
+
+// Files the result of a game; a Swiss event pairs its next round once the current one is complete.
+export const recordResult = (tournament: Tournament, round: number, index: number, result: PairingResult): Tournament => {
+  const game = tournament.rounds[round]?.[index];
+  if (!game || game.p2 === null) throw new TournamentError(text('tournament.error.noGame'));
+  const rounds = tournament.rounds.map((games, r) => r !== round ? games : games.map((g, i) => i !== index ? g : { ...g, result }));
+  const updated = { ...tournament, rounds };
+  const roundDone = rounds[rounds.length - 1].every(g => g.result !== null);
+  if (updated.system === 'SWISS' && roundDone && rounds.length < updated.totalRounds) {
+    return { ...updated, rounds: [...rounds, swissRound(updated)] };
+  }
+  return updated;
+};
+
+// Each played game from both sides: [entrant, opponent (null = bye), points, margin].
+const gameLines = (tournament: Tournament) => playedPairings(tournament).flatMap(game => {
+  const result = game.result as PairingResult;
+  const pointsOf = (slot: PlayerSlot) => result.winner === null ? 0.5 : result.winner === slot ? 1 : 0;
+  const margin = result.scores.p1 - result.scores.p2;
+  const lines: [string, string | null, number, number][] = [[game.p1, game.p2, pointsOf('p1'), margin]];
+  if (game.p2 !== null) lines.push([game.p2, game.p1, pointsOf('p2'), -margin]);
+  return lines;
+});
+
+// Best first. Entrants level on everything keep their entry order.
+export const standings = (tournament: Tournament): Standing[] => {
+  const lines = gameLines(tournament);
+  const table = tournament.entrants.map((entrant): Standing => {
+    const own = lines.filter(([id]) => id === entrant.id);
+    return {
+      entrant,
+      played: own.length,
+      wins: own.filter(([, , points]) => points === 1).length,
+      draws: own.filter(([, , points]) => points === 0.5).length,
+      losses: own.filter(([, , points]) => points === 0).length,
+      points: own.reduce((sum, [, , points]) => sum + points, 0),
+      buchholz: 0,
+      margin: own.reduce((sum, [, , , margin]) => sum + margin, 0),
+    };
+  });
+  const pointsOf = new Map(table.map(standing => [standing.entrant.id, standing.points]));
+  table.forEach(standing => {
+    standing.buchholz = lines
+      .filter(([id, opponent]) => id === standing.entrant.id && opponent !== null)
+      .reduce((sum, [, opponent]) => sum + (pointsOf.get(opponent as string) ?? 0), 0);
+  });
+  return table
+    .map((standing, order) => ({ standing, order }))
+    .sort((a, b) => b.standing.points - a.standing.points || b.standing.buchholz - a.standing.buchholz
+      || b.standing.margin - a.standing.margin || b.standing.wins - a.standing.wins || a.order - b.order)
+    .map(({ standing }) => standing);
+};
+
+// crosstable[a][b]: a's results against b, in the order they were played.
+export const crosstable = (tournament: Tournament): Record<string, Record<string, CrossResult[]>> => {
+  const table: Record<string, Record<string, CrossResult[]>> = {};
+  tournament.entrants.forEach(entrant => { table[entrant.id] = {}; });
+  gameLines(tournament).forEach(([id, opponent, points, margin]) => {
+    if (opponent === null) return;
+    table[id][opponent] = [...(table[id][opponent] ?? []), { points, margin }];
+  });
+  return table;
+};
+
+export const formatPoints = (points: number) =>
+  Number.isInteger(points) ? String(points) : `${Math.floor(points) || ''}½`;
+
+const csvCell = (value: string | number) => {
+  const cell = String(value);
+  return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+// The standings with a crosstable column per entrant (points against them, ";" between rematches).
+export const tournamentCsv = (tournament: Tournament, t: Translate) => {
+  const table = standings(tournament);
+  const cross = crosstable(tournament);
+  const header = [
+    t('tournament.csv.rank'), t('tournament.csv.name'), t('tournament.csv.kind'), t('tournament.csv.played'),
+    t('tournament.csv.wins'), t('tournament.csv.draws'), t('tournament.csv.losses'), t('tournament.csv.points'),
+    'Buchholz', t('tournament.csv.margin'), ...table.map(s => s.entrant.name),
+  ];
+  const rows = table.map((standing, i) => [
+    i + 1,
+    standing.entrant.name,
+    standing.entrant.kind === 'AI' ? `AI ${standing.entrant.difficulty}` : t('tournament.csv.human'),
+    standing.played,
+    standing.wins,
+    standing.draws,
+    standing.losses,
+    standing.points,
+    standing.buchholz,
+    standing.margin,
+    ...table.map(other => (cross[standing.entrant.id][other.entrant.id] ?? []).map(r => r.points).join(';')),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const serializeTournament = (tournament: Tournament) => JSON.stringify(tournament, null, 2);
+
+const readEntrant = (raw: unknown): Entrant => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  if (typeof data.id !== 'string' || typeof data.name !== 'string') throw new TournamentError(text('tournament.error.entrant'));
+  if (data.kind === 'AI') {
+    if (!DIFFICULTIES.includes(data.difficulty as Difficulty)) throw new TournamentError(text('tournament.error.difficulty', { name: data.name }));
+    return { id: data.id, kind: 'AI', name: data.name, difficulty: data.difficulty as Difficulty };
+  }
+  if (data.kind !== 'HUMAN') throw new TournamentError(text('tournament.error.kind', { name: data.name }));
+  return { id: data.id, kind: 'HUMAN', name: data.name, profileId: typeof data.profileId === 'string' ? data.profileId : null };
+};
+
+const readResult = (raw: unknown): PairingResult | null => {
+  if (raw === null || raw === undefined) return null;
+  const data = raw as Partial<PairingResult>;
+  if (data.winner !== 'p1' && data.winner !== 'p2' && data.winner !== null) throw new TournamentError(text('tournament.error.result'));
+  const scores = { p1: Number(data.scores?.p1), p2: Number(data.scores?.p2) };
+  if (!Number.isFinite(scores.p1) || !Number.isFinite(scores.p2)) throw new TournamentError(text('tournament.error.scores'));
+  return { winner: data.winner, scores };
+};
+
+// Checks a tournament file and coerces it into shape. Throws TournamentError.
+export const readTournament = (raw: unknown): Tournament => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  if (data.format !== TOURNAMENT_FORMAT) throw new TournamentError(text('tournament.error.format'));
+  if (data.version !== TOURNAMENT_VERSION) throw new TournamentError(text('tournament.error.version', { version: String(data.version) }));
+  if (data.system !== 'ROUND_ROBIN' && data.system !== 'SWISS') throw new TournamentError(text('tournament.error.system'));
+  if (!Array.isArray(data.entrants) || !Array.isArray(data.rounds)) throw new TournamentError(text('tournament.error.missing'));
+  const entrants = data.entrants.map(readEntrant);
+  const ids = new Set(entrants.map(entrant => entrant.id));
+  if (ids.size !== entrants.length || entrants.length < 2) throw new TournamentError(text('tournament.error.entrants'));
+  const rounds = data.rounds.map((round: unknown) => {
+    if (!Array.isArray(round)) throw new TournamentError(text('tournament.error.round'));
+    const games = round.map((raw: unknown): Pairing => {
+      const game = (raw ?? {}) as Partial<Pairing>;
+      if (!ids.has(game.p1 as string) || (game.p2 !== null && !ids.has(game.p2 as string))) {
+        throw new TournamentError(text('tournament.error.stranger'));
+      }
+      return { p1: game.p1 as string, p2: game.p2 ?? null, result: game.p2 === null ? BYE_RESULT : readResult(game.result) };
+    });
+    // Nobody plays twice in a round, themselves included.
+    const seated = games.flatMap(game => game.p2 === null ? [game.p1] : [game.p1, game.p2]);
+    if (new Set(seated).size !== seated.length) throw new TournamentError(text('tournament.error.round'));
+    return games;
+  });
+  // The same bounds createTournament puts on the number of rounds.
+  const totalRounds = Number(data.totalRounds);
+  if (!Number.isInteger(totalRounds) || totalRounds < rounds.length || rounds.length === 0
+    || totalRounds >= entrants.length + (entrants.length % 2)) throw new TournamentError(text('tournament.error.totalRounds'));
+  const timeControls = data.timeControls as Partial<Record<PlayerSlot, TimeControl>> | undefined;
+  return {
+    format: TOURNAMENT_FORMAT,
+    version: TOURNAMENT_VERSION,
+    name: typeof data.name === 'string' ? data.name.trim() : '',
+    system: data.system,
+    rules: normalizeRules((data.rules ?? {}) as Partial<RuleSet>),
+    timeControls: { p1: normalizeTimeControl(timeControls?.p1), p2: normalizeTimeControl(timeControls?.p2) },
+    entrants,
+    totalRounds,
+    rounds,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+  };
+};
+
+export const parseTournament = (json: string): Tournament => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new TournamentError(text('file.notJson'));
+  }
+  return readTournament(raw);
+};
+
+export const loadTournament = (storage: Storage = localStorage): Tournament | null => {
+  try {
+    const raw = storage.getItem(STORE_KEY);
+    return raw ? parseTournament(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTournament = (tournament: Tournament | null, storage: Storage = localStorage) => {
+  try {
+    if (tournament) storage.setItem(STORE_KEY, serializeTournament(tournament));
+    else storage.removeItem(STORE_KEY);
+  } catch {
+    // Storage full or disabled: the tournament lasts until the tab closes.
+  }
+};
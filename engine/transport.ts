@@ -0,0 +1,146 @@
+// Transport layer under the online protocol. A transport opens rooms and
+// connections; what travels over a connection is the protocol's envelopes,
+// which every implementation passes through as plain JSON-compatible data.
+//
+//   peerjs    WebRTC through a PeerJS broker (public cloud by default, or self-hosted)
+//   relay     WebSocket to the relay server in server/relay.ts
+//   loopback  in-memory, both ends in the same JS context (tests, offline runs)
+
+import { createPeerTransport } from './peerTransport';
+import { createRelayTransport } from './relayTransport';
+import { createLoopbackTransport } from './loopbackTransport';
+
+export type TransportKind = 'peerjs' | 'relay' | 'loopback';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['peerjs', 'relay', 'loopback'];
+
+// One link to the other side. Handlers registered before the link opens
+// still see every event.
+export interface Connection {
+  send: (data: unknown) => void;
+  onOpen: (handler: () => void) => void;
+  onMessage: (handler: (data: unknown) => void) => void;
+  onClose: (handler: () => void) => void;
+  close: () => void;
+}
+
+export type TransportErrorKind =
+  | 'ROOM_TAKEN'      // listen(): another host already has this room id
+  | 'ROOM_NOT_FOUND'  // connect(): nobody listens on this room id
+  | 'NETWORK';        // anything else (broker or relay unreachable, ...)
+
+export class TransportError extends Error {
+  constructor(message: string, readonly kind: TransportErrorKind) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+export interface Transport {
+  kind: TransportKind;
+  // Host: opens `roomId` and hands over every incoming connection.
+  listen: (roomId: string, onConnection: (connection: Connection) => void) => void;
+  // Guest or spectator: only valid while isReady().
+  connect: (roomId: string) => Connection;
+  isReady: () => boolean;
+  // Fires when the transport can connect, and again after it recovers from an outage.
+  onReady: (handler: () => void) => void;
+  onError: (handler: (error: TransportError) => void) => void;
+  close: () => void;
+}
+
+export interface PeerJsOptions {
+  host?: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  key?: string;
+}
+
+export interface TransportConfig {
+  kind: TransportKind;
+  peerjs: PeerJsOptions; // empty = PeerJS's public cloud broker
+  relayUrl: string;
+}
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+// URL parameters that pick the transport. Shared links carry them along so
+// both players end up on the same network.
+export const TRANSPORT_PARAMS = ['transport', 'peerHost', 'peerPort', 'peerPath', 'peerSecure', 'peerKey', 'relay'];
+
+const ENV_KEYS: Record<string, string> = {
+  transport: 'VITE_TRANSPORT',
+  peerHost: 'VITE_PEER_HOST',
+  peerPort: 'VITE_PEER_PORT',
+  peerPath: 'VITE_PEER_PATH',
+  peerSecure: 'VITE_PEER_SECURE',
+  peerKey: 'VITE_PEER_KEY',
+  relay: 'VITE_RELAY_URL',
+};
+
+// URL parameters win over build-time config (VITE_* variables), which wins over the defaults.
+export const readTransportConfig = (params: URLSearchParams, env: Record<string, string | undefined> = {}): TransportConfig => {
+  const read = (name: string) => params.get(name) ?? env[ENV_KEYS[name]] ?? undefined;
+  const kind = read('transport')?.toLowerCase() as TransportKind | undefined;
+  const port = Number(read('peerPort'));
+  const secure = read('peerSecure');
+  return {
+    kind: kind && TRANSPORT_KINDS.includes(kind) ? kind : 'peerjs',
+    peerjs: {
+      host: read('peerHost') || undefined,
+      port: Number.isInteger(port) && port > 0 ? port : undefined,
+      path: read('peerPath') || undefined,
+      secure: secure === undefined ? undefined : secure === 'true' || secure === '1',
+      key: read('peerKey') || undefined,
+    },
+    relayUrl: read('relay') || DEFAULT_RELAY_URL,
+  };
+};
+
+export const createTransport = (config: TransportConfig): Transport => {
+  switch (config.kind) {
+    case 'relay':
+      return createRelayTransport(config.relayUrl);
+    case 'loopback':
+      return createLoopbackTransport();
+    default:
+      return createPeerTransport(config.peerjs);
+  }
+};
+
+// Plumbing for transports that implement Connection themselves: the
+// connection handed to the app, plus the hooks that drive its events.
+// Closing fires onClose on this end too, as PeerJS does.
+export const createLinkEnd = (send: (data: unknown) => void, release: () => void) => {
+  const handlers = { open: [] as (() => void)[], message: [] as ((data: unknown) => void)[], close: [] as (() => void)[] };
+  let closed = false;
+
+  const emitClose = () => {
+    if (closed) return;
+    closed = true;
+    handlers.close.forEach(handler => handler());
+  };
+
+  const connection: Connection = {
+    send: (data) => { if (!closed) send(data); },
+    onOpen: (handler) => { handlers.open.push(handler); },
+    onMessage: (handler) => { handlers.message.push(handler); },
+    onClose: (handler) => { handlers.close.push(handler); },
+    close: () => {
+      if (closed) return;
+      release();
+      emitClose();
+    },
+  };
+
+  return {
+    connection,
+    isClosed: () => closed,
+    emitOpen: () => { if (!closed) handlers.open.forEach(handler => handler()); },
+    emitMessage: (data: unknown) => { if (!closed) handlers.message.forEach(handler => handler(data)); },
+    emitClose,
+  };
+};
+
+export type LinkEnd = ReturnType<typeof createLinkEnd>;
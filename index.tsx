@@ -1,672 +1,2451 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+/// <reference types="vite/client" />
+import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import Peer, { DataConnection } from 'peerjs';
-
-// --- Constants ---
-const BOARD_SIZE = 15;
-const PLAYER_BLACK = 1; // Stone Color Black (VOID)
-const PLAYER_WHITE = 2; // Stone Color White (LIGHT)
-const EMPTY = 0;
-
-type CellValue = 0 | 1 | 2;
-type BoardState = CellValue[][];
-type Difficulty = 'EASY' | 'MEDIUM' | 'SUPER_STRONG';
-type GameMode = 'PVP' | 'PVE' | 'ONLINE';
-
-// --- Helper Logic ---
-
-// Check for ANY line length >= 5. Returns ALL stones in that line.
-const checkLongLines = (board: BoardState, lastRow: number, lastCol: number, player: CellValue) => {
-  const directions = [
-    [0, 1],   // Horizontal
-    [1, 0],   // Vertical
-    [1, 1],   // Diagonal \
-    [1, -1]   // Diagonal /
-  ];
-
-  let allStonesInLine: { r: number, c: number }[] = [];
-
-  for (const [dx, dy] of directions) {
-    let count = 1;
-    let lineCells = [{ r: lastRow, c: lastCol }];
-
-    // Check forward (positive direction)
-    let i = 1;
-    while (true) {
-      const r = lastRow + dx * i;
-      const c = lastCol + dy * i;
-      if (r >= 0 && r < BOARD_SIZE && c >= 0 && c < BOARD_SIZE && board[r][c] === player) {
-        count++;
-        lineCells.push({ r, c });
-        i++;
-      } else {
-        break;
-      }
-    }
 
-    // Check backward (negative direction)
-    let j = 1;
-    while (true) {
-      const r = lastRow - dx * j;
-      const c = lastCol - dy * j;
-      if (r >= 0 && r < BOARD_SIZE && c >= 0 && c < BOARD_SIZE && board[r][c] === player) {
-        count++;
-        lineCells.push({ r, c });
-        j++;
-      } else {
-        break;
-      }
-    }
+import {
+  PLAYER_BLACK, EMPTY,
+  Cell, CellValue, GameMode, GameState, GameEvent, GameResult, PlayerSlot,
+  colorOfSlot, inBounds, movesUntilSwap, otherSlot, slotOfColor,
+} from './engine/game';
+import {
+  GameHistory, canRedo, canUndo, createHistory, currentState, endGame, hasPlayed, playedPlies, pushMove, redo, redoUntil, stateAt, takeBack, undo, undoUntil,
+} from './engine/history';
+import {
+  ClockSnapshot, ClockState, NO_TIME_CONTROL, TimeControl,
+  createClock, flaggedSlot, isLowOnTime, isTimed, pressClock, readClock, restoreClock, resumeClock, snapshotClock, stopClock,
+} from './engine/clock';
+import { NetMessage, NetRole, NetSession, Offer, OfferKind, PlayerInfo, ProtocolError, UNKNOWN_PLAYER, checkRemoteMove, createSession, hashState, rebuildHistory } from './engine/protocol';
+import { StoredSession, clearSession, createRoomId, createToken, loadSession, saveSession } from './engine/session';
+import { Connection, TRANSPORT_PARAMS, Transport, TransportKind, createTransport, readTransportConfig } from './engine/transport';
+import { LobbyClient, LobbyError, LobbyStatus, createLobbyClient, readLobbyUrl } from './engine/lobbyClient';
+import { LobbyRoom, LobbySettings } from './engine/lobbyProtocol';
+import { DEFAULT_RULES, RuleSet } from './engine/rules';
+import { ANALYSIS_TIME_BUDGET_MS, DIFFICULTIES, Difficulty, HINT_TIME_BUDGET_MS } from './engine/ai';
+import { AiCancelledError, AiClient, createAiClient } from './engine/aiClient';
+import { PlyAnalysis, analyzeGame } from './engine/analysis';
+import { RulesPanel } from './components/RulesPanel';
+import { MoveList } from './components/MoveList';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { TimeControlPanel } from './components/TimeControlPanel';
+import { ClockFace } from './components/ClockFace';
+import { ChatLine, ChatPanel } from './components/ChatPanel';
+import { OFFER_LABELS, OfferPanel } from './components/OfferPanel';
+import { LobbyPanel } from './components/LobbyPanel';
+import { Avatar, ProfilePanel } from './components/ProfilePanel';
+import { StatsPanel } from './components/StatsPanel';
+import { SavesPanel } from './components/SavesPanel';
+import { PuzzlePanel } from './components/PuzzlePanel';
+import { PuzzleEditor } from './components/PuzzleEditor';
+import { SetupPanel } from './components/SetupPanel';
+import { TournamentPanel } from './components/TournamentPanel';
+import { REPLAY_SPEEDS, ReplayPanel } from './components/ReplayPanel';
+import { RecordParseError, exportRecord, importRecord } from './engine/record';
+import {
+  ProfileStore, Seat, activeProfile, addProfile, findProfile, loadProfiles, recordGame, removeProfile, saveProfiles, selectProfile, updateProfile,
+} from './engine/profiles';
+import { SavedGame, createSave, deleteSave, loadSaves, pickSlot, restoreSave, saveGame } from './engine/saves';
+import {
+  Puzzle, PuzzlePack, PuzzleParseError, describeGoal, evaluatePuzzle, loadPacks, loadProgress, parsePack, puzzleKey, puzzleState,
+  readPack, recordAttempt, saveProgress, savePacks, scriptedReply, serializePack, solverSlot,
+} from './engine/puzzles';
+import { Position, gameFromPosition, isSetUp, positionOf, validatePosition } from './engine/position';
+import {
+  Entrant, Tournament, TournamentError, findEntrant, loadTournament, parseTournament, recordResult, saveTournament, serializeTournament, tournamentCsv,
+} from './engine/tournament';
+import { LOCALES, LOCALE_NAMES, Locale, MessageKey, Text, Translate, loadLocale, renderText, saveLocale, text, translator } from './engine/i18n';
+import { formatCell } from './engine/notation';
+import { Preferences, loadPreferences, savePreferences } from './engine/preferences';
+import { SoundCue, SoundPlayer, createSoundPlayer } from './engine/sound';
+import { findThreats } from './engine/threats';
+import { ReplayLinkError, SharedGame, decodeReplay, encodeReplay } from './engine/replayLink';
+import basicPuzzles from './puzzles/basic.json';
+
+const DIFFICULTY_LABELS: Record<Difficulty, MessageKey> = {
+    EASY: 'difficulty.EASY',
+    MEDIUM: 'difficulty.MEDIUM',
+    SUPER_STRONG: 'difficulty.SUPER_STRONG',
+    MASTER: 'difficulty.MASTER',
+};
 
-    // If line length is 5 OR MORE, add to removal list
-    if (count >= 5) {
-      allStonesInLine = [...allStonesInLine, ...lineCells];
-    }
-  }
+// Delay before each move when watching two AIs play.
+const WATCH_SPEEDS: { label: MessageKey, delayMs: number }[] = [
+    { label: 'watch.speed.slow', delayMs: 1500 },
+    { label: 'watch.speed.normal', delayMs: 600 },
+    { label: 'watch.speed.fast', delayMs: 150 },
+    { label: 'watch.speed.instant', delayMs: 0 },
+];
+
+// Shipped with the app; packs imported or made in the editor are kept in localStorage.
+const BUILT_IN_PACKS = [readPack(basicPuzzles)];
+// Where the editor saves puzzles. The name is what progress is stored under,
+// so it stays the same in every language and is only shown translated.
+const MY_PACK_NAME = 'Của tôi';
+
+const PUZZLE_STATUS_LABELS: Record<'SOLVING' | 'SOLVED' | 'FAILED', { label: MessageKey, color: string }> = {
+    SOLVING: { label: 'puzzle.status.SOLVING', color: 'text-gray-300' },
+    SOLVED: { label: 'puzzle.status.SOLVED', color: 'text-green-400' },
+    FAILED: { label: 'puzzle.status.FAILED', color: 'text-red-400' },
+};
+
+const STATE_HASH_INTERVAL_MS = 5000;
+// How long a dropped opponent has to come back before the game is abandoned.
+const RECONNECT_GRACE_MS = 60_000;
+const RECONNECT_RETRY_MS = 3000;
+const EMOTE_BUBBLE_MS = 2500;
+const MAX_SPECTATORS = 16;
+const MAX_CHAT_LINES = 100;
 
-  // Remove duplicates
-  const uniqueStones = Array.from(new Set(allStonesInLine.map(s => `${s.r},${s.c}`)))
-                            .map(str => {
-                                const [r, c] = str.split(',').map(Number);
-                                return { r, c };
-                            });
+// Picked once per page load from the URL (?transport=relay&relay=ws://...) or the build's VITE_* config.
+const TRANSPORT_CONFIG = readTransportConfig(new URLSearchParams(window.location.search), import.meta.env);
 
-  return uniqueStones.length > 0 ? uniqueStones : null;
+// Same precedence as the transport: ?lobby=ws://..., then VITE_LOBBY_URL, then the page's own host.
+const LOBBY_URL = readLobbyUrl(new URLSearchParams(window.location.search), import.meta.env, window.location.hostname);
+
+const TRANSPORT_LABELS: Record<TransportKind, MessageKey> = {
+    peerjs: 'transport.peerjs',
+    relay: 'transport.relay',
+    loopback: 'transport.loopback',
 };
 
-const isBoardFull = (board: BoardState): boolean => {
-    for(let r=0; r<BOARD_SIZE; r++){
-        for(let c=0; c<BOARD_SIZE; c++){
-            if(board[r][c] === EMPTY) return false;
-        }
-    }
-    return true;
+// This page's path with the transport parameters kept, so shared links use the same network.
+const pageUrl = (param?: 'join' | 'watch', roomId?: string) => {
+    const current = new URLSearchParams(window.location.search);
+    const params = new URLSearchParams();
+    TRANSPORT_PARAMS.forEach(name => {
+        const value = current.get(name);
+        if (value !== null) params.set(name, value);
+    });
+    if (param && roomId) params.set(param, roomId);
+    const query = params.toString();
+    return `${window.location.pathname}${query ? `?${query}` : ''}`;
 };
 
-const countStones = (board: BoardState) => {
-    let black = 0;
-    let white = 0;
-    board.forEach(row => row.forEach(cell => {
-        if (cell === PLAYER_BLACK) black++;
-        if (cell === PLAYER_WHITE) white++;
-    }));
-    return { black, white };
+// Offers the text as a file download.
+const downloadText = (filename: string, text: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
 };
 
-const getEmptyNeighbors = (board: BoardState, distance = 2): { r: number, c: number }[] => {
-  const neighbors = new Set<string>();
-  const moves: { r: number, c: number }[] = [];
-
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
-      if (board[r][c] !== EMPTY) {
-        for (let dr = -distance; dr <= distance; dr++) {
-          for (let dc = -distance; dc <= distance; dc++) {
-            const nr = r + dr;
-            const nc = c + dc;
-            if (nr >= 0 && nr < BOARD_SIZE && nc >= 0 && nc < BOARD_SIZE && board[nr][nc] === EMPTY) {
-              const key = `${nr},${nc}`;
-              if (!neighbors.has(key)) {
-                neighbors.add(key);
-                moves.push({ r: nr, c: nc });
-              }
-            }
-          }
-        }
-      }
+// Copies a link and confirms it with `copied`. Where the clipboard is missing
+// or refuses (no HTTPS, no permission), shows the link to copy by hand.
+const copyLink = async (t: Translate, link: string, copied: MessageKey) => {
+    try {
+        if (!navigator.clipboard) throw new Error('no clipboard');
+        await navigator.clipboard.writeText(link);
+    } catch {
+        window.prompt(t('app.copyManually'), link);
+        return;
     }
-  }
-  if (moves.length === 0) return [{ r: Math.floor(BOARD_SIZE / 2), c: Math.floor(BOARD_SIZE / 2) }];
-  return moves;
+    alert(t(copied));
 };
 
-// --- AI Strategies ---
-
-// Level 1: Easy
-const getEasyMove = (board: BoardState, aiPlayer: CellValue) => {
-  const moves = getEmptyNeighbors(board, 1);
-  if (moves.length === 0) return { r: 7, c: 7 };
-  const randomIdx = Math.floor(Math.random() * moves.length);
-  return moves[randomIdx];
+// Offers waiting for an answer: ours to the opponent, and theirs to us.
+type Offers = { mine: Offer | null, theirs: Offer | null };
+const NO_OFFERS: Offers = { mine: null, theirs: null };
+const HOST_RETRY_LIMIT = 5;
+
+interface TournamentGame {
+  createdAt: number; // tells the tournament apart from one started since
+  round: number;
+  index: number;
+  entrants: Record<PlayerSlot, Entrant>;
+}
+
+// A tournament entrant on the scoreboard: its profile, a named guest, or nobody for an AI.
+const entrantPlayer = (entrant: Entrant, store: ProfileStore): PlayerInfo | null => {
+  if (entrant.kind === 'AI') return null;
+  return findProfile(store, entrant.profileId) ?? { ...UNKNOWN_PLAYER, name: entrant.name };
 };
 
-// Level 2: Medium (Heuristic)
-const getMediumMove = (board: BoardState, aiPlayer: CellValue) => {
-    const moves = getEmptyNeighbors(board, 1);
-    let bestScore = -Infinity;
-    let bestMove = moves[0];
-
-    const evaluate = (r: number, c: number, player: CellValue, currentBoard: BoardState) => {
-        const stonesExploded = checkLongLines(currentBoard, r, c, player);
-        if (stonesExploded) return -1000 * stonesExploded.length; 
-
-        let score = 0;
-        const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
-        
-        for (const [dx, dy] of directions) {
-            let countAI = 0;
-            let openEndsAI = 0;
-            for(let k=1; k<5; k++) {
-                const nr = r + dx*k, nc = c + dy*k;
-                if(nr>=0 && nr<15 && nc>=0 && nc<15) {
-                    if(currentBoard[nr][nc] === player) countAI++;
-                    else if(currentBoard[nr][nc] === EMPTY) { openEndsAI++; break; }
-                    else break;
-                }
-            }
-            for(let k=1; k<5; k++) {
-                const nr = r - dx*k, nc = c - dy*k;
-                if(nr>=0 && nr<15 && nc>=0 && nc<15) {
-                    if(currentBoard[nr][nc] === player) countAI++;
-                    else if(currentBoard[nr][nc] === EMPTY) { openEndsAI++; break; }
-                    else break;
-                }
-            }
-            if (countAI === 3 && openEndsAI > 0) score += 50; 
-            if (countAI === 2 && openEndsAI > 0) score += 10;
-        }
-        score += Math.random() * 5; 
-        return score;
-    }
+const entrantSeat = (entrant: Entrant, store: ProfileStore): Seat => {
+  if (entrant.kind === 'AI') return { kind: 'AI', difficulty: entrant.difficulty };
+  const profile = findProfile(store, entrant.profileId);
+  return profile ? { kind: 'PROFILE', profileId: profile.id } : { kind: 'HUMAN', name: entrant.name, rating: null };
+};
 
-    for(const move of moves) {
-        const tempBoard = board.map(row => [...row]);
-        tempBoard[move.r][move.c] = aiPlayer;
-        const score = evaluate(move.r, move.c, aiPlayer, tempBoard);
-        if(score > bestScore) {
-            bestScore = score;
-            bestMove = move;
-        }
-    }
-    return bestMove;
+// Lobby refusals are shown in the player's language; a failed connection keeps its technical detail.
+const lobbyErrorText = (err: Error): Text =>
+    err instanceof LobbyError && err.kind !== 'NETWORK' ? text(`lobby.error.${err.kind}`) : text('net.error', { detail: err.message });
+
+const slotName = (t: Translate, slot: PlayerSlot, gameMode: GameMode, localSlot: PlayerSlot = 'p1', names?: Record<PlayerSlot, string>) => {
+    if (gameMode === 'AIVAI') return names ? names[slot].toUpperCase() : t(slot === 'p1' ? 'slot.ai1' : 'slot.ai2');
+    if (gameMode === 'ONLINE' && names) return `${slot.toUpperCase()} (${names[slot].toUpperCase()})`;
+    if (gameMode === 'ONLINE') return `${slot.toUpperCase()} (${t(slot === localSlot ? 'slot.you' : 'slot.opponent')})`;
+    if (names) return names[slot].toUpperCase();
+    if (slot === 'p1') return t(gameMode === 'PVE' ? 'slot.you' : 'slot.player1');
+    return t(gameMode === 'PVE' ? 'slot.ai' : 'slot.player2');
 };
 
-// Level 3: Super Strong (Local - Minimax Shallow)
-const getSuperStrongMove = (board: BoardState, aiPlayer: CellValue) => {
-    const moves = getEmptyNeighbors(board, 1);
-    const candidates = [];
-    
-    for (const move of moves) {
-        const tempBoard = board.map(row => [...row]);
-        tempBoard[move.r][move.c] = aiPlayer;
-        const exploded = checkLongLines(tempBoard, move.r, move.c, aiPlayer);
-        if (exploded) {
-            candidates.push({ move, score: -10000 * exploded.length });
-        } else {
-            candidates.push({ move, score: 0 });
-        }
+// The result screen's headline and the reason under it. The engine reports
+// the reason as a code; the wording, with the loser's name, is chosen here.
+const describeResult = (t: Translate, result: GameResult, rules: RuleSet, slotLabel: (slot: PlayerSlot) => string) => {
+    if (result.reason === 'AGREED_DRAW') return { winner: t('result.draw'), reason: t('result.agreedDraw') };
+    if (!result.winner) return { winner: t('result.draw'), reason: t('result.equalStones') };
+    const winner = slotLabel(result.winner);
+    const loser = slotLabel(otherSlot(result.winner));
+    switch (result.reason) {
+        case 'KNOCKOUT':
+            return { winner, reason: t('result.knockout', { margin: rules.knockoutMargin, score: rules.knockoutScore }) };
+        case 'HIGHER_SCORE':
+            return { winner, reason: t('result.higherScore') };
+        case 'TIMEOUT':
+            return { winner, reason: t('result.timeout', { loser }) };
+        case 'ABANDONED':
+            return { winner, reason: t('result.abandoned', { loser }) };
+        case 'RESIGNATION':
+            return { winner, reason: t('result.resignation', { loser }) };
+        default:
+            return { winner, reason: t('result.stoneTiebreak', { loser, count: result.stoneDiff ?? 0 }) };
     }
+};
 
-    // const opponent = aiPlayer === PLAYER_BLACK ? PLAYER_WHITE : PLAYER_BLACK;
-    
-    for (let i = 0; i < candidates.length; i++) {
-        if (candidates[i].score < -5000) continue; 
-
-        const { r, c } = candidates[i].move;
-        const tempBoard = board.map(row => [...row]);
-        tempBoard[r][c] = aiPlayer;
-
-        let moveScore = 0;
-        
-        const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
-        for (const [dx, dy] of directions) {
-            let lineCount = 1;
-            if (r+dx < 15 && r+dx >= 0 && tempBoard[r+dx][c+dy] === aiPlayer) lineCount++;
-            if (r-dx < 15 && r-dx >= 0 && tempBoard[r-dx][c-dy] === aiPlayer) lineCount++;
-            
-            if (lineCount === 3) moveScore -= 50; 
-            if (lineCount === 4) moveScore -= 200; 
-            if (lineCount === 2) moveScore += 10; 
-        }
-
-        let liberties = 0;
-        for(let dr=-1; dr<=1; dr++){
-            for(let dc=-1; dc<=1; dc++){
-                if(dr===0 && dc===0) continue;
-                if (r+dr>=0 && r+dr<15 && c+dc>=0 && c+dc<15 && tempBoard[r+dr][c+dc] === EMPTY) {
-                    liberties++;
-                }
+const colorName = (color: CellValue) => color === PLAYER_BLACK ? 'VOID' : 'LIGHT';
+
+// What the board's live region reads out after a move or a result.
+const announceEvents = (t: Translate, events: GameEvent[], rules: RuleSet, slotLabel: (slot: PlayerSlot) => string) =>
+    events.map(event => {
+        switch (event.type) {
+            case 'STONE_PLACED':
+                return t('a11y.placed', { color: colorName(event.color), cell: formatCell(event) });
+            case 'STONES_EXPLODED':
+                return t('a11y.exploded', { count: event.stones.length });
+            case 'POINTS_AWARDED':
+                return t('a11y.points', { slot: slotLabel(event.to), count: event.points });
+            case 'SIDES_SWAPPED':
+                return t('a11y.swapped', { slot: slotLabel('p1'), color: colorName(event.p1Color) });
+            case 'GAME_OVER': {
+                const { winner, reason } = describeResult(t, event.result, rules, slotLabel);
+                return event.result.winner ? t('a11y.won', { winner, reason }) : t('a11y.drawn', { reason });
             }
         }
-        moveScore += liberties * 5; 
-        candidates[i].score += moveScore + Math.random() * 2;
-    }
-    candidates.sort((a, b) => b.score - a.score);
-    return candidates[0]?.move || { r: 7, c: 7 };
-};
-
-const getGameResult = (
-    currentScores: { p1: number, p2: number }, 
-    finalBoard: BoardState, 
-    currentHumanColor: CellValue, 
-    gameMode: GameMode
-) => {
-    const sP1 = currentScores.p1;
-    const sP2 = currentScores.p2;
-    const p1Name = gameMode === 'PVE' ? "BẠN" : "NGƯỜI CHƠI 1";
-    const p2Name = gameMode === 'PVE' ? "MÁY" : "NGƯỜI CHƠI 2";
-    
-    if (sP1 > sP2) return { winner: p1Name, reason: "Điểm cao hơn" };
-    if (sP2 > sP1) return { winner: p2Name, reason: "Điểm cao hơn" };
-
-    const { black, white } = countStones(finalBoard);
-    const p1Stones = currentHumanColor === PLAYER_BLACK ? black : white;
-    const p2Stones = currentHumanColor === PLAYER_BLACK ? white : black;
-
-    if (p1Stones > p2Stones) {
-        const diff = p1Stones - p2Stones;
-        return { winner: p2Name, reason: `Hòa điểm, nhưng ${p1Name} còn nhiều hơn ${diff} quân (bị trừ điểm)` };
-    }
-    if (p2Stones > p1Stones) {
-        const diff = p2Stones - p1Stones;
-        return { winner: p1Name, reason: `Hòa điểm, nhưng ${p2Name} còn nhiều hơn ${diff} quân (bị trừ điểm)` };
-    }
-
-    return { winner: "HÒA", reason: "Hòa điểm và bằng số quân" };
-};
+    }).join(' ');
 
 const App = () => {
-  const [board, setBoard] = useState<BoardState>(Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(EMPTY)));
-  const [scores, setScores] = useState({ p1: 0, p2: 0 });
-  const [currentPlayer, setCurrentPlayer] = useState<CellValue>(PLAYER_BLACK);
-  const [humanColor, setHumanColor] = useState<CellValue>(PLAYER_BLACK);
-  const [turnCount, setTurnCount] = useState(0); 
-  const [isGameOver, setIsGameOver] = useState(false);
-  const [finalResult, setFinalResult] = useState<{ winner: string, reason: string } | null>(null);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const t = translator(locale);
+  const [history, setHistory] = useState<GameHistory>(() => createHistory(gameFromPosition(DEFAULT_RULES, null)));
+  // Ply being browsed in the move list, null = following the live position.
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  // Which side this screen plays. Always P1 offline; the ONLINE guest is P2.
+  const [localSlot, setLocalSlot] = useState<PlayerSlot>('p1');
   const [gameMode, setGameMode] = useState<GameMode>('PVE');
   const [difficulty, setDifficulty] = useState<Difficulty>('EASY');
+  // Rules for the NEXT game; the running game keeps its own copy in game.rules.
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULES);
+  // Same for the time controls; the running game's are in clock.controls.
+  const [timeControls, setTimeControls] = useState<Record<PlayerSlot, TimeControl>>({ p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL });
+  const [clock, setClock] = useState<ClockState>(() => createClock({ p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL }));
+  // Re-render tick for the running clock.
+  const [now, setNow] = useState(() => Date.now());
   const [isAiThinking, setIsAiThinking] = useState(false);
-  const [lastMove, setLastMove] = useState<{r: number, c: number} | null>(null);
   const [showSwapAlert, setShowSwapAlert] = useState(false);
   const [removedStones, setRemovedStones] = useState<{r:number, c:number}[]>([]);
   const [hoveredCell, setHoveredCell] = useState<{r: number, c: number} | null>(null);
+  // The keyboard cursor: the board cell that takes focus, moved with the arrow keys.
+  const [cursor, setCursor] = useState<Cell>({ r: Math.floor(DEFAULT_RULES.boardSize / 2), c: Math.floor(DEFAULT_RULES.boardSize / 2) });
+  // The events of the last move (or a result reached off the board), for the live region.
+  const [announced, setAnnounced] = useState<GameEvent[]>([]);
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+  // The replay viewer over the game on the board, stepping viewPly; null = closed.
+  const [replay, setReplay] = useState<{ playing: boolean, delayMs: number } | null>(null);
+  // Who played the game opened from a replay link.
+  const [sharedPlayers, setSharedPlayers] = useState<Record<PlayerSlot, string> | null>(null);
+  const [hint, setHint] = useState<Cell | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const [analysis, setAnalysis] = useState<PlyAnalysis[] | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // AI vs AI: the level playing each slot, the pace, and whether the game is running.
+  const [watchPlayers, setWatchPlayers] = useState<Record<PlayerSlot, Difficulty>>({ p1: 'MEDIUM', p2: 'SUPER_STRONG' });
+  const [watchDelayMs, setWatchDelayMs] = useState(600);
+  const [isWatching, setIsWatching] = useState(false);
 
   // --- Online Mode States ---
-  const [peer, setPeer] = useState<Peer | null>(null);
-  const [conn, setConn] = useState<DataConnection | null>(null);
-  const [myPeerId, setMyPeerId] = useState<string>('');
-  const [connectToId, setConnectToId] = useState<string>('');
-  const [onlineStatus, setOnlineStatus] = useState<'IDLE' | 'WAITING' | 'CONNECTED'>('IDLE');
-  const [onlinePlayerColor, setOnlinePlayerColor] = useState<CellValue>(PLAYER_BLACK); // My color in Online mode
-
-  const movesUntilNextSwap = 30 - (turnCount % 30);
-
-  // Refs for resolving stale closures in PeerJS callbacks
-  const boardRef = useRef(board);
-  const scoresRef = useRef(scores);
-  const currentPlayerRef = useRef(currentPlayer);
-  const humanColorRef = useRef(humanColor);
-  const turnCountRef = useRef(turnCount);
+  const [conn, setConn] = useState<Connection | null>(null);
+  // Stable room id: the host's PeerJS id and the ?join= value.
+  const [roomId, setRoomId] = useState<string>('');
+  const [onlineStatus, setOnlineStatus] = useState<'IDLE' | 'WAITING' | 'CONNECTED' | 'RECONNECTING'>('IDLE');
+  // When the opponent's reconnect grace period ends, while RECONNECTING.
+  const [graceDeadline, setGraceDeadline] = useState<number | null>(null);
+  // Last protocol problem (rejected message, resync), shown in the online panel.
+  const [netNotice, setNetNotice] = useState<Text | null>(null);
+  const [netRole, setNetRole] = useState<NetRole | null>(null);
+  const [chat, setChat] = useState<ChatLine[]>([]);
+  const [offers, setOffers] = useState<Offers>(NO_OFFERS);
+  // Emote shown over a player's scoreboard card for a moment.
+  const [emoteBubble, setEmoteBubble] = useState<{ slot: PlayerSlot, emote: string } | null>(null);
+  // Online: who plays which slot. The host builds it from the guest's JOIN and
+  // publishes it as ROOM_INFO; the guest starts from the host's HELLO.
+  const [players, setPlayers] = useState<Record<PlayerSlot, PlayerInfo> | null>(null);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus>('CONNECTING');
+  const [lobbyRooms, setLobbyRooms] = useState<LobbyRoom[]>([]);
+  const [profiles, setProfiles] = useState<ProfileStore>(() => loadProfiles(t('profile.defaultName')));
+  // PVP: the profile playing P2 at this screen, or null for an unrated second player.
+  const [p2ProfileId, setP2ProfileId] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [saves, setSaves] = useState<SavedGame[]>(loadSaves);
+  // Offered on load when there are games to resume, unless the URL opens an online room.
+  const [showSaves, setShowSaves] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    return saves.length > 0 && !params.get('join') && !params.get('watch') && !fragment.has('replay');
+  });
+  // The autosave slot the game on the board has written to.
+  const [activeSaveSlot, setActiveSaveSlot] = useState<number | null>(null);
+  // Host: how the room is listed in the lobby, kept to list it again when the guest abandons.
+  const [listing, setListing] = useState<{ password: string | null } | null>(null);
+  // The puzzle on the board; its pack is null for an editor draft, which keeps no progress.
+  const [activePuzzle, setActivePuzzle] = useState<{ pack: PuzzlePack | null, puzzle: Puzzle } | null>(null);
+  const [puzzlePacks, setPuzzlePacks] = useState<PuzzlePack[]>(loadPacks);
+  const [puzzleProgress, setPuzzleProgress] = useState(loadProgress);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [editingPuzzle, setEditingPuzzle] = useState<Puzzle | null>(null);
+  // The position new games start from, null = the empty board.
+  const [setup, setSetup] = useState<Position | null>(null);
+  // The position being set up on the board while the position editor is open.
+  const [setupDraft, setSetupDraft] = useState<Position | null>(null);
+  const [setupBrush, setSetupBrush] = useState<CellValue>(PLAYER_BLACK);
+  const [tournament, setTournament] = useState<Tournament | null>(loadTournament);
+  const [showTournament, setShowTournament] = useState(false);
+  // The tournament game on the board: where it is in the tournament and who plays which slot.
+  const [tournamentGame, setTournamentGame] = useState<TournamentGame | null>(null);
+  const transportRef = useRef<Transport | null>(null);
+  const connRef = useRef<Connection | null>(null);
+  const sessionRef = useRef<NetSession | null>(null);
+  const handshakeRef = useRef(false);
+  const roomIdRef = useRef<string | null>(null);
+  const netRoleRef = useRef<NetRole | null>(null);
+  // Host: the seated guest's token. Guest: its own.
+  const guestTokenRef = useRef<string | null>(null);
+  // Guest: had a seat in this room, so a drop is worth reconnecting for.
+  const seatedRef = useRef(false);
+  // Whose clock was running when the link dropped.
+  const pausedClockSlotRef = useRef<PlayerSlot | null>(null);
+  const graceTimerRef = useRef<number | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const offersRef = useRef<Offers>(NO_OFFERS);
+  // Host: read-only connections watching the game, each with its own sequence numbers.
+  const spectatorsRef = useRef(new Map<Connection, NetSession>());
+  const emoteTimerRef = useRef<number | null>(null);
+  const lobbyRef = useRef<LobbyClient | null>(null);
+  const listingRef = useRef<{ password: string | null } | null>(null);
+  const profilesRef = useRef(profiles);
+  const playersRef = useRef<Record<PlayerSlot, PlayerInfo> | null>(null);
+  // Host: the profile the guest sent with JOIN.
+  const guestPlayerRef = useRef<PlayerInfo>(UNKNOWN_PLAYER);
+  // Whether the game on the board is one played here, to be recorded when it ends
+  // (not an imported or restored one).
+  const recordableRef = useRef(true);
+  // Where the game on the board autosaves; picked at its first save.
+  const saveSlotRef = useRef<number | null>(null);
+  const puzzleRef = useRef<{ pack: PuzzlePack | null, puzzle: Puzzle } | null>(null);
+  // Whether the attempt on the board still has to be counted in the progress.
+  const puzzleAttemptRef = useRef(false);
+  const tournamentGameRef = useRef<TournamentGame | null>(null);
+
+  const game = currentState(history);
+  const isViewingPast = viewPly !== null && viewPly !== history.cursor;
+  const shownPly = isViewingPast ? viewPly : history.cursor;
+  const shown = stateAt(history, shownPly);
+  const lastMove = shownPly > 0 && !setupDraft ? history.plies[shownPly - 1].move : null;
+
+  const { scores, currentPlayer, turnCount } = shown;
+  // The editor paints on the main board.
+  const board = setupDraft?.board ?? shown.board;
+  // While browsing an analysed ply, mark the move the analysis preferred instead.
+  const reviewed = analysis && shownPly > 0 ? analysis[shownPly - 1] : undefined;
+  const hintCell = setupDraft ? null : reviewed && reviewed.verdict !== 'BEST' ? reviewed.bestMove : hint;
+  // The threat overlay follows the position on the board, including a past one being browsed.
+  const threats = preferences.showThreats && !setupDraft && !shown.result ? findThreats(shown) : [];
+  const isGameOver = game.result !== null;
+  const isSpectating = gameMode === 'ONLINE' && netRole === 'spectator';
+  const profile = activeProfile(profiles);
+  const p2Profile = p2ProfileId !== profile.id ? findProfile(profiles, p2ProfileId) : null;
+  // Who sits on each side, for the names and avatars. Null where there is no person (the AI).
+  const seatPlayers: Record<PlayerSlot, PlayerInfo | null> = tournamentGame
+    ? { p1: entrantPlayer(tournamentGame.entrants.p1, profiles), p2: entrantPlayer(tournamentGame.entrants.p2, profiles) }
+    : gameMode === 'ONLINE'
+    ? { p1: players?.p1 ?? null, p2: players?.p2 ?? null }
+    : gameMode === 'PVE' ? { [localSlot]: profile, [otherSlot(localSlot)]: null } as Record<PlayerSlot, PlayerInfo | null>
+    : gameMode === 'PVP' ? { p1: profile, p2: p2Profile ?? { ...UNKNOWN_PLAYER, name: t('player.second') } }
+    : { p1: null, p2: null };
+  // An online player who gave no name is shown as anonymous.
+  const displayName = (name: string) => name || t('player.anonymous');
+  const names = tournamentGame
+    ? { p1: tournamentGame.entrants.p1.name, p2: tournamentGame.entrants.p2.name }
+    : gameMode === 'ONLINE'
+    ? players && { p1: displayName(players.p1.name), p2: displayName(players.p2.name) }
+    : gameMode === 'PVE' ? { [localSlot]: profile.name, [otherSlot(localSlot)]: t('player.ai') } as Record<PlayerSlot, string>
+    : gameMode === 'PVP' ? { p1: profile.name, p2: seatPlayers.p2!.name }
+    : null;
+  const slotLabel = (slot: PlayerSlot) => slotName(t, slot, gameMode, localSlot, names ?? undefined);
+  const finalResult = game.result ? describeResult(t, game.result, game.rules, slotLabel) : null;
+  const difficultyLabels = Object.fromEntries(DIFFICULTIES.map(level => [level, t(DIFFICULTY_LABELS[level])])) as Record<Difficulty, string>;
+  // The board may have shrunk under the cursor since it was last moved.
+  const boardCursor = inBounds(board, cursor.r, cursor.c) ? cursor : { r: Math.floor(board.length / 2), c: Math.floor(board.length / 2) };
+  const packLabel = (pack: PuzzlePack) => pack.name === MY_PACK_NAME ? t('puzzle.myPack') : pack.name;
+  const watchLink = `${window.location.origin}${pageUrl('watch', roomId)}`;
+  const humanColor = colorOfSlot(shown, localSlot);
+  const p1Color = shown.p1Color;
+  const movesUntilNextSwap = movesUntilSwap(shown);
+  const clockSides = readClock(clock, now);
+  const puzzleStatus = activePuzzle ? evaluatePuzzle(activePuzzle.puzzle, history) : null;
+  const allPacks = [...BUILT_IN_PACKS, ...puzzlePacks];
+
+  // Refs for resolving stale closures in PeerJS callbacks and AI timers.
+  // historyRef is also written synchronously by commitMove so back-to-back moves never read a stale board.
+  const historyRef = useRef(history);
+  const localeRef = useRef(locale);
   const gameModeRef = useRef(gameMode);
-  
+  const rulesRef = useRef(rules);
+  const timeControlsRef = useRef(timeControls);
+  const clockRef = useRef(clock);
+  const localSlotRef = useRef(localSlot);
+  const setupRef = useRef(setup);
+  const difficultyRef = useRef(difficulty);
+  const watchPlayersRef = useRef(watchPlayers);
+  const watchDelayRef = useRef(watchDelayMs);
+  const isWatchingRef = useRef(false);
+  // The AI runs in a worker; the pacing timer is tracked so "Chơi Lại" or a
+  // mode switch can cancel both before a stale move lands on the new game.
+  const aiClientRef = useRef<AiClient | null>(null);
+  const aiTimerRef = useRef<number | null>(null);
+  // Hints and post-game analysis get their own worker so they never cancel the opponent AI.
+  const helperClientRef = useRef<AiClient | null>(null);
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  // Synthesized sounds; no audio context is opened until the first one plays.
+  const soundRef = useRef<SoundPlayer | null>(null);
+  soundRef.current ??= createSoundPlayer(preferences);
+
   // Keep refs synced
-  useEffect(() => { boardRef.current = board; }, [board]);
-  useEffect(() => { scoresRef.current = scores; }, [scores]);
-  useEffect(() => { currentPlayerRef.current = currentPlayer; }, [currentPlayer]);
-  useEffect(() => { humanColorRef.current = humanColor; }, [humanColor]);
-  useEffect(() => { turnCountRef.current = turnCount; }, [turnCount]);
+  useEffect(() => {
+    localeRef.current = locale;
+    document.documentElement.lang = locale;
+    saveLocale(locale);
+  }, [locale]);
+  useEffect(() => { historyRef.current = history; }, [history]);
   useEffect(() => { gameModeRef.current = gameMode; }, [gameMode]);
+  useEffect(() => { rulesRef.current = rules; }, [rules]);
+  useEffect(() => { timeControlsRef.current = timeControls; }, [timeControls]);
+  useEffect(() => { localSlotRef.current = localSlot; }, [localSlot]);
+  useEffect(() => { difficultyRef.current = difficulty; }, [difficulty]);
+  useEffect(() => { watchPlayersRef.current = watchPlayers; }, [watchPlayers]);
+  useEffect(() => { watchDelayRef.current = watchDelayMs; }, [watchDelayMs]);
+  useEffect(() => () => {
+    aiClientRef.current?.dispose();
+    helperClientRef.current?.dispose();
+    soundRef.current?.dispose();
+  }, []);
+
+  const playSound = (cue: SoundCue, stones?: number) => soundRef.current?.play(cue, stones);
 
-  const playSound = (type: 'click' | 'clear') => {};
+  // Whether a side's clock is watched from this screen, so its low-time ticks are worth hearing.
+  const isClockHere = (slot: PlayerSlot) => {
+    const mode = gameModeRef.current;
+    return mode === 'PVP' || (mode !== 'AIVAI' && slot === localSlotRef.current);
+  };
+
+  // Replay playback: one ply per tick until the last move, then pause.
+  useEffect(() => {
+    if (!replay?.playing) return;
+    if (shownPly >= history.cursor) {
+      setReplay({ ...replay, playing: false });
+      return;
+    }
+    const timer = window.setTimeout(() => stepReplay(1), replay.delayMs);
+    return () => clearTimeout(timer);
+  }, [replay, shownPly, history]);
 
+  // Focus follows the keyboard cursor while it is on the board.
   useEffect(() => {
-    // Check for auto-join URL param
+    const grid = gridRef.current;
+    if (!grid || !grid.contains(document.activeElement)) return;
+    grid.querySelector<HTMLElement>(`[data-cell="${cursor.r}-${cursor.c}"]`)?.focus();
+  }, [cursor]);
+
+  // The host publishes its state hash so a silently diverged guest resyncs.
+  useEffect(() => {
+    if (gameMode !== 'ONLINE' || onlineStatus !== 'CONNECTED' || netRole !== 'host') return;
+    const timer = window.setInterval(() => {
+      const current = historyRef.current;
+      broadcast({ type: 'STATE_HASH', ply: current.cursor, hash: hashState(currentState(current)) });
+    }, STATE_HASH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [gameMode, onlineStatus, netRole]);
+
+  // Ticks the running clock. Online only the host rules on a flag fall and tells the guest.
+  useEffect(() => {
+    if (!clock.running) return;
+    let lastTick: number | null = null; // the second last ticked for a low clock
+    const timer = window.setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      const { running, controls } = clockRef.current;
+      const side = running && readClock(clockRef.current, time)[running];
+      if (running && side && side.remainingMs > 0 && isLowOnTime(side, controls[running]) && isClockHere(running)) {
+        const second = Math.ceil(side.remainingMs / 1000);
+        if (second !== lastTick) playSound('lowTime');
+        lastTick = second;
+      }
+      const flagged = flaggedSlot(clockRef.current, time);
+      if (!flagged) return;
+      if (gameModeRef.current !== 'ONLINE') {
+        flagTimeout(flagged);
+      } else if (netRoleRef.current === 'host') {
+        flagTimeout(flagged);
+        broadcast({ type: 'FLAG', slot: flagged });
+      }
+    }, 100);
+    return () => clearInterval(timer);
+  }, [clock.running, clock.since]);
+
+  useEffect(() => {
+    // Check for auto-join URL param; a host tab that reloads on its own link resumes the room.
+    // A replay link (#replay=...) opens its game in the replay viewer.
     const params = new URLSearchParams(window.location.search);
     const joinId = params.get('join');
-
-    if (joinId && !peer) {
-        setConnectToId(joinId);
-        setGameMode('ONLINE');
-        setOnlineStatus('WAITING');
-        
-        const newPeer = new Peer();
-        setPeer(newPeer);
-        
-        newPeer.on('open', (id) => {
-            setMyPeerId(id);
-            // Auto connect to host
-            const connection = newPeer.connect(joinId);
-            setConn(connection);
-            setOnlinePlayerColor(PLAYER_WHITE); // Guest is White/P2
-            setHumanColor(PLAYER_WHITE); 
-            setupConnectionHandlers(connection);
-        });
+    const watchId = params.get('watch');
+    if (window.location.hash) openSharedGame(window.location.hash.slice(1));
+    if (watchId) {
+      joinRoom(watchId, 'spectator');
+    } else if (joinId) {
+      const saved = loadSession(joinId);
+      if (saved?.role === 'host') resumeHostedRoom(saved);
+      else joinRoom(joinId);
     }
-
     return () => {
-      if (peer) peer.destroy();
+      endGrace();
+      closeTransport();
     };
   }, []);
 
-  const resetGame = () => {
-    setBoard(Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(EMPTY)));
-    setCurrentPlayer(PLAYER_BLACK);
-    setHumanColor(PLAYER_BLACK);
-    setTurnCount(0);
-    setScores({ p1: 0, p2: 0 });
-    setIsGameOver(false);
-    setFinalResult(null);
-    setLastMove(null);
+  // Keeps the online session in localStorage so a reload can resume it.
+  useEffect(() => {
+    const id = roomIdRef.current;
+    const role = netRoleRef.current;
+    if (gameMode !== 'ONLINE' || !id || !role || role === 'spectator') return;
+    if (role === 'guest' && !seatedRef.current) return; // nothing to come back to yet
+    saveSession({
+      roomId: id,
+      role,
+      localSlot: localSlotRef.current,
+      guestToken: guestTokenRef.current,
+      rules: game.rules,
+      timeControls: clock.controls,
+      start: isSetUp(history.initial) ? positionOf(history.initial) : null,
+      moves: playedPlies(history).map(ply => ply.move),
+      result: game.result,
+      clock: snapshotClock(clock, Date.now()),
+      savedAt: Date.now(),
+    });
+  }, [history, clock, gameMode, onlineStatus, localSlot]);
+
+  // The lobby is connected for as long as the ONLINE panel is open.
+  useEffect(() => {
+    if (gameMode !== 'ONLINE') return;
+    const lobby = createLobbyClient(LOBBY_URL);
+    lobbyRef.current = lobby;
+    lobby.onRooms(setLobbyRooms);
+    lobby.onStatus(setLobbyStatus);
+    return () => {
+      lobbyRef.current = null;
+      lobby.dispose();
+      setLobbyRooms([]);
+    };
+  }, [gameMode]);
+
+  useEffect(() => {
+    profilesRef.current = profiles;
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => { savePacks(puzzlePacks); }, [puzzlePacks]);
+  useEffect(() => { saveProgress(puzzleProgress); }, [puzzleProgress]);
+  useEffect(() => {
+    savePreferences(preferences);
+    soundRef.current?.configure(preferences);
+  }, [preferences]);
+
+  // Counts an attempt at a pack's puzzle once it is solved or failed.
+  useEffect(() => {
+    const current = puzzleRef.current;
+    if (!current?.pack || !puzzleStatus || puzzleStatus === 'SOLVING' || !puzzleAttemptRef.current) return;
+    puzzleAttemptRef.current = false;
+    setPuzzleProgress(progress => recordAttempt(progress, puzzleKey(current.pack!, current.puzzle), puzzleStatus === 'SOLVED'));
+  }, [puzzleStatus]);
+
+  // Autosaves local games after every move (online games have their session instead,
+  // puzzles just start over). A finished game no longer needs resuming, so its save goes.
+  useEffect(() => {
+    if (gameMode === 'ONLINE' || puzzleRef.current || tournamentGameRef.current) return;
+    const slot = saveSlotRef.current;
+    if (game.result) {
+      if (slot !== null) deleteSave(slot);
+      setActiveSaveSlot(null);
+      return;
+    }
+    if (history.plies.length === 0) return;
+    const target = slot ?? (saveSlotRef.current = pickSlot(loadSaves()));
+    saveGame(createSave({
+      slot: target,
+      savedAt: Date.now(),
+      mode: gameMode,
+      difficulty,
+      watchPlayers,
+      p2ProfileId,
+      humanColor: colorOfSlot(game, 'p1'),
+      rules: game.rules,
+      timeControls: clockRef.current.controls,
+      clock: snapshotClock(clockRef.current, Date.now()),
+    }, history));
+    setActiveSaveSlot(target);
+  }, [history]);
+
+  useEffect(() => { saveTournament(tournament); }, [tournament]);
+
+  // Files a finished tournament game in its tournament, once.
+  useEffect(() => {
+    const result = game.result;
+    const match = tournamentGameRef.current;
+    if (!result || !match) return;
+    setTournament(current => !current || current.createdAt !== match.createdAt || current.rounds[match.round][match.index].result
+      ? current
+      : recordResult(current, match.round, match.index, { winner: result.winner, scores: game.scores }));
+  }, [game.result]);
+
+  // Files every game played here under its profiles once it ends.
+  useEffect(() => {
+    const result = game.result;
+    if (!result || !recordableRef.current) return;
+    recordableRef.current = false;
+    const seats = gameSeats();
+    if (!seats) return;
+    setProfiles(store => recordGame(store, {
+      mode: gameMode,
+      result,
+      scores: game.scores,
+      plies: history.cursor,
+      seats,
+      playedAt: Date.now(),
+    }));
+  }, [game.result]);
+
+  // Countdown for the reconnect grace period.
+  useEffect(() => {
+    if (graceDeadline === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [graceDeadline]);
+
+  const cancelAi = () => {
+    if (aiTimerRef.current !== null) {
+      clearTimeout(aiTimerRef.current);
+      aiTimerRef.current = null;
+    }
+    aiClientRef.current?.cancel();
     setIsAiThinking(false);
+  };
+
+  const cancelHelpers = () => {
+    helperClientRef.current?.cancel();
+    setHint(null);
+    setIsHintLoading(false);
+    setIsAnalyzing(false);
+  };
+
+  const updateClock = (next: ClockState) => {
+    clockRef.current = next;
+    setClock(next);
+  };
+
+  const resetGame = () => {
+    cancelAi();
+    cancelHelpers();
+    stopWatching();
+    updateClock(createClock(timeControlsRef.current));
+    setAnalysis(null);
+    const fresh = createHistory(gameFromPosition(rulesRef.current, setupRef.current));
+    historyRef.current = fresh;
+    recordableRef.current = true;
+    saveSlotRef.current = null;
+    setActiveSaveSlot(null);
+    updateTournamentGame(null);
+    if (puzzleRef.current) {
+      // Back to a normal game, with the human on P1 again.
+      puzzleRef.current = null;
+      setActivePuzzle(null);
+      localSlotRef.current = 'p1';
+      setLocalSlot('p1');
+    }
+    setHistory(fresh);
+    setViewPly(null);
     setShowSwapAlert(false);
     setRemovedStones([]);
     setHoveredCell(null);
+    setAnnounced([]);
+    setReplay(null);
+    setSharedPlayers(null);
+    updateOffers(NO_OFFERS);
   };
 
-  const initOnlineGame = (isHost: boolean) => {
-    const newPeer = new Peer();
-    setPeer(newPeer);
-    setOnlineStatus('WAITING');
+  // Online a new game needs the opponent's consent: it is offered as a rematch.
+  const newGame = () => {
+    if (gameModeRef.current === 'ONLINE' && handshakeRef.current) {
+      makeOffer('REMATCH');
+      return;
+    }
+    resetGame();
+  };
+
+  const changeSetup = (next: Position | null) => {
+    setupRef.current = next;
+    setSetup(next);
+  };
+
+  const changeRules = (nextRules: RuleSet) => {
+    rulesRef.current = nextRules;
+    setRules(nextRules);
     resetGame();
+  };
+
+  const changeTimeControls = (next: Record<PlayerSlot, TimeControl>) => {
+    timeControlsRef.current = next;
+    setTimeControls(next);
+    resetGame();
+  };
+
+  const closeTransport = () => {
+    const transport = transportRef.current;
+    const connection = connRef.current;
+    // Clear the refs first so the close events below are ignored.
+    transportRef.current = null;
+    connRef.current = null;
+    sessionRef.current = null;
+    handshakeRef.current = false;
+    setConn(null);
+    connection?.close();
+    spectatorsRef.current.forEach((_, spectator) => spectator.close());
+    spectatorsRef.current.clear();
+    setSpectatorCount(0);
+    transport?.close();
+  };
+
+  // Leaves the room for good (switching mode): no reconnect, no saved session.
+  const leaveOnline = () => {
+    endGrace();
+    closeTransport();
+    if (roomIdRef.current && listingRef.current) lobbyRef.current?.closeRoom(roomIdRef.current);
+    updateListing(null);
+    if (roomIdRef.current) clearSession(roomIdRef.current);
+    // The start position came from the host.
+    if (netRoleRef.current === 'guest' || netRoleRef.current === 'spectator') changeSetup(null);
+    roomIdRef.current = null;
+    netRoleRef.current = null;
+    guestTokenRef.current = null;
+    seatedRef.current = false;
+    pausedClockSlotRef.current = null;
+    setRoomId('');
+    setNetRole(null);
+    updatePlayers(null);
+    setOnlineStatus('IDLE');
+    setNetNotice(null);
+    setChat([]);
+    updateOffers(NO_OFFERS);
+    window.history.replaceState(null, '', pageUrl());
+  };
+
+  // Opens (or reopens) the room under its stable id. The URL becomes the
+  // ?join= link, so reloading the host tab finds its saved session again.
+  const hostRoom = (id: string, attempt = 0) => {
+    const transport = createTransport(TRANSPORT_CONFIG);
+    transportRef.current = transport;
+    roomIdRef.current = id;
+    netRoleRef.current = 'host';
+    gameModeRef.current = 'ONLINE';
+    setRoomId(id);
+    setNetRole('host');
     setGameMode('ONLINE');
+    window.history.replaceState(null, '', pageUrl('join', id));
+
+    transport.onError((err) => {
+      if (transportRef.current !== transport) return;
+      // A reloaded host tab can beat the server to releasing the old id.
+      if (err.kind === 'ROOM_TAKEN' && attempt < HOST_RETRY_LIMIT) {
+        transportRef.current = null;
+        transport.close();
+        window.setTimeout(() => { if (roomIdRef.current === id && !transportRef.current) hostRoom(id, attempt + 1); }, RECONNECT_RETRY_MS);
+        return;
+      }
+      console.error(err);
+      setNetNotice(text('net.error', { detail: err.message }));
+    });
+    transport.listen(id, (connection) => {
+      // CONNECTED once this guest has sent JOIN and acknowledged the handshake.
+      if (transportRef.current === transport) setupConnectionHandlers(connection, true);
+    });
+  };
+
+  // A new room, listed in the lobby (behind `password` when given).
+  const createRoom = (password: string | null = null) => {
+    localSlotRef.current = 'p1'; // Host is Player 1 (starts as Black/Void)
+    setLocalSlot('p1');
+    resetGame();
+    guestTokenRef.current = null;
+    setNetNotice(null);
+    setChat([]);
+    setOnlineStatus('WAITING');
+    hostRoom(createRoomId());
+    updateListing({ password });
+    publishListing();
+  };
+
+  const updateListing = (next: { password: string | null } | null) => {
+    listingRef.current = next;
+    setListing(next);
+  };
+
+  // What this screen tells the other side about its profile.
+  const localPlayer = (): PlayerInfo => {
+    const { name, color, rating } = activeProfile(profilesRef.current);
+    return { name: name.trim() || UNKNOWN_PLAYER.name, color, rating };
+  };
+
+  const updatePlayers = (next: Record<PlayerSlot, PlayerInfo> | null) => {
+    playersRef.current = next;
+    setPlayers(next);
+  };
+
+  // The seats of the game on the board, for recording it. Spectators record nothing.
+  const gameSeats = (): Record<PlayerSlot, Seat> | null => {
+    const local: Seat = { kind: 'PROFILE', profileId: activeProfile(profilesRef.current).id };
+    const match = tournamentGameRef.current;
+    if (match) return { p1: entrantSeat(match.entrants.p1, profilesRef.current), p2: entrantSeat(match.entrants.p2, profilesRef.current) };
+    switch (gameModeRef.current) {
+      case 'PVE':
+        return { p1: local, p2: { kind: 'AI', difficulty: difficultyRef.current } };
+      case 'PVP': {
+        const second = findProfile(profilesRef.current, p2ProfileId);
+        return { p1: local, p2: second && second.id !== local.profileId ? { kind: 'PROFILE', profileId: second.id } : { kind: 'HUMAN', name: translator(localeRef.current)('player.second'), rating: null } };
+      }
+      case 'AIVAI':
+        return { p1: { kind: 'AI', difficulty: watchPlayersRef.current.p1 }, p2: { kind: 'AI', difficulty: watchPlayersRef.current.p2 } };
+      default: {
+        if (netRoleRef.current === 'spectator') return null;
+        const slot = localSlotRef.current;
+        const opponent = playersRef.current?.[otherSlot(slot)] ?? UNKNOWN_PLAYER;
+        return { [slot]: local, [otherSlot(slot)]: { kind: 'HUMAN', name: opponent.name, rating: opponent.rating } } as Record<PlayerSlot, Seat>;
+      }
+    }
+  };
+
+  const lobbySettings = (): LobbySettings => ({
+    rules: rulesRef.current,
+    timeControls: timeControlsRef.current,
+    transport: TRANSPORT_CONFIG.kind,
+  });
+
+  // Host: puts the waiting room on the lobby's list.
+  const publishListing = () => {
+    const id = roomIdRef.current;
+    if (!id || !listingRef.current) return;
+    lobbyRef.current?.openRoom(id, localPlayer().name, lobbySettings(), listingRef.current.password);
+  };
+
+  // Only acts on a lobby answer if the player is still in the lobby.
+  const inLobby = () => gameModeRef.current === 'ONLINE' && transportRef.current === null;
+
+  const joinFromLobby = (id: string, password: string | null) => {
+    lobbyRef.current?.join(id, password)
+      .then(room => { if (inLobby()) joinRoom(room); })
+      .catch(err => { if (inLobby()) setNetNotice(lobbyErrorText(err)); });
+  };
+
+  // Joins the oldest open room with our rules and time controls, or opens one for the next seeker.
+  const quickMatch = () => {
+    setNetNotice(null);
+    lobbyRef.current?.quickMatch(lobbySettings())
+      .then(room => {
+        if (!inLobby()) return;
+        if (room) joinRoom(room);
+        else createRoom();
+      })
+      .catch(err => { if (inLobby()) setNetNotice(lobbyErrorText(err)); });
+  };
+
+  // A reloaded host tab: rebuild the game from the saved move log and wait for the guest.
+  const resumeHostedRoom = (saved: StoredSession) => {
+    let restored: GameHistory;
+    try {
+      restored = rebuildHistory(saved.moves, saved.rules, saved.start, saved.result);
+    } catch (err) {
+      console.warn(err);
+      clearSession(saved.roomId);
+      createRoom();
+      return;
+    }
+    cancelAi();
+    cancelHelpers();
+    rulesRef.current = saved.rules;
+    setRules(saved.rules);
+    changeSetup(saved.start);
+    timeControlsRef.current = saved.timeControls;
+    setTimeControls(saved.timeControls);
+    historyRef.current = restored;
+    recordableRef.current = !saved.result;
+    setHistory(restored);
+    setViewPly(null);
+    updateClock(restoreClock(createClock(saved.timeControls), { ...saved.clock, running: null }, Date.now()));
+    pausedClockSlotRef.current = saved.clock.running;
+    guestTokenRef.current = saved.guestToken;
+    localSlotRef.current = saved.localSlot;
+    setLocalSlot(saved.localSlot);
+    updateListing(null); // reached through its link, not the lobby
+    hostRoom(saved.roomId);
+    if (saved.guestToken) {
+      setOnlineStatus('RECONNECTING');
+      startGrace(true);
+    } else {
+      setOnlineStatus('WAITING');
+    }
+  };
+
+  const connectToHost = () => {
+    const transport = transportRef.current;
+    if (!transport || !roomIdRef.current) return;
+    setupConnectionHandlers(transport.connect(roomIdRef.current), false);
+  };
 
-    newPeer.on('open', (id) => {
-      setMyPeerId(id);
-      if (isHost) {
-          // Host is Player 1 (Black/Void)
-          setOnlinePlayerColor(PLAYER_BLACK);
-          setHumanColor(PLAYER_BLACK);
+  // Joins as the guest, or as a spectator who only watches.
+  const joinRoom = (id: string, role: 'guest' | 'spectator' = 'guest') => {
+    if (!id) return;
+    const saved = role === 'guest' ? loadSession(id) : null;
+    const returning = saved?.role === 'guest' && saved.guestToken !== null;
+    guestTokenRef.current = role === 'spectator' ? null : returning ? saved!.guestToken : createToken();
+    seatedRef.current = returning;
+    roomIdRef.current = id;
+    netRoleRef.current = role;
+    gameModeRef.current = 'ONLINE';
+    localSlotRef.current = 'p2'; // Guest is Player 2 (starts as White/Light) until the handshake says otherwise
+    setRoomId(id);
+    setNetRole(role);
+    updatePlayers(null);
+    setGameMode('ONLINE');
+    setLocalSlot('p2');
+    setNetNotice(null);
+    setChat([]);
+    setOnlineStatus('WAITING');
+
+    const transport = createTransport(TRANSPORT_CONFIG);
+    transportRef.current = transport;
+    transport.onError((err) => {
+      if (transportRef.current !== transport) return;
+      if (err.kind === 'ROOM_NOT_FOUND') {
+        // The host is gone for now: keep trying if we had a seat, otherwise the id is wrong.
+        if (seatedRef.current) {
+          if (graceTimerRef.current === null) handleDisconnect(false);
+        } else {
+          setNetNotice(text('net.roomNotFound', { id }));
+          leaveOnline();
+        }
+        return;
       }
+      console.error(err);
+      setNetNotice(text('net.error', { detail: err.message }));
     });
+    transport.onReady(() => {
+      // Also fires again after the transport recovers from an outage.
+      if (transportRef.current === transport && !handshakeRef.current) connectToHost();
+    });
+  };
+
+  // Starts the grace period after a drop; the guest keeps redialling meanwhile.
+  const startGrace = (isHost: boolean) => {
+    if (graceTimerRef.current !== null) return;
+    setGraceDeadline(Date.now() + RECONNECT_GRACE_MS);
+    graceTimerRef.current = window.setTimeout(() => abandonGame(isHost), RECONNECT_GRACE_MS);
+    if (!isHost) reconnectTimerRef.current = window.setInterval(redialHost, RECONNECT_RETRY_MS);
+  };
+
+  const endGrace = () => {
+    if (graceTimerRef.current !== null) clearTimeout(graceTimerRef.current);
+    if (reconnectTimerRef.current !== null) clearInterval(reconnectTimerRef.current);
+    graceTimerRef.current = null;
+    reconnectTimerRef.current = null;
+    setGraceDeadline(null);
+  };
+
+  // While the transport itself is down it recovers on its own, and onReady redials.
+  const redialHost = () => {
+    const transport = transportRef.current;
+    if (transport && !handshakeRef.current && transport.isReady()) connectToHost();
+  };
+
+  const handleDisconnect = (isHost: boolean) => {
+    connRef.current = null;
+    sessionRef.current = null;
+    handshakeRef.current = false;
+    setConn(null);
+    updateOffers(NO_OFFERS);
+    if (!isHost && !seatedRef.current) {
+      // Never got a seat (room full, wrong version) or only watching: nothing to resume.
+      if (netRoleRef.current === 'spectator') setNetNotice(text('net.spectatorLost'));
+      closeTransport();
+      setOnlineStatus('IDLE');
+      return;
+    }
+    // Nobody's time runs while the link is down.
+    const clock = clockRef.current;
+    if (clock.running) {
+      pausedClockSlotRef.current = clock.running;
+      updateClock(stopClock(clock, Date.now()));
+    }
+    setOnlineStatus('RECONNECTING');
+    startGrace(isHost);
+  };
 
-    newPeer.on('connection', (connection) => {
-      // Logic for HOST receiving connection
-      setConn(connection);
-      setOnlineStatus('CONNECTED');
-      setupConnectionHandlers(connection);
+  // The grace period ran out: whoever stayed wins a game in progress.
+  const abandonGame = (isHost: boolean) => {
+    endGrace();
+    const current = historyRef.current;
+    if (!currentState(current).result && current.cursor > 0) finishGame({ winner: localSlotRef.current, reason: 'ABANDONED' });
+    pausedClockSlotRef.current = null;
+    if (isHost) {
+      // The room stays open for someone new.
+      guestTokenRef.current = null;
+      publishListing();
+      setNetNotice(text('net.guestAbandoned'));
+      setOnlineStatus('WAITING');
+    } else {
+      if (roomIdRef.current) clearSession(roomIdRef.current);
+      closeTransport();
+      seatedRef.current = false;
+      setNetNotice(text('net.hostAbandoned'));
+      setOnlineStatus('IDLE');
+    }
+  };
+
+  // Host: a guest's JOIN. The seated guest may always come back; anyone
+  // else only gets in when the seat is free.
+  const canAdmit = (token: string) =>
+    token === guestTokenRef.current || (!handshakeRef.current && graceTimerRef.current === null);
+
+  const welcomeGuest = (token: string, player: PlayerInfo) => {
+    const returning = token === guestTokenRef.current;
+    if (!returning) {
+      resetGame();
+      setChat([]);
+      if (listingRef.current && roomIdRef.current) lobbyRef.current?.fillRoom(roomIdRef.current);
+    }
+    guestTokenRef.current = token;
+    guestPlayerRef.current = player;
+    endGrace();
+    const paused = pausedClockSlotRef.current;
+    pausedClockSlotRef.current = null;
+    if (returning && paused && !currentState(historyRef.current).result) {
+      updateClock(resumeClock(clockRef.current, paused, Date.now()));
+    }
+    const state = currentState(historyRef.current);
+    sendNet({
+      type: 'HELLO',
+      roomId: roomIdRef.current ?? '',
+      rules: state.rules,
+      timeControls: clockRef.current.controls,
+      start: setupRef.current,
+      guestSlot: otherSlot(localSlotRef.current),
+      host: localPlayer(),
     });
+    if (returning) sendSync();
+    else sendToSpectators(syncMessage());
+    publishRoomInfo();
   };
 
-  const joinOnlineGame = () => {
-    if (!connectToId || !peer) return;
-    const connection = peer.connect(connectToId);
-    setConn(connection);
-    // Guest is Player 2 (White/Light)
-    setOnlinePlayerColor(PLAYER_WHITE);
-    setHumanColor(PLAYER_WHITE); 
-    setupConnectionHandlers(connection);
+  // Host: lets a connection watch. It gets the full state now and the feed from then on.
+  const admitSpectator = (connection: Connection, session: NetSession) => {
+    if (spectatorsRef.current.size >= MAX_SPECTATORS) {
+      connection.send(session.wrap({ type: 'REJECT', reason: peerText(text('net.spectatorsFull')) }));
+      window.setTimeout(() => connection.close(), 500);
+      return;
+    }
+    session.setPeerRole('spectator');
+    spectatorsRef.current.set(connection, session);
+    connection.send(session.wrap(syncMessage()));
+    publishRoomInfo();
   };
 
-  // We use a ref for processTurn to ensure connection handlers always call the latest version
-  // Or we simply pass data to a handler that reads from refs.
-  const processTurnRef = useRef<any>(null);
-  
-  const setupConnectionHandlers = (connection: DataConnection) => {
-      connection.on('open', () => {
+  const handleSpectatorMessage = (connection: Connection, session: NetSession, message: NetMessage) => {
+    if (message.type === 'SYNC_REQUEST') connection.send(session.wrap(syncMessage()));
+    else if (message.type === 'REJECT') console.warn(`A spectator rejected a message: ${message.reason}`);
+  };
+
+  const sendToSpectators = (message: NetMessage) => {
+    spectatorsRef.current.forEach((session, connection) => connection.send(session.wrap(message)));
+  };
+
+  // Host: to the guest and every spectator.
+  const broadcast = (message: NetMessage) => {
+    sendNet(message);
+    sendToSpectators(message);
+  };
+
+  const publishRoomInfo = () => {
+    const count = spectatorsRef.current.size;
+    const local = localSlotRef.current;
+    const guest = guestTokenRef.current ? guestPlayerRef.current : { ...UNKNOWN_PLAYER, name: peerText(text('player.guest')) };
+    const players = { [local]: localPlayer(), [otherSlot(local)]: guest } as Record<PlayerSlot, PlayerInfo>;
+    updatePlayers(players);
+    setSpectatorCount(count);
+    broadcast({ type: 'ROOM_INFO', players, spectators: count });
+  };
+
+  const sendNet = (message: NetMessage) => {
+    const session = sessionRef.current;
+    if (session && connRef.current) connRef.current.send(session.wrap(message));
+  };
+
+  // Host side of a resync: the full move list, replayed by the guest or a spectator.
+  const syncMessage = (): NetMessage => {
+    const current = historyRef.current;
+    const state = currentState(current);
+    return {
+      type: 'SYNC',
+      rules: state.rules,
+      timeControls: clockRef.current.controls,
+      start: isSetUp(current.initial) ? positionOf(current.initial) : null,
+      moves: playedPlies(current).map(ply => ply.move),
+      result: state.result,
+      clock: snapshotClock(clockRef.current, Date.now()),
+    };
+  };
+
+  const sendSync = () => {
+    sendNet(syncMessage());
+  };
+
+  // What goes over the wire for people to read (reject reasons, placeholder
+  // names) is written in this screen's language at the time it is sent.
+  const peerText = (value: Text) => renderText(translator(localeRef.current), value);
+
+  // Something from the peer could not be applied: show it, tell them, and
+  // get both boards back to the host's version.
+  const rejectRemote = (reason: Text, isHost: boolean) => {
+    setNetNotice(text('net.rejected', { reason }));
+    sendNet({ type: 'REJECT', reason: peerText(reason) });
+    if (isHost) sendSync();
+    else sendNet({ type: 'SYNC_REQUEST', reason: peerText(reason) });
+  };
+
+  const onDivergence = (isHost: boolean) => {
+    setNetNotice(text('net.diverged'));
+    if (isHost) sendSync();
+    else sendNet({ type: 'SYNC_REQUEST', reason: 'STATE_HASH' });
+  };
+
+  const applySync = (message: Extract<NetMessage, { type: 'SYNC' }>) => {
+    const rebuilt = rebuildHistory(message.moves, message.rules, message.start, message.result);
+    cancelHelpers();
+    setAnalysis(null);
+    rulesRef.current = message.rules;
+    setRules(message.rules);
+    changeSetup(message.start);
+    timeControlsRef.current = message.timeControls;
+    setTimeControls(message.timeControls);
+    updateClock(restoreClock(createClock(message.timeControls), message.clock, Date.now()));
+    historyRef.current = rebuilt;
+    setHistory(rebuilt);
+    setViewPly(null);
+    setRemovedStones([]);
+    updateOffers(NO_OFFERS);
+  };
+
+  const updateTournamentGame = (next: TournamentGame | null) => {
+    tournamentGameRef.current = next;
+    setTournamentGame(next);
+  };
+
+  const updateOffers = (next: Offers) => {
+    offersRef.current = next;
+    setOffers(next);
+  };
+
+  const addChat = (line: ChatLine) => setChat(lines => [...lines.slice(1 - MAX_CHAT_LINES), line]);
+
+  // Whether an offer of `kind` by `slot` makes sense on the current position.
+  const offerAllowed = (kind: OfferKind, slot: PlayerSlot) => {
+    const current = historyRef.current;
+    const { result } = currentState(current);
+    if (kind === 'REMATCH') return result !== null;
+    return !result && (kind === 'DRAW' || hasPlayed(current, slot));
+  };
+
+  const makeOffer = (kind: OfferKind) => {
+    if (offersRef.current.mine || !offerAllowed(kind, localSlotRef.current)) return;
+    const offer: Offer = { kind, ply: historyRef.current.cursor };
+    sendNet({ type: 'OFFER', offer });
+    updateOffers({ ...offersRef.current, mine: offer });
+    addChat({ from: 'system', text: text('offer.sent', { offer: text(OFFER_LABELS[kind]) }) });
+  };
+
+  const answerOffer = (accept: boolean) => {
+    const offer = offersRef.current.theirs;
+    if (!offer) return;
+    const { mine } = offersRef.current;
+    // Accepting also settles our own offer of the same kind.
+    updateOffers({ mine: accept && mine?.kind === offer.kind ? null : mine, theirs: null });
+    sendNet({ type: 'OFFER_REPLY', offer, accept });
+    addChat({ from: 'system', text: text(accept ? 'offer.accepted' : 'offer.declined', { offer: text(OFFER_LABELS[offer.kind]) }) });
+    if (accept) settleOffer(offer.kind, otherSlot(localSlotRef.current));
+  };
+
+  // Both sides apply an accepted offer; a rematch is started by the host alone.
+  const settleOffer = (kind: OfferKind, requester: PlayerSlot) => {
+    switch (kind) {
+      case 'DRAW':
+        finishGame({ winner: null, reason: 'AGREED_DRAW' });
+        break;
+      case 'TAKEBACK': {
+        const next = takeBack(historyRef.current, requester);
+        jumpTo(next);
+        const time = Date.now();
+        const stopped = stopClock(clockRef.current, time);
+        updateClock(next.cursor > 0 && clockRef.current.running ? resumeClock(stopped, requester, time) : stopped);
+        if (netRoleRef.current === 'host') sendToSpectators(syncMessage());
+        break;
+      }
+      case 'REMATCH':
+        if (netRoleRef.current === 'host') rematch();
+        break;
+    }
+  };
+
+  // Host: a new game with the slots swapped, so the other player opens as VOID.
+  const rematch = () => {
+    const slot = otherSlot(localSlotRef.current);
+    localSlotRef.current = slot;
+    setLocalSlot(slot);
+    resetGame();
+    broadcast({ type: 'RESET', guestSlot: otherSlot(slot) });
+    publishRoomInfo();
+    addChat({ from: 'system', text: text(slot === 'p1' ? 'chat.newGameYouFirst' : 'chat.newGameTheyFirst') });
+  };
+
+  const resign = () => {
+    if (currentState(historyRef.current).result || !window.confirm(t('offer.confirmResign'))) return;
+    sendNet({ type: 'RESIGN' });
+    finishGame({ winner: otherSlot(localSlotRef.current), reason: 'RESIGNATION' });
+  };
+
+  const sendChat = (text: string) => {
+    sendNet({ type: 'CHAT', text });
+    addChat({ from: 'me', text });
+  };
+
+  const showEmote = (slot: PlayerSlot, emote: string) => {
+    if (emoteTimerRef.current !== null) clearTimeout(emoteTimerRef.current);
+    setEmoteBubble({ slot, emote });
+    emoteTimerRef.current = window.setTimeout(() => {
+      emoteTimerRef.current = null;
+      setEmoteBubble(null);
+    }, EMOTE_BUBBLE_MS);
+  };
+
+  const sendEmote = (emote: string) => {
+    sendNet({ type: 'EMOTE', emote });
+    addChat({ from: 'me', text: emote });
+    showEmote(localSlotRef.current, emote);
+  };
+
+  const handleNetMessage = (message: NetMessage, isHost: boolean) => {
+    const spectating = netRoleRef.current === 'spectator';
+    // A spectator's handshake is the first SYNC.
+    const opening = spectating ? ['SYNC', 'ROOM_INFO', 'REJECT'] : ['HELLO', 'HELLO_ACK', 'REJECT', 'JOIN'];
+    if (!handshakeRef.current && !opening.includes(message.type)) {
+      rejectRemote(text('net.beforeHandshake', { type: message.type }), isHost);
+      return;
+    }
+    switch (message.type) {
+      case 'JOIN':
+        rejectRemote(text('net.alreadyJoined'), isHost);
+        break;
+      case 'HELLO': {
+        // The host's rule set, time controls and color split are the ones both sides play with.
+        // A returning guest gets a SYNC right after, which restores the game in progress.
+        localSlotRef.current = message.guestSlot;
+        setLocalSlot(message.guestSlot);
+        updatePlayers({ [message.guestSlot]: localPlayer(), [otherSlot(message.guestSlot)]: message.host } as Record<PlayerSlot, PlayerInfo>);
+        changeTimeControls(message.timeControls);
+        changeSetup(message.start);
+        changeRules(message.rules);
+        handshakeRef.current = true;
+        seatedRef.current = true;
+        endGrace();
+        setOnlineStatus('CONNECTED');
+        sendNet({ type: 'HELLO_ACK', guestSlot: message.guestSlot });
+        break;
+      }
+      case 'HELLO_ACK':
+        if (message.guestSlot !== otherSlot(localSlotRef.current)) {
+          rejectRemote(text('net.wrongSlot'), isHost);
+          return;
+        }
+        handshakeRef.current = true;
+        setOnlineStatus('CONNECTED');
+        break;
+      case 'MOVE': {
+        const move = { r: message.r, c: message.c };
+        const problem = checkRemoteMove(historyRef.current, message, spectating ? null : otherSlot(localSlotRef.current));
+        if (problem) {
+          rejectRemote(problem, isHost);
+          return;
+        }
+        // The host keeps time for both sides and presses the clock for the guest's move itself.
+        commitMove(move, isHost ? undefined : message.clock);
+        if (isHost) sendToSpectators({ type: 'MOVE', ply: message.ply, r: message.r, c: message.c, hash: message.hash, clock: snapshotClock(clockRef.current, Date.now()) });
+        if (hashState(currentState(historyRef.current)) !== message.hash) onDivergence(isHost);
+        break;
+      }
+      case 'RESET':
+        if (spectating) {
+          resetGame();
+          break;
+        }
+        localSlotRef.current = message.guestSlot;
+        setLocalSlot(message.guestSlot);
+        resetGame();
+        addChat({ from: 'system', text: text(message.guestSlot === 'p1' ? 'chat.newGameYouFirst' : 'chat.newGameTheyFirst') });
+        break;
+      case 'OFFER': {
+        const { offer } = message;
+        // A stale or pointless offer is declined without asking.
+        if (offer.ply !== historyRef.current.cursor || !offerAllowed(offer.kind, otherSlot(localSlotRef.current))) {
+          sendNet({ type: 'OFFER_REPLY', offer, accept: false });
+          return;
+        }
+        updateOffers({ ...offersRef.current, theirs: offer });
+        addChat({ from: 'system', text: text('offer.received', { offer: text(OFFER_LABELS[offer.kind]) }) });
+        // Both offered the same draw or rematch: that is agreement.
+        if (offer.kind !== 'TAKEBACK' && offersRef.current.mine?.kind === offer.kind) answerOffer(true);
+        break;
+      }
+      case 'OFFER_REPLY': {
+        const { mine } = offersRef.current;
+        if (!mine || mine.kind !== message.offer.kind || mine.ply !== message.offer.ply) return;
+        updateOffers({ ...offersRef.current, mine: null });
+        addChat({ from: 'system', text: text(message.accept ? 'offer.theyAccepted' : 'offer.theyDeclined', { offer: text(OFFER_LABELS[mine.kind]) }) });
+        if (message.accept && mine.ply === historyRef.current.cursor) settleOffer(mine.kind, localSlotRef.current);
+        break;
+      }
+      case 'RESIGN':
+        if (!currentState(historyRef.current).result) finishGame({ winner: localSlotRef.current, reason: 'RESIGNATION' });
+        break;
+      case 'CHAT':
+        addChat({ from: 'opponent', text: message.text });
+        break;
+      case 'EMOTE':
+        addChat({ from: 'opponent', text: message.emote });
+        showEmote(otherSlot(localSlotRef.current), message.emote);
+        break;
+      case 'FLAG':
+        flagTimeout(message.slot);
+        break;
+      case 'STATE_HASH':
+        // Hashes for another ply cross a move in flight; only same-ply mismatches count.
+        if (message.ply === historyRef.current.cursor && message.hash !== hashState(currentState(historyRef.current))) {
+          onDivergence(isHost);
+        }
+        break;
+      case 'SYNC_REQUEST':
+        sendSync();
+        break;
+      case 'SYNC':
+        applySync(message);
+        if (spectating) {
+          handshakeRef.current = true;
           setOnlineStatus('CONNECTED');
-      });
-      connection.on('data', (data: any) => {
-          if (data && data.type === 'MOVE') {
-              // Read latest state from refs
-              const r = data.r;
-              const c = data.c;
-              const currentBoard = boardRef.current;
-              const currentCP = currentPlayerRef.current;
-              
-              if (currentBoard[r][c] !== EMPTY) return; // Should not happen
+        } else {
+          setNetNotice(text('net.resynced'));
+        }
+        break;
+      case 'ROOM_INFO':
+        updatePlayers(message.players);
+        setSpectatorCount(message.spectators);
+        break;
+      case 'REJECT':
+        setNetNotice(text('net.theyRejected', { reason: message.reason }));
+        break;
+    }
+  };
 
-              const newBoard = currentBoard.map(row => [...row]);
-              newBoard[r][c] = currentCP;
-              
-              setBoard(newBoard);
-              setLastMove({r, c});
-              playSound('click');
-
-              // Call process turn using REF values
-              if (processTurnRef.current) {
-                processTurnRef.current(
-                    newBoard, 
-                    r, c, 
-                    currentCP, 
-                    humanColorRef.current, 
-                    scoresRef.current, 
-                    turnCountRef.current
-                );
+  const setupConnectionHandlers = (connection: Connection, isHost: boolean) => {
+      const session = createSession(isHost ? 'host' : 'guest');
+      // Makes this the game's connection, replacing a dead one.
+      const activate = () => {
+          const previous = connRef.current;
+          connRef.current = connection;
+          sessionRef.current = session;
+          handshakeRef.current = false;
+          setConn(connection);
+          if (previous && previous !== connection) previous.close();
+      };
+      if (!isHost) activate();
+
+      connection.onOpen(() => {
+          if (isHost || connRef.current !== connection) return;
+          sendNet(netRoleRef.current === 'spectator' ? { type: 'WATCH' } : { type: 'JOIN', token: guestTokenRef.current ?? createToken(), player: localPlayer() });
+      });
+      connection.onMessage((data) => {
+          if (isHost && spectatorsRef.current.has(connection)) {
+              try {
+                  handleSpectatorMessage(connection, session, session.accept(data));
+              } catch (err) {
+                  console.warn(err);
+                  if (err instanceof ProtocolError && err.fatal) connection.close();
+              }
+              return;
+          }
+          // Host: a new connection only becomes the game's link through a JOIN it admits,
+          // or a spectator through WATCH.
+          if (isHost && connRef.current !== connection) {
+              let message: NetMessage;
+              try {
+                  message = session.accept(data);
+              } catch (err) {
+                  console.warn(err);
+                  connection.close();
+                  return;
+              }
+              if (message.type === 'WATCH') {
+                  admitSpectator(connection, session);
+              } else if (message.type !== 'JOIN') {
+                  connection.close();
+              } else if (!canAdmit(message.token)) {
+                  connection.send(session.wrap({ type: 'REJECT', reason: peerText(text('net.roomFull')) }));
+                  window.setTimeout(() => connection.close(), 500);
+              } else {
+                  activate();
+                  welcomeGuest(message.token, message.player);
+              }
+              return;
+          }
+          if (connRef.current !== connection) return; // a superseded connection
+          try {
+              handleNetMessage(session.accept(data), isHost);
+          } catch (err) {
+              console.warn(err);
+              if (err instanceof ProtocolError && err.fatal) {
+                  setNetNotice(err.text);
+                  sendNet({ type: 'REJECT', reason: peerText(err.text) });
+                  connection.close();
+              } else {
+                  // Anything else that failed while applying the message is answered
+                  // like a bad message: both boards go back to the host's version.
+                  rejectRemote(err instanceof ProtocolError ? err.text : text('net.applyFailed'), isHost);
               }
-          } else if (data && data.type === 'RESET') {
-             resetGame(); 
           }
       });
-      connection.on('close', () => {
-          alert('Đối thủ đã thoát!');
-          setOnlineStatus('IDLE');
-          setGameMode('PVE');
-      });
-      connection.on('error', (err) => {
-          console.error(err);
-          alert('Lỗi kết nối!');
+      connection.onClose(() => {
+          if (spectatorsRef.current.delete(connection)) publishRoomInfo();
+          else if (connRef.current === connection) handleDisconnect(isHost);
       });
   };
 
-  const processTurn = useCallback((
-      newBoard: BoardState, 
-      r: number, 
-      c: number, 
-      playerWhoMoved: CellValue, 
-      currentHumanColor: CellValue,
-      baseScores: { p1: number, p2: number },
-      currentTurnBase: number 
-    ) => {
-     
-     let updatedBoard = newBoard;
-     let currentScores = { ...baseScores };
-
-     const stonesToExplode = checkLongLines(newBoard, r, c, playerWhoMoved);
-    
-     if (stonesToExplode && stonesToExplode.length > 0) {
-       const points = stonesToExplode.length;
-       const cycle = Math.floor(currentTurnBase / 30);
-       const p1IsBlack = cycle % 2 === 0;
-       
-       let isP1 = false;
-       if (p1IsBlack) {
-           if (playerWhoMoved === PLAYER_BLACK) isP1 = true;
-       } else {
-           if (playerWhoMoved === PLAYER_WHITE) isP1 = true;
-       }
-       
-       if (isP1) {
-           currentScores.p2 += points;
-       } else {
-           currentScores.p1 += points;
-       }
-       
-       const tempBoard = newBoard.map(row => [...row]);
-       stonesToExplode.forEach(cell => {
-           tempBoard[cell.r][cell.c] = EMPTY;
-       });
-       updatedBoard = tempBoard;
-       
-       setRemovedStones(stonesToExplode);
-       setTimeout(() => setRemovedStones([]), 500);
-     }
-     
-     setScores(currentScores);
-     setBoard(updatedBoard);
-
-     const p1Name = gameMode === 'PVE' ? "BẠN" : (gameMode === 'ONLINE' ? "P1 (HOST)" : "NGƯỜI CHƠI 1");
-     const p2Name = gameMode === 'PVE' ? "MÁY" : (gameMode === 'ONLINE' ? "P2 (GUEST)" : "NGƯỜI CHƠI 2");
-
-     if (currentScores.p1 >= 200 && (currentScores.p1 - currentScores.p2) >= 100) {
-         setFinalResult({ winner: p1Name, reason: "Thắng áp đảo (Hơn 100 điểm & đạt mốc 200)" });
-         setIsGameOver(true);
-         return;
-     }
-     if (currentScores.p2 >= 200 && (currentScores.p2 - currentScores.p1) >= 100) {
-         setFinalResult({ winner: p2Name, reason: "Thắng áp đảo (Hơn 100 điểm & đạt mốc 200)" });
-         setIsGameOver(true);
-         return;
-     }
- 
-     if (isBoardFull(updatedBoard)) {
-        const result = getGameResult(currentScores, updatedBoard, currentHumanColor, gameMode);
-        setFinalResult(result);
-        setIsGameOver(true);
-        return;
-     }
-
-     const nextTurnCount = currentTurnBase + 1;
-     setTurnCount(nextTurnCount);
-
-     const nextPlayerColor = playerWhoMoved === PLAYER_BLACK ? PLAYER_WHITE : PLAYER_BLACK;
-     
-     let nextHumanColor = currentHumanColor;
-     if (nextTurnCount > 0 && nextTurnCount % 30 === 0) {
-         nextHumanColor = currentHumanColor === PLAYER_BLACK ? PLAYER_WHITE : PLAYER_BLACK;
-         setHumanColor(nextHumanColor);
-         setShowSwapAlert(true);
-         setTimeout(() => setShowSwapAlert(false), 3000);
-     }
- 
-     setCurrentPlayer(nextPlayerColor);
- 
-     if (gameMode === 'PVE' && nextPlayerColor !== nextHumanColor && !isBoardFull(updatedBoard)) {
-       setIsAiThinking(true);
-       setTimeout(() => makeAiMove(updatedBoard, nextPlayerColor, nextHumanColor, currentScores.p2, currentScores.p1, nextTurnCount), 600); 
-     } else {
-        setIsAiThinking(false);
-     }
-  }, [gameMode]); // gameMode dependency is fine
-
-  // Update the ref whenever processTurn changes
-  useEffect(() => { processTurnRef.current = processTurn; }, [processTurn]);
+  // UI side effects of the engine's events (animations, alerts, sounds).
+  const handleEvents = (events: GameEvent[]) => {
+    setAnnounced(events);
+    events.forEach(event => {
+      if (event.type === 'STONE_PLACED') {
+        playSound('click');
+      } else if (event.type === 'STONES_EXPLODED') {
+        playSound('clear', event.stones.length);
+        setRemovedStones(event.stones);
+        setTimeout(() => setRemovedStones([]), 500);
+      } else if (event.type === 'SIDES_SWAPPED') {
+        playSound('swap');
+        setShowSwapAlert(true);
+        setTimeout(() => setShowSwapAlert(false), 3000);
+      } else if (event.type === 'GAME_OVER') {
+        playSound('gameOver');
+      }
+    });
+  };
+
+  // Plays a move for the side to move, through the shared rules engine.
+  // Reads and writes historyRef so it is safe to call from PeerJS and timer callbacks.
+  // On the guest and spectators a move from the host carries its clock, which replaces ours.
+  const commitMove = (move: Cell, peerClock?: ClockSnapshot) => {
+    const before = currentState(historyRef.current);
+    const { history: next, ply } = pushMove(historyRef.current, move);
+    const { state } = ply;
+    const time = Date.now();
+    updateClock(peerClock
+      ? restoreClock(clockRef.current, peerClock, time)
+      : pressClock(clockRef.current, slotOfColor(before, before.currentPlayer), state.result ? null : slotOfColor(state, state.currentPlayer), time));
+    setNow(time);
+    historyRef.current = next;
+    setHistory(next);
+    setViewPly(null);
+    cancelHelpers();
+    // A move voids pending draw and takeback offers.
+    if (offersRef.current !== NO_OFFERS) updateOffers(NO_OFFERS);
+    handleEvents(ply.events);
+    scheduleAiMove(state);
+  };
+
+  // In PVE the computer plays the side that is not the human's; in AIVAI it plays both while the watch runs.
+  // A puzzle's opponent stops answering once the puzzle is solved or failed.
+  const scheduleAiMove = (state: GameState) => {
+    const mode = gameModeRef.current;
+    const puzzle = puzzleRef.current?.puzzle;
+    const aiToMove = mode === 'PVE'
+      ? !isHumanTurn(state) && (!puzzle || evaluatePuzzle(puzzle, historyRef.current) === 'SOLVING')
+      : mode === 'AIVAI' && isWatchingRef.current;
+    if (aiToMove && !state.result) {
+      setIsAiThinking(true);
+      aiTimerRef.current = window.setTimeout(() => {
+        aiTimerRef.current = null;
+        makeAiMove(state);
+      }, mode === 'AIVAI' ? watchDelayRef.current : 600);
+    } else {
+      setIsAiThinking(false);
+    }
+  };
+
+  // PVE takes back the AI reply too, so the human is to move again.
+  const isHumanTurn = (state: GameState) => state.currentPlayer === colorOfSlot(state, localSlotRef.current);
+
+  // Ends the game off the board (flag fall, resignation, agreed draw, abandonment).
+  const finishGame = (result: GameResult) => {
+    cancelAi();
+    cancelHelpers();
+    const next = endGame(historyRef.current, result);
+    historyRef.current = next;
+    setHistory(next);
+    setViewPly(null);
+    updateClock(stopClock(clockRef.current, Date.now()));
+    updateOffers(NO_OFFERS);
+    setAnnounced([{ type: 'GAME_OVER', result }]);
+    playSound('gameOver');
+    // Results decided off the board reach spectators as a fresh state.
+    if (gameModeRef.current === 'ONLINE' && netRoleRef.current === 'host') sendToSpectators(syncMessage());
+  };
+
+  // The side to move ran out of time.
+  const flagTimeout = (slot: PlayerSlot) => finishGame({ winner: otherSlot(slot), reason: 'TIMEOUT' });
+
+  const startWatching = () => {
+    isWatchingRef.current = true;
+    setIsWatching(true);
+    const state = currentState(historyRef.current);
+    // The clocks start with the first move, so only a game already under way resumes them.
+    if (historyRef.current.cursor > 0 && !state.result) {
+      updateClock(resumeClock(clockRef.current, slotOfColor(state, state.currentPlayer), Date.now()));
+    }
+    scheduleAiMove(state);
+  };
+
+  const stopWatching = () => {
+    isWatchingRef.current = false;
+    setIsWatching(false);
+  };
+
+  const pauseWatching = () => {
+    stopWatching();
+    cancelAi();
+    updateClock(stopClock(clockRef.current, Date.now()));
+  };
+
+  const jumpTo = (next: GameHistory) => {
+    cancelAi();
+    cancelHelpers();
+    setAnalysis(null);
+    historyRef.current = next;
+    setHistory(next);
+    setViewPly(null);
+    setShowSwapAlert(false);
+    setRemovedStones([]);
+    setReplay(null);
+    setSharedPlayers(null);
+  };
+
+  // Plays a tournament pairing under the tournament's rules: two people share
+  // the screen (PVP), a person takes on an AI entrant (PVE, on the pairing's
+  // slot) or two AI entrants play each other (AI vs AI, started right away).
+  const playTournamentGame = (round: number, index: number) => {
+    const pairing = tournament?.rounds[round]?.[index];
+    const p1 = tournament && findEntrant(tournament, pairing?.p1 ?? null);
+    const p2 = tournament && findEntrant(tournament, pairing?.p2 ?? null);
+    if (!tournament || !p1 || !p2) return;
+    if (gameModeRef.current === 'ONLINE') leaveOnline();
+    const mode: GameMode = p1.kind === 'AI' && p2.kind === 'AI' ? 'AIVAI' : p1.kind === 'AI' || p2.kind === 'AI' ? 'PVE' : 'PVP';
+    gameModeRef.current = mode;
+    setGameMode(mode);
+    rulesRef.current = tournament.rules;
+    setRules(tournament.rules);
+    timeControlsRef.current = tournament.timeControls;
+    setTimeControls(tournament.timeControls);
+    changeSetup(null);
+    setSetupDraft(null);
+    resetGame();
+    const humanSlot: PlayerSlot = mode === 'PVE' && p1.kind === 'AI' ? 'p2' : 'p1';
+    localSlotRef.current = humanSlot;
+    setLocalSlot(humanSlot);
+    if (p1.kind === 'AI' && p2.kind === 'AI') {
+      watchPlayersRef.current = { p1: p1.difficulty, p2: p2.difficulty };
+      setWatchPlayers(watchPlayersRef.current);
+    } else {
+      const ai = p1.kind === 'AI' ? p1 : p2.kind === 'AI' ? p2 : null;
+      if (ai) {
+        difficultyRef.current = ai.difficulty;
+        setDifficulty(ai.difficulty);
+      }
+    }
+    updateTournamentGame({ createdAt: tournament.createdAt, round, index, entrants: { p1, p2 } });
+    setShowTournament(false);
+    if (mode === 'AIVAI') startWatching();
+    else scheduleAiMove(currentState(historyRef.current));
+  };
+
+  const importTournament = async (file: File) => {
+    try {
+      setTournament(parseTournament(await file.text()));
+    } catch (err) {
+      if (!(err instanceof TournamentError)) throw err;
+      alert(t('tournament.importFailed', { reason: err.text }));
+    }
+  };
+
+  const exportTournament = (kind: 'json' | 'csv') => {
+    if (!tournament) return;
+    const base = `caro-no-giai-${(tournament.name || t('tournament.defaultName')).replace(/[^\p{L}\p{N}]+/gu, '-')}`;
+    if (kind === 'json') downloadText(`${base}.json`, serializeTournament(tournament), 'application/json');
+    else downloadText(`${base}.csv`, tournamentCsv(tournament, t), 'text/csv;charset=utf-8');
+  };
+
+  const discardTournament = () => {
+    setTournament(null);
+    if (tournamentGameRef.current) resetGame();
+  };
+
+  const openSaves = () => {
+    setSaves(loadSaves());
+    setShowSaves(true);
+  };
+
+  const removeSave = (slot: number) => {
+    deleteSave(slot);
+    if (saveSlotRef.current === slot) {
+      saveSlotRef.current = null;
+      setActiveSaveSlot(null);
+    }
+    setSaves(loadSaves());
+  };
+
+  // Picks up an autosaved game where it stopped, in its own mode and settings.
+  const resumeSave = (save: SavedGame) => {
+    const { history: restored, exact } = restoreSave(save);
+    if (gameModeRef.current === 'ONLINE') leaveOnline();
+    stopWatching();
+    gameModeRef.current = save.mode;
+    setGameMode(save.mode);
+    localSlotRef.current = 'p1';
+    setLocalSlot('p1');
+    difficultyRef.current = save.difficulty;
+    setDifficulty(save.difficulty);
+    watchPlayersRef.current = save.watchPlayers;
+    setWatchPlayers(save.watchPlayers);
+    setP2ProfileId(save.p2ProfileId);
+    rulesRef.current = save.rules;
+    setRules(save.rules);
+    changeSetup(save.start);
+    setSetupDraft(null);
+    updateTournamentGame(null);
+    timeControlsRef.current = save.timeControls;
+    setTimeControls(save.timeControls);
+    updateClock(restoreClock(createClock(save.timeControls), save.clock, Date.now()));
+    jumpTo(restored);
+    updateOffers(NO_OFFERS);
+    recordableRef.current = true;
+    saveSlotRef.current = save.slot;
+    setActiveSaveSlot(save.slot);
+    setShowSaves(false);
+    if (!exact) alert(t('saves.positionOnly'));
+    if (save.mode === 'PVE') scheduleAiMove(currentState(restored));
+  };
+
+  // Sets up a puzzle as a game against the computer, the human on the side to move.
+  // Puzzles are untimed and never count towards the profiles' ratings.
+  const startPuzzle = (pack: PuzzlePack | null, puzzle: Puzzle) => {
+    if (gameModeRef.current === 'ONLINE') leaveOnline();
+    resetGame();
+    gameModeRef.current = 'PVE';
+    setGameMode('PVE');
+    const slot = solverSlot(puzzle);
+    localSlotRef.current = slot;
+    setLocalSlot(slot);
+    updateClock(createClock({ p1: NO_TIME_CONTROL, p2: NO_TIME_CONTROL }));
+    recordableRef.current = false;
+    puzzleRef.current = { pack, puzzle };
+    puzzleAttemptRef.current = pack !== null;
+    setActivePuzzle(puzzleRef.current);
+    jumpTo(createHistory(puzzleState(puzzle)));
+    setShowPuzzles(false);
+    setEditingPuzzle(null);
+    setSetupDraft(null);
+  };
+
+  const nextPuzzle = () => {
+    const current = puzzleRef.current;
+    if (!current?.pack) return;
+    const { puzzles } = current.pack;
+    const index = puzzles.findIndex(puzzle => puzzle.id === current.puzzle.id);
+    if (index + 1 < puzzles.length) startPuzzle(current.pack, puzzles[index + 1]);
+  };
+
+  // An imported pack replaces an earlier one of the same name.
+  const importPack = async (file: File) => {
+    try {
+      const pack = parsePack(await file.text());
+      if (BUILT_IN_PACKS.some(builtIn => builtIn.name === pack.name)) throw new PuzzleParseError(text('puzzle.error.builtIn', { name: pack.name }));
+      setPuzzlePacks(packs => [...packs.filter(p => p.name !== pack.name), pack]);
+    } catch (err) {
+      if (!(err instanceof PuzzleParseError)) throw err;
+      alert(t('puzzle.importFailed', { reason: err.text }));
+    }
+  };
+
+  const exportPack = (pack: PuzzlePack) =>
+    downloadText(`caro-no-cau-do-${pack.name.replace(/[^\p{L}\p{N}]+/gu, '-')}.json`, serializePack(pack), 'application/json');
+
+  // The editor starts from the position on the board.
+  const openEditor = () => {
+    const state = currentState(historyRef.current);
+    setShowPuzzles(false);
+    setEditingPuzzle({
+      id: `cau-${Date.now().toString(36)}`,
+      title: t('editor.newTitle'),
+      description: '',
+      rules: state.rules,
+      board: state.board,
+      toMove: state.currentPlayer,
+      p1Color: state.p1Color,
+      scores: state.scores,
+      turnCount: state.turnCount,
+      goal: { type: 'GAIN', points: state.rules.lineLength, moves: 1 },
+      solution: null,
+    });
+  };
+
+  // Editor puzzles go to MY_PACK_NAME, replacing one with the same id.
+  const savePuzzle = (puzzle: Puzzle) => {
+    setPuzzlePacks(packs => {
+      const mine = packs.find(pack => pack.name === MY_PACK_NAME) ?? { name: MY_PACK_NAME, puzzles: [] };
+      const updated = { ...mine, puzzles: [...mine.puzzles.filter(p => p.id !== puzzle.id), puzzle] };
+      return [...packs.filter(pack => pack.name !== MY_PACK_NAME), updated];
+    });
+    setEditingPuzzle(null);
+    setShowPuzzles(true);
+  };
+
+  const undoMove = () => {
+    const current = historyRef.current;
+    jumpTo(gameMode === 'PVE' ? undoUntil(current, isHumanTurn) : undo(current));
+  };
+
+  const redoMove = () => {
+    const current = historyRef.current;
+    jumpTo(gameMode === 'PVE' ? redoUntil(current, isHumanTurn) : redo(current));
+  };
+
+  const helperClient = () => helperClientRef.current ?? (helperClientRef.current = createAiClient());
+
+  // Best move for whoever is to move, shown as a ring on the grid.
+  const requestHint = async () => {
+    const state = currentState(historyRef.current);
+    setIsHintLoading(true);
+    try {
+      const { move } = await helperClient().requestSearch(state, HINT_TIME_BUDGET_MS);
+      if (currentState(historyRef.current) === state) setHint(move);
+    } catch (err) {
+      if (!(err instanceof AiCancelledError)) console.error(err);
+    } finally {
+      setIsHintLoading(false);
+    }
+  };
+
+  const startAnalysis = async () => {
+    const target = historyRef.current;
+    const client = helperClient();
+    setAnalysis([]);
+    setIsAnalyzing(true);
+    try {
+      await analyzeGame(
+        target,
+        state => client.requestSearch(state, ANALYSIS_TIME_BUDGET_MS),
+        partial => { if (historyRef.current === target) setAnalysis(partial); },
+      );
+    } catch (err) {
+      if (!(err instanceof AiCancelledError)) console.error(err);
+    } finally {
+      if (historyRef.current === target) setIsAnalyzing(false);
+    }
+  };
+
+  const exportGame = () => {
+    const record = exportRecord({
+      mode: gameMode,
+      difficulty: gameMode === 'PVE' ? difficulty : null,
+      players: gameMode === 'AIVAI'
+        ? { p1: `${slotName(t, 'p1', gameMode)} (${watchPlayers.p1})`, p2: `${slotName(t, 'p2', gameMode)} (${watchPlayers.p2})` }
+        : { p1: slotLabel('p1'), p2: slotLabel('p2') },
+    }, history);
+    downloadText(`caro-no-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.txt`, record, 'text/plain;charset=utf-8');
+  };
+
+  // The position editor paints on the main board, starting from the position shown there.
+  const openSetup = () => {
+    cancelAi();
+    stopWatching();
+    const onBoard = positionOf(shown);
+    setSetupDraft(onBoard.board.length === rulesRef.current.boardSize ? onBoard : positionOf(gameFromPosition(rulesRef.current, null)));
+  };
+
+  // Clicking a cell puts the brush's stone there, or takes it away again.
+  const paintSetup = (r: number, c: number) => {
+    if (!setupDraft) return;
+    const board = setupDraft.board.map(row => [...row]);
+    board[r][c] = board[r][c] === setupBrush ? EMPTY : setupBrush;
+    setSetupDraft({ ...setupDraft, board });
+  };
+
+  // New games start from the edited position from now on, the first one in `mode`.
+  // Online goes to the lobby: a room opened there hands the position to its guest.
+  const playFromSetup = (mode: GameMode) => {
+    if (!setupDraft || validatePosition(setupDraft, rulesRef.current)) return;
+    changeSetup(setupDraft);
+    setSetupDraft(null);
+    if (mode !== 'ONLINE') leaveOnline();
+    gameModeRef.current = mode;
+    setGameMode(mode);
+    localSlotRef.current = 'p1';
+    setLocalSlot('p1');
+    resetGame();
+    if (mode === 'ONLINE') setOnlineStatus('IDLE');
+    if (mode === 'PVE') scheduleAiMove(currentState(historyRef.current));
+  };
+
+  // Back to games from the empty board.
+  const clearSetup = () => {
+    changeSetup(null);
+    resetGame();
+  };
+
+  // --- Replay viewer ---
+
+  // Opens the viewer at the start of the game on the board and plays it.
+  const openReplay = () => {
+    setViewPly(0);
+    setRemovedStones([]);
+    setShowSwapAlert(false);
+    setReplay({ playing: true, delayMs: replay?.delayMs ?? REPLAY_SPEEDS[1].delayMs });
+  };
+
+  const closeReplay = () => {
+    setReplay(null);
+    setViewPly(null);
+  };
+
+  const seekReplay = (ply: number) => {
+    setViewPly(ply);
+    setReplay(current => current && { ...current, playing: false });
+  };
+
+  // Stepping forward re-runs what the ply triggered: the explosion, the swap alert, the announcement.
+  const stepReplay = (delta: 1 | -1) => {
+    const ply = Math.max(0, Math.min(history.cursor, shownPly + delta));
+    setViewPly(ply);
+    if (ply > shownPly) handleEvents(history.plies[ply - 1].events);
+  };
+
+  const playReplay = () => {
+    if (shownPly >= history.cursor) setViewPly(0);
+    setReplay(current => current && { ...current, playing: true });
+  };
 
+  const shareReplay = () => {
+    const players = sharedPlayers ?? names ?? { p1: slotLabel('p1'), p2: slotLabel('p2') };
+    copyLink(t, `${window.location.origin}${pageUrl()}#${encodeReplay(history, players)}`, 'replay.linkCopied');
+  };
+
+  // A game from a replay link, set up for review as a two-player game and opened in the viewer.
+  const openSharedGame = (fragment: string) => {
+    let shared: SharedGame | null;
+    try {
+      shared = decodeReplay(fragment);
+    } catch (err) {
+      if (!(err instanceof ReplayLinkError)) throw err;
+      window.history.replaceState(null, '', pageUrl());
+      alert(t('replay.openFailed', { reason: err.text }));
+      return;
+    }
+    if (!shared) return;
+    // A reload then starts a fresh game instead of reopening the link.
+    window.history.replaceState(null, '', pageUrl());
+    const { initial } = shared.history;
+    gameModeRef.current = 'PVP';
+    setGameMode('PVP');
+    localSlotRef.current = 'p1';
+    setLocalSlot('p1');
+    rulesRef.current = initial.rules;
+    setRules(initial.rules);
+    changeSetup(isSetUp(initial) ? positionOf(initial) : null);
+    setSetupDraft(null);
+    updateTournamentGame(null);
+    jumpTo(shared.history);
+    recordableRef.current = false;
+    saveSlotRef.current = null;
+    setActiveSaveSlot(null);
+    updateClock(createClock(timeControlsRef.current));
+    setSharedPlayers(shared.players);
+    openReplay();
+  };
+
+  // Replays an imported record through the engine; ONLINE and AIVAI records open as PVP for review.
+  const importGame = async (file: File) => {
+    try {
+      const { record, history: imported } = importRecord(await file.text());
+      const mode: GameMode = record.mode === 'ONLINE' || record.mode === 'AIVAI' ? 'PVP' : record.mode;
+      gameModeRef.current = mode;
+      setGameMode(mode);
+      localSlotRef.current = 'p1';
+      setLocalSlot('p1');
+      if (record.difficulty) {
+        difficultyRef.current = record.difficulty;
+        setDifficulty(record.difficulty);
+      }
+      rulesRef.current = record.rules;
+      setRules(record.rules);
+      changeSetup(record.start);
+      setSetupDraft(null);
+      updateTournamentGame(null);
+      jumpTo(imported);
+      recordableRef.current = false;
+      saveSlotRef.current = null;
+      setActiveSaveSlot(null);
+      updateClock(createClock(timeControlsRef.current));
+      scheduleAiMove(currentState(imported));
+    } catch (err) {
+      alert(t('record.importFailed', { reason: err instanceof RecordParseError ? err.text : (err as Error).message }));
+    }
+  };
 
   const handleCellClick = async (r: number, c: number) => {
-    if (isGameOver || isAiThinking) return;
+    if (setupDraft) {
+      paintSetup(r, c);
+      return;
+    }
+    if (isGameOver || isAiThinking || isViewingPast || gameMode === 'AIVAI' || (puzzleStatus && puzzleStatus !== 'SOLVING')) return;
     
     // Permission checks
     if (gameMode === 'PVE' && currentPlayer !== humanColor) return;
     if (gameMode === 'ONLINE') {
-        if (currentPlayer !== humanColor) return;
+        if (isSpectating || currentPlayer !== humanColor || onlineStatus !== 'CONNECTED') return;
     }
 
     if (board[r][c] !== EMPTY) return;
 
-    const newBoard = board.map(row => [...row]);
-    newBoard[r][c] = currentPlayer;
-    
-    setBoard(newBoard);
-    setLastMove({ r, c });
-    playSound('click');
+    const ply = historyRef.current.cursor;
+    commitMove({ r, c });
 
-    // Send move if online
-    if (gameMode === 'ONLINE' && conn) {
-        conn.send({ type: 'MOVE', r, c });
+    // Send move if online, with the resulting position's hash; the host adds its clock after pressing it
+    if (gameMode === 'ONLINE') {
+        const hash = hashState(currentState(historyRef.current));
+        if (netRoleRef.current === 'host') broadcast({ type: 'MOVE', ply, r, c, hash, clock: snapshotClock(clockRef.current, Date.now()) });
+        else sendNet({ type: 'MOVE', ply, r, c, hash });
     }
-
-    processTurn(newBoard, r, c, currentPlayer, humanColor, scores, turnCount);
   };
 
-  const makeAiMove = async (currentBoard: BoardState, aiPlayer: CellValue, currentHumanColor: CellValue, aiScore: number, humanScore: number, currentTurnCount: number) => {
-    let move: { r: number, c: number } | null = null;
+  const makeAiMove = async (state: GameState) => {
+    // The position moved on (reset, mode switch) while the timer was pending.
+    if (currentState(historyRef.current) !== state) return;
+
+    // The heuristic levels answer instantly, so they get a short pause to feel natural.
+    // MASTER spends its own time budget searching instead. AIVAI is paced by the watch speed.
+    const isWatch = gameModeRef.current === 'AIVAI';
+    const puzzle = puzzleRef.current?.puzzle;
+    // A puzzle with a solution answers from it; without one the strongest level defends.
+    const scripted = puzzle && scriptedReply(puzzle, historyRef.current);
+    if (scripted) {
+      commitMove(scripted);
+      return;
+    }
+    const level = isWatch ? watchPlayersRef.current[slotOfColor(state, state.currentPlayer)] : puzzle ? 'MASTER' : difficultyRef.current;
+    const pause = isWatch ? 0 : level === 'MEDIUM' ? 300 : level === 'SUPER_STRONG' ? 500 : 0;
+    const client = aiClientRef.current ?? (aiClientRef.current = createAiClient());
+
+    try {
+      const [move] = await Promise.all([
+        client.requestMove(state, level),
+        new Promise(resolve => setTimeout(resolve, pause)),
+      ]);
+      if (currentState(historyRef.current) !== state) return;
+      commitMove(move);
+    } catch (err) {
+      if (err instanceof AiCancelledError) return;
+      console.error(err);
+      setIsAiThinking(false);
+    }
+  };
 
-    if (difficulty === 'EASY') {
-      move = getEasyMove(currentBoard, aiPlayer);
-    } else if (difficulty === 'MEDIUM') {
-      await new Promise(resolve => setTimeout(resolve, 300));
-      move = getMediumMove(currentBoard, aiPlayer);
-    } else {
-      // Super Strong
-      await new Promise(resolve => setTimeout(resolve, 500));
-      move = getSuperStrongMove(currentBoard, aiPlayer);
-    }
-
-    if (move) {
-      const nextBoard = currentBoard.map(row => [...row]);
-      nextBoard[move.r][move.c] = aiPlayer;
-      
-      setBoard(nextBoard);
-      setLastMove({ r: move.r, c: move.c });
-      playSound('click');
-      
-      const currentScores = { p1: humanScore, p2: aiScore };
-      processTurn(nextBoard, move.r, move.c, aiPlayer, currentHumanColor, currentScores, currentTurnCount);
-    } else {
-        setIsGameOver(true); 
+  // Arrow keys move the cursor (and the ghost stone with it), Home and End jump
+  // along the row, Enter or Space plays on the cursor.
+  const handleBoardKey = (e: React.KeyboardEvent) => {
+    const last = board.length - 1;
+    const clamp = (value: number) => Math.max(0, Math.min(last, value));
+    const { r, c } = boardCursor;
+    const moves: Record<string, Cell> = {
+      ArrowUp: { r: clamp(r - 1), c },
+      ArrowDown: { r: clamp(r + 1), c },
+      ArrowLeft: { r, c: clamp(c - 1) },
+      ArrowRight: { r, c: clamp(c + 1) },
+      Home: { r, c: 0 },
+      End: { r, c: last },
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      setCursor(moves[e.key]);
+      setHoveredCell(moves[e.key]);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      handleCellClick(r, c);
     }
   };
 
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4">
+    <div className={`min-h-screen flex flex-col items-center justify-center p-4 ${preferences.highContrast ? 'high-contrast' : ''}`}>
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announceEvents(t, announced, game.rules, slotLabel)}</div>
+      {showSaves && (
+        <SavesPanel
+          t={t}
+          locale={locale}
+          saves={saves}
+          currentSlot={activeSaveSlot}
+          difficultyLabels={difficultyLabels}
+          onResume={resumeSave}
+          onDelete={removeSave}
+          onClose={() => setShowSaves(false)}
+        />
+      )}
+      {showPuzzles && (
+        <PuzzlePanel
+          t={t}
+          packs={allPacks}
+          packLabel={packLabel}
+          removable={(pack) => !BUILT_IN_PACKS.includes(pack)}
+          progress={puzzleProgress}
+          onPlay={startPuzzle}
+          onImport={importPack}
+          onExport={exportPack}
+          onRemove={(pack) => setPuzzlePacks(packs => packs.filter(p => p !== pack))}
+          onCreate={openEditor}
+          onClose={() => setShowPuzzles(false)}
+        />
+      )}
+      {editingPuzzle && (
+        <PuzzleEditor
+          t={t}
+          initial={editingPuzzle}
+          onTry={(puzzle) => startPuzzle(null, puzzle)}
+          onSave={savePuzzle}
+          onClose={() => setEditingPuzzle(null)}
+        />
+      )}
+      {showTournament && (
+        <TournamentPanel
+          t={t}
+          tournament={tournament}
+          rules={rules}
+          timeControls={timeControls}
+          profiles={profiles.profiles}
+          difficultyLabels={difficultyLabels}
+          onCreate={setTournament}
+          onImport={importTournament}
+          onPlay={playTournamentGame}
+          onExport={exportTournament}
+          onDiscard={discardTournament}
+          onClose={() => setShowTournament(false)}
+        />
+      )}
+      {showStats && (
+        <StatsPanel t={t} locale={locale} store={profiles} profileId={profile.id} difficultyLabels={difficultyLabels} onClose={() => setShowStats(false)} />
+      )}
       <div className="max-w-6xl w-full bg-white rounded-xl shadow-2xl overflow-hidden flex flex-col md:flex-row">
         
         {/* Sidebar */}
         <div className="w-full md:w-1/3 bg-gray-900 text-white p-6 flex flex-col gap-5">
           <div>
-            <h1 className="text-3xl font-bold text-yellow-500">Caro Nổ</h1>
-            <p className="text-gray-400 text-xs mt-1">Đổi màu quân mỗi 30 lượt</p>
+            <div className="flex items-center justify-between gap-2">
+              <h1 className="flex-1 text-3xl font-bold text-yellow-500">{t('app.title')}</h1>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                title={t('app.language')}
+                className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300"
+              >
+                {LOCALES.map(option => <option key={option} value={option}>{LOCALE_NAMES[option]}</option>)}
+              </select>
+              <button
+                onClick={() => setPreferences({ ...preferences, highContrast: !preferences.highContrast })}
+                aria-pressed={preferences.highContrast}
+                title={t('a11y.highContrast')}
+                aria-label={t('a11y.highContrast')}
+                className={`rounded px-1.5 py-0.5 text-xs border ${preferences.highContrast ? 'bg-white text-black border-white' : 'bg-gray-800 text-gray-300 border-gray-600'}`}
+              >
+                ◐
+              </button>
+              <button
+                onClick={() => setPreferences({ ...preferences, muted: !preferences.muted })}
+                aria-pressed={preferences.muted}
+                title={t(preferences.muted ? 'sound.unmute' : 'sound.mute')}
+                aria-label={t('sound.mute')}
+                className="rounded px-1.5 py-0.5 text-xs border bg-gray-800 text-gray-300 border-gray-600"
+              >
+                {preferences.muted ? '🔇' : '🔊'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={preferences.volume}
+                onChange={(e) => setPreferences({ ...preferences, volume: Number(e.target.value) })}
+                disabled={preferences.muted}
+                title={t('sound.volume')}
+                aria-label={t('sound.volume')}
+                className="w-14 accent-yellow-500 disabled:opacity-40"
+              />
+            </div>
+            <p className="text-gray-400 text-xs mt-1">
+              {game.rules.swapInterval > 0 ? t('app.swapEvery', { count: game.rules.swapInterval }) : t('app.noSwap')}
+            </p>
           </div>
 
+          <ProfilePanel
+            t={t}
+            store={profiles}
+            disabled={gameMode === 'ONLINE' && onlineStatus !== 'IDLE'}
+            onSelect={(id) => setProfiles(store => selectProfile(store, id))}
+            onAdd={(name) => setProfiles(store => addProfile(store, name))}
+            onUpdate={(id, patch) => setProfiles(store => updateProfile(store, id, patch))}
+            onRemove={(id) => setProfiles(store => removeProfile(store, id))}
+            onShowStats={() => setShowStats(true)}
+          />
+
           {/* Scoreboard */}
           <div className="grid grid-cols-2 gap-4">
-              <div className={`p-3 rounded-lg border relative overflow-hidden ${humanColor === currentPlayer ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800'}`}>
+              <div className={`p-3 rounded-lg border relative overflow-hidden ${p1Color === currentPlayer ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800'}`}>
                   <div className="flex justify-between items-start mb-2">
-                      <div className="text-xs text-gray-300 font-bold uppercase">
-                        {gameMode === 'PVE' ? 'Bạn' : (gameMode === 'ONLINE' ? 'P1 (Host)' : 'P1')}
+                      <div className="flex items-center gap-1 min-w-0 text-xs text-gray-300 font-bold uppercase">
+                        {seatPlayers.p1 && <Avatar name={seatPlayers.p1.name} color={seatPlayers.p1.color} size="w-4 h-4 text-[9px]" />}
+                        <span className="truncate">{slotLabel('p1')}</span>
                       </div>
-                      <div className={`w-4 h-4 rounded-full shadow-sm border border-gray-500 ${humanColor === PLAYER_BLACK ? 'stone-black' : 'stone-white'}`} title="Màu quân hiện tại"></div>
+                      <div className={`w-4 h-4 rounded-full shadow-sm border border-gray-500 ${p1Color === PLAYER_BLACK ? 'stone-black' : 'stone-white'}`} title={t('score.color')}></div>
                   </div>
                   <div className="text-4xl font-bold text-white">{scores.p1}</div>
-                  <div className="text-[10px] text-gray-500 mt-1">ĐIỂM</div>
-                  {humanColor === currentPlayer && <div className="absolute bottom-0 left-0 w-full h-1 bg-yellow-500 animate-pulse"></div>}
+                  <div className="text-[10px] text-gray-500 mt-1">{t('score.points')}</div>
+                  <ClockFace side={clockSides.p1} control={clock.controls.p1} isRunning={clock.running === 'p1'} />
+                  {p1Color === currentPlayer && <div className="absolute bottom-0 left-0 w-full h-1 bg-yellow-500 animate-pulse"></div>}
+                  {emoteBubble?.slot === 'p1' && <div className="absolute top-1 right-8 text-2xl animate-bounce">{emoteBubble.emote}</div>}
               </div>
 
-              <div className={`p-3 rounded-lg border relative overflow-hidden ${humanColor !== currentPlayer ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800'}`}>
+              <div className={`p-3 rounded-lg border relative overflow-hidden ${p1Color !== currentPlayer ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800'}`}>
                   <div className="flex justify-between items-start mb-2">
-                       <div className="text-xs text-gray-300 font-bold uppercase">
-                         {gameMode === 'PVE' ? 'Máy' : (gameMode === 'ONLINE' ? 'P2 (Guest)' : 'P2')}
+                       <div className="flex items-center gap-1 min-w-0 text-xs text-gray-300 font-bold uppercase">
+                         {seatPlayers.p2 && <Avatar name={seatPlayers.p2.name} color={seatPlayers.p2.color} size="w-4 h-4 text-[9px]" />}
+                         <span className="truncate">{slotLabel('p2')}</span>
                        </div>
-                       <div className={`w-4 h-4 rounded-full shadow-sm border border-gray-500 ${humanColor === PLAYER_BLACK ? 'stone-white' : 'stone-black'}`} title="Màu quân hiện tại"></div>
+                       <div className={`w-4 h-4 rounded-full shadow-sm border border-gray-500 ${p1Color === PLAYER_BLACK ? 'stone-white' : 'stone-black'}`} title={t('score.color')}></div>
                   </div>
                   <div className="text-4xl font-bold text-white">{scores.p2}</div>
-                  <div className="text-[10px] text-gray-500 mt-1">ĐIỂM</div>
-                   {humanColor !== currentPlayer && <div className="absolute bottom-0 left-0 w-full h-1 bg-yellow-500 animate-pulse"></div>}
+                  <div className="text-[10px] text-gray-500 mt-1">{t('score.points')}</div>
+                  <ClockFace side={clockSides.p2} control={clock.controls.p2} isRunning={clock.running === 'p2'} />
+                   {p1Color !== currentPlayer && <div className="absolute bottom-0 left-0 w-full h-1 bg-yellow-500 animate-pulse"></div>}
+                   {emoteBubble?.slot === 'p2' && <div className="absolute top-1 right-8 text-2xl animate-bounce">{emoteBubble.emote}</div>}
               </div>
           </div>
 
           {/* Game Info */}
            <div className="bg-gray-800 p-3 rounded-lg border border-gray-700">
               <div className="flex justify-between items-center mb-2">
-                  <span className="text-xs uppercase text-gray-500 font-bold">Tổng lượt: {turnCount}</span>
-                  <span className="text-xs text-blue-300">Đổi bên sau: {movesUntilNextSwap}</span>
+                  <span className="text-xs uppercase text-gray-500 font-bold">{t('info.turns', { count: turnCount })}</span>
+                  <span className="text-xs text-blue-300">{t('info.swapIn', { turns: Number.isFinite(movesUntilNextSwap) ? movesUntilNextSwap : '—' })}</span>
               </div>
               <div className="w-full bg-gray-700 rounded-full h-1.5 mb-3">
-                 <div className="bg-blue-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${((turnCount % 30)/30)*100}%` }}></div>
+                 <div className="bg-blue-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${Number.isFinite(movesUntilNextSwap) ? (1 - movesUntilNextSwap / game.rules.swapInterval) * 100 : 0}%` }}></div>
               </div>
               
-              <div className="text-center text-xs font-medium text-gray-400">
-                Bạn đang cầm quân: <span className={`font-bold ${humanColor === PLAYER_BLACK ? 'text-gray-300' : 'text-white'}`}>{humanColor === PLAYER_BLACK ? "VOID (Đi trước)" : "LIGHT (Đi sau)"}</span>
-              </div>
+              {gameMode !== 'AIVAI' && !isSpectating && (
+                <div className="text-center text-xs font-medium text-gray-400">
+                  {t('info.yourColor')} <span className={`font-bold ${humanColor === PLAYER_BLACK ? 'text-gray-300' : 'text-white'}`}>{t(humanColor === PLAYER_BLACK ? 'info.void' : 'info.light')}</span>
+                </div>
+              )}
 
-              {showSwapAlert && !isGameOver && (
+              {showSwapAlert && (!isGameOver || replay) && (
                    <div className="mt-2 p-2 bg-yellow-900/50 border border-yellow-600 rounded text-xs text-yellow-400 text-center font-bold animate-bounce">
-                     ⚠️ ĐÃ ĐỔI BÊN! KIỂM TRA MÀU CỜ!
+                     ⚠️ {t('info.swapped')}
                   </div>
               )}
            </div>
 
+          {activePuzzle && puzzleStatus && (
+            <div className="bg-gray-800 p-3 rounded-lg border border-yellow-700 space-y-2">
+              <div className="flex items-baseline justify-between gap-2">
+                <p className="text-sm font-bold text-yellow-400 truncate">🧩 {activePuzzle.puzzle.title}</p>
+                <span className="text-[10px] text-gray-500 shrink-0">{activePuzzle.pack ? packLabel(activePuzzle.pack) : t('puzzle.draft')}</span>
+              </div>
+              <p className="text-xs font-bold">{renderText(t, describeGoal(activePuzzle.puzzle.goal))}</p>
+              {activePuzzle.puzzle.description && <p className="text-[11px] text-gray-400">{activePuzzle.puzzle.description}</p>}
+              <p className="text-[10px] text-gray-500">
+                {activePuzzle.puzzle.solution ? t('puzzle.scripted') : t('puzzle.aiReplies', { level: difficultyLabels.MASTER })}
+              </p>
+              <p className={`text-xs font-bold text-center ${PUZZLE_STATUS_LABELS[puzzleStatus].color}`}>{t(PUZZLE_STATUS_LABELS[puzzleStatus].label)}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => startPuzzle(activePuzzle.pack, activePuzzle.puzzle)}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 py-1 rounded text-[11px] font-bold"
+                >
+                  ↺ {t('puzzle.retry')}
+                </button>
+                {activePuzzle.pack && activePuzzle.pack.puzzles[activePuzzle.pack.puzzles.length - 1] !== activePuzzle.puzzle && (
+                  <button onClick={nextPuzzle} className="flex-1 bg-gray-700 hover:bg-gray-600 py-1 rounded text-[11px] font-bold">
+                    {t('puzzle.next')} →
+                  </button>
+                )}
+                <button onClick={resetGame} className="flex-1 bg-gray-700 hover:bg-gray-600 py-1 rounded text-[11px] font-bold">
+                  {t('puzzle.quit')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {tournamentGame && tournament && (
+            <div className="flex items-center gap-2 bg-gray-800 p-3 rounded-lg border border-yellow-700 text-xs">
+              <span className="flex-1 min-w-0 truncate">
+                🏆 <span className="font-bold text-yellow-400">{tournament.name || t('tournament.defaultName')}</span> · {t('tournament.round', { round: tournamentGame.round + 1 })}
+                {isGameOver && <span className="text-green-400"> · {t('tournament.recorded')}</span>}
+              </span>
+              <button onClick={() => setShowTournament(true)} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded font-bold shrink-0">
+                {t('tournament.back')}
+              </button>
+            </div>
+          )}
+
+          {setupDraft && (
+            <SetupPanel
+              t={t}
+              position={setupDraft}
+              current={positionOf(shown)}
+              rules={rules}
+              brush={setupBrush}
+              difficulty={difficulty}
+              difficultyLabels={difficultyLabels}
+              onBrush={setSetupBrush}
+              onChange={setSetupDraft}
+              onDifficulty={(level) => { difficultyRef.current = level; setDifficulty(level); }}
+              onStart={playFromSetup}
+              onCancel={() => setSetupDraft(null)}
+            />
+          )}
+
+          {setup && !setupDraft && (
+            <div className="flex items-center gap-2 bg-blue-900/30 border border-blue-800 rounded px-3 py-2 text-[11px] text-blue-200">
+              <span className="flex-1">{t('setup.active')}</span>
+              {!(gameMode === 'ONLINE' && onlineStatus !== 'IDLE') && (
+                <>
+                  <button onClick={() => setSetupDraft(setup)} className="font-bold hover:text-white">{t('setup.edit')}</button>
+                  <button onClick={clearSetup} title={t('setup.discard')} className="font-bold hover:text-white">✕</button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Move History */}
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={() => setPreferences({ ...preferences, showThreats: !preferences.showThreats })}
+              aria-pressed={preferences.showThreats}
+              className={`w-full border py-2 rounded text-xs font-bold ${preferences.showThreats ? 'bg-red-900/60 border-red-700 hover:bg-red-800/60' : 'bg-gray-800 border-gray-700 hover:bg-gray-700'}`}
+            >
+              💥 {t('threat.toggle')}
+            </button>
+            {preferences.showThreats && <p className="text-[10px] text-gray-400">{t('threat.legend')}</p>}
+            {(gameMode === 'PVE' || gameMode === 'PVP') && (
+              <div className="flex gap-2">
+                <button
+                  onClick={undoMove}
+                  disabled={!canUndo(history) || isTimed(clock.controls)}
+                  className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700 disabled:opacity-40"
+                >
+                  ↶ {t('moves.undo')}
+                </button>
+                <button
+                  onClick={redoMove}
+                  disabled={!canRedo(history) || isTimed(clock.controls)}
+                  className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700 disabled:opacity-40"
+                >
+                  {t('moves.redo')} ↷
+                </button>
+              </div>
+            )}
+            {(gameMode === 'PVE' || gameMode === 'PVP') && !isGameOver && !activePuzzle && (
+              <button
+                onClick={requestHint}
+                disabled={isHintLoading || isAiThinking || isViewingPast || (gameMode === 'PVE' && currentPlayer !== humanColor)}
+                className="w-full bg-green-800/60 border border-green-700 py-2 rounded text-xs font-bold hover:bg-green-700/60 disabled:opacity-40"
+              >
+                {isHintLoading ? t('hint.loading') : `💡 ${t('hint.button')}`}
+              </button>
+            )}
+            {isGameOver && !replay && (
+              <button
+                onClick={openReplay}
+                className="w-full bg-blue-800/60 border border-blue-700 py-2 rounded text-xs font-bold hover:bg-blue-700/60"
+              >
+                ▶ {t('replay.open')}
+              </button>
+            )}
+            {replay && (
+              <ReplayPanel
+                t={t}
+                ply={shownPly}
+                total={history.cursor}
+                isPlaying={replay.playing}
+                delayMs={replay.delayMs}
+                players={sharedPlayers && t('replay.players', { p1: displayName(sharedPlayers.p1), p2: displayName(sharedPlayers.p2) })}
+                onSeek={seekReplay}
+                onStep={(delta) => { setReplay({ ...replay, playing: false }); stepReplay(delta); }}
+                onPlay={playReplay}
+                onPause={() => setReplay({ ...replay, playing: false })}
+                onSpeed={(delayMs) => setReplay({ ...replay, delayMs })}
+                onShare={shareReplay}
+                onClose={closeReplay}
+              />
+            )}
+            {isGameOver && analysis === null && (
+              <button
+                onClick={startAnalysis}
+                className="w-full bg-purple-800/60 border border-purple-700 py-2 rounded text-xs font-bold hover:bg-purple-700/60"
+              >
+                📈 {t('analysis.start')}
+              </button>
+            )}
+            {isViewingPast && !replay && (
+              <button
+                onClick={() => setViewPly(null)}
+                className="w-full bg-blue-900/50 border border-blue-700 py-1 rounded text-[11px] text-blue-200 font-bold"
+              >
+                {t('moves.viewing', { ply: shownPly })}
+              </button>
+            )}
+            <MoveList
+              t={t}
+              history={history}
+              selected={shownPly}
+              onSelect={setViewPly}
+              slotLabel={slotLabel}
+            />
+            {analysis && (
+              <AnalysisPanel
+                t={t}
+                analysis={analysis}
+                total={history.cursor}
+                isRunning={isAnalyzing}
+                selected={shownPly}
+                onSelect={setViewPly}
+                slotLabel={slotLabel}
+              />
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={exportGame}
+                disabled={history.cursor === 0}
+                className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700 disabled:opacity-40"
+              >
+                {t('record.export')}
+              </button>
+              {gameMode !== 'ONLINE' && (
+                <label className="flex-1 bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700 text-center cursor-pointer">
+                  {t('record.import')}
+                  <input
+                    type="file"
+                    accept=".txt,.cnr,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) importGame(file);
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+            <button
+              onClick={openSaves}
+              className="w-full bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700"
+            >
+              💾 {activeSaveSlot !== null ? t('saves.buttonActive', { slot: activeSaveSlot }) : t('saves.button')}
+            </button>
+            <button
+              onClick={() => setShowPuzzles(true)}
+              className="w-full bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700"
+            >
+              🧩 {t('puzzle.title')}
+            </button>
+            <button
+              onClick={() => setShowTournament(true)}
+              className="w-full bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700"
+            >
+              🏆 {t('tournament.title')}{tournament && ` — ${tournament.name || t('tournament.defaultName')}`}
+            </button>
+            {!(gameMode === 'ONLINE' && onlineStatus !== 'IDLE') && !setupDraft && (
+              <button
+                onClick={openSetup}
+                className="w-full bg-gray-800 border border-gray-700 py-2 rounded text-xs font-bold hover:bg-gray-700"
+              >
+                ✎ {t('setup.title')}
+              </button>
+            )}
+          </div>
+
           {/* Controls */}
           <div className="flex flex-col gap-3">
             {/* Mode Select */}
             <div className="flex bg-gray-800 rounded-lg p-1">
               <button 
-                onClick={() => { setGameMode('PVE'); resetGame(); if(peer) peer.destroy(); setPeer(null); setOnlineStatus('IDLE'); }}
+                onClick={() => { leaveOnline(); setGameMode('PVE'); setLocalSlot('p1'); resetGame(); }}
                 className={`flex-1 py-2 rounded text-xs font-bold ${gameMode === 'PVE' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
               >
-                Vs Máy
+                {t('mode.PVE')}
               </button>
               <button 
-                onClick={() => { setGameMode('PVP'); resetGame(); if(peer) peer.destroy(); setPeer(null); setOnlineStatus('IDLE'); }}
+                onClick={() => { leaveOnline(); setGameMode('PVP'); setLocalSlot('p1'); resetGame(); }}
                 className={`flex-1 py-2 rounded text-xs font-bold ${gameMode === 'PVP' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
               >
-                2 Người
+                {t('mode.PVP')}
               </button>
                <button 
-                onClick={() => { setGameMode('ONLINE'); setOnlineStatus('IDLE'); }}
+                onClick={() => { cancelAi(); stopWatching(); updateClock(stopClock(clockRef.current, Date.now())); setGameMode('ONLINE'); setOnlineStatus('IDLE'); }}
                 className={`flex-1 py-2 rounded text-xs font-bold ${gameMode === 'ONLINE' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
               >
-                Online
+                {t('mode.ONLINE')}
+              </button>
+              <button
+                onClick={() => { leaveOnline(); setGameMode('AIVAI'); setLocalSlot('p1'); resetGame(); }}
+                className={`flex-1 py-2 rounded text-xs font-bold ${gameMode === 'AIVAI' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {t('mode.AIVAI')}
               </button>
             </div>
 
@@ -677,146 +2456,365 @@ const App = () => {
                 onChange={(e) => { setDifficulty(e.target.value as Difficulty); resetGame(); }}
                 className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
               >
-                <option value="EASY">Dễ (Random)</option>
-                <option value="MEDIUM">Trung Bình</option>
-                <option value="SUPER_STRONG">Siêu Mạnh (Local)</option>
+                {DIFFICULTIES.map(level => <option key={level} value={level}>{difficultyLabels[level]} (Elo {profiles.aiRatings[level]})</option>)}
               </select>
             )}
 
+            {/* PVP Settings: who plays P2 at this screen */}
+            {gameMode === 'PVP' && (
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <span className="font-bold">P2</span>
+                <select
+                  value={p2Profile?.id ?? ''}
+                  onChange={(e) => { setP2ProfileId(e.target.value || null); resetGame(); }}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+                >
+                  <option value="">{t('pvp.unrated')}</option>
+                  {profiles.profiles.filter(p => p.id !== profile.id).map(p => <option key={p.id} value={p.id}>{p.name} ({p.rating})</option>)}
+                </select>
+              </label>
+            )}
+
+            {/* AI vs AI Settings */}
+            {gameMode === 'AIVAI' && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+                {(['p1', 'p2'] as PlayerSlot[]).map(slot => (
+                  <label key={slot} className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="w-14 font-bold">{t(slot === 'p1' ? 'watch.ai1' : 'watch.ai2')}</span>
+                    <select
+                      value={watchPlayers[slot]}
+                      onChange={(e) => setWatchPlayers({ ...watchPlayers, [slot]: e.target.value as Difficulty })}
+                      className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+                    >
+                      {DIFFICULTIES.map(level => <option key={level} value={level}>{difficultyLabels[level]}</option>)}
+                    </select>
+                  </label>
+                ))}
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="w-14 font-bold">{t('watch.speed')}</span>
+                  <select
+                    value={watchDelayMs}
+                    onChange={(e) => setWatchDelayMs(Number(e.target.value))}
+                    className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+                  >
+                    {WATCH_SPEEDS.map(speed => <option key={speed.delayMs} value={speed.delayMs}>{t(speed.label)}</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={isGameOver ? () => { resetGame(); startWatching(); } : isWatching ? pauseWatching : startWatching}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white text-xs py-2 rounded font-bold"
+                >
+                  {isGameOver ? `▶ ${t('watch.newGame')}` : isWatching ? `⏸ ${t('watch.pause')}` : `▶ ${t('watch.play')}`}
+                </button>
+              </div>
+            )}
+
+            <RulesPanel
+              t={t}
+              rules={rules}
+              disabled={(gameMode === 'ONLINE' && onlineStatus !== 'IDLE') || setupDraft !== null}
+              onChange={(next) => { changeSetup(null); changeRules(next); }}
+            />
+
+            <TimeControlPanel
+              t={t}
+              controls={timeControls}
+              disabled={gameMode === 'ONLINE' && onlineStatus !== 'IDLE'}
+              onChange={changeTimeControls}
+              slotLabel={slotLabel}
+            />
+
              {/* Online Settings */}
             {gameMode === 'ONLINE' && (
                 <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
                    {onlineStatus === 'IDLE' && (
-                       <div className="flex gap-2">
-                           <button onClick={() => initOnlineGame(true)} className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs py-2 rounded font-bold">Tạo Phòng</button>
-                           <div className="flex-1 flex gap-1">
-                                <input 
-                                    type="text" 
-                                    placeholder="Nhập ID"
-                                    value={connectToId}
-                                    onChange={(e) => setConnectToId(e.target.value)}
-                                    className="w-full bg-gray-900 border border-gray-600 rounded px-2 text-xs text-white"
-                                />
-                                <button onClick={() => { const p = new Peer(); setPeer(p); p.on('open', ()=>joinOnlineGame()); }} className="bg-blue-600 px-2 rounded text-white text-xs font-bold">Vào</button>
-                           </div>
-                       </div>
+                       <p className="text-[10px] text-gray-500">{t('online.transport', { transport: t(TRANSPORT_LABELS[TRANSPORT_CONFIG.kind]) })}</p>
+                   )}
+
+                   {onlineStatus === 'IDLE' && (
+                       <LobbyPanel
+                           t={t}
+                           status={lobbyStatus}
+                           rooms={lobbyRooms}
+                           name={profile.name}
+                           transport={TRANSPORT_CONFIG.kind}
+                           onNameChange={(name) => setProfiles(store => updateProfile(store, store.activeId, { name }))}
+                           onCreate={createRoom}
+                           onQuickMatch={quickMatch}
+                           onJoin={joinFromLobby}
+                           onJoinById={(id) => joinRoom(id)}
+                           onWatchById={(id) => joinRoom(id, 'spectator')}
+                       />
                    )}
 
-                   {onlineStatus === 'WAITING' && (
+                   {onlineStatus === 'WAITING' && netRole === 'host' && (
                        <div className="text-center">
-                           <p className="text-xs text-gray-400 mb-1">Mã phòng của bạn:</p>
+                           <p className="text-xs text-gray-400 mb-1">{t('online.yourRoom')}</p>
                            <div className="flex gap-2 items-center justify-center bg-black/30 p-2 rounded mb-2">
-                               <code className="text-yellow-400 font-mono text-sm">{myPeerId}</code>
+                               <code className="text-yellow-400 font-mono text-sm">{roomId}</code>
                                <button 
-                                onClick={() => { navigator.clipboard.writeText(window.location.origin + '?join=' + myPeerId); alert('Đã copy link! Gửi cho bạn bè nhé.'); }}
+                                onClick={() => copyLink(t, `${window.location.origin}${pageUrl('join', roomId)}`, 'online.linkCopied')}
                                 className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-white"
                                >
-                                   Copy Link
+                                   {t('online.copyLink')}
+                               </button>
+                               <button
+                                onClick={() => copyLink(t, watchLink, 'online.watchLinkCopiedHint')}
+                                className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-white"
+                               >
+                                   {t('online.watchLink')}
                                </button>
                            </div>
-                           <p className="text-xs text-gray-500 animate-pulse">Đang đợi đối thủ...</p>
+                           {listing && (
+                               <p className="text-[10px] text-gray-400 mb-1">
+                                   {lobbyStatus !== 'ONLINE' ? t('online.lobbyOffline') : listing.password ? `🔒 ${t('online.listedPrivate')}` : t('online.listed')}
+                               </p>
+                           )}
+                           <p className="text-xs text-gray-500 animate-pulse">{t('online.waiting')}</p>
+                       </div>
+                   )}
+
+                   {onlineStatus === 'WAITING' && netRole === 'guest' && (
+                       <p className="text-xs text-gray-400 text-center animate-pulse">{t('online.joining', { room: roomId })}</p>
+                   )}
+
+                   {onlineStatus === 'RECONNECTING' && (
+                       <div className="bg-yellow-900/30 border border-yellow-700 p-2 rounded text-center">
+                           <p className="text-yellow-400 text-xs font-bold animate-pulse">🟡 {t('online.reconnecting')}</p>
+                           {graceDeadline !== null && (
+                               <p className="text-[10px] text-gray-400 mt-1">
+                                   {t('online.graceLeft', { count: Math.max(0, Math.ceil((graceDeadline - now) / 1000)) })}
+                               </p>
+                           )}
+                           <p className="text-[10px] text-gray-500">{t('online.roomCode', { room: roomId })}</p>
+                       </div>
+                   )}
+
+                   {netNotice && (
+                       <div className="bg-red-900/40 border border-red-700 p-2 rounded flex gap-2 items-start">
+                           <p className="flex-1 text-[11px] text-red-300">⚠️ {renderText(t, netNotice)}</p>
+                           <button onClick={() => setNetNotice(null)} className="text-[11px] text-red-300 hover:text-white">✕</button>
                        </div>
                    )}
 
                    {onlineStatus === 'CONNECTED' && (
                        <div className="bg-green-900/30 border border-green-800 p-2 rounded text-center">
-                           <p className="text-green-400 text-xs font-bold">🟢 Đã kết nối!</p>
-                           <p className="text-[10px] text-gray-400 mt-1">Bạn là: {onlinePlayerColor === PLAYER_BLACK ? 'P1 (Host)' : 'P2 (Guest)'}</p>
-                           <p className="text-[10px] text-gray-500">Mã phòng: {myPeerId || connectToId}</p>
+                           <p className="text-green-400 text-xs font-bold">{isSpectating ? `👁 ${t('online.watching')}` : `🟢 ${t('online.connected')}`}</p>
+                           {isSpectating ? (
+                               <p className="text-[10px] text-gray-300 mt-1">{slotLabel('p1')} vs {slotLabel('p2')}</p>
+                           ) : (
+                               <p className="text-[10px] text-gray-400 mt-1">{t('online.youAre', { slot: localSlot.toUpperCase(), role: text(netRole === 'host' ? 'online.host' : 'online.guest') })}</p>
+                           )}
+                           <p className="text-[10px] text-gray-500">{t('online.roomCode', { room: roomId })}</p>
+                           <p className="text-[10px] text-gray-400">👁 {t('online.spectators', { count: spectatorCount })}</p>
+                           {netRole === 'host' && (
+                               <button
+                                onClick={() => copyLink(t, watchLink, 'online.watchLinkCopied')}
+                                className="mt-1 text-[10px] bg-gray-700 hover:bg-gray-600 px-2 py-0.5 rounded text-white"
+                               >
+                                   {t('online.copyWatchLink')}
+                               </button>
+                           )}
                        </div>
                    )}
+
+                   {onlineStatus === 'CONNECTED' && !isSpectating && (
+                       <OfferPanel
+                           t={t}
+                           mine={offers.mine}
+                           theirs={offers.theirs}
+                           canOffer={{
+                               DRAW: !offers.mine && !isGameOver,
+                               TAKEBACK: !offers.mine && !isGameOver && hasPlayed(history, localSlot),
+                               REMATCH: !offers.mine && isGameOver,
+                           }}
+                           canResign={!isGameOver}
+                           onOffer={makeOffer}
+                           onAnswer={answerOffer}
+                           onResign={resign}
+                       />
+                   )}
+
+                   {(onlineStatus === 'CONNECTED' || onlineStatus === 'RECONNECTING') && !isSpectating && (
+                       <ChatPanel t={t} lines={chat} disabled={onlineStatus !== 'CONNECTED'} onSend={sendChat} onEmote={sendEmote} />
+                   )}
                 </div>
             )}
           </div>
 
           {/* Rules */}
           <div className="bg-yellow-900/20 p-3 rounded border border-yellow-900/50 text-[10px] text-yellow-100/80 space-y-1">
-            <p className="uppercase font-bold text-yellow-500">Cách chơi:</p>
+            <p className="uppercase font-bold text-yellow-500">{t('howto.title')}</p>
             <ul className="list-disc pl-3 space-y-1">
-                <li>Tạo hàng &ge; 5 &rarr; <strong>ĐỐI THỦ nhận điểm = số quân</strong> và xóa cờ.</li>
-                <li>Đổi màu cờ mỗi 30 lượt (icon ở bảng điểm).</li>
-                <li>Hơn 100 điểm và đạt 200 điểm &rarr; THẮNG LUÔN.</li>
-                <li>Hòa điểm &rarr; ai nhiều quân hơn bị TRỪ điểm.</li>
+                <li>
+                  {t('howto.line', { length: game.rules.exactLength ? t('howto.exactly', { count: game.rules.lineLength }) : `≥ ${game.rules.lineLength}` })} &rarr; <strong>{t('howto.opponentScores')}</strong> {t('howto.cleared')}
+                </li>
+                {game.rules.swapInterval > 0 && <li>{t('howto.swap', { count: game.rules.swapInterval })}</li>}
+                <li>{t('howto.knockout', { margin: game.rules.knockoutMargin, score: game.rules.knockoutScore })}</li>
+                <li>{t('howto.tiebreak')}</li>
             </ul>
           </div>
           
-          <button onClick={resetGame} className="mt-auto w-full bg-gray-700 py-3 rounded font-bold hover:bg-gray-600">Chơi Lại</button>
+          {/* Online, new games go through the rematch offer instead */}
+          {(gameMode !== 'ONLINE' || onlineStatus === 'IDLE') && (
+            <button
+              onClick={newGame}
+              className="mt-auto w-full bg-gray-700 py-3 rounded font-bold hover:bg-gray-600"
+            >
+              {t('game.restart')}
+            </button>
+          )}
         </div>
 
         {/* Game Board Area */}
         <div className="w-full md:w-2/3 bg-[#eecfa1] p-2 md:p-8 flex items-center justify-center wood-texture relative">
           
           {/* Final Result Modal */}
-          {isGameOver && finalResult && (
+          {isGameOver && finalResult && !isViewingPast && !replay && analysis === null && !activePuzzle && !setupDraft && (
             <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 p-4">
                 <div className="bg-white text-gray-900 p-8 rounded-2xl shadow-2xl text-center max-w-md w-full border-4 border-yellow-500">
-                    <h2 className="text-3xl font-black mb-4 text-yellow-600">KẾT THÚC!</h2>
+                    <h2 className="text-3xl font-black mb-4 text-yellow-600">{t('result.title')}</h2>
                     <div className="flex justify-center gap-8 mb-6 text-lg font-bold">
                         <div className="flex flex-col items-center">
-                            <span>{gameMode === 'PVE' ? 'BẠN' : 'P1'}</span>
+                            <span>{slotLabel('p1')}</span>
                             <span className="text-3xl">{scores.p1}</span>
                         </div>
                         <div className="flex flex-col items-center">
-                            <span>{gameMode === 'PVE' ? 'MÁY' : 'P2'}</span>
+                            <span>{slotLabel('p2')}</span>
                             <span className="text-3xl">{scores.p2}</span>
                         </div>
                     </div>
                     <div className="bg-gray-100 p-4 rounded-lg mb-6">
-                        <div className="text-gray-500 text-sm uppercase tracking-wider font-bold mb-1">Người Thắng</div>
+                        <div className="text-gray-500 text-sm uppercase tracking-wider font-bold mb-1">{t('result.winner')}</div>
                         <div className="text-2xl font-black text-blue-600">{finalResult.winner}</div>
                         <div className="text-sm text-gray-600 mt-2 italic">{finalResult.reason}</div>
                     </div>
-                    <button onClick={resetGame} className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold shadow-lg hover:bg-blue-700 transition">
-                        Ván Mới
+                    {isSpectating ? (
+                        <button onClick={startAnalysis} className="w-full bg-gray-200 text-gray-800 py-3 rounded-lg font-bold hover:bg-gray-300 transition">
+                            {t('result.analyse')}
+                        </button>
+                    ) : offers.theirs?.kind === 'REMATCH' ? (
+                        <div className="space-y-2">
+                            <p className="text-sm font-bold text-blue-700">{t('result.rematchOffered')}</p>
+                            <div className="flex gap-3">
+                                <button onClick={() => answerOffer(false)} className="flex-1 bg-gray-200 text-gray-800 py-3 rounded-lg font-bold hover:bg-gray-300 transition">
+                                    {t('offer.decline')}
+                                </button>
+                                <button onClick={() => answerOffer(true)} className="flex-1 bg-green-600 text-white py-3 rounded-lg font-bold shadow-lg hover:bg-green-700 transition">
+                                    {t('offer.accept')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex gap-3">
+                            <button onClick={startAnalysis} className="flex-1 bg-gray-200 text-gray-800 py-3 rounded-lg font-bold hover:bg-gray-300 transition">
+                                {t('result.analyse')}
+                            </button>
+                            <button
+                                onClick={newGame}
+                                disabled={gameMode === 'ONLINE' && (onlineStatus !== 'CONNECTED' || offers.mine !== null)}
+                                className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-bold shadow-lg hover:bg-blue-700 transition disabled:opacity-40"
+                            >
+                                {gameMode !== 'ONLINE' ? t('result.newGame') : offers.mine ? t('result.waiting') : t('offer.button.REMATCH')}
+                            </button>
+                        </div>
+                    )}
+                    <button onClick={openReplay} className="mt-4 text-sm font-bold text-blue-700 hover:underline">
+                        ▶ {t('replay.open')}
                     </button>
                 </div>
             </div>
           )}
 
           {/* Grid */}
-          <div 
-            className="grid gap-0 border-2 border-black bg-[#eecfa1] shadow-xl relative"
+          <div
+            ref={gridRef}
+            role="grid"
+            aria-label={t('board.label', { size: board.length })}
+            onKeyDown={handleBoardKey}
+            className="board grid gap-0 border-2 border-black bg-[#eecfa1] shadow-xl relative"
             style={{ 
-              gridTemplateColumns: `repeat(${BOARD_SIZE}, minmax(0, 1fr))`,
+              gridTemplateColumns: `repeat(${board.length}, minmax(0, 1fr))`,
               width: '100%',
               maxWidth: '550px',
               aspectRatio: '1/1'
             }}
           >
             {board.map((row, r) => (
-              row.map((cell, c) => {
+              <div key={r} role="row" className="contents">
+              {row.map((cell, c) => {
                 const isRemoving = removedStones.some(s => s.r === r && s.c === c);
                 const isLastMove = lastMove?.r === r && lastMove?.c === c;
                 const isHovered = hoveredCell?.r === r && hoveredCell?.c === c;
+                const isHint = hintCell?.r === r && hintCell?.c === c;
+                const isCursor = boardCursor.r === r && boardCursor.c === c;
+                const cellThreats = threats.filter(threat => threat.r === r && threat.c === c);
+                // A line the side to move would explode here: points handed to the opponent.
+                const moverThreat = cellThreats.find(threat => threat.color === currentPlayer);
+                const threatLabels = cellThreats.map(threat =>
+                  t('threat.cell', { color: colorName(threat.color), count: threat.stones, slot: slotLabel(threat.receiver) }));
+                const cellLabel = [
+                  cell === EMPTY
+                    ? t('board.emptyCell', { cell: formatCell({ r, c }) })
+                    : t('board.stoneCell', { cell: formatCell({ r, c }), color: colorName(cell) }),
+                  ...threatLabels,
+                ].join(', ');
                 
                 // Allow move if:
                 // 1. Cell is empty
                 // 2. Not game over
                 // 3. Not AI thinking
                 // 4. PVP OR (PVE and my turn) OR (ONLINE and my turn AND I am allowed to move)
-                let canMove = cell === EMPTY && !isGameOver && !isAiThinking;
+                // 5. Not watching AI vs AI
+                let canMove = cell === EMPTY && !setupDraft && !isGameOver && !isAiThinking && !isViewingPast && gameMode !== 'AIVAI' && (!puzzleStatus || puzzleStatus === 'SOLVING');
                 
                 if (canMove) {
                     if (gameMode === 'PVE') {
                         if (currentPlayer !== humanColor) canMove = false;
                     } else if (gameMode === 'ONLINE') {
-                        if (currentPlayer !== humanColor) canMove = false;
+                        if (isSpectating || currentPlayer !== humanColor) canMove = false;
                     }
                 }
 
                 return (
                   <div 
                     key={`${r}-${c}`}
+                    role="gridcell"
+                    data-cell={`${r}-${c}`}
+                    tabIndex={isCursor ? 0 : -1}
+                    aria-label={isLastMove ? `${cellLabel}, ${t('board.lastMove')}` : cellLabel}
+                    aria-disabled={!canMove && !setupDraft}
                     onClick={() => handleCellClick(r, c)}
+                    onFocus={() => { setCursor({ r, c }); setHoveredCell({ r, c }); }}
                     onMouseEnter={() => canMove ? setHoveredCell({r, c}) : null}
                     onMouseLeave={() => setHoveredCell(null)}
                     className={`
                       relative border-[0.5px] border-black/20 
                       flex items-center justify-center
                       cursor-pointer hover:bg-black/10
-                      ${isRemoving ? 'bg-red-500/50 z-10' : ''}
+                      focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-600 focus-visible:z-20
+                      ${isRemoving ? 'bg-red-500/50 z-10' : moverThreat ? 'bg-red-500/25' : cellThreats.length > 0 ? 'bg-amber-400/25' : ''}
                     `}
                   >
+                    {/* Threat overlay: stones that would explode and who would score them */}
+                    {cellThreats.map((threat, i) => (
+                        <span
+                            key={threat.color}
+                            title={threatLabels[i]}
+                            className={`
+                                absolute z-10 px-0.5 rounded text-[8px] leading-none font-bold pointer-events-none
+                                ${threat.color === PLAYER_BLACK ? 'top-0 left-0 bg-black text-white' : 'bottom-0 right-0 bg-white text-black border border-black/40'}
+                            `}
+                        >
+                            {threat.stones}→{threat.receiver.toUpperCase()}
+                        </span>
+                    ))}
+
+                    {/* Hint / better move from the analysis */}
+                    {isHint && (
+                        <div className="absolute inset-0 m-auto w-[70%] h-[70%] rounded-full border-4 border-green-500 animate-pulse z-10 pointer-events-none"></div>
+                    )}
+
                     {/* Ghost Stone */}
                     {isHovered && canMove && !isRemoving && (
                         <div 
@@ -824,9 +2822,15 @@ const App = () => {
                                 absolute inset-0 m-auto
                                 w-[60%] h-[60%] rounded-full opacity-50 box-border
                                 ${currentPlayer === PLAYER_BLACK ? 'stone-black' : 'stone-white border-2 border-black/30'}
+                                ${moverThreat ? 'ring-4 ring-red-600 opacity-80' : ''}
                             `}
                         ></div>
                     )}
+                    {isHovered && canMove && !isRemoving && moverThreat && (
+                        <div className="absolute -top-5 left-1/2 -translate-x-1/2 z-30 whitespace-nowrap bg-red-600 text-white text-[10px] font-bold px-1 rounded pointer-events-none">
+                            💥 {moverThreat.stones} → {slotLabel(moverThreat.receiver)}
+                        </div>
+                    )}
 
                     {cell !== EMPTY && !isRemoving && (
                       <div 
@@ -848,7 +2852,8 @@ const App = () => {
                     )}
                   </div>
                 );
-              })
+              })}
+              </div>
             ))}
           </div>
         </div>
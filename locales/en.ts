@@ -0,0 +1,530 @@
+import type { Catalog } from '../engine/i18n';
+
+export const en: Catalog = {
+  'move.gameOver': 'The game is over',
+  'move.offBoard': 'Move off the board ({r}, {c})',
+  'move.occupied': 'Cell ({r}, {c}) is already taken',
+
+  'position.size': 'The board must be {size}×{size}',
+  'position.badCell': 'The board has an invalid cell',
+  'position.badColor': 'Invalid stone color',
+  'position.badNumbers': 'Scores and turns must be non-negative whole numbers',
+  'position.unexploded': 'The line through {cell} is long enough to explode but is still on the board',
+  'position.knockedOut': 'The score is already a knockout, the game is over',
+  'position.full': 'The board has no empty cells',
+
+  'puzzle.goal.gain': { one: 'Make the opponent explode at least {points} stones in {count} move', other: 'Make the opponent explode at least {points} stones in {count} moves' },
+  'puzzle.goal.safe': { one: 'Play {count} move without exploding your own stones', other: 'Play {count} moves without exploding your own stones' },
+  'puzzle.goal.win': { one: 'Win the game in {count} move', other: 'Win the game in {count} moves' },
+  'puzzle.error.positiveInt': '{what} must be a positive whole number',
+  'puzzle.error.color': '{what} must be "X" or "O"',
+  'puzzle.field.goalMoves': 'The goal\'s move count',
+  'puzzle.field.goalPoints': 'The goal\'s points',
+  'puzzle.field.toMove': 'The side to move',
+  'puzzle.field.p1Color': 'P1\'s color',
+  'puzzle.error.goalType': 'Invalid goal type: "{type}"',
+  'puzzle.error.noBoard': 'The board is missing',
+  'puzzle.error.rowLength': 'Row {row} must have exactly {size} cells',
+  'puzzle.error.mark': 'Row {row}: invalid mark "{mark}"',
+  'puzzle.error.invalid': 'Invalid puzzle',
+  'puzzle.error.noId': 'The puzzle has no id',
+  'puzzle.error.inPuzzle': 'Puzzle "{id}": {reason}',
+  'puzzle.error.boardSize': 'A {size}×{size} board is out of range',
+  'puzzle.error.turn': 'The turn count must be a non-negative whole number',
+  'puzzle.error.solutionList': 'The solution must be a list of moves',
+  'puzzle.error.solutionMove': 'Invalid move "{move}"',
+  'puzzle.error.unsolved': 'The solution does not reach the goal',
+  'puzzle.error.illegalMove': 'The solution plays {cell}: {reason}',
+  'puzzle.error.format': 'Not a Caro Nổ puzzle pack',
+  'puzzle.error.version': 'Unsupported puzzle pack version: {version}',
+  'puzzle.error.noName': 'The puzzle pack has no name',
+  'puzzle.error.empty': 'The puzzle pack has no puzzles',
+  'puzzle.error.duplicateId': 'Duplicate puzzle id "{id}"',
+  'puzzle.title': 'Puzzles',
+  'puzzle.exportPack': 'Export the puzzle pack',
+  'puzzle.export': 'Export',
+  'puzzle.confirmRemove': 'Delete the puzzle pack "{name}"?',
+  'puzzle.removePack': 'Delete the puzzle pack',
+  'puzzle.attempts': { one: '{count} attempt', other: '{count} attempts' },
+  'puzzle.solve': 'Solve',
+  'puzzle.import': 'Import a puzzle pack',
+  'puzzle.createFromBoard': 'Create from the current position',
+  'puzzle.myPack': 'My puzzles',
+  'puzzle.status.SOLVING': 'Solving',
+  'puzzle.status.SOLVED': '✓ Solved!',
+  'puzzle.status.FAILED': '✗ Goal not reached',
+  'puzzle.error.builtIn': 'The pack "{name}" is built in',
+  'puzzle.importFailed': 'Could not import the puzzle pack: {reason}',
+  'puzzle.draft': 'Draft',
+  'puzzle.scripted': 'Follow the solution; the opponent answers along it.',
+  'puzzle.aiReplies': 'The AI ({level}) plays the opponent.',
+  'puzzle.retry': 'Retry',
+  'puzzle.next': 'Next',
+  'puzzle.quit': 'Quit',
+
+  'file.notJson': 'The file is not JSON',
+
+  'record.error.boolean': 'Tag {tag} must be true or false',
+  'record.error.number': 'Tag {tag} is not a number: "{value}"',
+  'record.error.ruleRange': 'Rule value {tag} = {value} is out of range',
+  'record.error.position': 'Unreadable Position tag: "{value}"',
+  'record.error.start': 'Invalid starting position: {reason}',
+  'record.error.tag': 'Line {line}: invalid tag "{tag}"',
+  'record.error.empty': 'The record is empty',
+  'record.error.mode': 'Invalid game mode: "{mode}"',
+  'record.error.difficulty': 'Invalid difficulty: "{difficulty}"',
+  'record.error.afterResult': 'Text after the game result: "{token}"',
+  'record.error.leadingComment': 'Comment before the first move: "{token}"',
+  'record.error.numbering': 'Wrong move number: "{token}" (expected {expected}.)',
+  'record.error.cell': 'Move {ply}: unreadable coordinate "{token}"',
+  'record.error.illegalMove': 'Move {ply} ({cell}) is illegal: {reason}',
+  'record.noEvents': 'no events',
+  'record.error.annotation': 'Move {ply} ({cell}): comment {declared} does not match, actual: {actual}',
+  'record.error.noWinner': 'A game ended by {reason} must have a winner',
+  'record.error.termination': 'Result "{result}" contradicts termination {reason}',
+  'record.error.terminationMismatch': 'Declared termination "{declared}" does not match the game ({actual})',
+  'record.error.result': 'Declared result "{declared}" does not match the game ({actual})',
+  'record.error.score': 'Declared score "{declared}" does not match the game ({actual})',
+  'record.importFailed': 'Could not import the record: {reason}',
+  'record.export': 'Export record',
+  'record.import': 'Import record',
+
+  'net.role.host': 'The host',
+  'net.role.guest': 'The guest',
+  'net.role.spectator': 'A spectator',
+  'net.error': 'Connection error: {detail}',
+  'net.roomNotFound': 'Room "{id}" not found',
+  'net.spectatorLost': 'Lost the connection to the room you were watching.',
+  'net.guestAbandoned': 'The guest did not come back; the game is over.',
+  'net.hostAbandoned': 'The host did not come back; the game is over.',
+  'net.spectatorsFull': 'The room has no more spectator places',
+  'net.roomFull': 'The room is full',
+  'net.rejected': 'Rejected a message from your opponent: {reason}',
+  'net.applyFailed': 'the message could not be applied',
+  'net.theyRejected': 'Your opponent rejected a message: {reason}',
+  'net.diverged': 'The two boards differ, resyncing…',
+  'net.resynced': 'The board was resynced with the host\'s.',
+  'net.beforeHandshake': 'Received {type} before the handshake finished',
+  'net.alreadyJoined': 'Already in the room',
+  'net.wrongSlot': 'The guest took the wrong side',
+  'net.wrongPly': 'A move for turn {ply}, but the game is at turn {current}',
+  'net.outOfTurn': 'Your opponent moved out of turn',
+
+  'protocol.error.noRules': 'The rules are missing',
+  'protocol.error.rules': 'Invalid rules',
+  'protocol.error.noTimeControls': 'The time controls are missing',
+  'protocol.error.start': 'Invalid starting position',
+  'protocol.error.result': 'Invalid game result',
+  'protocol.error.noClock': 'The clock state is missing',
+  'protocol.error.clock': 'Invalid clock state',
+  'protocol.error.offer': 'Invalid offer',
+  'protocol.error.shape': 'Malformed message',
+  'protocol.error.noSeq': 'The message has no sequence number',
+  'protocol.error.token': 'Invalid player token',
+  'protocol.error.roomInfo': 'Invalid room info',
+  'protocol.error.noGuestSlot': 'The color assignment is missing',
+  'protocol.error.move': 'Malformed move',
+  'protocol.error.flag': 'Invalid timeout claim',
+  'protocol.error.hash': 'Invalid state hash',
+  'protocol.error.noAnswer': 'The answer is missing',
+  'protocol.error.emptyChat': 'Empty message',
+  'protocol.error.emote': 'Invalid emote',
+  'protocol.error.moves': 'Invalid move list',
+  'protocol.error.version': 'Protocol version mismatch (opponent: {theirs}, this device: {ours})',
+  'protocol.error.type': 'Unknown message type: "{type}"',
+  'protocol.error.sender': '{role} may not send {type}',
+  'protocol.error.order': 'Message #{seq} is repeated or out of order',
+  'protocol.error.missed': { one: 'Lost {count} message before #{seq}', other: 'Lost {count} messages before #{seq}' },
+  'protocol.error.syncMove': 'Synced move {ply} is illegal: {reason}',
+
+  'tournament.error.tooFew': 'At least 2 entrants are needed',
+  'tournament.error.duplicateId': 'Duplicate entrant id',
+  'tournament.error.rounds': 'The number of rounds must be between 1 and {max}',
+  'tournament.error.noGame': 'No such game in the tournament',
+  'tournament.error.entrant': 'Invalid entrant',
+  'tournament.error.difficulty': 'Invalid AI level: {name}',
+  'tournament.error.kind': 'Invalid entrant kind: {name}',
+  'tournament.error.result': 'Invalid game result',
+  'tournament.error.scores': 'Invalid game score',
+  'tournament.error.format': 'Not a tournament file',
+  'tournament.error.version': 'Unsupported tournament file version: {version}',
+  'tournament.error.system': 'Invalid pairing system',
+  'tournament.error.missing': 'The tournament file is incomplete',
+  'tournament.error.entrants': 'Invalid entrant list',
+  'tournament.error.round': 'Invalid round',
+  'tournament.error.stranger': 'A pairing has someone who is not an entrant',
+  'tournament.error.totalRounds': 'Invalid number of rounds',
+  'tournament.csv.rank': 'Rank',
+  'tournament.csv.name': 'Name',
+  'tournament.csv.kind': 'Kind',
+  'tournament.csv.played': 'Games',
+  'tournament.csv.wins': 'Wins',
+  'tournament.csv.draws': 'Draws',
+  'tournament.csv.losses': 'Losses',
+  'tournament.csv.points': 'Points',
+  'tournament.csv.margin': 'Margin',
+  'tournament.csv.human': 'Human',
+  'tournament.system.ROUND_ROBIN': 'Round robin',
+  'tournament.system.SWISS': 'Swiss',
+  'tournament.aiName': 'AI {level}',
+  'tournament.namePlaceholder': 'Tournament name',
+  'tournament.rounds': 'Rounds',
+  'tournament.entrants': 'Entrants ({count})',
+  'tournament.addProfile': 'Profile…',
+  'tournament.addAi': 'AI…',
+  'tournament.guestPlaceholder': 'Player without a profile',
+  'tournament.formNote': 'Games use the selected rules and time. Games of players with a profile count towards Elo.',
+  'tournament.start': 'Start the tournament',
+  'tournament.import': 'Import a tournament (JSON)',
+  'tournament.defaultName': 'Tournament',
+  'tournament.new': 'New tournament',
+  'tournament.summary': { one: '{system} · {count} entrant · round {round}/{total}', other: '{system} · {count} entrants · round {round}/{total}' },
+  'tournament.finished': 'Finished',
+  'tournament.round': 'Round {round}',
+  'tournament.bye': '{name} has a bye (+1)',
+  'tournament.play': 'Play',
+  'tournament.standings': 'Standings',
+  'tournament.buchholzHint': 'Total points of the opponents met',
+  'tournament.marginHint': 'Score margin over the games',
+  'tournament.crosstable': 'Crosstable',
+  'tournament.exportJson': 'Export JSON',
+  'tournament.exportCsv': 'Export CSV',
+  'tournament.confirmDiscard': 'Discard the tournament "{name}"? Results not exported will be lost.',
+  'tournament.discard': 'Discard',
+  'tournament.importFailed': 'Could not import the tournament: {reason}',
+  'tournament.recorded': 'Result recorded',
+  'tournament.back': 'Back to the tournament',
+  'tournament.title': 'Tournament',
+
+  'clock.preset.NONE': 'Unlimited',
+  'clock.preset.SD_5': '5 minutes',
+  'clock.preset.SD_10': '10 minutes',
+  'clock.preset.FISCHER_3_2': '3 min + 2 s/move',
+  'clock.preset.FISCHER_5_5': '5 min + 5 s/move',
+  'clock.preset.BYO_5_3X30': '5 min + 3×30 s',
+  'clock.preset.BYO_1_5X10': '1 min + 5×10 s',
+
+  'rules.preset.STANDARD': 'Standard (15×15)',
+  'rules.preset.LONG': 'Long game (19×19)',
+  'rules.preset.EXACT_FIVE': 'Exactly five explodes',
+  'rules.preset.FAST_SWAP': 'Swap every 10 turns',
+  'rules.field.boardSize': 'Board size',
+  'rules.field.lineLength': 'Exploding line length',
+  'rules.field.swapInterval': 'Swap every (0 = never)',
+  'rules.field.knockoutScore': 'Knockout score',
+  'rules.field.knockoutMargin': 'Minimum lead',
+  'rules.field.exactLength': 'Only exact length explodes',
+  'rules.title': 'Rules',
+  'rules.custom': 'Custom',
+
+  'offer.DRAW': 'draw offer',
+  'offer.TAKEBACK': 'takeback request',
+  'offer.REMATCH': 'rematch invitation',
+  'offer.theirs': 'Your opponent sent a {offer}',
+  'offer.waiting': 'You sent a {offer}, waiting for an answer…',
+  'offer.accept': 'Accept',
+  'offer.decline': 'Decline',
+  'offer.button.DRAW': 'Offer draw',
+  'offer.button.TAKEBACK': 'Take back',
+  'offer.button.resign': 'Resign',
+  'offer.button.REMATCH': 'Rematch',
+  'offer.sent': 'You sent a {offer}.',
+  'offer.accepted': 'You accepted the {offer}.',
+  'offer.declined': 'You declined the {offer}.',
+  'offer.received': 'Your opponent sent a {offer}.',
+  'offer.theyAccepted': 'Your opponent accepted the {offer}.',
+  'offer.theyDeclined': 'Your opponent declined the {offer}.',
+  'offer.confirmResign': 'Are you sure you want to resign?',
+
+  'chat.title': 'Chat',
+  'chat.empty': 'No messages yet',
+  'chat.me': 'You',
+  'chat.opponent': 'Opponent',
+  'chat.placeholder': 'Message your opponent…',
+  'chat.send': 'Send',
+  'chat.newGameYouFirst': 'New game: you move first (VOID).',
+  'chat.newGameTheyFirst': 'New game: your opponent moves first (VOID).',
+
+  'analysis.verdict.BEST': 'Best',
+  'analysis.verdict.GOOD': 'Good',
+  'analysis.verdict.INACCURACY': 'Inaccuracy',
+  'analysis.verdict.MISTAKE': 'Mistake',
+  'analysis.verdict.BLUNDER': 'Blunder',
+  'analysis.title': 'Game analysis',
+  'analysis.clean': 'No significant mistakes.',
+  'analysis.allowsForced': 'lets the opponent force an explosion',
+  'analysis.best': 'best was {cell}',
+  'analysis.start': 'Analyse the game',
+
+  'moves.swap': 'swap',
+  'moves.title': 'Move history',
+  'moves.start': 'Start',
+  'moves.undo': 'Undo',
+  'moves.redo': 'Redo',
+  'moves.viewing': 'Viewing move {ply} — back to now',
+
+  'lobby.status.CONNECTING': '🟡 Connecting to the lobby…',
+  'lobby.status.ONLINE': '🟢 Lobby',
+  'lobby.status.OFFLINE': '🔴 Cannot reach the lobby',
+  'lobby.customRules': 'Custom ({size}×{size}, {length} explodes)',
+  'lobby.customRulesExact': 'Custom ({size}×{size}, exactly {length} explodes)',
+  'lobby.customTime': 'Custom',
+  'lobby.roomCount': { one: '{count} room waiting', other: '{count} rooms waiting' },
+  'lobby.yourName': 'Your name',
+  'lobby.quickMatchHint': 'Join a waiting room with the same rules and time, or open a new one if there is none',
+  'lobby.quickMatch': 'Quick Match',
+  'lobby.passwordOptional': 'Password (optional)',
+  'lobby.create': 'Create Room',
+  'lobby.noRooms': 'No rooms yet, create one!',
+  'lobby.offlineRooms': 'Rooms will show once the lobby is reachable.',
+  'lobby.otherTransport': 'This room uses the {transport} connection',
+  'lobby.join': 'Join',
+  'lobby.roomPassword': 'Room password',
+  'lobby.roomCode': 'Enter a room code',
+  'lobby.watchHint': 'Watch without playing',
+  'lobby.watch': 'Watch',
+  'lobby.error.NOT_FOUND': 'The room is gone',
+  'lobby.error.FULL': 'Someone is already joining this room',
+  'lobby.error.WRONG_PASSWORD': 'Wrong password',
+  'lobby.error.INVALID': 'The lobby could not read the request',
+
+  'player.anonymous': 'Anonymous',
+  'player.second': 'Player 2',
+  'player.ai': 'AI',
+  'player.guest': 'Guest',
+
+  'profile.defaultName': 'Player',
+  'profile.edit': 'Edit profile',
+  'profile.stats': 'Statistics',
+  'profile.numberedName': 'Player {number}',
+  'profile.add': 'New profile',
+  'profile.confirmRemove': 'Delete the profile "{name}" and all its statistics?',
+  'profile.remove': 'Delete profile',
+
+  'editor.title': 'Puzzle editor',
+  'editor.id': 'Id',
+  'editor.name': 'Title',
+  'editor.description': 'Description / hint',
+  'editor.toMove': 'To move',
+  'editor.p1Color': 'P1 plays',
+  'editor.score': '{slot} score',
+  'editor.turn': 'Turn',
+  'editor.goal.GAIN': 'Make the opponent explode',
+  'editor.goal.SAFE': 'Don\'t explode',
+  'editor.goal.WIN': 'Win the game',
+  'editor.stones': 'stones',
+  'editor.moves': 'moves',
+  'editor.solution': 'Solution, e.g. E1 C3 F3 (leave empty to have the AI play the opponent)',
+  'editor.rulesNote': 'The rules are the ones selected; the board size comes from the board.',
+  'editor.try': 'Try it',
+  'editor.save': 'Save to "{pack}"',
+  'editor.newTitle': 'New puzzle',
+
+  'time.title': 'Time',
+
+  'mode.PVE': 'Vs AI',
+  'mode.PVP': '2 Players',
+  'mode.AIVAI': 'AI vs AI',
+  'mode.ONLINE': 'Online',
+
+  'saves.title': 'Resume a game',
+  'saves.summary': 'Turn {turn} · {score} · P1 plays {color}',
+  'saves.current': 'Playing',
+  'saves.resume': 'Resume',
+  'saves.delete': 'Delete the save',
+  'saves.empty': 'Empty',
+  'saves.note': 'The game in progress is saved after every move. When all slots are taken, a new game replaces the oldest save.',
+  'saves.newGame': 'New game',
+  'saves.positionOnly': 'The save does not match the current rules; only the position was restored (without the move history).',
+  'saves.button': 'Saved games',
+  'saves.buttonActive': 'Saved games (saving to slot {slot})',
+
+  'stats.outcome.WIN': 'Win',
+  'stats.outcome.DRAW': 'Draw',
+  'stats.outcome.LOSS': 'Loss',
+  'stats.streak.WIN': 'Win streak',
+  'stats.streak.DRAW': 'Draw streak',
+  'stats.streak.LOSS': 'Losing streak',
+  'stats.streak.current': 'Current streak',
+  'stats.mode.PVP': 'Two players (same device)',
+  'stats.aiLevel': 'AI: {level}',
+  'stats.aiOpponent': 'AI ({level})',
+  'stats.games': 'Games',
+  'stats.winRate': 'Win rate',
+  'stats.bestStreak': 'Longest win streak',
+  'stats.wins': { one: '{count} win', other: '{count} wins' },
+  'stats.draws': { one: '{count} draw', other: '{count} draws' },
+  'stats.losses': { one: '{count} loss', other: '{count} losses' },
+  'stats.ratingHistory': 'Elo over time ({low}–{high})',
+  'stats.opponent': 'Opponent',
+  'stats.column.games': 'G',
+  'stats.column.wins': 'W',
+  'stats.column.draws': 'D',
+  'stats.column.losses': 'L',
+  'stats.column.score': 'Score',
+  'stats.aiRatings': 'AI ratings',
+  'stats.recent': 'Recent games',
+  'stats.noGames': 'No games yet.',
+
+  'setup.erase': 'Erase',
+  'setup.title': 'Set up a position',
+  'setup.hint': 'Click the board to place or remove stones.',
+  'setup.toMove': 'To move',
+  'setup.p1Color': 'You (P1) play',
+  'setup.turns': 'Turns played',
+  'setup.swapIn': 'Sides swap in: {turns}',
+  'setup.turnCount': { one: '{count} turn', other: '{count} turns' },
+  'setup.clear': 'Clear the board',
+  'setup.fromBoard': 'Take the current position',
+  'setup.onlineNote': 'Online: create a room in the lobby, the guest continues from this position.',
+  'setup.active': 'New games start from the set-up position',
+  'setup.edit': 'Edit',
+  'setup.discard': 'Drop the set-up position',
+
+  'difficulty.EASY': 'Easy (random)',
+  'difficulty.MEDIUM': 'Medium',
+  'difficulty.SUPER_STRONG': 'Very strong (local)',
+  'difficulty.MASTER': 'Master (alpha-beta)',
+
+  'watch.speed.slow': 'Slow',
+  'watch.speed.normal': 'Normal',
+  'watch.speed.fast': 'Fast',
+  'watch.speed.instant': 'Instant',
+  'watch.ai1': 'AI 1',
+  'watch.ai2': 'AI 2',
+  'watch.speed': 'Speed',
+  'watch.newGame': 'Watch a new game',
+  'watch.pause': 'Pause',
+  'watch.play': 'Watch',
+
+  'transport.peerjs': 'PeerJS',
+  'transport.relay': 'WebSocket relay',
+  'transport.loopback': 'In-page (loopback)',
+
+  'slot.ai1': 'AI 1',
+  'slot.ai2': 'AI 2',
+  'slot.you': 'YOU',
+  'slot.opponent': 'OPPONENT',
+  'slot.player1': 'PLAYER 1',
+  'slot.player2': 'PLAYER 2',
+  'slot.ai': 'AI',
+
+  'result.draw': 'DRAW',
+  'result.agreedDraw': 'Draw by agreement',
+  'result.equalStones': 'Equal points and equal stones',
+  'result.knockout': 'Knockout (ahead by {margin} points and reached {score})',
+  'result.higherScore': 'Higher score',
+  'result.timeout': '{loser} ran out of time',
+  'result.abandoned': '{loser} left the game and did not come back',
+  'result.resignation': '{loser} resigned',
+  'result.stoneTiebreak': { one: 'Equal points, but {loser} had {count} more stone left (penalised)', other: 'Equal points, but {loser} had {count} more stones left (penalised)' },
+  'result.title': 'GAME OVER!',
+  'result.winner': 'Winner',
+  'result.analyse': 'Analyse',
+  'result.rematchOffered': 'Your opponent offers a rematch (the other side moves first)',
+  'result.newGame': 'New game',
+  'result.waiting': 'Waiting…',
+
+  'app.title': 'Caro Nổ',
+  'app.language': 'Language',
+  'app.swapEvery': { one: 'Colors swap every turn', other: 'Colors swap every {count} turns' },
+  'app.noSwap': 'Colors never swap',
+  'app.copyManually': 'Could not copy automatically. Copy this link:',
+
+  'score.color': 'Current color',
+  'score.points': 'POINTS',
+
+  'info.turns': 'Turns: {count}',
+  'info.swapIn': 'Swap in: {turns}',
+  'info.yourColor': 'You are playing:',
+  'info.void': 'VOID (moves first)',
+  'info.light': 'LIGHT (moves second)',
+  'info.swapped': 'SIDES SWAPPED! CHECK YOUR COLOR!',
+
+  'hint.loading': 'Thinking…',
+  'hint.button': 'Hint',
+
+  'pvp.unrated': 'Player 2 (unrated)',
+
+  'online.transport': 'Connecting through: {transport}',
+  'online.yourRoom': 'Your room code:',
+  'online.linkCopied': 'Link copied! Send it to a friend.',
+  'online.copyLink': 'Copy link',
+  'online.watchLinkCopiedHint': 'Watch link copied! Spectators can only follow the game, not play.',
+  'online.watchLink': 'Watch link',
+  'online.lobbyOffline': 'The lobby is not connected; send the link to a friend',
+  'online.listedPrivate': 'Your private room is listed in the lobby',
+  'online.listed': 'Your room is listed in the lobby',
+  'online.waiting': 'Waiting for an opponent...',
+  'online.joining': 'Joining room {room}...',
+  'online.reconnecting': 'Your opponent is reconnecting…',
+  'online.graceLeft': { one: 'The game ends in {count} second unless they reconnect', other: 'The game ends in {count} seconds unless they reconnect' },
+  'online.roomCode': 'Room code: {room}',
+  'online.watching': 'Watching live',
+  'online.connected': 'Connected!',
+  'online.youAre': 'You are: {slot} ({role})',
+  'online.host': 'Host',
+  'online.guest': 'Guest',
+  'online.spectators': { one: '{count} spectator', other: '{count} spectators' },
+  'online.watchLinkCopied': 'Watch link copied!',
+  'online.copyWatchLink': 'Copy watch link',
+
+  'howto.title': 'How to play:',
+  'howto.line': 'Make a line of {length}',
+  'howto.exactly': 'exactly {count}',
+  'howto.opponentScores': 'YOUR OPPONENT scores one point per stone',
+  'howto.cleared': 'and the line is cleared.',
+  'howto.swap': { one: 'Colors swap every turn (see the scoreboard icons).', other: 'Colors swap every {count} turns (see the scoreboard icons).' },
+  'howto.knockout': 'Lead by {margin} points and reach {score} → INSTANT WIN.',
+  'howto.tiebreak': 'Equal points → whoever has more stones on the board LOSES.',
+
+  'game.restart': 'Restart',
+
+  'a11y.placed': '{color} {cell}.',
+  'a11y.exploded': { one: '{count} stone exploded.', other: '{count} stones exploded.' },
+  'a11y.points': { one: '{slot} gets {count} point.', other: '{slot} gets {count} points.' },
+  'a11y.swapped': 'Colors swapped: {slot} now plays {color}.',
+  'a11y.won': 'Game over: {winner} wins. {reason}.',
+  'a11y.drawn': 'Game over: draw. {reason}.',
+  'a11y.highContrast': 'High-contrast stones',
+
+  'board.label': '{size}×{size} board',
+  'board.emptyCell': '{cell}, empty',
+  'board.stoneCell': '{cell}, {color} stone',
+  'board.lastMove': 'last move',
+
+  'replay.error.version': 'Replay links of version {version} are not supported',
+  'replay.error.rules': 'The rules in the link are not valid',
+  'replay.error.start': 'The starting position in the link is not valid',
+  'replay.error.moves': 'The move list in the link is not valid',
+  'replay.error.result': 'The result in the link is not valid',
+  'replay.error.illegalMove': 'Move {ply} is illegal: {reason}',
+
+  'replay.speed.slow': 'Slow',
+  'replay.speed.normal': 'Normal',
+  'replay.speed.fast': 'Fast',
+  'replay.title': 'Replay',
+  'replay.close': 'Close the replay',
+  'replay.scrubber': 'Position in the game',
+  'replay.position': 'Move {ply}/{total}',
+  'replay.first': 'To the start',
+  'replay.back': 'Back one move',
+  'replay.pause': 'Pause',
+  'replay.play': 'Play',
+  'replay.forward': 'Forward one move',
+  'replay.last': 'To the end',
+  'replay.speed': 'Speed',
+  'replay.share': 'Copy replay link',
+  'replay.linkCopied': 'Replay link copied! Anyone who opens it can replay this game.',
+  'replay.open': 'Replay the game',
+  'replay.players': '{p1} vs {p2}',
+  'replay.openFailed': 'Could not open the shared game: {reason}',
+
+  'sound.mute': 'Mute',
+  'sound.unmute': 'Unmute',
+  'sound.volume': 'Volume',
+
+  'threat.toggle': 'Show explosion threats',
+  'threat.legend': 'Each badge: how many stones would explode if that color played there, and who would score them. Red cells explode for the side to move, yellow ones for the other side.',
+  'threat.cell': { one: '{color} here explodes {count} stone for {slot}', other: '{color} here explodes {count} stones for {slot}' },
+};
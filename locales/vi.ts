@@ -0,0 +1,533 @@
+// Vietnamese, the reference catalog: every other language has exactly these keys.
+// Vietnamese has no plural forms, so counted messages are plain strings here.
+
+import type { Message } from '../engine/i18n';
+
+export const vi = {
+  'move.gameOver': 'Ván đấu đã kết thúc',
+  'move.offBoard': 'Nước đi ngoài bàn cờ ({r}, {c})',
+  'move.occupied': 'Ô ({r}, {c}) đã có quân',
+
+  'position.size': 'Bàn cờ phải có {size}×{size} ô',
+  'position.badCell': 'Bàn cờ có ô không hợp lệ',
+  'position.badColor': 'Màu quân không hợp lệ',
+  'position.badNumbers': 'Điểm và số lượt phải là số nguyên không âm',
+  'position.unexploded': 'Hàng quân qua {cell} đủ dài để nổ nhưng vẫn còn trên bàn',
+  'position.knockedOut': 'Tỉ số đã đủ để thắng áp đảo, ván đấu đã kết thúc',
+  'position.full': 'Bàn cờ không còn ô trống',
+
+  'puzzle.goal.gain': 'Ép đối thủ nổ ít nhất {points} quân trong {count} nước',
+  'puzzle.goal.safe': 'Đi {count} nước mà không để quân mình nổ',
+  'puzzle.goal.win': 'Thắng ván trong {count} nước',
+  'puzzle.error.positiveInt': '{what} phải là số nguyên dương',
+  'puzzle.error.color': '{what} phải là "X" hoặc "O"',
+  'puzzle.field.goalMoves': 'Số nước của mục tiêu',
+  'puzzle.field.goalPoints': 'Số điểm của mục tiêu',
+  'puzzle.field.toMove': 'Bên đi trước',
+  'puzzle.field.p1Color': 'Màu quân của P1',
+  'puzzle.error.goalType': 'Loại mục tiêu không hợp lệ: "{type}"',
+  'puzzle.error.noBoard': 'Thiếu bàn cờ',
+  'puzzle.error.rowLength': 'Hàng {row} phải có đúng {size} ô',
+  'puzzle.error.mark': 'Hàng {row}: ký hiệu "{mark}" không hợp lệ',
+  'puzzle.error.invalid': 'Câu đố không hợp lệ',
+  'puzzle.error.noId': 'Câu đố thiếu id',
+  'puzzle.error.inPuzzle': 'Câu "{id}": {reason}',
+  'puzzle.error.boardSize': 'Bàn cờ {size}×{size} nằm ngoài giới hạn',
+  'puzzle.error.turn': 'Số lượt phải là số nguyên không âm',
+  'puzzle.error.solutionList': 'Lời giải phải là danh sách nước đi',
+  'puzzle.error.solutionMove': 'Nước đi không hợp lệ "{move}"',
+  'puzzle.error.unsolved': 'Lời giải không đạt mục tiêu',
+  'puzzle.error.illegalMove': 'Lời giải đi {cell}: {reason}',
+  'puzzle.error.format': 'Không phải bộ câu đố Caro Nổ',
+  'puzzle.error.version': 'Phiên bản bộ câu đố không hỗ trợ: {version}',
+  'puzzle.error.noName': 'Bộ câu đố thiếu tên',
+  'puzzle.error.empty': 'Bộ câu đố không có câu nào',
+  'puzzle.error.duplicateId': 'Trùng id câu đố "{id}"',
+  'puzzle.title': 'Câu đố',
+  'puzzle.exportPack': 'Xuất bộ câu đố',
+  'puzzle.export': 'Xuất',
+  'puzzle.confirmRemove': 'Xóa bộ câu đố "{name}"?',
+  'puzzle.removePack': 'Xóa bộ câu đố',
+  'puzzle.attempts': '{count} lần thử',
+  'puzzle.solve': 'Giải',
+  'puzzle.import': 'Nhập bộ câu đố',
+  'puzzle.createFromBoard': 'Tạo từ thế cờ hiện tại',
+  'puzzle.myPack': 'Của tôi',
+  'puzzle.status.SOLVING': 'Đang giải',
+  'puzzle.status.SOLVED': '✓ Đã giải!',
+  'puzzle.status.FAILED': '✗ Chưa đạt mục tiêu',
+  'puzzle.error.builtIn': 'Bộ "{name}" đã có sẵn',
+  'puzzle.importFailed': 'Không thể nhập bộ câu đố: {reason}',
+  'puzzle.draft': 'Bản nháp',
+  'puzzle.scripted': 'Đi đúng theo lời giải; đối thủ trả lời theo đó.',
+  'puzzle.aiReplies': 'Máy ({level}) đóng vai đối thủ.',
+  'puzzle.retry': 'Thử lại',
+  'puzzle.next': 'Câu tiếp',
+  'puzzle.quit': 'Thoát',
+
+  'file.notJson': 'Tệp không phải JSON',
+
+  'record.error.boolean': 'Thẻ {tag} phải là true hoặc false',
+  'record.error.number': 'Thẻ {tag} không phải số: "{value}"',
+  'record.error.ruleRange': 'Giá trị luật {tag} = {value} nằm ngoài giới hạn',
+  'record.error.position': 'Thẻ Position không đọc được: "{value}"',
+  'record.error.start': 'Thế cờ ban đầu không hợp lệ: {reason}',
+  'record.error.tag': 'Dòng {line}: thẻ không hợp lệ "{tag}"',
+  'record.error.empty': 'Biên bản trống',
+  'record.error.mode': 'Chế độ chơi không hợp lệ: "{mode}"',
+  'record.error.difficulty': 'Độ khó không hợp lệ: "{difficulty}"',
+  'record.error.afterResult': 'Có nội dung sau kết quả ván: "{token}"',
+  'record.error.leadingComment': 'Chú thích đứng trước nước đi đầu tiên: "{token}"',
+  'record.error.numbering': 'Số thứ tự nước đi sai: "{token}" (mong đợi {expected}.)',
+  'record.error.cell': 'Nước đi {ply}: không đọc được tọa độ "{token}"',
+  'record.error.illegalMove': 'Nước đi {ply} ({cell}) không hợp lệ: {reason}',
+  'record.noEvents': 'không có sự kiện',
+  'record.error.annotation': 'Nước đi {ply} ({cell}): chú thích {declared} không khớp, thực tế: {actual}',
+  'record.error.noWinner': 'Ván kết thúc do {reason} phải có người thắng',
+  'record.error.termination': 'Kết quả "{result}" mâu thuẫn với cách kết thúc {reason}',
+  'record.error.terminationMismatch': 'Cách kết thúc ghi "{declared}" không khớp với ván đấu ({actual})',
+  'record.error.result': 'Kết quả ghi "{declared}" không khớp với ván đấu ({actual})',
+  'record.error.score': 'Tỉ số ghi "{declared}" không khớp với ván đấu ({actual})',
+  'record.importFailed': 'Không thể nhập biên bản: {reason}',
+  'record.export': 'Xuất biên bản',
+  'record.import': 'Nhập biên bản',
+
+  'net.role.host': 'Chủ phòng',
+  'net.role.guest': 'Khách',
+  'net.role.spectator': 'Khán giả',
+  'net.error': 'Lỗi kết nối: {detail}',
+  'net.roomNotFound': 'Không tìm thấy phòng "{id}"',
+  'net.spectatorLost': 'Mất kết nối với phòng đang xem.',
+  'net.guestAbandoned': 'Khách không quay lại, ván đấu bị hủy.',
+  'net.hostAbandoned': 'Chủ phòng không quay lại, ván đấu bị hủy.',
+  'net.spectatorsFull': 'Phòng đã đủ người xem',
+  'net.roomFull': 'Phòng đã đủ người chơi',
+  'net.rejected': 'Đã từ chối tin nhắn của đối thủ: {reason}',
+  'net.applyFailed': 'không áp dụng được tin nhắn',
+  'net.theyRejected': 'Đối thủ đã từ chối tin nhắn: {reason}',
+  'net.diverged': 'Bàn cờ hai bên không khớp, đang đồng bộ lại…',
+  'net.resynced': 'Đã đồng bộ lại bàn cờ theo chủ phòng.',
+  'net.beforeHandshake': 'Nhận {type} trước khi bắt tay xong',
+  'net.alreadyJoined': 'Đã vào phòng rồi',
+  'net.wrongSlot': 'Khách nhận sai màu quân',
+  'net.wrongPly': 'Nước đi cho lượt {ply}, nhưng ván đang ở lượt {current}',
+  'net.outOfTurn': 'Đối thủ đi khi chưa đến lượt',
+
+  'protocol.error.noRules': 'Thiếu luật chơi',
+  'protocol.error.rules': 'Luật chơi không hợp lệ',
+  'protocol.error.noTimeControls': 'Thiếu thiết lập thời gian',
+  'protocol.error.start': 'Thế cờ ban đầu không hợp lệ',
+  'protocol.error.result': 'Kết quả ván không hợp lệ',
+  'protocol.error.noClock': 'Thiếu trạng thái đồng hồ',
+  'protocol.error.clock': 'Trạng thái đồng hồ không hợp lệ',
+  'protocol.error.offer': 'Lời đề nghị không hợp lệ',
+  'protocol.error.shape': 'Tin nhắn không đúng định dạng',
+  'protocol.error.noSeq': 'Thiếu số thứ tự tin nhắn',
+  'protocol.error.token': 'Mã người chơi không hợp lệ',
+  'protocol.error.roomInfo': 'Thông tin phòng không hợp lệ',
+  'protocol.error.noGuestSlot': 'Thiếu phân màu quân',
+  'protocol.error.move': 'Nước đi không đúng định dạng',
+  'protocol.error.flag': 'Báo hết giờ không hợp lệ',
+  'protocol.error.hash': 'Mã trạng thái không hợp lệ',
+  'protocol.error.noAnswer': 'Thiếu câu trả lời',
+  'protocol.error.emptyChat': 'Tin nhắn trống',
+  'protocol.error.emote': 'Biểu cảm không hợp lệ',
+  'protocol.error.moves': 'Danh sách nước đi không hợp lệ',
+  'protocol.error.version': 'Phiên bản giao thức không khớp (đối thủ: {theirs}, máy này: {ours})',
+  'protocol.error.type': 'Loại tin nhắn lạ: "{type}"',
+  'protocol.error.sender': '{role} không được gửi {type}',
+  'protocol.error.order': 'Tin nhắn #{seq} bị lặp hoặc đến sai thứ tự',
+  'protocol.error.missed': 'Mất {count} tin nhắn trước #{seq}',
+  'protocol.error.syncMove': 'Nước đồng bộ {ply} không hợp lệ: {reason}',
+
+  'tournament.error.tooFew': 'Cần ít nhất 2 người tham gia',
+  'tournament.error.duplicateId': 'Trùng mã người tham gia',
+  'tournament.error.rounds': 'Số vòng phải từ 1 đến {max}',
+  'tournament.error.noGame': 'Không có ván này trong giải',
+  'tournament.error.entrant': 'Người tham gia không hợp lệ',
+  'tournament.error.difficulty': 'Cấp độ máy không hợp lệ: {name}',
+  'tournament.error.kind': 'Loại người tham gia không hợp lệ: {name}',
+  'tournament.error.result': 'Kết quả ván không hợp lệ',
+  'tournament.error.scores': 'Tỉ số ván không hợp lệ',
+  'tournament.error.format': 'Không phải tệp giải đấu',
+  'tournament.error.version': 'Phiên bản tệp giải đấu không hỗ trợ: {version}',
+  'tournament.error.system': 'Thể thức không hợp lệ',
+  'tournament.error.missing': 'Tệp giải đấu thiếu dữ liệu',
+  'tournament.error.entrants': 'Danh sách người tham gia không hợp lệ',
+  'tournament.error.round': 'Vòng đấu không hợp lệ',
+  'tournament.error.stranger': 'Cặp đấu có người không có trong danh sách',
+  'tournament.error.totalRounds': 'Số vòng không hợp lệ',
+  'tournament.csv.rank': 'Hạng',
+  'tournament.csv.name': 'Tên',
+  'tournament.csv.kind': 'Loại',
+  'tournament.csv.played': 'Ván',
+  'tournament.csv.wins': 'Thắng',
+  'tournament.csv.draws': 'Hòa',
+  'tournament.csv.losses': 'Thua',
+  'tournament.csv.points': 'Điểm',
+  'tournament.csv.margin': 'Hiệu số',
+  'tournament.csv.human': 'Người',
+  'tournament.system.ROUND_ROBIN': 'Vòng tròn',
+  'tournament.system.SWISS': 'Hệ Thụy Sĩ',
+  'tournament.aiName': 'Máy {level}',
+  'tournament.namePlaceholder': 'Tên giải',
+  'tournament.rounds': 'Số vòng',
+  'tournament.entrants': 'Người tham gia ({count})',
+  'tournament.addProfile': 'Hồ sơ…',
+  'tournament.addAi': 'Máy…',
+  'tournament.guestPlaceholder': 'Người chơi không có hồ sơ',
+  'tournament.formNote': 'Các ván dùng luật chơi và thời gian đang chọn. Ván của người có hồ sơ được tính Elo.',
+  'tournament.start': 'Bắt đầu giải',
+  'tournament.import': 'Nhập giải (JSON)',
+  'tournament.defaultName': 'Giải đấu',
+  'tournament.new': 'Giải đấu mới',
+  'tournament.summary': '{system} · {count} người · vòng {round}/{total}',
+  'tournament.finished': 'Đã kết thúc',
+  'tournament.round': 'Vòng {round}',
+  'tournament.bye': '{name} được miễn đấu (+1)',
+  'tournament.play': 'Đấu',
+  'tournament.standings': 'Bảng xếp hạng',
+  'tournament.buchholzHint': 'Tổng điểm các đối thủ đã gặp',
+  'tournament.marginHint': 'Hiệu số điểm trong các ván',
+  'tournament.crosstable': 'Bảng chéo',
+  'tournament.exportJson': 'Xuất JSON',
+  'tournament.exportCsv': 'Xuất CSV',
+  'tournament.confirmDiscard': 'Bỏ giải "{name}"? Kết quả chưa xuất sẽ mất.',
+  'tournament.discard': 'Bỏ giải',
+  'tournament.importFailed': 'Không thể nhập giải đấu: {reason}',
+  'tournament.recorded': 'Đã ghi kết quả',
+  'tournament.back': 'Về giải đấu',
+  'tournament.title': 'Giải đấu',
+
+  'clock.preset.NONE': 'Không giới hạn',
+  'clock.preset.SD_5': '5 phút',
+  'clock.preset.SD_10': '10 phút',
+  'clock.preset.FISCHER_3_2': '3 phút + 2 giây/nước',
+  'clock.preset.FISCHER_5_5': '5 phút + 5 giây/nước',
+  'clock.preset.BYO_5_3X30': '5 phút + 3×30 giây',
+  'clock.preset.BYO_1_5X10': '1 phút + 5×10 giây',
+
+  'rules.preset.STANDARD': 'Chuẩn (15×15)',
+  'rules.preset.LONG': 'Ván dài (19×19)',
+  'rules.preset.EXACT_FIVE': 'Chỉ nổ đúng 5',
+  'rules.preset.FAST_SWAP': 'Đổi bên mỗi 10 lượt',
+  'rules.field.boardSize': 'Kích thước bàn',
+  'rules.field.lineLength': 'Độ dài hàng nổ',
+  'rules.field.swapInterval': 'Đổi bên mỗi (0 = không)',
+  'rules.field.knockoutScore': 'Mốc điểm thắng',
+  'rules.field.knockoutMargin': 'Cách biệt tối thiểu',
+  'rules.field.exactLength': 'Chỉ nổ đúng độ dài',
+  'rules.title': 'Luật chơi',
+  'rules.custom': 'Tùy chỉnh',
+
+  'offer.DRAW': 'xin hòa',
+  'offer.TAKEBACK': 'xin đi lại',
+  'offer.REMATCH': 'mời tái đấu',
+  'offer.theirs': 'Đối thủ {offer}',
+  'offer.waiting': 'Bạn đã {offer}, đang chờ đối thủ trả lời…',
+  'offer.accept': 'Đồng ý',
+  'offer.decline': 'Từ chối',
+  'offer.button.DRAW': 'Xin hòa',
+  'offer.button.TAKEBACK': 'Xin đi lại',
+  'offer.button.resign': 'Đầu hàng',
+  'offer.button.REMATCH': 'Tái đấu',
+  'offer.sent': 'Bạn đã {offer}.',
+  'offer.accepted': 'Bạn đã đồng ý lời {offer}.',
+  'offer.declined': 'Bạn đã từ chối lời {offer}.',
+  'offer.received': 'Đối thủ {offer}.',
+  'offer.theyAccepted': 'Đối thủ đã đồng ý lời {offer}.',
+  'offer.theyDeclined': 'Đối thủ đã từ chối lời {offer}.',
+  'offer.confirmResign': 'Bạn chắc chắn muốn đầu hàng?',
+
+  'chat.title': 'Trò chuyện',
+  'chat.empty': 'Chưa có tin nhắn',
+  'chat.me': 'Bạn',
+  'chat.opponent': 'Đối thủ',
+  'chat.placeholder': 'Nhắn cho đối thủ…',
+  'chat.send': 'Gửi',
+  'chat.newGameYouFirst': 'Ván mới: bạn đi trước (VOID).',
+  'chat.newGameTheyFirst': 'Ván mới: đối thủ đi trước (VOID).',
+
+  'analysis.verdict.BEST': 'Tốt nhất',
+  'analysis.verdict.GOOD': 'Tốt',
+  'analysis.verdict.INACCURACY': 'Thiếu chính xác',
+  'analysis.verdict.MISTAKE': 'Sai lầm',
+  'analysis.verdict.BLUNDER': 'Sai lầm nghiêm trọng',
+  'analysis.title': 'Phân tích ván',
+  'analysis.clean': 'Không có sai lầm đáng kể.',
+  'analysis.allowsForced': 'để đối thủ ép nổ',
+  'analysis.best': 'nên đi {cell}',
+  'analysis.start': 'Phân tích ván',
+
+  'moves.swap': 'đổi bên',
+  'moves.title': 'Biên bản ván đấu',
+  'moves.start': 'Bắt đầu',
+  'moves.undo': 'Đi lại',
+  'moves.redo': 'Đi tiếp',
+  'moves.viewing': 'Đang xem nước {ply} — Về hiện tại',
+
+  'lobby.status.CONNECTING': '🟡 Đang kết nối sảnh…',
+  'lobby.status.ONLINE': '🟢 Sảnh chờ',
+  'lobby.status.OFFLINE': '🔴 Không kết nối được sảnh',
+  'lobby.customRules': 'Tùy chỉnh ({size}×{size}, nổ {length})',
+  'lobby.customRulesExact': 'Tùy chỉnh ({size}×{size}, nổ đúng {length})',
+  'lobby.customTime': 'Tùy chỉnh',
+  'lobby.roomCount': '{count} phòng đang chờ',
+  'lobby.yourName': 'Tên của bạn',
+  'lobby.quickMatchHint': 'Vào phòng đang chờ có cùng luật và thời gian, hoặc mở phòng mới nếu chưa có ai',
+  'lobby.quickMatch': 'Ghép Nhanh',
+  'lobby.passwordOptional': 'Mật khẩu (tùy chọn)',
+  'lobby.create': 'Tạo Phòng',
+  'lobby.noRooms': 'Chưa có phòng nào, hãy tạo một phòng!',
+  'lobby.offlineRooms': 'Danh sách phòng sẽ hiện khi kết nối được sảnh.',
+  'lobby.otherTransport': 'Phòng này dùng kết nối {transport}',
+  'lobby.join': 'Vào',
+  'lobby.roomPassword': 'Mật khẩu phòng',
+  'lobby.roomCode': 'Nhập mã phòng',
+  'lobby.watchHint': 'Vào xem, không chơi',
+  'lobby.watch': 'Xem',
+  'lobby.error.NOT_FOUND': 'Phòng không còn nữa',
+  'lobby.error.FULL': 'Phòng đã có người đang vào',
+  'lobby.error.WRONG_PASSWORD': 'Sai mật khẩu',
+  'lobby.error.INVALID': 'Sảnh chờ không đọc được yêu cầu',
+
+  'player.anonymous': 'Ẩn danh',
+  'player.second': 'Người chơi 2',
+  'player.ai': 'Máy',
+  'player.guest': 'Khách',
+
+  'profile.defaultName': 'Người chơi',
+  'profile.edit': 'Sửa hồ sơ',
+  'profile.stats': 'Thống kê',
+  'profile.numberedName': 'Người chơi {number}',
+  'profile.add': 'Hồ sơ mới',
+  'profile.confirmRemove': 'Xóa hồ sơ "{name}" và toàn bộ thống kê?',
+  'profile.remove': 'Xóa hồ sơ',
+
+  'editor.title': 'Soạn câu đố',
+  'editor.id': 'Mã',
+  'editor.name': 'Tên',
+  'editor.description': 'Mô tả / gợi ý',
+  'editor.toMove': 'Đi trước',
+  'editor.p1Color': 'P1 cầm',
+  'editor.score': 'Điểm {slot}',
+  'editor.turn': 'Lượt',
+  'editor.goal.GAIN': 'Ép đối thủ nổ',
+  'editor.goal.SAFE': 'Không để mình nổ',
+  'editor.goal.WIN': 'Thắng ván',
+  'editor.stones': 'quân',
+  'editor.moves': 'nước',
+  'editor.solution': 'Lời giải, ví dụ: E1 C3 F3 (bỏ trống để máy đóng vai đối thủ)',
+  'editor.rulesNote': 'Luật chơi lấy theo luật đang chọn; kích thước bàn lấy theo bàn cờ.',
+  'editor.try': 'Chơi thử',
+  'editor.save': 'Lưu vào bộ "{pack}"',
+  'editor.newTitle': 'Câu đố mới',
+
+  'time.title': 'Thời gian',
+
+  'mode.PVE': 'Vs Máy',
+  'mode.PVP': '2 Người',
+  'mode.AIVAI': 'Máy vs Máy',
+  'mode.ONLINE': 'Online',
+
+  'saves.title': 'Tiếp tục ván trước',
+  'saves.summary': 'Lượt {turn} · {score} · P1 cầm {color}',
+  'saves.current': 'Đang chơi',
+  'saves.resume': 'Tiếp tục',
+  'saves.delete': 'Xóa ván lưu',
+  'saves.empty': 'Trống',
+  'saves.note': 'Ván đang chơi được lưu tự động sau mỗi nước. Khi hết ô trống, ván mới ghi đè ván lưu cũ nhất.',
+  'saves.newGame': 'Ván mới',
+  'saves.positionOnly': 'Ván lưu không khớp luật hiện tại, chỉ khôi phục được thế cờ (không còn lịch sử nước đi).',
+  'saves.button': 'Ván đã lưu',
+  'saves.buttonActive': 'Ván đã lưu (đang lưu vào ô {slot})',
+
+  'stats.outcome.WIN': 'Thắng',
+  'stats.outcome.DRAW': 'Hòa',
+  'stats.outcome.LOSS': 'Thua',
+  'stats.streak.WIN': 'Chuỗi thắng',
+  'stats.streak.DRAW': 'Chuỗi hòa',
+  'stats.streak.LOSS': 'Chuỗi thua',
+  'stats.streak.current': 'Chuỗi hiện tại',
+  'stats.mode.PVP': 'Hai người (cùng máy)',
+  'stats.aiLevel': 'Máy: {level}',
+  'stats.aiOpponent': 'Máy ({level})',
+  'stats.games': 'Số ván',
+  'stats.winRate': 'Tỉ lệ thắng',
+  'stats.bestStreak': 'Chuỗi thắng dài nhất',
+  'stats.wins': '{count} thắng',
+  'stats.draws': '{count} hòa',
+  'stats.losses': '{count} thua',
+  'stats.ratingHistory': 'Elo qua các ván ({low}–{high})',
+  'stats.opponent': 'Đối thủ',
+  'stats.column.games': 'Ván',
+  'stats.column.wins': 'T',
+  'stats.column.draws': 'H',
+  'stats.column.losses': 'B',
+  'stats.column.score': 'Thắng',
+  'stats.aiRatings': 'Elo của máy',
+  'stats.recent': 'Ván gần đây',
+  'stats.noGames': 'Chưa có ván nào.',
+
+  'setup.erase': 'Xóa',
+  'setup.title': 'Dựng thế cờ',
+  'setup.hint': 'Bấm vào bàn cờ để đặt hoặc xóa quân.',
+  'setup.toMove': 'Đến lượt',
+  'setup.p1Color': 'Bạn (P1) cầm',
+  'setup.turns': 'Số lượt đã đi',
+  'setup.swapIn': 'Đổi bên sau: {turns}',
+  'setup.turnCount': '{count} lượt',
+  'setup.clear': 'Xóa bàn',
+  'setup.fromBoard': 'Lấy thế cờ đang chơi',
+  'setup.onlineNote': 'Online: tạo phòng trong sảnh, khách vào sẽ chơi tiếp từ thế cờ này.',
+  'setup.active': 'Ván mới bắt đầu từ thế cờ dựng sẵn',
+  'setup.edit': 'Sửa',
+  'setup.discard': 'Bỏ thế cờ dựng sẵn',
+
+  'difficulty.EASY': 'Dễ (Random)',
+  'difficulty.MEDIUM': 'Trung Bình',
+  'difficulty.SUPER_STRONG': 'Siêu Mạnh (Local)',
+  'difficulty.MASTER': 'Cao Thủ (Alpha-Beta)',
+
+  'watch.speed.slow': 'Chậm',
+  'watch.speed.normal': 'Vừa',
+  'watch.speed.fast': 'Nhanh',
+  'watch.speed.instant': 'Tức thì',
+  'watch.ai1': 'Máy 1',
+  'watch.ai2': 'Máy 2',
+  'watch.speed': 'Tốc độ',
+  'watch.newGame': 'Xem ván mới',
+  'watch.pause': 'Tạm dừng',
+  'watch.play': 'Xem',
+
+  'transport.peerjs': 'PeerJS',
+  'transport.relay': 'Relay WebSocket',
+  'transport.loopback': 'Nội bộ (loopback)',
+
+  'slot.ai1': 'MÁY 1',
+  'slot.ai2': 'MÁY 2',
+  'slot.you': 'BẠN',
+  'slot.opponent': 'ĐỐI THỦ',
+  'slot.player1': 'NGƯỜI CHƠI 1',
+  'slot.player2': 'NGƯỜI CHƠI 2',
+  'slot.ai': 'MÁY',
+
+  'result.draw': 'HÒA',
+  'result.agreedDraw': 'Hai bên đồng ý hòa',
+  'result.equalStones': 'Hòa điểm và bằng số quân',
+  'result.knockout': 'Thắng áp đảo (Hơn {margin} điểm & đạt mốc {score})',
+  'result.higherScore': 'Điểm cao hơn',
+  'result.timeout': '{loser} hết giờ',
+  'result.abandoned': '{loser} đã rời ván và không quay lại',
+  'result.resignation': '{loser} đầu hàng',
+  'result.stoneTiebreak': 'Hòa điểm, nhưng {loser} còn nhiều hơn {count} quân (bị trừ điểm)',
+  'result.title': 'KẾT THÚC!',
+  'result.winner': 'Người Thắng',
+  'result.analyse': 'Phân Tích',
+  'result.rematchOffered': 'Đối thủ mời tái đấu (đổi bên đi trước)',
+  'result.newGame': 'Ván Mới',
+  'result.waiting': 'Đang chờ…',
+
+  'app.title': 'Caro Nổ',
+  'app.language': 'Ngôn ngữ',
+  'app.swapEvery': 'Đổi màu quân mỗi {count} lượt',
+  'app.noSwap': 'Không đổi màu quân',
+  'app.copyManually': 'Không copy tự động được. Hãy tự copy link này:',
+
+  'score.color': 'Màu quân hiện tại',
+  'score.points': 'ĐIỂM',
+
+  'info.turns': 'Tổng lượt: {count}',
+  'info.swapIn': 'Đổi bên sau: {turns}',
+  'info.yourColor': 'Bạn đang cầm quân:',
+  'info.void': 'VOID (Đi trước)',
+  'info.light': 'LIGHT (Đi sau)',
+  'info.swapped': 'ĐÃ ĐỔI BÊN! KIỂM TRA MÀU CỜ!',
+
+  'hint.loading': 'Đang tính…',
+  'hint.button': 'Gợi ý',
+
+  'pvp.unrated': 'Người chơi 2 (không tính Elo)',
+
+  'online.transport': 'Kết nối qua: {transport}',
+  'online.yourRoom': 'Mã phòng của bạn:',
+  'online.linkCopied': 'Đã copy link! Gửi cho bạn bè nhé.',
+  'online.copyLink': 'Copy Link',
+  'online.watchLinkCopiedHint': 'Đã copy link xem! Người xem chỉ theo dõi, không đi được.',
+  'online.watchLink': 'Link Xem',
+  'online.lobbyOffline': 'Sảnh chờ chưa kết nối, hãy gửi link cho bạn bè',
+  'online.listedPrivate': 'Phòng riêng đã hiện ở sảnh chờ',
+  'online.listed': 'Phòng đã hiện ở sảnh chờ',
+  'online.waiting': 'Đang đợi đối thủ...',
+  'online.joining': 'Đang vào phòng {room}...',
+  'online.reconnecting': 'Đối thủ đang kết nối lại…',
+  'online.graceLeft': 'Ván đấu bị hủy sau {count} giây nếu không kết nối lại được',
+  'online.roomCode': 'Mã phòng: {room}',
+  'online.watching': 'Đang xem trực tiếp',
+  'online.connected': 'Đã kết nối!',
+  'online.youAre': 'Bạn là: {slot} ({role})',
+  'online.host': 'Chủ phòng',
+  'online.guest': 'Khách',
+  'online.spectators': '{count} người xem',
+  'online.watchLinkCopied': 'Đã copy link xem!',
+  'online.copyWatchLink': 'Copy link xem',
+
+  'howto.title': 'Cách chơi:',
+  'howto.line': 'Tạo hàng {length}',
+  'howto.exactly': 'đúng {count}',
+  'howto.opponentScores': 'ĐỐI THỦ nhận điểm = số quân',
+  'howto.cleared': 'và xóa cờ.',
+  'howto.swap': 'Đổi màu cờ mỗi {count} lượt (icon ở bảng điểm).',
+  'howto.knockout': 'Hơn {margin} điểm và đạt {score} điểm → THẮNG LUÔN.',
+  'howto.tiebreak': 'Hòa điểm → ai nhiều quân hơn bị TRỪ điểm.',
+
+  'game.restart': 'Chơi Lại',
+
+  'a11y.placed': '{color} {cell}.',
+  'a11y.exploded': '{count} quân nổ.',
+  'a11y.points': '{slot} nhận {count} điểm.',
+  'a11y.swapped': 'Đổi màu quân: {slot} giờ cầm {color}.',
+  'a11y.won': 'Kết thúc: {winner} thắng. {reason}.',
+  'a11y.drawn': 'Kết thúc: hòa. {reason}.',
+  'a11y.highContrast': 'Quân cờ tương phản cao',
+
+  'board.label': 'Bàn cờ {size}×{size}',
+  'board.emptyCell': '{cell}, trống',
+  'board.stoneCell': '{cell}, quân {color}',
+  'board.lastMove': 'nước vừa đi',
+
+  'replay.error.version': 'Liên kết xem lại phiên bản {version} không được hỗ trợ',
+  'replay.error.rules': 'Luật chơi trong liên kết không hợp lệ',
+  'replay.error.start': 'Thế cờ bắt đầu trong liên kết không hợp lệ',
+  'replay.error.moves': 'Danh sách nước đi trong liên kết không hợp lệ',
+  'replay.error.result': 'Kết quả trong liên kết không hợp lệ',
+  'replay.error.illegalMove': 'Nước thứ {ply} không hợp lệ: {reason}',
+
+  'replay.speed.slow': 'Chậm',
+  'replay.speed.normal': 'Vừa',
+  'replay.speed.fast': 'Nhanh',
+  'replay.title': 'Xem lại',
+  'replay.close': 'Đóng trình xem lại',
+  'replay.scrubber': 'Vị trí trong ván',
+  'replay.position': 'Nước {ply}/{total}',
+  'replay.first': 'Về đầu ván',
+  'replay.back': 'Lùi một nước',
+  'replay.pause': 'Tạm dừng',
+  'replay.play': 'Phát',
+  'replay.forward': 'Tiến một nước',
+  'replay.last': 'Về cuối ván',
+  'replay.speed': 'Tốc độ',
+  'replay.share': 'Copy link xem lại',
+  'replay.linkCopied': 'Đã copy link xem lại! Ai mở link cũng xem lại được ván này.',
+  'replay.open': 'Xem lại ván',
+  'replay.players': '{p1} vs {p2}',
+  'replay.openFailed': 'Không thể mở ván được chia sẻ: {reason}',
+
+  'sound.mute': 'Tắt tiếng',
+  'sound.unmute': 'Bật tiếng',
+  'sound.volume': 'Âm lượng',
+
+  'threat.toggle': 'Hiện vùng nổ',
+  'threat.legend': 'Mỗi nhãn: số quân sẽ nổ nếu màu đó đặt vào ô, và ai được điểm. Ô đỏ nổ nếu bên đang đi đặt vào; ô vàng là của bên kia.',
+  'threat.cell': '{color} đặt vào sẽ nổ {count} quân, {slot} được điểm',
+} satisfies Record<string, Message>;
@@ -0,0 +1,59 @@
+// Headless self-play batch runner.
+//
+//   npm run arena -- --a MEDIUM --b SUPER_STRONG --games 20
+//   npm run arena -- --a MASTER --b SUPER_STRONG --games 10 --rules FAST_SWAP --master-ms 300
+//
+// Prints one line per game and a summary from A's point of view.
+
+import { DIFFICULTIES, Difficulty } from '../engine/ai';
+import { END_CONDITIONS, runArena } from '../engine/arena';
+import { RULE_PRESETS } from '../engine/rules';
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && index + 1 < args.length ? args[index + 1] : fallback;
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const difficulty = (name: string, fallback: Difficulty) => {
+  const value = option(name, fallback).toUpperCase() as Difficulty;
+  return DIFFICULTIES.includes(value) ? value : fail(`--${name} must be one of ${DIFFICULTIES.join(', ')}`);
+};
+
+const positiveInt = (name: string, fallback: number) => {
+  const value = Number(option(name, String(fallback)));
+  return Number.isInteger(value) && value > 0 ? value : fail(`--${name} must be a positive integer`);
+};
+
+const presetId = option('rules', 'STANDARD').toUpperCase();
+const preset = RULE_PRESETS.find(p => p.id === presetId)
+  ?? fail(`--rules must be one of ${RULE_PRESETS.map(p => p.id).join(', ')}`);
+
+const first = difficulty('a', 'MEDIUM');
+const second = difficulty('b', 'SUPER_STRONG');
+
+console.log(`A = ${first}, B = ${second}, rules = ${preset.id}`);
+
+const report = runArena({
+  first,
+  second,
+  games: positiveInt('games', 10),
+  rules: preset.rules,
+  masterTimeBudgetMs: positiveInt('master-ms', 500),
+  maxPlies: positiveInt('max-plies', 1000),
+}, game => {
+  const winner = game.result.winner === null ? 'draw' : game.result.winner === game.aPlays ? 'A' : 'B';
+  console.log(`#${game.index} A as ${game.aPlays.toUpperCase()}: ${winner.padEnd(4)} `
+    + `${game.scores.a}-${game.scores.b} in ${game.plies} plies (${game.endCondition})`);
+});
+
+console.log('');
+console.log(`W/D/L (A): ${report.wins}/${report.draws}/${report.losses}`);
+console.log(`Average margin (A - B): ${report.averageMargin.toFixed(1)}`);
+console.log(`Average length: ${report.averageLength.toFixed(1)} plies`);
+console.log(`End conditions: ${END_CONDITIONS.map(end => `${end} ${report.endConditions[end]}`).join(', ')}`);
@@ -0,0 +1,168 @@
+// Lobby and matchmaking server for players on the same network.
+//
+//   npm run lobby                 # ws://0.0.0.0:8788
+//   npm run lobby -- --port 9000
+//   LOBBY_PORT=9000 npm run lobby
+//
+// The game finds it at ws://<page host>:8788 by default, or wherever
+// ?lobby=ws://... (or VITE_LOBBY_URL at build time) points. It only lists
+// waiting rooms and pairs players; the games themselves run over the
+// transport between the two browsers.
+
+import { WebSocket, WebSocketServer } from 'ws';
+import { DEFAULT_LOBBY_PORT, LobbyFromServer, LobbyRoom, LobbySettings, readLobbyMessage } from '../engine/lobbyProtocol';
+import { sameRules } from '../engine/rules';
+import { sameTimeControl } from '../engine/clock';
+
+// How long a room stays hidden after handing its id to a guest. If the host
+// has not reported it filled by then, the guest never made it and the room
+// is listed again.
+const CLAIM_MS = 20_000;
+const SWEEP_MS = 5000;
+const MAX_ROOMS = 500;
+
+const args = process.argv.slice(2);
+const portArg = args.indexOf('--port');
+const port = Number(portArg >= 0 ? args[portArg + 1] : process.env.LOBBY_PORT ?? DEFAULT_LOBBY_PORT);
+if (!Number.isInteger(port) || port <= 0) {
+  console.error('--port must be a positive integer');
+  process.exit(1);
+}
+
+interface Listing extends LobbyRoom {
+  room: string; // the transport room id, only told to guests who get in
+  password: string | null;
+  host: WebSocket;
+  claimedUntil: number; // 0 = free
+}
+
+// listing id -> listing, oldest first
+const listings = new Map<string, Listing>();
+
+const listingId = () => Array.from({ length: 10 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+const post = (socket: WebSocket, message: LobbyFromServer) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const isOpen = (listing: Listing) => listing.claimedUntil === 0;
+
+const roomsMessage = (): LobbyFromServer => ({
+  op: 'rooms',
+  rooms: [...listings.values()].filter(isOpen).map(({ id, hostName, locked, openedAt, rules, timeControls, transport }) =>
+    ({ id, hostName, locked, openedAt, rules, timeControls, transport })),
+});
+
+const publish = () => {
+  const message = roomsMessage();
+  server.clients.forEach(client => post(client, message));
+};
+
+const findHosted = (socket: WebSocket, room: string) =>
+  [...listings.values()].find(listing => listing.host === socket && listing.room === room);
+
+const matches = (listing: Listing, settings: LobbySettings) =>
+  listing.transport === settings.transport
+  && sameRules(listing.rules, settings.rules)
+  && sameTimeControl(listing.timeControls.p1, settings.timeControls.p1)
+  && sameTimeControl(listing.timeControls.p2, settings.timeControls.p2);
+
+// Hands the room to one guest and hides it until that guest is in (or gives up).
+const claim = (socket: WebSocket, req: number, listing: Listing) => {
+  listing.claimedUntil = Date.now() + CLAIM_MS;
+  post(socket, { op: 'joined', req, room: listing.room });
+  publish();
+};
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  post(socket, roomsMessage());
+
+  socket.on('message', (raw) => {
+    const message = readLobbyMessage(String(raw));
+    if (!message) {
+      post(socket, { op: 'error', code: 'INVALID', message: 'Unreadable request' });
+      return;
+    }
+    switch (message.op) {
+      case 'open': {
+        // Reopening the same room (after a reconnect) replaces its listing.
+        const previous = findHosted(socket, message.room);
+        if (previous) listings.delete(previous.id);
+        if (listings.size >= MAX_ROOMS) {
+          post(socket, { op: 'error', code: 'FULL', message: 'The lobby is full' });
+          return;
+        }
+        const id = previous?.id ?? listingId();
+        listings.set(id, {
+          id,
+          hostName: message.hostName,
+          locked: message.password !== null,
+          openedAt: previous?.openedAt ?? Date.now(),
+          ...message.settings,
+          room: message.room,
+          password: message.password,
+          host: socket,
+          claimedUntil: 0,
+        });
+        publish();
+        break;
+      }
+      case 'filled':
+      case 'close': {
+        const listing = findHosted(socket, message.room);
+        if (!listing) return;
+        listings.delete(listing.id);
+        publish();
+        break;
+      }
+      case 'join': {
+        const listing = listings.get(message.id);
+        if (!listing) {
+          post(socket, { op: 'error', req: message.req, code: 'NOT_FOUND', message: 'The room is gone' });
+        } else if (!isOpen(listing)) {
+          post(socket, { op: 'error', req: message.req, code: 'FULL', message: 'Someone is already joining this room' });
+        } else if (listing.password !== null && listing.password !== message.password) {
+          post(socket, { op: 'error', req: message.req, code: 'WRONG_PASSWORD', message: 'Wrong password' });
+        } else {
+          claim(socket, message.req, listing);
+        }
+        break;
+      }
+      case 'quickMatch': {
+        const settings = message.settings;
+        const listing = [...listings.values()].find(candidate =>
+          isOpen(candidate) && !candidate.locked && candidate.host !== socket && matches(candidate, settings));
+        if (listing) claim(socket, message.req, listing);
+        else post(socket, { op: 'noMatch', req: message.req });
+        break;
+      }
+    }
+  });
+
+  // A host that goes away abandons its rooms.
+  socket.on('close', () => {
+    let changed = false;
+    listings.forEach((listing, id) => {
+      if (listing.host !== socket) return;
+      listings.delete(id);
+      changed = true;
+    });
+    if (changed) publish();
+  });
+});
+
+// Claims whose guest never arrived put their room back on the list.
+setInterval(() => {
+  const now = Date.now();
+  let changed = false;
+  listings.forEach(listing => {
+    if (listing.claimedUntil === 0 || listing.claimedUntil > now) return;
+    listing.claimedUntil = 0;
+    changed = true;
+  });
+  if (changed) publish();
+}, SWEEP_MS);
+
+server.on('listening', () => console.log(`Caro Nổ lobby listening on ws://0.0.0.0:${port}`));
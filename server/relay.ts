@@ -0,0 +1,92 @@
+// Self-hostable WebSocket relay for online play without a PeerJS broker.
+//
+//   npm run relay                 # ws://0.0.0.0:8787
+//   npm run relay -- --port 9000
+//   RELAY_PORT=9000 npm run relay
+//
+// Then open the game with ?transport=relay&relay=ws://<host>:<port> (or build
+// it with VITE_TRANSPORT=relay VITE_RELAY_URL=...). The relay only routes
+// messages between a room's host and its connections; all game rules and
+// checks stay in the clients.
+
+import { WebSocket, WebSocketServer } from 'ws';
+import { RelayFromServer, readRelayMessage } from '../engine/relayProtocol';
+
+const args = process.argv.slice(2);
+const portArg = args.indexOf('--port');
+const port = Number(portArg >= 0 ? args[portArg + 1] : process.env.RELAY_PORT ?? 8787);
+if (!Number.isInteger(port) || port <= 0) {
+  console.error('--port must be a positive integer');
+  process.exit(1);
+}
+
+// room id -> the host's socket
+const rooms = new Map<string, WebSocket>();
+// link id -> both ends of one connection
+const links = new Map<string, { host: WebSocket, client: WebSocket }>();
+
+const post = (socket: WebSocket, message: RelayFromServer) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const closeLink = (link: string, from: WebSocket) => {
+  const ends = links.get(link);
+  if (!ends || (ends.host !== from && ends.client !== from)) return;
+  links.delete(link);
+  post(ends.host === from ? ends.client : ends.host, { op: 'close', link });
+};
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  const hosted = new Set<string>();
+  const own = new Set<string>();
+
+  socket.on('message', (raw) => {
+    const message = readRelayMessage(String(raw));
+    if (!message) return;
+    switch (message.op) {
+      case 'listen': {
+        const holder = rooms.get(message.room);
+        if (holder && holder !== socket) {
+          post(socket, { op: 'error', code: 'ROOM_TAKEN', message: `Room "${message.room}" already has a host` });
+          return;
+        }
+        rooms.set(message.room, socket);
+        hosted.add(message.room);
+        post(socket, { op: 'listening', room: message.room });
+        break;
+      }
+      case 'connect': {
+        const host = rooms.get(message.room);
+        if (!host || links.has(message.link)) {
+          post(socket, { op: 'error', code: 'ROOM_NOT_FOUND', message: `Room "${message.room}" not found`, link: message.link });
+          return;
+        }
+        links.set(message.link, { host, client: socket });
+        own.add(message.link);
+        post(host, { op: 'incoming', link: message.link });
+        post(socket, { op: 'open', link: message.link });
+        break;
+      }
+      case 'data': {
+        const ends = links.get(message.link);
+        if (!ends || (ends.host !== socket && ends.client !== socket)) return;
+        post(ends.host === socket ? ends.client : ends.host, { op: 'data', link: message.link, data: message.data });
+        break;
+      }
+      case 'close':
+        closeLink(message.link, socket);
+        break;
+    }
+  });
+
+  // A socket that goes away takes its rooms and every link through them along.
+  socket.on('close', () => {
+    hosted.forEach(room => { if (rooms.get(room) === socket) rooms.delete(room); });
+    own.forEach(link => closeLink(link, socket));
+    links.forEach((ends, link) => { if (ends.host === socket) closeLink(link, socket); });
+  });
+});
+
+server.on('listening', () => console.log(`Caro Nổ relay listening on ws://0.0.0.0:${port}`));